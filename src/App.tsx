@@ -3,6 +3,7 @@ import { useAuth } from './hooks/useAuth';
 import { useTasks } from './hooks/useTasks';
 import { useUsers } from './hooks/useUsers';
 import { useNotifications } from './hooks/useNotifications';
+import { usePinnedAnnouncements } from './hooks/usePinnedAnnouncements';
 import { AuthPage } from './pages/AuthPage';
 import { LoadingScreen } from './components/LoadingScreen';
 import { Navigation } from './components/Navigation';
@@ -60,6 +61,9 @@ export default function App() {
     createTask, 
     updateTask, 
     deleteTask,
+    bulkUpdateTasks,
+    bulkDeleteTasks,
+    duplicateTasks,
     refreshTasks,
   } = useTasks(user?.id);
   
@@ -83,10 +87,14 @@ export default function App() {
   const { 
     notifications, 
     unreadCount,
+    loading: notificationsLoading,
+    hasMore: hasMoreNotifications,
+    loadMore: loadMoreNotifications,
     markAsRead, 
     markAllAsRead, 
     clearNotification 
-  } = useNotifications(user?.id);
+  } = useNotifications(user?.id, user?.sectionId);
+  const { pinnedAnnouncements } = usePinnedAnnouncements(user);
   
   const [activePage, setActivePage] = useState<NavPage>('home');
   const [showNotifications, setShowNotifications] = useState(false);
@@ -252,7 +260,7 @@ export default function App() {
       case 'search':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <SearchPage tasks={tasks || []} />
+            <SearchPage tasks={tasks || []} onNavigate={setActivePage} />
           </Suspense>
         );
       case 'notifications':
@@ -260,16 +268,21 @@ export default function App() {
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
             <NotificationsPage
               notifications={notifications}
+              pinnedAnnouncements={pinnedAnnouncements}
+              unreadCount={unreadCount}
+              hasMore={hasMoreNotifications}
+              loading={notificationsLoading}
               onMarkAsRead={markAsRead}
               onMarkAllAsRead={markAllAsRead}
               onClear={clearNotification}
+              onLoadMore={loadMoreNotifications}
             />
           </Suspense>
         );
       case 'courses':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <CoursePage />
+            <CoursePage sectionId={user?.sectionId} />
           </Suspense>
         );
       case 'study-materials':
@@ -281,7 +294,7 @@ export default function App() {
       case 'routine':
         return (
           <Suspense fallback={<LoadingScreen minimumLoadTime={300} />}>
-            <RoutinePage />
+            <RoutinePage sectionId={user?.sectionId} />
           </Suspense>
         );
       default:
@@ -353,6 +366,9 @@ export default function App() {
           onCreateTask={handleCreateTask}
           onDeleteTask={handleDeleteTask}
           onUpdateTask={handleUpdateTask}
+          onBulkUpdateTasks={bulkUpdateTasks}
+          onBulkDeleteTasks={bulkDeleteTasks}
+          onDuplicateTasks={duplicateTasks}
           isSectionAdmin={false}
           sectionId={undefined}
           sectionName={undefined}
@@ -373,6 +389,9 @@ export default function App() {
           onCreateTask={handleCreateTask}
           onDeleteTask={handleDeleteTask}
           onUpdateTask={handleUpdateTask}
+          onBulkUpdateTasks={bulkUpdateTasks}
+          onBulkDeleteTasks={bulkDeleteTasks}
+          onDuplicateTasks={duplicateTasks}
           isSectionAdmin={true}
           sectionId={user.sectionId}
           sectionName={user.sectionName}
@@ -401,10 +420,15 @@ export default function App() {
       {showNotifications && (
         <NotificationPanel
           notifications={notifications}
+          pinnedAnnouncements={pinnedAnnouncements}
+          unreadCount={unreadCount}
+          hasMore={hasMoreNotifications}
+          loading={notificationsLoading}
           onClose={() => setShowNotifications(false)}
           onMarkAsRead={markAsRead}
           onMarkAllAsRead={markAllAsRead}
           onClear={clearNotification}
+          onLoadMore={loadMoreNotifications}
         />
       )}
       
@@ -0,0 +1,63 @@
+import { useMemo, useState } from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { renderMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  content: string | null | undefined;
+  className?: string;
+}
+
+/**
+ * Displays a task description or announcement written in Markdown.
+ * The HTML is sanitized in `renderMarkdown` before it is injected.
+ */
+export function MarkdownContent({ content, className = '' }: MarkdownContentProps) {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  return (
+    <div
+      className={`markdown-content ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
+
+interface MarkdownPreviewProps {
+  content: string;
+}
+
+/**
+ * Preview toggle shown under Markdown textareas; updates while typing
+ */
+export function MarkdownPreview({ content }: MarkdownPreviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+        <span>Markdown supported: **bold**, lists, `code`, tables</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen(prev => !prev)}
+          className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+          {isOpen ? 'Hide preview' : 'Preview'}
+        </button>
+      </div>
+      {isOpen && (
+        content.trim() ? (
+          <MarkdownContent
+            content={content}
+            className="mt-2 p-3 border border-gray-200 dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-700 dark:text-gray-200"
+          />
+        ) : (
+          <p className="mt-2 p-3 border border-dashed border-gray-200 dark:border-gray-600 rounded-xl text-sm text-gray-400">
+            Nothing to preview yet
+          </p>
+        )
+      )}
+    </div>
+  );
+}
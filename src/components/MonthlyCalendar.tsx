@@ -3,6 +3,7 @@ import type { KeyboardEvent } from 'react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isToday, parseISO, addMonths, getDay, getYear, setYear } from 'date-fns';
 import { motion, AnimatePresence, useReducedMotion } from 'framer-motion';
 import type { Task } from '../types/task';
+import { formatDueCountdown, formatDueTime, getTaskDueState, hasDueTime } from '../utils/taskDeadline';
 
 // Pre-defined animation variants for better performance
 const overlayAnimationVariants = {
@@ -57,6 +58,8 @@ interface TaskSummary {
   total: number;
   completed: number;
   overdue: number;
+  // Due within a day; also counted in inProgress
+  dueSoon: number;
   inProgress: number;
 }
 
@@ -76,6 +79,21 @@ interface CalendarDay {
   isSelected: boolean;
 }
 
+// Optimized date utilities; outside the component so hooks can rely on it
+const isSameDayOptimized = (date1: Date, date2: Date): boolean => {
+  try {
+    // Ensure we normalize both dates to handle any time/timezone differences
+    return (
+      date1.getFullYear() === date2.getFullYear() &&
+      date1.getMonth() === date2.getMonth() &&
+      date1.getDate() === date2.getDate()
+    );
+  } catch (error) {
+    console.error('Error comparing dates:', error);
+    return false;
+  }
+};
+
 // Wrap the component with memo to optimize renders
 const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, tasks }: MonthlyCalendarProps) => {
   const preferReducedMotion = useReducedMotion();
@@ -100,21 +118,6 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
   // Use useRef for caching to avoid re-renders
   const taskSummaryCacheRef = useRef<Map<string, TaskSummary>>(new Map());
 
-  // Optimized date utilities
-  const isSameDayOptimized = (date1: Date, date2: Date): boolean => {
-    try {
-      // Ensure we normalize both dates to handle any time/timezone differences
-      return (
-        date1.getFullYear() === date2.getFullYear() &&
-        date1.getMonth() === date2.getMonth() &&
-        date1.getDate() === date2.getDate()
-      );
-    } catch (error) {
-      console.error('Error comparing dates:', error);
-      return false;
-    }
-  };
-
   // Generate a consistent date key for maps and lookups
   const generateDateKey = useCallback((date: Date): string => {
     try {
@@ -271,11 +274,11 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
 
   // Get tasks summary for a specific date - optimized with the task map
   const getTaskSummary = useCallback((date: Date | null): TaskSummary => {
-    if (!date) return { total: 0, completed: 0, overdue: 0, inProgress: 0 };
+    if (!date) return { total: 0, completed: 0, overdue: 0, dueSoon: 0, inProgress: 0 };
     
     // Quick return if no tasks for better performance
     if (!tasksByDate.size) {
-      return { total: 0, completed: 0, overdue: 0, inProgress: 0 };
+      return { total: 0, completed: 0, overdue: 0, dueSoon: 0, inProgress: 0 };
     }
     
     // Get tasks for this date from the map (much faster lookup)
@@ -284,7 +287,7 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
     
     // Fast early return if no tasks for this date
     if (!dayTasks || dayTasks.length === 0) {
-      return { total: 0, completed: 0, overdue: 0, inProgress: 0 };
+      return { total: 0, completed: 0, overdue: 0, dueSoon: 0, inProgress: 0 };
     }
 
     // Optimize counting by using pre-cached values if available
@@ -296,9 +299,9 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
     // Count in a single loop with optimized checks
     let completed = 0;
     let overdue = 0;
+    let dueSoon = 0;
     let inProgress = 0;
     const now = new Date();
-    const nowTime = now.getTime();
     const taskCount = dayTasks.length;
     
     for (let i = 0; i < taskCount; i++) {
@@ -308,16 +311,13 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
         continue; // Skip date comparison for completed tasks
       }
       
-      try {
-        // Use timestamp comparison instead of date object comparison
-        const taskDueDate = new Date(task.dueDate);
-        if (taskDueDate.getTime() < nowTime) {
-          overdue++;
-        } else {
-          inProgress++;
-        }
-      } catch {
-        inProgress++; // Default to in-progress on error
+      // Compared against the task's exact deadline, not the start of its day
+      const dueState = getTaskDueState(task, now);
+      if (dueState === 'late' || dueState === 'overdue') {
+        overdue++;
+      } else {
+        inProgress++;
+        if (dueState === 'due-soon') dueSoon++;
       }
     }
 
@@ -325,6 +325,7 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
       total: taskCount,
       completed,
       overdue,
+      dueSoon,
       inProgress
     };
     
@@ -363,7 +364,7 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
     }
     
     return result;
-  }, [tasksByDate, tasks, isSameDayOptimized, generateDateKey]);
+  }, [tasksByDate, tasks, generateDateKey]);
 
   // Month navigation handlers
   const handlePrevMonth = useCallback(() => {
@@ -661,7 +662,7 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
       });
     }
     onSelectDate(today);
-  }, [onSelectDate, calendarDays, isSameDayOptimized]);
+  }, [onSelectDate, calendarDays]);
 
   // Format task name for display in tooltip
   const formatTaskName = useCallback((name: string): string => {
@@ -750,7 +751,15 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
                   </span>
                   <span className="text-[10px] sm:text-xs text-gray-500 leading-tight">
                     {formatCategoryName(task.category)}
+                    {hasDueTime(task) && ` · ${formatDueTime(task)}`}
                   </span>
+                  {task.status !== 'completed' && getTaskDueState(task) !== 'upcoming' && (
+                    <span className={`text-[10px] sm:text-xs font-medium leading-tight ${
+                      getTaskDueState(task) === 'due-soon' ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400'
+                    }`}>
+                      {formatDueCountdown(task)}
+                    </span>
+                  )}
                 </div>
               </li>
             );
@@ -864,6 +873,10 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
                 <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full bg-red-500"></div>
                 <span>Overdue</span>
               </div>
+              <div className="flex items-center gap-1">
+                <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full bg-amber-500"></div>
+                <span>Due Soon</span>
+              </div>
               <div className="flex items-center gap-1">
                 <div className="w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full bg-blue-500"></div>
                 <span>In Progress</span>
@@ -1073,7 +1086,10 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
                                 {summary.overdue > 0 && (
                                   <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full bg-red-500"></div>
                                 )}
-                                {summary.inProgress > 0 && (
+                                {summary.dueSoon > 0 && (
+                                  <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full bg-amber-500"></div>
+                                )}
+                                {summary.inProgress > summary.dueSoon && (
                                   <div className="w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full bg-blue-500"></div>
                                 )}
                               </div>
@@ -1131,6 +1147,7 @@ const MonthlyCalendarBase = ({ isOpen, onClose, selectedDate, onSelectDate, task
 };
 
 // Export the memoized component to prevent unnecessary re-renders
+
 export const MonthlyCalendar = memo(MonthlyCalendarBase);
 
 // Default export for lazy loading
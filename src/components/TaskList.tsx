@@ -1,6 +1,7 @@
 import { Task } from '../types';
 import { WifiOff } from 'lucide-react';
 import { isOverdue } from '../utils/dateUtils';
+import { getTaskDeadline } from '../utils/taskDeadline';
 import { useState, useMemo, memo, useCallback } from 'react';
 import { TaskDetailsPopup } from './task/TaskDetailsPopup';
 import { useOfflineStatus } from '../hooks/useOfflineStatus';
@@ -30,13 +31,13 @@ export const TaskList = memo(({ tasks = [], onDeleteTask, showDeleteButton = fal
       if (a.status !== 'completed' && b.status === 'completed') return -1;
 
       // For non-completed tasks, prioritize overdue tasks
-      const aIsOverdue = isOverdue(a.dueDate);
-      const bIsOverdue = isOverdue(b.dueDate);
+      const aIsOverdue = isOverdue(a);
+      const bIsOverdue = isOverdue(b);
       if (aIsOverdue && !bIsOverdue) return -1;
       if (!aIsOverdue && bIsOverdue) return 1;
 
-      // Otherwise, sort by due date (earlier dates first)
-      return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+      // Otherwise, sort by deadline (earliest first)
+      return getTaskDeadline(a).getTime() - getTaskDeadline(b).getTime();
     });
   }, [tasks]);
 
@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { TaskForm } from './task/TaskForm';
 import { TaskTable } from './task/TaskTable';
+import { TaskBulkActions, TaskBulkResultPanel } from './task/TaskBulkActions';
+import { TaskTemplateManager } from './task/TaskTemplateManager';
 import { 
   Plus, 
   ChevronUp, 
@@ -12,17 +14,16 @@ import {
   Search,
   X,
   Loader2,
-  CheckSquare,
-  Trash2,
   RotateCcw,
   List,
   LayoutGrid,
   ChevronLeft,
   ChevronRight,
-  RefreshCw
+  RefreshCw,
+  Repeat
 } from 'lucide-react';
 import type { Task } from '../../types';
-import type { NewTask, TaskStatus } from '../../types/task';
+import type { NewTask, TaskStatus, TaskBulkChanges, TaskBulkResult } from '../../types/task';
 import { showErrorToast, showSuccessToast } from '../../utils/notifications';
 
 interface TaskManagerProps {
@@ -30,6 +31,9 @@ interface TaskManagerProps {
   onCreateTask: (task: NewTask, sectionId?: string) => void;
   onDeleteTask: (taskId: string) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onBulkUpdateTasks: (taskIds: string[], changes: TaskBulkChanges) => Promise<TaskBulkResult>;
+  onBulkDeleteTasks: (taskIds: string[]) => Promise<TaskBulkResult>;
+  onDuplicateTasks: (taskIds: string[], sectionIds: string[]) => Promise<TaskBulkResult>;
   showTaskForm?: boolean;
   sectionId?: string;
   isSectionAdmin?: boolean;
@@ -59,6 +63,9 @@ export function TaskManager({
   onCreateTask, 
   onDeleteTask, 
   onUpdateTask,
+  onBulkUpdateTasks,
+  onBulkDeleteTasks,
+  onDuplicateTasks,
   showTaskForm: initialShowTaskForm = false,
   sectionId,
   isSectionAdmin = false,
@@ -70,6 +77,7 @@ export function TaskManager({
   // Main UI state - consolidated for better performance
   const [showTaskForm, setShowTaskForm] = useState(true);
   const [showFilters, setShowFilters] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [viewMode, setViewMode] = useState<'table' | 'grid'>('table');
   
   // Consolidated filter state
@@ -90,6 +98,7 @@ export function TaskManager({
   // Bulk operations
   const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
   const [isProcessingBulk, setIsProcessingBulk] = useState(false);
+  const [bulkResult, setBulkResult] = useState<{ label: string; result: TaskBulkResult } | null>(null);
   
   // Local state for optimistic UI updates
   const [localTasks, setLocalTasks] = useState<Task[]>(tasks);
@@ -333,38 +342,44 @@ export function TaskManager({
     }
   }, [onUpdateTask, tasks]);
   
-  // Handle bulk task deletion - optimized with proper error handling
-  const handleBulkDelete = async () => {
+  // Run a server-side bulk action on the selection. Tasks that were
+  // skipped stay selected so they can be fixed and retried.
+  const runBulkAction = async (
+    label: string,
+    action: (taskIds: string[]) => Promise<TaskBulkResult>
+  ) => {
     if (!selectedTaskIds.length) return;
-    
+
+    setIsProcessingBulk(true);
     try {
-      setIsProcessingBulk(true);
-      
-      // Optimistically remove tasks from local state
-      setLocalTasks(prev => prev.filter(t => !selectedTaskIds.includes(t.id)));
-      
-      // Process in smaller batches for better mobile performance
-      const chunkSize = window.innerWidth < 768 ? 3 : 5;
-      const chunks = [];
-      for (let i = 0; i < selectedTaskIds.length; i += chunkSize) {
-        chunks.push(selectedTaskIds.slice(i, i + chunkSize));
-      }
-      
-      for (const chunk of chunks) {
-        await Promise.all(chunk.map(id => onDeleteTask(id)));
+      const result = await action(selectedTaskIds);
+      const skippedIds = Array.from(new Set(
+        result.errors.filter(error => !error.isWarning).map(error => error.taskId)
+      ));
+
+      setBulkResult({ label, result });
+      setSelectedTaskIds(skippedIds);
+
+      if (skippedIds.length > 0) {
+        showErrorToast(`${skippedIds.length} ${skippedIds.length === 1 ? 'task was' : 'tasks were'} skipped`);
+      } else {
+        showSuccessToast(`${label} ${result.success} ${result.success === 1 ? 'task' : 'tasks'}`);
       }
-      
-      showSuccessToast(`${selectedTaskIds.length} tasks deleted successfully`);
-      setSelectedTaskIds([]);
     } catch (error: any) {
-      showErrorToast(`Error deleting tasks: ${error.message}`);
-      
-      // Refresh tasks to restore state on error
-      setLocalTasks(tasks);
+      showErrorToast(`Bulk action failed: ${error.message}`);
     } finally {
       setIsProcessingBulk(false);
     }
   };
+
+  const handleBulkUpdate = (changes: TaskBulkChanges) =>
+    runBulkAction(changes.sectionId ? 'Moved' : 'Updated', taskIds => onBulkUpdateTasks(taskIds, changes));
+
+  const handleBulkDelete = () =>
+    runBulkAction('Deleted', onBulkDeleteTasks);
+
+  const handleBulkDuplicate = (sectionIds: string[]) =>
+    runBulkAction('Created', taskIds => onDuplicateTasks(taskIds, sectionIds));
   
   // Handle bulk task status update - optimized
   const handleBulkStatusUpdate = async (status: TaskStatus) => {
@@ -505,6 +520,10 @@ export function TaskManager({
         </div>
       )}
 
+      {showTemplates && (
+        <TaskTemplateManager sectionId={isSectionAdmin ? sectionId : undefined} />
+      )}
+
       {/* Task Table Section */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm">
         {/* Enhanced Control Section - improved responsiveness */}
@@ -548,6 +567,21 @@ export function TaskManager({
                 <Filter className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1" />
                 <span className="hidden xs:inline">Filters</span>
               </button>
+
+              <button
+                className={`
+                  inline-flex items-center justify-center px-3 sm:px-4 py-1.5 sm:py-2 text-sm font-medium rounded-lg transition-colors duration-200
+                  ${showTemplates
+                    ? 'bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                  }
+                `}
+                onClick={() => setShowTemplates(!showTemplates)}
+                title="Recurring tasks"
+              >
+                <Repeat className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1" />
+                <span className="hidden xs:inline">Recurring</span>
+              </button>
           
               {/* View Toggle - more compact on mobile */}
               <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
@@ -706,46 +740,24 @@ export function TaskManager({
       
       {/* Bulk Actions - responsive layout */}
       {selectedTaskIds.length > 0 && (
-        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-2 sm:p-3 flex flex-wrap items-center justify-between gap-2 sm:gap-3">
-          <div className="flex items-center">
-            <span className="text-xs sm:text-sm font-medium text-blue-700 dark:text-blue-300">
-              {selectedTaskIds.length} {selectedTaskIds.length === 1 ? 'task' : 'tasks'} selected
-            </span>
-          </div>
-          <div className="flex flex-wrap items-center gap-1 sm:gap-2">
-            <button
-              onClick={() => handleBulkStatusUpdate('completed')}
-              disabled={isProcessingBulk}
-              className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed flex items-center gap-1"
-            >
-              <CheckSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
-              <span className="hidden xs:inline">Complete</span>
-            </button>
-            <button
-              onClick={() => handleBulkStatusUpdate('in-progress')}
-              disabled={isProcessingBulk}
-              className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:bg-yellow-300 disabled:cursor-not-allowed flex items-center gap-1"
-            >
-              <CheckSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
-              <span className="hidden xs:inline">Progress</span>
-            </button>
-            <button
-              onClick={handleBulkDelete}
-              disabled={isProcessingBulk}
-              className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed flex items-center gap-1"
-            >
-              <Trash2 className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
-              <span className="hidden xs:inline">Delete</span>
-            </button>
-            <button
-              onClick={() => setSelectedTaskIds([])}
-              disabled={isProcessingBulk}
-              className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
-            >
-              Cancel
-            </button>
-          </div>
-        </div>
+        <TaskBulkActions
+          selectedCount={selectedTaskIds.length}
+          isProcessing={isProcessingBulk}
+          onStatusChange={handleBulkStatusUpdate}
+          onBulkUpdate={handleBulkUpdate}
+          onBulkDelete={handleBulkDelete}
+          onDuplicate={handleBulkDuplicate}
+          onClearSelection={() => setSelectedTaskIds([])}
+        />
+      )}
+
+      {bulkResult && (
+        <TaskBulkResultPanel
+          label={bulkResult.label}
+          result={bulkResult.result}
+          tasks={localTasks}
+          onDismiss={() => setBulkResult(null)}
+        />
       )}
       
       {/* Loading state & task table - improved responsiveness */}
@@ -1,29 +1,115 @@
-import { useState } from 'react';
-import { Send, Megaphone } from 'lucide-react';
-import type { NewAnnouncement } from '../../../types/announcement';
+import { useState, useEffect } from 'react';
+import { Send, Megaphone, Pin, Clock } from 'lucide-react';
+import { MarkdownPreview } from '../../MarkdownContent';
+import { getDepartments, getBatchesByDepartment, getSectionsByBatch } from '../../../services/department.service';
+import type { NewAnnouncement, AnnouncementScope } from '../../../types/announcement';
+import type { Department, Batch, Section } from '../../../types/auth';
 
 interface AnnouncementFormProps {
   onSubmit: (announcement: NewAnnouncement) => Promise<void>;
+  // Section admins can only announce to their own section
+  lockedSectionId?: string;
 }
 
-export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
-  const [announcement, setAnnouncement] = useState<NewAnnouncement>({
-    title: '',
-    content: ''
-  });
+const SCOPE_OPTIONS: { value: AnnouncementScope; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'department', label: 'Department' },
+  { value: 'batch', label: 'Batch' },
+  { value: 'section', label: 'Section' }
+];
+
+const EMPTY_ANNOUNCEMENT = { title: '', content: '' };
+
+const inputClassName = 'w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors';
+
+// datetime-local values are in local time; the database stores UTC
+const toIsoString = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export function AnnouncementForm({ onSubmit, lockedSectionId }: AnnouncementFormProps) {
+  const [announcement, setAnnouncement] = useState<NewAnnouncement>(EMPTY_ANNOUNCEMENT);
+  const [scope, setScope] = useState<AnnouncementScope>(lockedSectionId ? 'section' : 'everyone');
+  const [departmentId, setDepartmentId] = useState('');
+  const [batchId, setBatchId] = useState('');
+  const [sectionId, setSectionId] = useState('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [isPinned, setIsPinned] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  useEffect(() => {
+    if (lockedSectionId) return;
+    getDepartments().then(setDepartments).catch(() => setDepartments([]));
+  }, [lockedSectionId]);
+
+  useEffect(() => {
+    setBatchId('');
+    setBatches([]);
+    if (!departmentId) return;
+    getBatchesByDepartment(departmentId).then(setBatches).catch(() => setBatches([]));
+  }, [departmentId]);
+
+  useEffect(() => {
+    setSectionId('');
+    setSections([]);
+    if (!batchId) return;
+    getSectionsByBatch(batchId).then(setSections).catch(() => setSections([]));
+  }, [batchId]);
+
+  const audience = lockedSectionId
+    ? { sectionId: lockedSectionId }
+    : {
+        departmentId: scope === 'department' ? departmentId : undefined,
+        batchId: scope === 'batch' ? batchId : undefined,
+        sectionId: scope === 'section' ? sectionId : undefined
+      };
+
+  const isAudienceComplete = lockedSectionId || scope === 'everyone' || Boolean(
+    (scope === 'department' && departmentId) ||
+    (scope === 'batch' && batchId) ||
+    (scope === 'section' && sectionId)
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setFormError(null);
+
+    if (!isAudienceComplete) {
+      setFormError(`Choose the ${scope} to send this announcement to`);
+      return;
+    }
+    if (publishAt && expiresAt && new Date(expiresAt) <= new Date(publishAt)) {
+      setFormError('The expiry time has to be after the publish time');
+      return;
+    }
+    if (expiresAt && new Date(expiresAt) <= new Date()) {
+      setFormError('The expiry time has to be in the future');
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await onSubmit(announcement);
-      setAnnouncement({ title: '', content: '' });
+      await onSubmit({
+        ...announcement,
+        ...audience,
+        isPinned,
+        publishAt: toIsoString(publishAt),
+        expiresAt: toIsoString(expiresAt) || null
+      });
+      setAnnouncement(EMPTY_ANNOUNCEMENT);
+      setIsPinned(false);
+      setPublishAt('');
+      setExpiresAt('');
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const isScheduled = Boolean(publishAt) && new Date(publishAt) > new Date();
+
   return (
     <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6">
       <div className="flex items-center gap-3 mb-6">
@@ -33,7 +119,7 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
         <div>
           <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Create Announcement</h2>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-            Send important updates to all users
+            {lockedSectionId ? 'Send important updates to your section' : 'Send important updates to a department, batch or section'}
           </p>
         </div>
       </div>
@@ -47,7 +133,7 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
             type="text"
             value={announcement.title}
             onChange={(e) => setAnnouncement(prev => ({ ...prev, title: e.target.value }))}
-            className="w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors"
+            className={inputClassName}
             placeholder="Enter announcement title"
             required
           />
@@ -60,12 +146,119 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
           <textarea
             value={announcement.content}
             onChange={(e) => setAnnouncement(prev => ({ ...prev, content: e.target.value }))}
-            className="w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white h-32 resize-none transition-colors"
+            className={`${inputClassName} h-32 resize-none`}
             placeholder="Enter announcement content"
             required
           />
+          <MarkdownPreview content={announcement.content} />
+        </div>
+
+        {!lockedSectionId && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Audience
+            </label>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {SCOPE_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setScope(option.value)}
+                  aria-pressed={scope === option.value}
+                  className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+                    scope === option.value
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {scope !== 'everyone' && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <select
+                  value={departmentId}
+                  onChange={(e) => setDepartmentId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">Select department</option>
+                  {departments.map(department => (
+                    <option key={department.id} value={department.id}>{department.name}</option>
+                  ))}
+                </select>
+                {scope !== 'department' && (
+                  <select
+                    value={batchId}
+                    onChange={(e) => setBatchId(e.target.value)}
+                    disabled={!departmentId}
+                    className={`${inputClassName} disabled:opacity-50`}
+                  >
+                    <option value="">Select batch</option>
+                    {batches.map(batch => (
+                      <option key={batch.id} value={batch.id}>{batch.name}</option>
+                    ))}
+                  </select>
+                )}
+                {scope === 'section' && (
+                  <select
+                    value={sectionId}
+                    onChange={(e) => setSectionId(e.target.value)}
+                    disabled={!batchId}
+                    className={`${inputClassName} disabled:opacity-50`}
+                  >
+                    <option value="">Select section</option>
+                    {sections.map(section => (
+                      <option key={section.id} value={section.id}>{section.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Publish at <span className="font-normal text-gray-400">(optional)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={publishAt}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              Expires at <span className="font-normal text-gray-400">(optional)</span>
+            </label>
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
         </div>
 
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isPinned}
+            onChange={(e) => setIsPinned(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <Pin className="w-4 h-4" />
+          Pin to the top of the feed
+        </label>
+
+        {formError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+        )}
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -78,10 +271,10 @@ export function AnnouncementForm({ onSubmit }: AnnouncementFormProps) {
             transition-colors duration-200 shadow-sm hover:shadow-md
           `}
         >
-          <Send className="w-4 h-4" />
-          {isSubmitting ? 'Sending...' : 'Send Announcement'}
+          {isScheduled ? <Clock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+          {isSubmitting ? 'Sending...' : isScheduled ? 'Schedule Announcement' : 'Send Announcement'}
         </button>
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
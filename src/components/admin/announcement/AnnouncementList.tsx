@@ -1,13 +1,46 @@
-import { Megaphone, Trash2, Calendar } from 'lucide-react';
-import type { Announcement } from '../../../types/announcement';
-import { parseLinks } from '../../../utils/linkParser';
+import { Megaphone, Trash2, Calendar, Pin, PinOff, Users, Clock } from 'lucide-react';
+import type { Announcement, AnnouncementScope } from '../../../types/announcement';
+import { getAnnouncementScope } from '../../../services/announcement.service';
+import { MarkdownContent } from '../../MarkdownContent';
 
 interface AnnouncementListProps {
   announcements: Announcement[];
   onDelete: (id: string) => Promise<void>;
+  onTogglePin?: (id: string) => Promise<void>;
 }
 
-export function AnnouncementList({ announcements, onDelete }: AnnouncementListProps) {
+const SCOPE_LABELS: Record<AnnouncementScope, string> = {
+  everyone: 'Everyone',
+  department: 'Department',
+  batch: 'Batch',
+  section: 'Section'
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+function getDeliveryStatus(announcement: Announcement, now: Date) {
+  if (new Date(announcement.publishAt) > now) {
+    return { label: `Scheduled for ${formatDateTime(announcement.publishAt)}`, className: 'text-amber-600 dark:text-amber-400' };
+  }
+  if (announcement.expiresAt && new Date(announcement.expiresAt) <= now) {
+    return { label: 'Expired', className: 'text-gray-400 dark:text-gray-500' };
+  }
+  if (announcement.expiresAt) {
+    return { label: `Expires ${formatDateTime(announcement.expiresAt)}`, className: 'text-gray-500 dark:text-gray-400' };
+  }
+  return null;
+}
+
+export function AnnouncementList({ announcements, onDelete, onTogglePin }: AnnouncementListProps) {
+  const now = new Date();
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6 mt-6">
       <div className="flex items-center gap-3 mb-6">
@@ -31,7 +64,8 @@ export function AnnouncementList({ announcements, onDelete }: AnnouncementListPr
       ) : (
         <div className="space-y-4">
           {announcements.map((announcement) => {
-            const contentParts = parseLinks(announcement.content);
+            const scope = getAnnouncementScope(announcement);
+            const status = getDeliveryStatus(announcement, now);
             
             return (
               <div
@@ -41,39 +75,44 @@ export function AnnouncementList({ announcements, onDelete }: AnnouncementListPr
                 <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
                   <div className="flex-grow space-y-2 min-w-0"> {/* Added min-w-0 */}
                     <h3 className="font-medium text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors break-words">
+                      {announcement.isPinned && (
+                        <Pin className="inline w-4 h-4 mr-1.5 -mt-0.5 text-blue-600 dark:text-blue-400" />
+                      )}
                       {announcement.title}
                     </h3>
-                    <div className="text-gray-600 dark:text-gray-300 text-sm sm:text-base break-words">
-                      {contentParts.map((part, index) => 
-                        part.type === 'link' ? (
-                          <a
-                            key={index}
-                            href={part.content}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                          >
-                            {part.content}
-                          </a>
-                        ) : (
-                          <span key={index}>{part.content}</span>
-                        )
-                      )}
-                    </div>
-                    <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
-                      <Calendar className="w-4 h-4" />
-                      <span>
-                        {new Date(announcement.createdAt).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                          hour: '2-digit',
-                          minute: '2-digit'
-                        })}
+                    <MarkdownContent
+                      content={announcement.content}
+                      className="text-gray-600 dark:text-gray-300 text-sm sm:text-base"
+                    />
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+                      <span className="flex items-center gap-1.5">
+                        <Calendar className="w-4 h-4" />
+                        {formatDateTime(announcement.publishAt)}
                       </span>
+                      <span className="flex items-center gap-1.5">
+                        <Users className="w-4 h-4" />
+                        {scope === 'everyone'
+                          ? SCOPE_LABELS.everyone
+                          : `${SCOPE_LABELS[scope]}: ${announcement.audienceName || 'Unknown'}`}
+                      </span>
+                      {status && (
+                        <span className={`flex items-center gap-1.5 ${status.className}`}>
+                          <Clock className="w-4 h-4" />
+                          {status.label}
+                        </span>
+                      )}
                     </div>
                   </div>
                   <div className="flex sm:flex-col items-center gap-2">
+                    {onTogglePin && (
+                      <button
+                        onClick={() => onTogglePin(announcement.id)}
+                        className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                        title={announcement.isPinned ? 'Unpin announcement' : 'Pin announcement'}
+                      >
+                        {announcement.isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                      </button>
+                    )}
                     <button
                       onClick={() => onDelete(announcement.id)}
                       className="p-2 text-red-600 dark:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
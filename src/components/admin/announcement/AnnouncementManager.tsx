@@ -1,25 +1,38 @@
 import { AnnouncementForm } from './AnnouncementForm';
 import { AnnouncementList } from './AnnouncementList';
+import { TelegramSettingsForm } from './TelegramSettingsForm';
 import type { Announcement, NewAnnouncement } from '../../../types/announcement';
 
 interface AnnouncementManagerProps {
   announcements: Announcement[];
   onCreateAnnouncement: (announcement: NewAnnouncement) => Promise<void>;
   onDeleteAnnouncement: (id: string) => Promise<void>;
+  onTogglePin?: (id: string) => Promise<void>;
+  sectionId?: string;
+  isSectionAdmin?: boolean;
+  isLoading?: boolean;
 }
 
 export function AnnouncementManager({
   announcements,
   onCreateAnnouncement,
-  onDeleteAnnouncement
+  onDeleteAnnouncement,
+  onTogglePin,
+  sectionId,
+  isSectionAdmin = false
 }: AnnouncementManagerProps) {
+  // Section admins always announce to their own section
+  const lockedSectionId = isSectionAdmin ? sectionId : undefined;
+
   return (
     <div>
-      <AnnouncementForm onSubmit={onCreateAnnouncement} />
+      <AnnouncementForm onSubmit={onCreateAnnouncement} lockedSectionId={lockedSectionId} />
       <AnnouncementList 
         announcements={announcements}
         onDelete={onDeleteAnnouncement}
+        onTogglePin={onTogglePin}
       />
+      {isSectionAdmin && sectionId && <TelegramSettingsForm sectionId={sectionId} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { Send, Save, Trash2, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+  fetchTelegramSettings,
+  saveTelegramSettings,
+  deleteTelegramSettings,
+  testTelegramMessage
+} from '../../../services/telegram.service';
+
+interface TelegramSettingsFormProps {
+  sectionId: string;
+}
+
+const CHAT_ID_PATTERN = /^(-?\d+|@[A-Za-z0-9_]{5,})$/;
+
+export function TelegramSettingsForm({ sectionId }: TelegramSettingsFormProps) {
+  const [chatId, setChatId] = useState('');
+  const [threadId, setThreadId] = useState('');
+  const [enabled, setEnabled] = useState(true);
+  const [isConfigured, setIsConfigured] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchTelegramSettings(sectionId)
+      .then(settings => {
+        if (cancelled) return;
+        setChatId(settings?.chatId || '');
+        setThreadId(settings?.messageThreadId ? String(settings.messageThreadId) : '');
+        setEnabled(settings?.enabled ?? true);
+        setIsConfigured(Boolean(settings));
+      })
+      .catch(() => !cancelled && setError('Failed to load Telegram settings'))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSaving(true);
+    setError(null);
+    setStatus(null);
+    try {
+      setStatus(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!CHAT_ID_PATTERN.test(chatId.trim())) {
+      setError('Chat ID must be a numeric ID (e.g. -1001234567890) or a @channel username');
+      return;
+    }
+    if (threadId && !/^\d+$/.test(threadId)) {
+      setError('Topic ID must be a number');
+      return;
+    }
+
+    runAction(async () => {
+      await saveTelegramSettings({
+        sectionId,
+        chatId,
+        messageThreadId: threadId ? Number(threadId) : null,
+        enabled
+      });
+      setIsConfigured(true);
+      return 'Telegram settings saved';
+    });
+  };
+
+  const handleTest = () => runAction(async () => {
+    const sent = await testTelegramMessage(sectionId);
+    if (!sent) throw new Error('Test message could not be delivered. Check the chat ID and bot permissions.');
+    return 'Test message sent';
+  });
+
+  const handleDisconnect = () => runAction(async () => {
+    await deleteTelegramSettings(sectionId);
+    setChatId('');
+    setThreadId('');
+    setEnabled(true);
+    setIsConfigured(false);
+    return 'Telegram chat disconnected';
+  });
+
+  return (
+    <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-2xl shadow-sm p-4 sm:p-6 mt-6">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="p-2 bg-sky-50 dark:bg-sky-900/20 rounded-xl">
+          <Send className="w-5 h-5 text-sky-600 dark:text-sky-400" />
+        </div>
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white">Telegram Channel</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+            New tasks and announcements of your section are posted here
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Chat ID
+              </label>
+              <input
+                type="text"
+                value={chatId}
+                onChange={(e) => setChatId(e.target.value)}
+                className="w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors"
+                placeholder="-1001234567890 or @channel"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                Topic ID <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={threadId}
+                onChange={(e) => setThreadId(e.target.value)}
+                className="w-full px-4 py-2.5 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-colors"
+                placeholder="Forum topic to post in"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Post new tasks and announcements
+          </label>
+
+          {error && (
+            <p className="flex items-center gap-1.5 text-sm text-red-600 dark:text-red-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </p>
+          )}
+          {status && (
+            <p className="flex items-center gap-1.5 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              {status}
+            </p>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex items-center gap-2 py-2.5 px-4 rounded-xl text-white bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 disabled:opacity-60 transition-colors"
+            >
+              <Save className="w-4 h-4" />
+              Save
+            </button>
+            {isConfigured && (
+              <>
+                <button
+                  type="button"
+                  onClick={handleTest}
+                  disabled={isSaving || !enabled}
+                  className="flex items-center gap-2 py-2.5 px-4 rounded-xl border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-60 transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                  Send test message
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDisconnect}
+                  disabled={isSaving}
+                  className="flex items-center gap-2 py-2.5 px-4 rounded-xl text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-60 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Disconnect
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
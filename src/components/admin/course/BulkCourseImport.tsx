@@ -1,8 +1,21 @@
 import { useState, useRef } from 'react';
-import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap, RefreshCcw } from 'lucide-react';
+import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap, RefreshCcw, Download } from 'lucide-react';
 import type { Teacher } from '../../../types/teacher';
 import type { NewCourse } from '../../../types/course';
 import { refreshUserRole } from '../../../services/auth.service';
+import { ColumnMapper } from '../import/ColumnMapper';
+import {
+  IMPORT_FILE_ACCEPT,
+  isJsonFile,
+  isSpreadsheetFile,
+  readSpreadsheet,
+  guessColumnMapping,
+  mapSheetRows,
+  downloadImportTemplate,
+  type ImportField,
+  type SheetData,
+  type ColumnMapping
+} from '../../../utils/spreadsheetImport';
 import { showSuccessToast, showErrorToast } from '../../../utils/notifications';
 
 interface BulkCourseImportProps {
@@ -23,6 +36,20 @@ type ImportCourse = {
   teacher: string;
 };
 
+const COURSE_IMPORT_FIELDS: ImportField[] = [
+  { key: 'course_code', label: 'Course Code', required: true, aliases: ['code', 'course no'] },
+  { key: 'course_title', label: 'Course Title', required: true, aliases: ['title', 'course name', 'course'] },
+  { key: 'credit', label: 'Credit', aliases: ['credits', 'credit hours'] },
+  { key: 'section', label: 'Section' },
+  { key: 'teacher', label: 'Teacher', required: true, aliases: ['teacher name', 'faculty', 'instructor'] }
+];
+
+// Spreadsheet cells are text; credit is kept as-is when it isn't a number so validation reports it
+const toImportCourse = (row: Record<string, string>) => ({
+  ...row,
+  credit: row.credit && !isNaN(Number(row.credit)) ? Number(row.credit) : row.credit
+});
+
 export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<ImportCourse[] | null>(null);
@@ -36,6 +63,8 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
   } | null>(null);
   const [progressStatus, setProgressStatus] = useState('');
   const [teacherSelections, setTeacherSelections] = useState<Record<number, string>>({});
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateCourseData = (data: any[]): ValidationResult => {
@@ -75,6 +104,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     setImportResult(null);
     setValidation(null);
     setTeacherSelections({});
+    setSheet(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -85,17 +115,32 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     
     const selectedFile = files[0];
     
-    // Check if file is JSON
-    if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'] });
+    if (!isJsonFile(selectedFile) && !isSpreadsheetFile(selectedFile)) {
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and XLSX files are supported.'] });
       setFile(null);
       setData(null);
       return;
     }
     
     setFile(selectedFile);
+    setData(null);
     setValidating(true);
     
+    // Spreadsheets go through column mapping before validation
+    if (isSpreadsheetFile(selectedFile)) {
+      try {
+        const sheetData = await readSpreadsheet(selectedFile);
+        setSheet(sheetData);
+        setColumnMapping(guessColumnMapping(sheetData.headers, COURSE_IMPORT_FIELDS));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setValidation({ valid: false, errors: [`Could not read file: ${message}`] });
+      } finally {
+        setValidating(false);
+      }
+      return;
+    }
+    
     try {
       const text = await selectedFile.text();
       const jsonData = JSON.parse(text);
@@ -115,6 +160,27 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     }
   };
 
+  const handleMappingConfirm = () => {
+    if (!sheet) return;
+    
+    const mappedData = mapSheetRows(sheet, columnMapping).map(toImportCourse);
+    setData(mappedData as ImportCourse[]);
+    setValidation(validateCourseData(mappedData));
+    setSheet(null);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadImportTemplate('course-import-template.csv', COURSE_IMPORT_FIELDS, [
+      {
+        course_code: 'CSE321',
+        course_title: 'System Analysis & Design',
+        credit: '3',
+        section: '63_G',
+        teacher: 'Naznin Sultana'
+      }
+    ]);
+  };
+
   const findMatchingTeacher = (teacherName: string): Teacher | undefined => {
     return teachers.find(teacher => 
       teacher.name.toLowerCase() === teacherName.toLowerCase() ||
@@ -223,6 +289,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
     setValidation(null);
     setImportResult(null);
     setTeacherSelections({});
+    setSheet(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -264,7 +331,8 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       
       <div className="mb-4">
         <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-          Import multiple courses at once using a JSON file. The file must be in the following format:
+          Import multiple courses at once using a CSV, Excel (XLSX) or JSON file. Spreadsheet columns can be matched to
+          the course fields after upload. JSON files must be in the following format:
         </div>
         <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto mb-4">
 {`[
@@ -277,6 +345,14 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
   }
 ]`}
         </pre>
+        <button
+          type="button"
+          onClick={handleDownloadTemplate}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Download CSV template
+        </button>
       </div>
       
       <div className="mb-4">
@@ -284,11 +360,11 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,application/json"
+            accept={IMPORT_FILE_ACCEPT}
             onChange={handleFileChange}
             className="w-full max-w-xs text-sm text-gray-500 dark:text-gray-400 file:rounded-lg file:bg-blue-500 file:border-0 file:text-white file:px-3 file:py-2 file:mr-3 file:text-sm hover:file:bg-blue-600 cursor-pointer"
           />
-          {(validation || importResult) && (
+          {(validation || importResult || sheet) && (
             <button 
               onClick={handleReset}
               className="ml-2 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -302,10 +378,21 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
       {validating && (
         <div className="flex items-center text-blue-500 text-sm mb-4">
           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-          Validating JSON data...
+          Validating data...
         </div>
       )}
       
+      {sheet && (
+        <ColumnMapper
+          fields={COURSE_IMPORT_FIELDS}
+          sheet={sheet}
+          mapping={columnMapping}
+          onChange={setColumnMapping}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation && !validation.valid && (
         <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3">
           <h4 className="text-sm font-semibold text-red-600 dark:text-red-400 flex items-center mb-2">
@@ -324,7 +411,7 @@ export function BulkCourseImport({ teachers, onImportCourses }: BulkCourseImport
         <div className="mb-4">
           <div className="flex items-center text-green-500 text-sm mb-2">
             <CheckCircle className="w-4 h-4 mr-2" />
-            {`Valid JSON with ${data.length} course${data.length !== 1 ? 's' : ''}`}
+            {`Valid data with ${data.length} course${data.length !== 1 ? 's' : ''}`}
           </div>
           
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm">
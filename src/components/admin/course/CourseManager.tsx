@@ -2,9 +2,12 @@ import { useState, useMemo, useEffect } from 'react';
 import { CourseForm } from './CourseForm';
 import { CourseList } from './CourseList';
 import { BulkCourseImport } from './BulkCourseImport';
-import { BarChart3, BookOpen, Download, FilePlus, Filter, PlusCircle, Upload, User, X } from 'lucide-react';
-import type { Course, NewCourse } from '../../../types/course';
+import { CourseScheduleReconciliation } from './CourseScheduleReconciliation';
+import { BarChart3, BookOpen, CalendarCheck, Download, FilePlus, Filter, PlusCircle, Upload, User, X } from 'lucide-react';
+import type { ClassTime, Course, NewCourse } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import type { Routine, RoutineSlot } from '../../../types/routine';
+import type { RoutineSlotSaveOptions } from '../../../services/routine.service';
 
 interface CourseManagerProps {
   courses: Course[];
@@ -13,6 +16,13 @@ interface CourseManagerProps {
   onUpdateCourse: (id: string, updates: Partial<Course>) => Promise<Course | void>;
   onDeleteCourse: (id: string) => Promise<void>;
   onBulkImportCourses?: (courses: NewCourse[]) => Promise<{ success: number; errors: any[] }>;
+  // Routines to check class times against; the active ones are used
+  routines?: Routine[];
+  onSyncCourseToRoutine?: (
+    routineId: string,
+    course: Course,
+    options?: RoutineSlotSaveOptions
+  ) => Promise<{ slots: RoutineSlot[]; skipped: ClassTime[] }>;
   sectionId?: string;
   isSectionAdmin?: boolean;
 }
@@ -24,10 +34,13 @@ export function CourseManager({
   onUpdateCourse,
   onDeleteCourse,
   onBulkImportCourses,
+  routines = [],
+  onSyncCourseToRoutine,
   sectionId,
   isSectionAdmin = false
 }: CourseManagerProps) {
   const [importMode, setImportMode] = useState(false);
+  const [showScheduleCheck, setShowScheduleCheck] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
   const [filterSection, setFilterSection] = useState<string>(sectionId || '');
   const [filterCredit, setFilterCredit] = useState<number | ''>('');
@@ -73,6 +86,11 @@ export function CourseManager({
     };
   }, [courses]);
 
+  const sectionRoutines = useMemo(
+    () => (sectionId ? routines.filter(routine => routine.sectionId === sectionId) : routines),
+    [routines, sectionId]
+  );
+
   // Get list of unique sections for filter dropdown
   const uniqueSections = useMemo(() => {
     const sections = new Set<string>();
@@ -266,6 +284,18 @@ export function CourseManager({
             <Filter className="w-4 h-4" />
             Filters {(filterSection || filterCredit !== '') && '(Active)'}
           </button>
+          
+          <button
+            onClick={() => setShowScheduleCheck(!showScheduleCheck)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+              showScheduleCheck
+                ? 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            <CalendarCheck className="w-4 h-4" />
+            Check Class Times
+          </button>
         </div>
         
         <div className="flex items-center gap-2">
@@ -341,6 +371,17 @@ export function CourseManager({
         </div>
       )}
 
+      {showScheduleCheck && (
+        <div className="mb-4">
+          <CourseScheduleReconciliation
+            courses={filteredAndSortedCourses}
+            routines={sectionRoutines}
+            onUpdateCourse={onUpdateCourse}
+            onSyncCourseToRoutine={onSyncCourseToRoutine}
+          />
+        </div>
+      )}
+
       {importMode ? (
         <BulkCourseImport
           teachers={teachers}
@@ -0,0 +1,211 @@
+import { useState, useMemo } from 'react';
+import { toast } from 'react-hot-toast';
+import { CalendarCheck, AlertTriangle, ArrowLeft, ArrowRight, Loader2, MapPin } from 'lucide-react';
+import { reconcileCourseSchedules } from '../../../utils/courseSchedule';
+import { RoutineConflictError, type RoutineSlotSaveOptions } from '../../../services/routine.service';
+import type { ClassTime, Course, CourseScheduleReport } from '../../../types/course';
+import type { Routine, RoutineSlot } from '../../../types/routine';
+
+interface CourseScheduleReconciliationProps {
+  courses: Course[];
+  routines: Routine[];
+  onUpdateCourse: (id: string, updates: Partial<Course>) => Promise<Course | void>;
+  onSyncCourseToRoutine?: (
+    routineId: string,
+    course: Course,
+    options?: RoutineSlotSaveOptions
+  ) => Promise<{ slots: RoutineSlot[]; skipped: ClassTime[] }>;
+}
+
+function ClassTimeList({ times, highlighted, emptyLabel }: { times: ClassTime[]; highlighted: ClassTime[]; emptyLabel: string }) {
+  if (times.length === 0) {
+    return <p className="text-sm italic text-gray-400 dark:text-gray-500">{emptyLabel}</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {times.map((time, index) => (
+        <li
+          key={index}
+          className={`flex flex-wrap items-center gap-x-2 text-sm rounded px-2 py-1 ${
+            highlighted.includes(time)
+              ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+              : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          <span>{time.day} at {time.time}</span>
+          {time.classroom && (
+            <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+              <MapPin className="w-3 h-3" />
+              {time.classroom}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Highlights courses whose hand-entered class times disagree with the
+ * active routine and syncs them in either direction
+ */
+export function CourseScheduleReconciliation({
+  courses,
+  routines,
+  onUpdateCourse,
+  onSyncCourseToRoutine
+}: CourseScheduleReconciliationProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+
+  const reports = useMemo(() => reconcileCourseSchedules(courses, routines), [courses, routines]);
+  const mismatches = reports.filter(report => !report.inSync);
+  const shown = showAll ? reports : mismatches;
+
+  const handleUseRoutine = async ({ course, routineTimes }: CourseScheduleReport) => {
+    setSyncingId(course.id);
+    try {
+      await onUpdateCourse(course.id, { classTimes: routineTimes });
+      toast.success(`${course.code} now follows the routine`);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update course');
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  const handleCopyToRoutine = async ({ course, routineId }: Pick<CourseScheduleReport, 'course' | 'routineId'>, options?: RoutineSlotSaveOptions) => {
+    if (!routineId || !onSyncCourseToRoutine) return;
+
+    setSyncingId(course.id);
+    try {
+      const { skipped } = await onSyncCourseToRoutine(routineId, course, options);
+      if (skipped.length > 0) {
+        toast.error(`Skipped ${skipped.map(time => `${time.day} ${time.time}`).join(', ')}: add an end time like "8:30 AM - 10:00 AM"`);
+      } else {
+        toast.success(`Routine updated with ${course.code}'s class times`);
+      }
+    } catch (err: unknown) {
+      if (err instanceof RoutineConflictError) {
+        if (confirm(`${err.message}\n\nCopy to the routine anyway?`)) {
+          await handleCopyToRoutine({ course, routineId }, { allowConflicts: true });
+        }
+        return;
+      }
+      toast.error(err instanceof Error ? err.message : 'Failed to update routine');
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  if (!routines.some(routine => routine.isActive)) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+        Activate a routine to compare course class times with it
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className={`p-2 rounded-lg ${
+            mismatches.length > 0
+              ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400'
+              : 'bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400'
+          }`}>
+            {mismatches.length > 0 ? <AlertTriangle className="w-5 h-5" /> : <CalendarCheck className="w-5 h-5" />}
+          </div>
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Class Times vs. Routine</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {mismatches.length > 0
+                ? `${mismatches.length} of ${reports.length} courses disagree with the active routine`
+                : 'Every course matches the active routine'}
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show matching courses
+        </label>
+      </div>
+
+      {shown.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700 border dark:border-gray-700 rounded-lg">
+          {shown.map(report => (
+            <li key={report.course.id} className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div>
+                  <span className="font-medium text-gray-900 dark:text-white">{report.course.code}</span>
+                  <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">{report.course.name}</span>
+                </div>
+                {report.inSync ? (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                    In sync
+                  </span>
+                ) : syncingId === report.course.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                ) : null}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-start">
+                <div>
+                  <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400 mb-1">Course</p>
+                  <ClassTimeList
+                    times={report.course.classTimes.filter(time => time.day)}
+                    highlighted={report.missingFromRoutine}
+                    emptyLabel="No class times entered"
+                  />
+                </div>
+
+                {!report.inSync && (
+                  <div className="flex md:flex-col gap-2 md:pt-5">
+                    <button
+                      type="button"
+                      onClick={() => handleUseRoutine(report)}
+                      disabled={syncingId !== null || report.routineTimes.length === 0}
+                      title="Replace the course's class times with the routine's"
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      <ArrowLeft className="w-3 h-3" />
+                      Use routine
+                    </button>
+                    {onSyncCourseToRoutine && (
+                      <button
+                        type="button"
+                        onClick={() => handleCopyToRoutine(report)}
+                        disabled={syncingId !== null || !report.routineId}
+                        title={report.routineId ? "Replace the course's slots in the routine" : 'No active routine to copy to'}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                      >
+                        Copy to routine
+                        <ArrowRight className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <p className="text-xs font-medium uppercase text-gray-500 dark:text-gray-400 mb-1">Active routine</p>
+                  <ClassTimeList
+                    times={report.routineTimes}
+                    highlighted={report.missingFromCourse}
+                    emptyLabel="Not on the routine"
+                  />
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -15,9 +15,10 @@ interface DashboardProps {
   users: User[];
   tasks: Task[];
   isLoading?: boolean;
+  sectionId?: string;
 }
 
-export function Dashboard({ users, tasks: initialTasks }: DashboardProps) {
+export function Dashboard({ users, tasks: initialTasks, sectionId }: DashboardProps) {
   const [filterValue, setFilterValue] = useState('All');
   const [currentDate, setCurrentDate] = useState('');
   const [currentMonth, setCurrentMonth] = useState('');
@@ -525,7 +526,7 @@ export function Dashboard({ users, tasks: initialTasks }: DashboardProps) {
 
       {/* Task Analytics Section */}
       <div className="animate-slide-up" style={{animationDelay: '0.4s'}}>
-        <TaskStats tasks={tasks} />
+        <TaskStats tasks={tasks} sectionId={sectionId} />
       </div>
     </div>
   );
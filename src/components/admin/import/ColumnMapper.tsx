@@ -0,0 +1,112 @@
+import { Columns, CheckCircle, AlertTriangle } from 'lucide-react';
+import {
+  getMissingRequiredFields,
+  type ImportField,
+  type SheetData,
+  type ColumnMapping
+} from '../../../utils/spreadsheetImport';
+
+interface ColumnMapperProps {
+  fields: ImportField[];
+  sheet: SheetData;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lets the admin pick which spreadsheet column fills each import field
+ */
+export function ColumnMapper({ fields, sheet, mapping, onChange, onConfirm, onCancel }: ColumnMapperProps) {
+  const missingFields = getMissingRequiredFields(fields, mapping);
+  const sampleRow = sheet.rows[0] || [];
+
+  const handleColumnChange = (fieldKey: string, value: string) => {
+    onChange({
+      ...mapping,
+      [fieldKey]: value === '' ? null : Number(value)
+    });
+  };
+
+  return (
+    <div className="mb-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm">
+      <h4 className="font-semibold text-blue-700 dark:text-blue-400 flex items-center mb-1">
+        <Columns className="w-4 h-4 mr-2" />
+        Match Columns
+      </h4>
+      <p className="text-xs text-blue-600 dark:text-blue-400 mb-3">
+        {sheet.rows.length} row{sheet.rows.length !== 1 ? 's' : ''} found. Choose the column that holds each field.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Field</th>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Column</th>
+              <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">First Row</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+            {fields.map(field => {
+              const columnIndex = mapping[field.key] ?? null;
+
+              return (
+                <tr key={field.key} className="text-xs">
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900 dark:text-white">
+                    {field.label}
+                    {field.required && <span className="text-red-500 ml-0.5">*</span>}
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={columnIndex === null ? '' : String(columnIndex)}
+                      onChange={(e) => handleColumnChange(field.key, e.target.value)}
+                      className="text-xs rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 text-gray-900 dark:text-white"
+                    >
+                      <option value="">Not mapped</option>
+                      {sheet.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-gray-500 dark:text-gray-400 truncate max-w-[12rem]">
+                    {columnIndex === null ? '-' : sampleRow[columnIndex] || '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFields.length > 0 && (
+        <div className="mt-3 text-xs text-amber-600 dark:text-amber-400 flex items-center">
+          <AlertTriangle className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+          Required: {missingFields.map(field => field.label).join(', ')}
+        </div>
+      )}
+
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={missingFields.length > 0}
+          className="text-sm px-4 py-2 rounded-lg shadow-sm flex items-center bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          <CheckCircle className="w-4 h-4 mr-2" />
+          Continue to Preview
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,14 @@ import {
   Users, ListTodo, Settings, LogOut, Megaphone, Moon, Sun,
   Book, GraduationCap, FileText, CalendarDays, User, LayoutDashboard,
   BarChart2, Bell, HelpCircle, Globe, AlertCircle, ChevronLeft,
-  MessageCircle, Search, CheckCircle, Clock, Plus, UserCog
+  MessageCircle, Search, CheckCircle, Clock, Plus, UserCog, Trash2
 } from 'lucide-react';
 import { SideNavLink } from './SideNavLink';
 import { MobileMenuButton } from './MobileMenuButton';
 import { useTheme } from '../../../hooks/useTheme';
 import { useAuth } from '../../../hooks/useAuth';
 import { showSuccessToast, showErrorToast } from '../../../utils/notifications';
+import { canOpenTab } from '../../../utils/permissions';
 import type { AdminTab } from '../../../types/admin';
 
 interface SideNavigationProps {
@@ -62,11 +63,17 @@ export const SideNavigation = React.memo(function SideNavigation({
   }, [showProfileMenu]);
 
   // Memoize navigation items to prevent rerenders
-  const mainNavItems = useMemo(() => [
+  const allMainNavItems = useMemo(() => [
     { id: 'dashboard' as const, label: 'Dashboard', icon: LayoutDashboard },
     { id: 'users' as const, label: 'Users', icon: Users, badge: 147 },
     { id: 'tasks' as const, label: 'Tasks', icon: ListTodo, badge: 56 },
   ], []);
+
+  // Only tabs the user holds the permission for are shown
+  const mainNavItems = useMemo(
+    () => allMainNavItems.filter(item => canOpenTab(user, item.id)),
+    [allMainNavItems, user]
+  );
   
   // Full list of management items
   const allManagementItems = useMemo(() => [
@@ -74,18 +81,14 @@ export const SideNavigation = React.memo(function SideNavigation({
     { id: 'teachers' as const, label: 'Teachers', icon: User },
     { id: 'courses' as const, label: 'Courses', icon: GraduationCap },
     { id: 'study-materials' as const, label: 'Study Materials', icon: Book },
-    { id: 'routine' as const, label: 'Routine', icon: CalendarDays }
+    { id: 'routine' as const, label: 'Routine', icon: CalendarDays },
+    { id: 'trash' as const, label: 'Trash', icon: Trash2 }
   ], []);
   
-  // Section admin can only manage announcements, study materials, and routines
-  const managementNavItems = useMemo(() => {
-    if (isSectionAdmin) {
-      return allManagementItems.filter(item => 
-        ['announcements', 'teachers', 'courses', 'study-materials', 'routine'].includes(item.id)
-      );
-    }
-    return allManagementItems;
-  }, [allManagementItems, isSectionAdmin]);
+  const managementNavItems = useMemo(
+    () => allManagementItems.filter(item => canOpenTab(user, item.id)),
+    [allManagementItems, user]
+  );
 
   const toggleMobileMenu = useCallback(() => {
     setIsMobileMenuOpen(prev => !prev);
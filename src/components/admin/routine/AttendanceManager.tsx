@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCheck, Download, Loader2, Save } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { fetchSectionUsers } from '../../../services/admin.service';
+import {
+  fetchAttendanceRegister,
+  fetchAttendanceSettings,
+  fetchSectionAttendance,
+  saveAttendance,
+  saveAttendanceSettings
+} from '../../../services/attendance.service';
+import {
+  ATTENDANCE_STATUS_LABELS,
+  DEFAULT_ATTENDANCE_THRESHOLD,
+  buildAttendanceMatrix,
+  getAttendanceRoster,
+  getAttendanceToday,
+  getLastClassDate
+} from '../../../utils/attendance';
+import { formatSlotTime, getDateDayName, sortSlots } from '../../../utils/routineUtils';
+import { downloadCsv } from '../../../utils/spreadsheetImport';
+import type { AdminUser } from '../../../types/admin';
+import type { AttendanceStatus } from '../../../types/attendance';
+import type { Routine } from '../../../types/routine';
+
+interface AttendanceManagerProps {
+  routine: Routine;
+}
+
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  present: 'bg-green-600 text-white',
+  late: 'bg-amber-500 text-white',
+  absent: 'bg-red-600 text-white',
+  excused: 'bg-gray-500 text-white'
+};
+
+/**
+ * Takes a routine's attendance class by class, sets the section's warning
+ * threshold and exports the course-by-date matrix
+ */
+export function AttendanceManager({ routine }: AttendanceManagerProps) {
+  const sectionId = routine.sectionId;
+  const slots = useMemo(() => sortSlots(routine.slots || []), [routine.slots]);
+
+  const [students, setStudents] = useState<AdminUser[]>([]);
+  const [slotId, setSlotId] = useState(slots[0]?.id || '');
+  const slot = slots.find(s => s.id === slotId);
+  const [classDate, setClassDate] = useState(() => (slots[0] ? getLastClassDate(slots[0].dayOfWeek) : getAttendanceToday()));
+  const [statuses, setStatuses] = useState<Record<string, AttendanceStatus>>({});
+  const [takenAt, setTakenAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [threshold, setThreshold] = useState(DEFAULT_ATTENDANCE_THRESHOLD);
+  const [savingThreshold, setSavingThreshold] = useState(false);
+
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const today = getAttendanceToday();
+  const wrongDay = !!slot && getDateDayName(classDate) !== slot.dayOfWeek;
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+
+    Promise.all([fetchSectionUsers(sectionId), fetchAttendanceSettings(sectionId)])
+      .then(([users, settings]) => {
+        if (cancelled) return;
+        setStudents(getAttendanceRoster(users));
+        setThreshold(settings?.minPercentage ?? DEFAULT_ATTENDANCE_THRESHOLD);
+      })
+      .catch(() => { if (!cancelled) toast.error('Failed to load the section roster'); });
+
+    return () => { cancelled = true; };
+  }, [sectionId]);
+
+  useEffect(() => {
+    if (!slotId || !classDate) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+
+    fetchAttendanceRegister(slotId, classDate)
+      .then(({ session, records }) => {
+        if (cancelled) return;
+        setStatuses(Object.fromEntries(records.map(record => [record.userId, record.status])));
+        setTakenAt(session?.updatedAt || null);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : 'Failed to load attendance');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [slotId, classDate]);
+
+  if (!sectionId) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Attendance is taken for routines that belong to a section.
+      </p>
+    );
+  }
+
+  const handleSlotChange = (id: string) => {
+    setSlotId(id);
+    const next = slots.find(s => s.id === id);
+    if (next) setClassDate(getLastClassDate(next.dayOfWeek));
+  };
+
+  const markedCount = students.filter(student => statuses[student.id]).length;
+
+  const handleSave = async () => {
+    if (!slot || wrongDay) return;
+    if (markedCount < students.length && !confirm(
+      `${students.length - markedCount} student(s) are not marked and will be left out. Save anyway?`
+    )) return;
+
+    setSaving(true);
+    try {
+      await saveAttendance(
+        slot.id,
+        classDate,
+        students
+          .filter(student => statuses[student.id])
+          .map(student => ({ userId: student.id, status: statuses[student.id] }))
+      );
+      setTakenAt(new Date().toISOString());
+      toast.success('Attendance saved');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save attendance');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveThreshold = async () => {
+    setSavingThreshold(true);
+    try {
+      await saveAttendanceSettings(sectionId, threshold);
+      toast.success('Attendance threshold saved');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save threshold');
+    } finally {
+      setSavingThreshold(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const { sessions, records } = await fetchSectionAttendance(sectionId, exportFrom || undefined, exportTo || undefined);
+      if (sessions.length === 0) {
+        toast.error('No attendance recorded in this period');
+        return;
+      }
+      downloadCsv(
+        `attendance-${routine.name.replace(/\s+/g, '-')}.csv`,
+        buildAttendanceMatrix(sessions, records, students)
+      );
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export attendance');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="space-y-5">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">Take Attendance</h4>
+
+        {slots.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This routine has no classes yet.</p>
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row gap-3 mb-4">
+              <select
+                value={slotId}
+                onChange={(e) => handleSlotChange(e.target.value)}
+                className={`${inputClass} flex-1`}
+              >
+                {slots.map(s => (
+                  <option key={s.id} value={s.id}>
+                    {s.dayOfWeek} {formatSlotTime(s.startTime)} · {s.courseName || 'Class'}{s.roomNumber ? ` · Room ${s.roomNumber}` : ''}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="date"
+                value={classDate}
+                max={today}
+                onChange={(e) => setClassDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {wrongDay && slot && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mb-3">
+                This class is held on {slot.dayOfWeek}s; pick a {slot.dayOfWeek}.
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {markedCount} of {students.length} marked
+                {takenAt && ` · last saved ${new Date(takenAt).toLocaleString()}`}
+              </p>
+              <button
+                onClick={() => setStatuses(Object.fromEntries(students.map(student => [student.id, 'present' as const])))}
+                disabled={students.length === 0}
+                className="px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg flex items-center gap-1.5 disabled:opacity-50"
+              >
+                <CheckCheck className="w-4 h-4" />
+                Mark all present
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+              </div>
+            ) : students.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 py-4">No students in this section.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {students.map(student => (
+                  <li key={student.id} className="py-2 flex flex-col sm:flex-row sm:items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{student.username || student.email}</p>
+                      {student.studentId && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{student.studentId}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {(Object.keys(ATTENDANCE_STATUS_LABELS) as AttendanceStatus[]).map(status => (
+                        <button
+                          key={status}
+                          onClick={() => setStatuses(prev => ({ ...prev, [student.id]: status }))}
+                          className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                            statuses[student.id] === status
+                              ? STATUS_STYLES[status]
+                              : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                          }`}
+                        >
+                          {ATTENDANCE_STATUS_LABELS[status]}
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={handleSave}
+              disabled={saving || loading || wrongDay || classDate > today || markedCount === 0}
+              className="mt-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save attendance
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-1">Warning Threshold</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Students whose attendance in a course falls below this are warned
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={threshold}
+            onChange={(e) => setThreshold(Math.min(100, Math.max(1, Number(e.target.value) || 1)))}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+          <button
+            onClick={handleSaveThreshold}
+            disabled={savingThreshold}
+            className="ml-2 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {savingThreshold ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-1">Export Attendance</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          A CSV with one row per student and one column per class, plus each course's percentage
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            From
+            <input type="date" value={exportFrom} max={exportTo || undefined} onChange={(e) => setExportFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            To
+            <input type="date" value={exportTo} min={exportFrom || undefined} onChange={(e) => setExportTo(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,34 @@
-import { useState, useRef, useEffect } from 'react';
-import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, Edit } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, Edit, Download } from 'lucide-react';
 import { Teacher } from '../../../types/teacher';
 import { Course } from '../../../types/course';
+import type { Routine, RoutineConflict } from '../../../types/routine';
+import type { RoutineSlotSaveOptions } from '../../../services/routine.service';
+import { findSlotConflicts } from '../../../utils/routineConflicts';
 import Select, { SingleValue } from 'react-select';
 import { toast } from 'react-hot-toast';
+import { ColumnMapper } from '../import/ColumnMapper';
+import {
+  IMPORT_FILE_ACCEPT,
+  isJsonFile,
+  isSpreadsheetFile,
+  readSpreadsheet,
+  guessColumnMapping,
+  mapSheetRows,
+  downloadImportTemplate,
+  type ImportField,
+  type SheetData,
+  type ColumnMapping
+} from '../../../utils/spreadsheetImport';
 
 interface BulkSlotImportProps {
   routineId: string;
+  // The target routine and every routine, to find clashes before importing
+  routine: Routine;
+  allRoutines: Routine[];
   teachers: Teacher[];
   courses: Course[];
-  onImportSlots: (routineId: string, slots: any[]) => Promise<{ success: number; errors: any[] }>;
+  onImportSlots: (routineId: string, slots: any[], options?: RoutineSlotSaveOptions) => Promise<{ success: number; errors: any[] }>;
 }
 
 interface ImportSlot {
@@ -42,13 +61,42 @@ interface SlotItemWithStatus extends ImportSlot {
   index: number;
 }
 
+const SLOT_IMPORT_FIELDS: ImportField[] = [
+  { key: 'day', label: 'Day', required: true, aliases: ['weekday', 'day of week'] },
+  { key: 'start_time', label: 'Start Time', required: true, aliases: ['start', 'from', 'time from'] },
+  { key: 'end_time', label: 'End Time', required: true, aliases: ['end', 'to', 'time to'] },
+  { key: 'course_code', label: 'Course Code', aliases: ['code'] },
+  { key: 'course_title', label: 'Course Title', aliases: ['course name', 'title'] },
+  { key: 'course', label: 'Course (Title - Code)' },
+  { key: 'teacher', label: 'Teacher', required: true, aliases: ['teacher name', 'faculty', 'instructor'] },
+  { key: 'room_number', label: 'Room Number', aliases: ['room', 'room no'] },
+  { key: 'section', label: 'Section' }
+];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Accepts "sun", "SUNDAY" etc. from spreadsheets; unknown values are left for validation
+const normalizeDay = (day: string) =>
+  DAY_NAMES.find(name => name.toLowerCase().startsWith(day.trim().toLowerCase().slice(0, 3))) || day;
+
+// Accepts 24-hour times ("13:30") and missing spaces ("1:30pm")
+const normalizeTime = (time: string) => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?$/i);
+  if (!match) return time;
+
+  const hours = Number(match[1]);
+  const period = match[3]?.toUpperCase();
+  if (period) return `${hours}:${match[2]} ${period}`;
+  return `${hours % 12 || 12}:${match[2]} ${hours >= 12 ? 'PM' : 'AM'}`;
+};
+
 // Create a new interface to track auto-assignment state during processing
 interface SlotProcessingState {
   isTeacherAutoAssigned?: boolean;
   autoAssignedTeacherName?: string;
 }
 
-export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }: BulkSlotImportProps) {
+export function BulkSlotImport({ routineId, routine, allRoutines, teachers, courses, onImportSlots }: BulkSlotImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<ImportSlot[] | null>(null);
   const [loading, setLoading] = useState(false);
@@ -57,8 +105,35 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
   const [slotsWithStatus, setSlotsWithStatus] = useState<SlotItemWithStatus[]>([]);
   const [importResult, setImportResult] = useState<{ success: number; errors: any[] } | null>(null);
   const [progressStatus, setProgressStatus] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [allowConflicts, setAllowConflicts] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Clashes of each imported slot with the routine, other sections and the rest of the file
+  const slotConflicts = useMemo(() => {
+    const drafts = slotsWithStatus.map(slot => ({
+      id: `import-${slot.index}`,
+      routineId,
+      teacherId: slot._teacherId,
+      teacherName: teachers.find(t => t.id === slot._teacherId)?.name || slot.teacher,
+      courseCode: courses.find(c => c.id === slot._courseId)?.code || slot.course_code,
+      courseName: slot.course_title || slot.course,
+      dayOfWeek: slot.day,
+      startTime: slot.start_time,
+      endTime: slot.end_time,
+      roomNumber: slot.room_number,
+      section: slot.section,
+      createdAt: ''
+    }));
+    const routineWithImport = { ...routine, slots: [...(routine.slots || []), ...drafts] };
+
+    return new Map<number, RoutineConflict[]>(
+      slotsWithStatus.map((slot, idx) => [slot.index, findSlotConflicts(drafts[idx], routineWithImport, allRoutines)])
+    );
+  }, [slotsWithStatus, routine, allRoutines, routineId, teachers, courses]);
+  const conflictingSlotCount = [...slotConflicts.values()].filter(conflicts => conflicts.length > 0).length;
+
   // Teacher and course select options
   const teacherOptions = teachers.map(teacher => ({
     value: teacher.id,
@@ -242,6 +317,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     setImportResult(null);
     setValidation(null);
     setSlotsWithStatus([]);
+    setSheet(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -252,17 +328,32 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     
     const selectedFile = files[0];
     
-    // Check if file is JSON
-    if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'], warnings: [] });
+    if (!isJsonFile(selectedFile) && !isSpreadsheetFile(selectedFile)) {
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and XLSX files are supported.'], warnings: [] });
       setFile(null);
       setData(null);
       return;
     }
     
     setFile(selectedFile);
+    setData(null);
     setValidating(true);
     
+    // Spreadsheets go through column mapping before validation
+    if (isSpreadsheetFile(selectedFile)) {
+      try {
+        const sheetData = await readSpreadsheet(selectedFile);
+        setSheet(sheetData);
+        setColumnMapping(guessColumnMapping(sheetData.headers, SLOT_IMPORT_FIELDS));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setValidation({ valid: false, errors: [`Could not read file: ${message}`], warnings: [] });
+      } finally {
+        setValidating(false);
+      }
+      return;
+    }
+    
     try {
       const text = await selectedFile.text();
       const jsonData = JSON.parse(text);
@@ -283,6 +374,40 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     }
   };
   
+  const handleMappingConfirm = () => {
+    if (!sheet) return;
+    
+    const mappedData = mapSheetRows(sheet, columnMapping).map(row => ({
+      ...row,
+      day: row.day ? normalizeDay(row.day) : row.day,
+      start_time: row.start_time ? normalizeTime(row.start_time) : row.start_time,
+      end_time: row.end_time ? normalizeTime(row.end_time) : row.end_time
+    }));
+    
+    setData(mappedData as ImportSlot[]);
+    setValidation(validateSlotData(mappedData));
+    setSheet(null);
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadImportTemplate(
+      'routine-slot-import-template.csv',
+      SLOT_IMPORT_FIELDS.filter(field => field.key !== 'course'),
+      [
+        {
+          day: 'Thursday',
+          start_time: '10:40 AM',
+          end_time: '11:30 AM',
+          course_title: 'Embedded Systems & IoT',
+          course_code: 'CSE233',
+          teacher: 'Sakib Mahmood Chowdhury',
+          room_number: 'KT-221',
+          section: '63_G'
+        }
+      ]
+    );
+  };
+
   const handleTeacherChange = (slotIndex: number, teacherId: string | null) => {
     setSlotsWithStatus(prev => 
       prev.map((slot, idx) => 
@@ -339,6 +464,11 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       return;
     }
     
+    if (conflictingSlotCount > 0 && !allowConflicts) {
+      toast.error(`${conflictingSlotCount} slot(s) clash with other classes.`);
+      return;
+    }
+    
     setLoading(true);
     setProgressStatus('Preparing import...');
     
@@ -367,7 +497,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       });
       
       setProgressStatus('Importing slots...');
-      const result = await onImportSlots(routineId, preparedData);
+      const result = await onImportSlots(routineId, preparedData, { allowConflicts });
       setImportResult(result);
       
       // Clear the file input if successful
@@ -379,6 +509,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
         setData(null);
         setValidation(null);
         setSlotsWithStatus([]);
+        setAllowConflicts(false);
         toast.success(`Successfully imported ${result.success} slot(s).`);
       }
     } catch (error: any) {
@@ -400,6 +531,8 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
     setValidation(null);
     setImportResult(null);
     setSlotsWithStatus([]);
+    setSheet(null);
+    setAllowConflicts(false);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -414,7 +547,8 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       
       <div className="mb-4">
         <div className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-          Import multiple time slots at once using a JSON file. The file must be in the following format:
+          Import multiple time slots at once using a CSV, Excel (XLSX) or JSON file. Spreadsheet columns can be matched to
+          the slot fields after upload. JSON files must be in the following format:
         </div>
         <pre className="bg-gray-100 dark:bg-gray-700 p-3 rounded-md text-xs overflow-x-auto mb-4">
 {`[
@@ -430,6 +564,14 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
   }
 ]`}
         </pre>
+        <button
+          type="button"
+          onClick={handleDownloadTemplate}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Download CSV template
+        </button>
       </div>
       
       <div className="mb-4">
@@ -437,11 +579,11 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,application/json"
+            accept={IMPORT_FILE_ACCEPT}
             onChange={handleFileChange}
             className="w-full max-w-xs text-sm text-gray-500 dark:text-gray-400 file:rounded-lg file:bg-blue-500 file:border-0 file:text-white file:px-3 file:py-2 file:mr-3 file:text-sm hover:file:bg-blue-600 cursor-pointer"
           />
-          {(validation || importResult) && (
+          {(validation || importResult || sheet) && (
             <button 
               onClick={handleReset}
               className="ml-2 text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
@@ -455,10 +597,21 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
       {validating && (
         <div className="flex items-center text-blue-500 text-sm mb-4">
           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-          Validating JSON data...
+          Validating data...
         </div>
       )}
       
+      {sheet && (
+        <ColumnMapper
+          fields={SLOT_IMPORT_FIELDS}
+          sheet={sheet}
+          mapping={columnMapping}
+          onChange={setColumnMapping}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation && !validation.valid && (
         <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-900/30 rounded-md p-3">
           <h4 className="text-sm font-semibold text-red-600 dark:text-red-400 flex items-center mb-2">
@@ -491,7 +644,7 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
         <div className="mb-4">
           <div className="flex items-center text-green-500 text-sm mb-2">
             <CheckCircle className="w-4 h-4 mr-2" />
-            {`Valid JSON with ${slotsWithStatus.length} slot${slotsWithStatus.length !== 1 ? 's' : ''}`}
+            {`Valid data with ${slotsWithStatus.length} slot${slotsWithStatus.length !== 1 ? 's' : ''}`}
           </div>
           
           <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-900/30 rounded-md p-3 text-sm text-blue-700 dark:text-blue-400">
@@ -574,6 +727,17 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
                     </div>
                   </div>
                   
+                  {(slotConflicts.get(slot.index) || []).length > 0 && (
+                    <ul className="mb-2 text-amber-700 dark:text-amber-400 space-y-0.5">
+                      {slotConflicts.get(slot.index)!.map((conflict, conflictIdx) => (
+                        <li key={conflictIdx} className="flex items-start">
+                          <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                          {conflict.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  
                   {/* Show manual selection if needed */}
                   {slot.status === 'warning' && (
                     <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -625,9 +789,28 @@ export function BulkSlotImport({ routineId, teachers, courses, onImportSlots }:
             </div>
           </div>
           
+          {conflictingSlotCount > 0 && (
+            <div className="mt-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/30 rounded-md p-3 text-xs text-amber-700 dark:text-amber-400">
+              <div className="font-semibold flex items-center mb-1">
+                <AlertTriangle className="w-4 h-4 mr-1" />
+                {conflictingSlotCount} slot{conflictingSlotCount !== 1 ? 's' : ''} clash with other classes
+              </div>
+              <p className="mb-2">Fix the file and upload it again, or import the clashing slots anyway.</p>
+              <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={allowConflicts}
+                  onChange={(e) => setAllowConflicts(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600"
+                />
+                Import anyway
+              </label>
+            </div>
+          )}
+          
           <button
             onClick={handleImport}
-            disabled={loading || slotsWithStatus.some(s => s.status === 'warning' && (!s._teacherId || !s._courseId))}
+            disabled={loading || (conflictingSlotCount > 0 && !allowConflicts) || slotsWithStatus.some(s => s.status === 'warning' && (!s._teacherId || !s._courseId))}
             className="mt-3 bg-blue-500 hover:bg-blue-600 text-white rounded-lg px-4 py-2 text-sm font-medium flex items-center disabled:opacity-50 disabled:pointer-events-none"
           >
             {loading ? (
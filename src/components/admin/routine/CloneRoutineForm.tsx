@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import type { Routine } from '../../../types/routine';
+
+interface CloneRoutineFormProps {
+  routine: Pick<Routine, 'id' | 'name' | 'semester'>;
+  onClone: (routineId: string, target: { name: string; semester: string }) => Promise<Routine>;
+  onCloned?: (routine: Routine) => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Copies a routine with all its slots into a new semester
+ */
+export function CloneRoutineForm({ routine, onClone, onCloned, onCancel }: CloneRoutineFormProps) {
+  const [name, setName] = useState(routine.name);
+  const [semester, setSemester] = useState('');
+  const [isCloning, setIsCloning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !semester.trim()) {
+      setError('Name and semester are required');
+      return;
+    }
+    if (semester.trim() === routine.semester) {
+      setError('Choose a different semester');
+      return;
+    }
+
+    setIsCloning(true);
+    setError(null);
+
+    try {
+      const clone = await onClone(routine.id, { name: name.trim(), semester: semester.trim() });
+      onCloned?.(clone);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to copy routine');
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            New Name<span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+            New Semester<span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            value={semester}
+            onChange={(e) => setSemester(e.target.value)}
+            placeholder="e.g., Spring 2026"
+            className="w-full px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        All time slots are copied. The copy stays inactive until you activate it.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isCloning}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+        >
+          {isCloning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+          Copy to Semester
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
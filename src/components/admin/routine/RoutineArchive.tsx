@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { Archive, Copy, Eye, Loader2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { CloneRoutineForm } from './CloneRoutineForm';
+import { formatDate } from '../../../utils/dateUtils';
+import type { Routine } from '../../../types/routine';
+
+interface RoutineArchiveProps {
+  // Limits the archive to one section's routines
+  sectionId?: string;
+  onGetSemesters: () => Promise<string[]>;
+  onGetRoutinesBySemester: (semester: string) => Promise<Routine[]>;
+  onCloneRoutine: (routineId: string, target: { name: string; semester: string }) => Promise<Routine>;
+  onOpenRoutine: (routineId: string) => void;
+}
+
+/**
+ * Browses the routines of past and current semesters
+ */
+export function RoutineArchive({
+  sectionId,
+  onGetSemesters,
+  onGetRoutinesBySemester,
+  onCloneRoutine,
+  onOpenRoutine
+}: RoutineArchiveProps) {
+  const [semesters, setSemesters] = useState<string[]>([]);
+  const [semester, setSemester] = useState('');
+  const [routines, setRoutines] = useState<Routine[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [cloningId, setCloningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    onGetSemesters().then(list => {
+      setSemesters(list);
+      // Newest semester first, assuming names sort by date
+      setSemester(current => current || list[list.length - 1] || '');
+    });
+  }, [onGetSemesters]);
+
+  useEffect(() => {
+    if (!semester) return;
+
+    setLoading(true);
+    onGetRoutinesBySemester(semester)
+      .then(list => setRoutines(sectionId ? list.filter(routine => routine.sectionId === sectionId) : list))
+      .finally(() => setLoading(false));
+  }, [semester, sectionId, onGetRoutinesBySemester]);
+
+  if (semesters.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <Archive className="w-10 h-10 text-gray-400 mb-3" />
+        <p className="text-gray-700 dark:text-gray-300 font-medium">No semesters yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {[...semesters].reverse().map(name => (
+          <button
+            key={name}
+            type="button"
+            onClick={() => setSemester(name)}
+            className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+              name === semester
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading routines...
+        </div>
+      ) : routines.length === 0 ? (
+        <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">No routines in {semester}</p>
+      ) : (
+        <ul className="border dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+          {routines.map(routine => (
+            <li key={routine.id} className="px-4 py-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{routine.name}</span>
+                    {routine.isActive && (
+                      <span className="px-2 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400 rounded-full text-xs">
+                        Active
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Created {formatDate(routine.createdAt)}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onOpenRoutine(routine.id)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <Eye className="w-4 h-4" />
+                    Open
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setCloningId(cloningId === routine.id ? null : routine.id)}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copy to Semester
+                  </button>
+                </div>
+              </div>
+              {cloningId === routine.id && (
+                <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                  <CloneRoutineForm
+                    routine={routine}
+                    onClone={onCloneRoutine}
+                    onCancel={() => setCloningId(null)}
+                    onCloned={clone => {
+                      toast.success(`Copied to ${clone.semester}`);
+                      setCloningId(null);
+                      setSemesters(prev => (prev.includes(clone.semester) ? prev : [...prev, clone.semester].sort()));
+                      setSemester(clone.semester);
+                    }}
+                  />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
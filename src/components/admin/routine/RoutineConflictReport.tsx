@@ -0,0 +1,91 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle, User, MapPin, Users } from 'lucide-react';
+import { findRoutineConflicts } from '../../../utils/routineConflicts';
+import { formatSlotTime } from '../../../utils/routineUtils';
+import type { Routine, RoutineConflictType } from '../../../types/routine';
+
+interface RoutineConflictReportProps {
+  routines: Routine[];
+  allRoutines: Routine[];
+  onSelectRoutine?: (routine: Routine) => void;
+}
+
+const CONFLICT_TYPES: Record<RoutineConflictType, { label: string; icon: typeof User }> = {
+  teacher: { label: 'Teacher', icon: User },
+  room: { label: 'Room', icon: MapPin },
+  section: { label: 'Section', icon: Users }
+};
+
+/**
+ * Lists the clashes of every routine shown in the manager
+ */
+export function RoutineConflictReport({ routines, allRoutines, onSelectRoutine }: RoutineConflictReportProps) {
+  const report = useMemo(() =>
+    routines
+      .map(routine => ({ routine, conflicts: findRoutineConflicts(routine, allRoutines) }))
+      .filter(({ conflicts }) => conflicts.length > 0)
+  , [routines, allRoutines]);
+
+  if (report.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <CheckCircle className="w-10 h-10 text-green-500 mb-3" />
+        <p className="text-gray-700 dark:text-gray-300 font-medium">No clashes found</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Teachers, rooms and sections are never booked twice at the same time
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {report.map(({ routine, conflicts }) => (
+        <section key={routine.id} className="border dark:border-gray-700 rounded-lg overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 bg-amber-50 dark:bg-amber-900/20">
+            <div>
+              <h4 className="font-medium text-gray-900 dark:text-white">{routine.name}</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{routine.semester}</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="flex items-center gap-1 text-sm text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4" />
+                {conflicts.length} clash{conflicts.length !== 1 ? 'es' : ''}
+              </span>
+              {onSelectRoutine && (
+                <button
+                  type="button"
+                  onClick={() => onSelectRoutine(routine)}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Open
+                </button>
+              )}
+            </div>
+          </div>
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {conflicts.map((conflict, index) => {
+              const { label, icon: Icon } = CONFLICT_TYPES[conflict.type];
+
+              return (
+                <li key={index} className="flex items-start gap-3 px-4 py-3 text-sm">
+                  <span className="flex items-center gap-1 flex-shrink-0 px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                    <Icon className="w-3 h-3" />
+                    {label}
+                  </span>
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {conflict.slot.courseCode || conflict.slot.courseName || 'Class'} · {conflict.slot.dayOfWeek}{' '}
+                      {formatSlotTime(conflict.slot.startTime)} - {formatSlotTime(conflict.slot.endTime)}
+                    </p>
+                    <p className="text-gray-500 dark:text-gray-400">{conflict.message}</p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -19,20 +19,22 @@ import { RoutineSlotModal } from './RoutineSlotModal';
 import type { Routine, RoutineSlot } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import type { RoutineSlotSaveOptions } from '../../../services/routine.service';
 
 type ViewMode = 'list' | 'grid' | 'compact';
 type GroupedRoutines = [string, Routine[]][];
 
 interface RoutineListProps {
   routines: Routine[];
+  allRoutines: Routine[];
   courses: Course[];
   teachers: Teacher[];
   selectedRoutine: Routine | null;
   onSelectRoutine: (routine: Routine | null) => void;
   onUpdateRoutine: (id: string, updates: Partial<Routine>) => Promise<void>;
   onDeleteRoutine: (id: string) => Promise<void>;
-  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
+  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
   onDeleteSlot: (routineId: string, slotId: string) => Promise<void>;
   onActivateRoutine: (routineId: string) => Promise<void>;
   onDeactivateRoutine: (routineId: string) => Promise<void>;
@@ -40,6 +42,7 @@ interface RoutineListProps {
 
 export function RoutineList({
   routines,
+  allRoutines,
   courses,
   teachers,
   selectedRoutine,
@@ -627,6 +630,8 @@ export function RoutineList({
       {showSlotModal && selectedRoutine && (
         <RoutineSlotModal
           routineId={selectedRoutine.id}
+          routine={allRoutines.find(routine => routine.id === selectedRoutine.id) || selectedRoutine}
+          allRoutines={allRoutines}
           slot={selectedSlot}
           courses={courses}
           teachers={teachers}
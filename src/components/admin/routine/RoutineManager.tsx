@@ -1,32 +1,48 @@
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { RoutineForm } from './RoutineForm';
 import { RoutineList } from './RoutineList';
 import { BulkSlotImport } from './BulkSlotImport';
-import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter } from 'lucide-react';
+import { RoutineConflictReport } from './RoutineConflictReport';
+import { RoutineRevisionHistory } from './RoutineRevisionHistory';
+import { RoutineArchive } from './RoutineArchive';
+import { CloneRoutineForm } from './CloneRoutineForm';
+import { AttendanceManager } from './AttendanceManager';
+import { RoutineOverrideManager } from './RoutineOverrideManager';
+import { Calendar, Plus, Download, Upload, List, Grid, Settings, FileText, Filter, AlertTriangle, History, Archive, ClipboardCheck, CalendarX } from 'lucide-react';
 import type { Routine, RoutineSlot } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
+import type { RoutineSlotSaveOptions } from '../../../services/routine.service';
+import { findRoutineConflicts } from '../../../utils/routineConflicts';
 
 // Define tab types for better organization
-type RoutineTab = 'list' | 'create' | 'import' | 'export' | 'settings';
+type RoutineTab = 'list' | 'create' | 'import' | 'export' | 'history' | 'archive' | 'changes' | 'attendance' | 'conflicts' | 'settings';
 
 interface RoutineManagerProps {
   routines: Routine[];
+  // Every routine, including other sections', for clash detection
+  allRoutines?: Routine[];
   courses: Course[];
   teachers: Teacher[];
   onCreateRoutine: (routine: Omit<Routine, 'id' | 'createdAt'>) => Promise<Routine>;
   onUpdateRoutine: (id: string, updates: Partial<Routine>) => Promise<void>;
   onDeleteRoutine: (id: string) => Promise<void>;
-  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
+  onAddSlot: (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+  onUpdateSlot: (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
   onDeleteSlot: (routineId: string, slotId: string) => Promise<void>;
   onActivateRoutine: (routineId: string) => Promise<void>;
   onDeactivateRoutine: (routineId: string) => Promise<void>;
-  onBulkImportSlots?: (routineId: string, slots: any[]) => Promise<{ success: number; errors: any[] }>;
+  onBulkImportSlots?: (routineId: string, slots: any[], options?: RoutineSlotSaveOptions) => Promise<{ success: number; errors: any[] }>;
+  onGetSemesters?: () => Promise<string[]>;
+  onGetRoutinesBySemester?: (semester: string) => Promise<Routine[]>;
+  onCloneRoutine?: (routineId: string, target: { name: string; semester: string }) => Promise<Routine>;
+  onRestoreRevision?: (revisionId: string) => Promise<void>;
+  sectionId?: string;
 }
 
 export function RoutineManager({
   routines,
+  allRoutines = routines,
   courses,
   teachers,
   onCreateRoutine,
@@ -37,7 +53,12 @@ export function RoutineManager({
   onDeleteSlot,
   onActivateRoutine,
   onDeactivateRoutine,
-  onBulkImportSlots
+  onBulkImportSlots,
+  onGetSemesters,
+  onGetRoutinesBySemester,
+  onCloneRoutine,
+  onRestoreRevision,
+  sectionId
 }: RoutineManagerProps) {
   const [selectedRoutine, setSelectedRoutine] = useState<Routine | null>(null);
   const [activeTab, setActiveTab] = useState<RoutineTab>('list');
@@ -78,6 +99,10 @@ export function RoutineManager({
     ? routines.filter(r => r.semester === filterSemester)
     : routines;
 
+  const conflictCount = useMemo(() =>
+    filteredRoutines.reduce((count, routine) => count + findRoutineConflicts(routine, allRoutines).length, 0)
+  , [filteredRoutines, allRoutines]);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
@@ -169,6 +194,84 @@ export function RoutineManager({
             Export
           </button>
           
+          {onRestoreRevision && (
+            <button
+              onClick={() => setActiveTab('history')}
+              disabled={!selectedRoutine}
+              className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                !selectedRoutine
+                  ? 'opacity-50 cursor-not-allowed text-gray-400 dark:text-gray-600'
+                  : activeTab === 'history'
+                  ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+          )}
+          
+          {onGetSemesters && onGetRoutinesBySemester && onCloneRoutine && (
+            <button
+              onClick={() => setActiveTab('archive')}
+              className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+                activeTab === 'archive'
+                  ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+              }`}
+            >
+              <Archive className="w-4 h-4" />
+              Archive
+            </button>
+          )}
+          
+          <button
+            onClick={() => setActiveTab('changes')}
+            disabled={!selectedRoutine}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              !selectedRoutine
+                ? 'opacity-50 cursor-not-allowed text-gray-400 dark:text-gray-600'
+                : activeTab === 'changes'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <CalendarX className="w-4 h-4" />
+            Date Changes
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('attendance')}
+            disabled={!selectedRoutine}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              !selectedRoutine
+                ? 'opacity-50 cursor-not-allowed text-gray-400 dark:text-gray-600'
+                : activeTab === 'attendance'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <ClipboardCheck className="w-4 h-4" />
+            Attendance
+          </button>
+          
+          <button
+            onClick={() => setActiveTab('conflicts')}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'conflicts'
+                ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+            }`}
+          >
+            <AlertTriangle className="w-4 h-4" />
+            Clashes
+            {conflictCount > 0 && (
+              <span className="px-1.5 py-0.5 rounded-full text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                {conflictCount}
+              </span>
+            )}
+          </button>
+          
           <button
             onClick={() => setActiveTab('settings')}
             className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors ${
@@ -187,6 +290,7 @@ export function RoutineManager({
           {activeTab === 'list' && (
             <RoutineList 
               routines={filteredRoutines}
+              allRoutines={allRoutines}
               courses={courses}
               teachers={teachers}
               selectedRoutine={selectedRoutine}
@@ -204,7 +308,7 @@ export function RoutineManager({
           {activeTab === 'create' && (
             <div className="max-w-2xl mx-auto">
               <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Create New Routine</h3>
-              <RoutineForm onSubmit={onCreateRoutine} />
+              <RoutineForm onSubmit={routine => onCreateRoutine({ ...routine, sectionId: routine.sectionId || sectionId })} />
             </div>
           )}
           
@@ -218,6 +322,8 @@ export function RoutineManager({
               </div>
               <BulkSlotImport 
                 routineId={selectedRoutine.id}
+                routine={selectedRoutine}
+                allRoutines={allRoutines}
                 teachers={teachers}
                 courses={courses}
                 onImportSlots={onBulkImportSlots}
@@ -265,6 +371,101 @@ export function RoutineManager({
                   </div>
                 </div>
               </div>
+              
+              {onCloneRoutine && (
+                <div className="mt-5 bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700">
+                  <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">Roll Over to a New Semester</h4>
+                  <CloneRoutineForm
+                    key={selectedRoutine.id}
+                    routine={selectedRoutine}
+                    onClone={onCloneRoutine}
+                    onCloned={clone => {
+                      setSelectedRoutine(clone);
+                      setFilterSemester(clone.semester);
+                      setActiveTab('list');
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          
+          {activeTab === 'history' && selectedRoutine && onRestoreRevision && (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Version History of {selectedRoutine.name}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Every change to the time slots is kept as a version
+                </p>
+              </div>
+              <RoutineRevisionHistory routine={selectedRoutine} onRestoreRevision={onRestoreRevision} />
+            </div>
+          )}
+          
+          {activeTab === 'archive' && onGetSemesters && onGetRoutinesBySemester && onCloneRoutine && (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Semester Archive</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Routines of past semesters, ready to copy forward
+                </p>
+              </div>
+              <RoutineArchive
+                sectionId={sectionId}
+                onGetSemesters={onGetSemesters}
+                onGetRoutinesBySemester={onGetRoutinesBySemester}
+                onCloneRoutine={onCloneRoutine}
+                onOpenRoutine={routineId => {
+                  const routine = routines.find(r => r.id === routineId);
+                  if (!routine) return;
+                  setSelectedRoutine(routine);
+                  setFilterSemester(routine.semester);
+                  setActiveTab('list');
+                }}
+              />
+            </div>
+          )}
+          
+          {activeTab === 'changes' && selectedRoutine && (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Date Changes for {selectedRoutine.name}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Cancel, reschedule or move a single class, or add a make-up class
+                </p>
+              </div>
+              <RoutineOverrideManager key={selectedRoutine.id} routine={selectedRoutine} courses={courses} />
+            </div>
+          )}
+          
+          {activeTab === 'attendance' && selectedRoutine && (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Attendance for {selectedRoutine.name}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Record who attended each class from the section roster
+                </p>
+              </div>
+              <AttendanceManager key={selectedRoutine.id} routine={selectedRoutine} />
+            </div>
+          )}
+          
+          {activeTab === 'conflicts' && (
+            <div>
+              <div className="mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Clash Report</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Teachers or rooms booked twice at the same time, across sections of the same semester, and overlapping classes within a section
+                </p>
+              </div>
+              <RoutineConflictReport
+                routines={filteredRoutines}
+                allRoutines={allRoutines}
+                onSelectRoutine={routine => {
+                  setSelectedRoutine(routine);
+                  setActiveTab('list');
+                }}
+              />
             </div>
           )}
           
@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import {
+  deleteRoutineOverride,
+  fetchRoutineOverrides,
+  saveRoutineOverride
+} from '../../../services/routine.service';
+import {
+  ROUTINE_OVERRIDE_LABELS,
+  describeRoutineOverride,
+  getUpcomingDateForDay,
+  toDateKey
+} from '../../../utils/routineOverrides';
+import { formatSlotTime, getDateDayName, sortSlots } from '../../../utils/routineUtils';
+import type { Course } from '../../../types/course';
+import type { Routine, RoutineOverride, RoutineOverrideInput, RoutineOverrideKind } from '../../../types/routine';
+
+interface RoutineOverrideManagerProps {
+  routine: Routine;
+  courses: Course[];
+}
+
+const KIND_STYLES: Record<RoutineOverrideKind, string> = {
+  cancel: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  reschedule: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  'room-change': 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  makeup: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300'
+};
+
+const emptyForm = (kind: RoutineOverrideKind = 'cancel'): RoutineOverrideInput => ({
+  routineId: '',
+  kind,
+  classDate: '',
+  slotId: '',
+  newDate: '',
+  startTime: '',
+  endTime: '',
+  roomNumber: '',
+  courseId: '',
+  courseName: '',
+  teacherName: '',
+  reason: ''
+});
+
+/**
+ * Cancels, reschedules or moves single classes of a routine, and adds
+ * one-off make-up classes; students are notified of each change
+ */
+export function RoutineOverrideManager({ routine, courses }: RoutineOverrideManagerProps) {
+  const slots = useMemo(() => sortSlots(routine.slots || []), [routine.slots]);
+  const today = toDateKey(new Date());
+
+  const [overrides, setOverrides] = useState<RoutineOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RoutineOverrideInput>(() => emptyForm());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const slot = slots.find(s => s.id === form.slotId);
+  const isMakeup = form.kind === 'makeup';
+  const wrongDay = !isMakeup && !!slot && !!form.classDate && getDateDayName(form.classDate) !== slot.dayOfWeek;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    fetchRoutineOverrides(routine.id, today)
+      .then(data => { if (!cancelled) setOverrides(data); })
+      .catch((err: unknown) => {
+        if (!cancelled) toast.error(err instanceof Error ? err.message : 'Failed to load class changes');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [routine.id, today]);
+
+  const update = (changes: Partial<RoutineOverrideInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSlotChange = (id: string) => {
+    const next = slots.find(s => s.id === id);
+    update({
+      slotId: id,
+      classDate: next ? getUpcomingDateForDay(next.dayOfWeek) : '',
+      startTime: next?.startTime.slice(0, 5) || '',
+      endTime: next?.endTime.slice(0, 5) || '',
+      roomNumber: next?.roomNumber || ''
+    });
+  };
+
+  const handleCourseChange = (id: string) => {
+    const course = courses.find(c => c.id === id);
+    update({ courseId: id, courseName: course?.name || '', teacherName: course?.teacher || '' });
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm(form.kind));
+    setEditingId(null);
+  };
+
+  const handleEdit = (override: RoutineOverride) => {
+    setEditingId(override.id);
+    setForm({
+      ...emptyForm(override.kind),
+      ...override,
+      startTime: override.startTime?.slice(0, 5) || '',
+      endTime: override.endTime?.slice(0, 5) || ''
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (wrongDay) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveRoutineOverride(routine, { ...form, routineId: routine.id }, editingId || undefined);
+      setOverrides(prev =>
+        [...prev.filter(o => o.id !== saved.id), saved].sort((a, b) => a.classDate.localeCompare(b.classDate))
+      );
+      toast.success(editingId ? 'Class change updated' : 'Class change saved; students have been notified');
+      resetForm();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save class change');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (override: RoutineOverride) => {
+    if (!confirm('Remove this change? Students will be told the class is back on its regular schedule.')) return;
+
+    try {
+      await deleteRoutineOverride(override.id);
+      setOverrides(prev => prev.filter(o => o.id !== override.id));
+      if (editingId === override.id) resetForm();
+      toast.success('Class change removed');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove class change');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 text-sm border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white';
+  const labelClass = 'flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300';
+
+  return (
+    <div className="space-y-5">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700 space-y-4"
+      >
+        <div className="flex items-center justify-between">
+          <h4 className="text-md font-medium text-gray-900 dark:text-white">
+            {editingId ? 'Edit Change' : 'New Change'}
+          </h4>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+              aria-label="Cancel editing"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(ROUTINE_OVERRIDE_LABELS) as RoutineOverrideKind[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              disabled={!!editingId && (kind === 'makeup') !== isMakeup}
+              onClick={() => update({ kind })}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                form.kind === kind
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+              }`}
+            >
+              {ROUTINE_OVERRIDE_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+
+        {isMakeup ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className={labelClass}>
+              Course
+              <select
+                value={form.courseId || ''}
+                onChange={(e) => handleCourseChange(e.target.value)}
+                required
+                className={inputClass}
+              >
+                <option value="">Select a course</option>
+                {courses.map(course => (
+                  <option key={course.id} value={course.id}>{course.code} · {course.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className={labelClass}>
+              Teacher
+              <input
+                type="text"
+                value={form.teacherName || ''}
+                onChange={(e) => update({ teacherName: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This routine has no classes yet.</p>
+        ) : (
+          <label className={labelClass}>
+            Class
+            <select
+              value={form.slotId || ''}
+              onChange={(e) => handleSlotChange(e.target.value)}
+              required
+              className={inputClass}
+            >
+              <option value="">Select a class</option>
+              {slots.map(s => (
+                <option key={s.id} value={s.id}>
+                  {s.dayOfWeek} {formatSlotTime(s.startTime)} · {s.courseName || 'Class'}{s.roomNumber ? ` · Room ${s.roomNumber}` : ''}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className={labelClass}>
+            {isMakeup ? 'Date' : 'Class on'}
+            <input
+              type="date"
+              value={form.classDate}
+              min={editingId ? undefined : today}
+              onChange={(e) => update({ classDate: e.target.value })}
+              required
+              className={inputClass}
+            />
+          </label>
+          {form.kind === 'reschedule' && (
+            <label className={labelClass}>
+              Moves to
+              <input
+                type="date"
+                value={form.newDate || ''}
+                min={editingId ? undefined : today}
+                onChange={(e) => update({ newDate: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          )}
+        </div>
+
+        {wrongDay && slot && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            This class is held on {slot.dayOfWeek}s; pick a {slot.dayOfWeek}.
+          </p>
+        )}
+
+        {(form.kind === 'reschedule' || isMakeup) && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className={labelClass}>
+              Start time
+              <input
+                type="time"
+                value={form.startTime || ''}
+                onChange={(e) => update({ startTime: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </label>
+            <label className={labelClass}>
+              End time
+              <input
+                type="time"
+                value={form.endTime || ''}
+                min={form.startTime || undefined}
+                onChange={(e) => update({ endTime: e.target.value })}
+                required
+                className={inputClass}
+              />
+            </label>
+          </div>
+        )}
+
+        {form.kind !== 'cancel' && (
+          <label className={labelClass}>
+            Room
+            <input
+              type="text"
+              value={form.roomNumber || ''}
+              onChange={(e) => update({ roomNumber: e.target.value })}
+              required={form.kind === 'room-change'}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        <label className={labelClass}>
+          Reason (shown to students)
+          <input
+            type="text"
+            value={form.reason || ''}
+            onChange={(e) => update({ reason: e.target.value })}
+            maxLength={200}
+            className={inputClass}
+          />
+        </label>
+
+        <button
+          type="submit"
+          disabled={saving || wrongDay || (!isMakeup && slots.length === 0)}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          {editingId ? 'Save change' : 'Add change'}
+        </button>
+      </form>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-5 border dark:border-gray-700">
+        <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">Upcoming Changes</h4>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          </div>
+        ) : overrides.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming changes to this routine.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {overrides.map(override => (
+              <li key={override.id} className="py-3 flex items-start gap-3">
+                <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${KIND_STYLES[override.kind]}`}>
+                  {ROUTINE_OVERRIDE_LABELS[override.kind]}
+                </span>
+                <p className="flex-1 min-w-0 text-sm text-gray-700 dark:text-gray-300">
+                  {describeRoutineOverride(override, slots.find(s => s.id === override.slotId))}
+                </p>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => handleEdit(override)}
+                    className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg"
+                    aria-label="Edit change"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(override)}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg"
+                    aria-label="Remove change"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { History, Plus, Minus, ArrowRight, RefreshCw, RotateCcw, Loader2 } from 'lucide-react';
+import { useRoutineRevisions } from '../../../hooks/useRoutineRevisions';
+import { diffRoutineSlots } from '../../../utils/routineDiff';
+import { formatSlotTime } from '../../../utils/routineUtils';
+import type { Routine, RoutineSlot, RoutineSlotChange, RoutineSlotChangeType } from '../../../types/routine';
+
+interface RoutineRevisionHistoryProps {
+  routine: Routine;
+  onRestoreRevision: (revisionId: string) => Promise<void>;
+}
+
+const CHANGE_STYLES: Record<RoutineSlotChangeType, { label: string; icon: typeof Plus; className: string }> = {
+  added: { label: 'Added', icon: Plus, className: 'text-green-600 dark:text-green-400 bg-green-50 dark:bg-green-900/20' },
+  moved: { label: 'Moved', icon: ArrowRight, className: 'text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20' },
+  changed: { label: 'Changed', icon: RefreshCw, className: 'text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20' },
+  removed: { label: 'Removed', icon: Minus, className: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20' }
+};
+
+const describeTime = (slot: RoutineSlot) =>
+  `${slot.dayOfWeek} ${formatSlotTime(slot.startTime)} - ${formatSlotTime(slot.endTime)}${slot.roomNumber ? `, ${slot.roomNumber}` : ''}`;
+
+const describeClass = (slot: RoutineSlot) =>
+  [slot.courseCode || slot.courseName || 'Class', slot.teacherName, slot.section && `Section ${slot.section}`]
+    .filter(Boolean)
+    .join(' · ');
+
+function ChangeRow({ change }: { change: RoutineSlotChange }) {
+  const { label, icon: Icon, className } = CHANGE_STYLES[change.type];
+  const slot = (change.after || change.before)!;
+
+  return (
+    <li className="flex items-start gap-3 px-4 py-3 text-sm">
+      <span className={`flex items-center gap-1 flex-shrink-0 px-2 py-0.5 rounded-full text-xs ${className}`}>
+        <Icon className="w-3 h-3" />
+        {label}
+      </span>
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 dark:text-white">{describeClass(slot)}</p>
+        {change.before && change.after ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            {change.type === 'moved' ? (
+              <>
+                <span className="line-through">{describeTime(change.before)}</span>
+                {' → '}
+                {describeTime(change.after)}
+              </>
+            ) : (
+              <>
+                Was {describeClass(change.before)}
+              </>
+            )}
+          </p>
+        ) : (
+          <p className="text-gray-500 dark:text-gray-400">{describeTime(slot)}</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Versions of a routine with the differences between any two of them
+ */
+export function RoutineRevisionHistory({ routine, onRestoreRevision }: RoutineRevisionHistoryProps) {
+  const { revisions, loading, error } = useRoutineRevisions(routine.id);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const latest = revisions[0];
+  const selected = revisions.find(revision => revision.version === selectedVersion) || latest;
+  // By default a version is compared with the one before it
+  const compareTo = compareVersion !== null
+    ? revisions.find(revision => revision.version === compareVersion)
+    : revisions.find(revision => selected && revision.version < selected.version);
+
+  const changes = useMemo(
+    () => (selected ? diffRoutineSlots(compareTo?.slots || [], selected.slots) : []),
+    [selected, compareTo]
+  );
+
+  const handleRestore = async () => {
+    if (!selected || selected === latest) return;
+    if (!confirm(`Restore version ${selected.version}? The current slots will be replaced; this is saved as a new version.`)) return;
+
+    setIsRestoring(true);
+    try {
+      await onRestoreRevision(selected.id);
+      setSelectedVersion(null);
+      setCompareVersion(null);
+    } catch (err: unknown) {
+      alert(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="py-6 text-sm text-red-500">{error}</p>;
+  }
+
+  if (!selected) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <History className="w-10 h-10 text-gray-400 mb-3" />
+        <p className="text-gray-700 dark:text-gray-300 font-medium">No versions yet</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">A version is saved every time the time slots change</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-5">
+      <ul className="border dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700 max-h-[480px] overflow-y-auto">
+        {revisions.map(revision => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => {
+                setSelectedVersion(revision.version);
+                setCompareVersion(null);
+              }}
+              className={`w-full text-left px-4 py-3 transition-colors ${
+                revision.id === selected.id
+                  ? 'bg-blue-50 dark:bg-blue-900/20'
+                  : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">Version {revision.version}</span>
+                {revision === latest && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                    Current
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {format(new Date(revision.createdAt), 'MMM d, yyyy h:mm a')} · {revision.slots.length} slots
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-300 mt-0.5">{revision.summary}</p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="lg:col-span-2 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span>Version {selected.version} compared with</span>
+            <select
+              value={compareTo ? String(compareTo.version) : ''}
+              onChange={(e) => setCompareVersion(e.target.value === '' ? 0 : Number(e.target.value))}
+              className="border dark:border-gray-600 rounded-lg py-1 px-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="">nothing</option>
+              {revisions
+                .filter(revision => revision.id !== selected.id)
+                .map(revision => (
+                  <option key={revision.id} value={revision.version}>Version {revision.version}</option>
+                ))}
+            </select>
+          </div>
+          {selected !== latest && (
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 disabled:opacity-50"
+            >
+              {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              Restore this version
+            </button>
+          )}
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="py-6 text-sm text-center text-gray-500 dark:text-gray-400">No differences</p>
+        ) : (
+          <ul className="border dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+            {changes.map(change => (
+              <ChangeRow key={`${change.type}-${(change.after || change.before)!.id}`} change={change} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,23 @@
-import { useState, useEffect, useRef } from 'react';
-import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, Check, Info, Send, Plus } from 'lucide-react';
-import type { RoutineSlot } from '../../../types/routine';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { X, Clock, BookOpen, User, MapPin, Users, AlertCircle, AlertTriangle, Check, Info, Send, Plus } from 'lucide-react';
+import type { Routine, RoutineConflict, RoutineSlot } from '../../../types/routine';
 import type { Course } from '../../../types/course';
 import type { Teacher } from '../../../types/teacher';
 import { supabase } from '../../../lib/supabase';
+import { RoutineConflictError, type RoutineSlotSaveOptions } from '../../../services/routine.service';
+import { findSlotConflicts } from '../../../utils/routineConflicts';
 
 interface RoutineSlotModalProps {
   routineId: string;
+  // The routine with its current slots and every routine, for live clash checks
+  routine: Routine;
+  allRoutines: Routine[];
   slot: RoutineSlot | null;
   courses: Course[];
   teachers: Teacher[];
   onClose: () => void;
-  onSubmit: ((routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>) | 
-            ((routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>);
+  onSubmit: ((routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>) | 
+            ((routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>);
 }
 
 interface ValidationError {
@@ -29,6 +34,8 @@ interface NewCourseData {
 
 export function RoutineSlotModal({
   routineId,
+  routine,
+  allRoutines,
   slot,
   courses,
   teachers,
@@ -61,6 +68,21 @@ export function RoutineSlotModal({
   });
   const [courseCodeInput, setCourseCodeInput] = useState('');
   const [addingCourse, setAddingCourse] = useState(false);
+  const [allowConflicts, setAllowConflicts] = useState(false);
+  const [serverConflicts, setServerConflicts] = useState<RoutineConflict[]>([]);
+
+  // Clashes are checked while the slot is edited; the service checks again on save
+  const liveConflicts = useMemo(() => findSlotConflicts(
+    { ...formData, id: slot?.id, courseCode: courses.find(c => c.id === formData.courseId)?.code },
+    routine,
+    allRoutines
+  ), [formData, slot?.id, courses, routine, allRoutines]);
+  const conflicts = liveConflicts.length > 0 ? liveConflicts : serverConflicts;
+
+  useEffect(() => {
+    setServerConflicts([]);
+    setAllowConflicts(false);
+  }, [formData.dayOfWeek, formData.startTime, formData.endTime, formData.teacherId, formData.roomNumber, formData.section]);
 
   // Filter teachers based on the selected course
   useEffect(() => {
@@ -241,6 +263,14 @@ export function RoutineSlotModal({
       return;
     }
     
+    if (conflicts.length > 0 && !allowConflicts) {
+      setStatusMessage({
+        type: 'error',
+        message: 'This slot clashes with other classes. Change it or tick "Save anyway".'
+      });
+      return;
+    }
+    
     setIsSubmitting(true);
     setStatusMessage({ type: 'info', message: 'Processing your request...' });
     
@@ -266,16 +296,16 @@ export function RoutineSlotModal({
       
       if (slot) {
         // Edit existing slot - need to use the 3-parameter version
-        const updateFn = onSubmit as (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => Promise<void>;
-        await updateFn(routineId, slot.id, submissionData);
+        const updateFn = onSubmit as (routineId: string, slotId: string, updates: Partial<RoutineSlot>, options?: RoutineSlotSaveOptions) => Promise<void>;
+        await updateFn(routineId, slot.id, submissionData, { allowConflicts });
         setStatusMessage({
           type: 'success', 
           message: 'Time slot updated successfully!'
         });
       } else {
         // Create new slot - need to use the 2-parameter version
-        const createFn = onSubmit as (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => Promise<RoutineSlot>;
-        await createFn(routineId, submissionData);
+        const createFn = onSubmit as (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>, options?: RoutineSlotSaveOptions) => Promise<RoutineSlot>;
+        await createFn(routineId, submissionData, { allowConflicts });
         setStatusMessage({
           type: 'success', 
           message: 'Time slot created successfully!'
@@ -286,6 +316,15 @@ export function RoutineSlotModal({
       setTimeout(() => onClose(), 1200);
     } catch (error: any) {
       console.error('Error saving routine slot:', error);
+      if (error instanceof RoutineConflictError) {
+        // Another admin changed a routine since this one was loaded
+        setServerConflicts(error.conflicts);
+        setStatusMessage({
+          type: 'error',
+          message: 'This slot clashes with other classes. Change it or tick "Save anyway".'
+        });
+        return;
+      }
       setStatusMessage({
         type: 'error', 
         message: error.message || 'Failed to save time slot. Please try again.'
@@ -664,6 +703,29 @@ export function RoutineSlotModal({
                 </div>
               </div>
 
+              {conflicts.length > 0 && (
+                <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-900/30 text-sm">
+                  <p className="font-medium text-amber-700 dark:text-amber-400 flex items-center mb-1">
+                    <AlertTriangle className="w-4 h-4 mr-1.5" />
+                    {conflicts.length} clash{conflicts.length !== 1 ? 'es' : ''} with other classes
+                  </p>
+                  <ul className="text-xs text-amber-700 dark:text-amber-400 list-disc ml-5 space-y-1">
+                    {conflicts.map((conflict, index) => (
+                      <li key={index}>{conflict.message}</li>
+                    ))}
+                  </ul>
+                  <label className="mt-2 flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={allowConflicts}
+                      onChange={(e) => setAllowConflicts(e.target.checked)}
+                      className="rounded border-gray-300 dark:border-gray-600"
+                    />
+                    Save anyway
+                  </label>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex justify-end items-center gap-3 pt-2">
                 <button
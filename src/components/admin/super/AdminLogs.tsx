@@ -1,128 +1,179 @@
 import React, { useState, useEffect } from 'react';
-import { Search, CalendarClock, User, Filter, X, Download, Clock, ArrowDownAZ, ArrowUpAZ } from 'lucide-react';
-import type { AdminLog } from '../../../types/admin';
+import {
+  Search, CalendarClock, User, Filter, X, Download, ChevronDown, ChevronRight,
+  ChevronLeft, ShieldCheck, ShieldAlert, Loader2, Database
+} from 'lucide-react';
+import { useAdminLogs } from '../../../hooks/useAdminLogs';
+import { fetchAllAdminLogs, verifyAdminLogChain } from '../../../services/admin.service';
+import { downloadCsv } from '../../../utils/spreadsheetImport';
+import type { AdminLog, AdminLogChainStatus, AdminLogFilters, AdminUser } from '../../../types/admin';
 
 interface AdminLogsProps {
-  logs: AdminLog[];
-  loading: boolean;
+  admins?: AdminUser[];
 }
 
-export function AdminLogs({ logs, loading }: AdminLogsProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filteredLogs, setFilteredLogs] = useState<AdminLog[]>([]);
-  const [actionFilter, setActionFilter] = useState<string>('all');
-  const [dateRange, setDateRange] = useState<{ from: string; to: string }>({
-    from: '',
-    to: ''
-  });
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  
-  // Available log actions for filtering
-  const availableActions = ['all', 'create_admin', 'update_admin', 'delete_admin', 'reset_password', 'login', 'logout'];
-  
-  // Apply filters and sorting
+const PAGE_SIZE = 25;
+
+// Audited tables and the singular name their trigger uses in actions
+const RESOURCES = [
+  { table: 'tasks', name: 'task', label: 'Tasks' },
+  { table: 'task_templates', name: 'task_template', label: 'Recurring Tasks' },
+  { table: 'courses', name: 'course', label: 'Courses' },
+  { table: 'teachers', name: 'teacher', label: 'Teachers' },
+  { table: 'routines', name: 'routine', label: 'Routines' },
+  { table: 'routine_slots', name: 'routine_slot', label: 'Routine Slots' },
+  { table: 'announcements', name: 'announcement', label: 'Announcements' },
+  { table: 'study_materials', name: 'study_material', label: 'Study Materials' },
+  { table: 'section_admins', name: 'section_admin', label: 'Section Admins' },
+  { table: 'users', name: 'user', label: 'Users' }
+];
+
+const ACCOUNT_ACTIONS = ['create_admin', 'update_admin', 'delete_admin', 'reset_password', 'update_user_role'];
+
+// Actions written once for a whole bulk action rather than per row
+const BULK_ACTIONS: Record<string, string[]> = {
+  tasks: ['bulk_update_tasks', 'bulk_delete_tasks', 'bulk_duplicate_tasks']
+};
+
+// Columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = ['updated_at', 'search_vector'];
+
+const formatActionName = (action: string) =>
+  action
+    .replace(/^insert_/, 'create_')
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const getActionBadgeColor = (action: string) => {
+  if (/^(insert|create|promote|bulk_duplicate)_/.test(action)) {
+    return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
+  }
+  if (/^(bulk_)?update_/.test(action)) {
+    return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300';
+  }
+  if (/^(bulk_)?delete_/.test(action)) {
+    return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
+  }
+  if (action === 'reset_password') {
+    return 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300';
+  }
+  return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Fields whose value differs between the before and after snapshots
+ */
+function getChangedFields(log: AdminLog): { field: string; before: unknown; after: unknown }[] {
+  const before = log.before || {};
+  const after = log.after || {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+const describeLog = (log: AdminLog) => {
+  const { details } = log;
+  if (typeof details.message === 'string') return details.message;
+  return details.name || details.username || details.userId || '';
+};
+
+export function AdminLogs({ admins = [] }: AdminLogsProps) {
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<AdminLogFilters>({});
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [chainStatus, setChainStatus] = useState<AdminLogChainStatus | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { logs, total, loading, error } = useAdminLogs(filters, page, PAGE_SIZE);
+
+  // Search on the server once typing pauses
   useEffect(() => {
-    let filtered = [...logs];
-    
-    // Apply search term
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(log => 
-        log.adminName.toLowerCase().includes(term) ||
-        log.action.toLowerCase().includes(term) ||
-        log.details.toLowerCase().includes(term)
-      );
-    }
-    
-    // Apply action filter
-    if (actionFilter !== 'all') {
-      filtered = filtered.filter(log => log.action === actionFilter);
-    }
-    
-    // Apply date range filter
-    if (dateRange.from) {
-      const fromDate = new Date(dateRange.from);
-      filtered = filtered.filter(log => new Date(log.timestamp) >= fromDate);
-    }
-    
-    if (dateRange.to) {
-      const toDate = new Date(dateRange.to);
-      toDate.setHours(23, 59, 59, 999); // End of the day
-      filtered = filtered.filter(log => new Date(log.timestamp) <= toDate);
-    }
-    
-    // Apply sorting
-    filtered.sort((a, b) => {
-      const dateA = new Date(a.timestamp);
-      const dateB = new Date(b.timestamp);
-      return sortDirection === 'desc' ? +dateB - +dateA : +dateA - +dateB;
-    });
-    
-    setFilteredLogs(filtered);
-  }, [logs, searchTerm, actionFilter, dateRange, sortDirection]);
-  
+    const timeout = setTimeout(() => {
+      setFilters(prev => (prev.search || '') === searchInput ? prev : { ...prev, search: searchInput || undefined });
+      setPage(0);
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const updateFilter = (key: keyof AdminLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value || undefined }));
+    setPage(0);
+  };
+
   const handleDateRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setDateRange(prev => ({ ...prev, [name]: value }));
+    updateFilter(e.target.name as 'from' | 'to', e.target.value);
   };
-  
+
   const clearFilters = () => {
-    setSearchTerm('');
-    setActionFilter('all');
-    setDateRange({ from: '', to: '' });
-  };
-  
-  const exportToCSV = () => {
-    if (filteredLogs.length === 0) return;
-    
-    const headers = ['Admin', 'Action', 'Details', 'Timestamp', 'IP Address'];
-    const csvContent = [
-      headers.join(','),
-      ...filteredLogs.map(log => [
-        `"${log.adminName}"`,
-        `"${log.action}"`,
-        `"${log.details.replace(/"/g, '""')}"`,
-        `"${new Date(log.timestamp).toLocaleString()}"`,
-        `"${log.ipAddress || ''}"`,
-      ].join(','))
-    ].join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', `admin-logs-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    setSearchInput('');
+    setFilters({});
+    setPage(0);
   };
-  
-  const getActionBadgeColor = (action: string) => {
-    switch (action) {
-      case 'create_admin':
-        return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300';
-      case 'update_admin':
-        return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-300';
-      case 'delete_admin':
-        return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-300';
-      case 'reset_password':
-        return 'bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300';
-      case 'login':
-        return 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-300';
-      case 'logout':
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
-      default:
-        return 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300';
+
+  const exportToCSV = async () => {
+    setExporting(true);
+    setActionError(null);
+
+    try {
+      const allLogs = await fetchAllAdminLogs(filters);
+      downloadCsv(`admin-logs-${new Date().toISOString().split('T')[0]}.csv`, [
+        ['Seq', 'Timestamp', 'Admin', 'Admin ID', 'Action', 'Resource', 'Resource ID',
+          'Changed Fields', 'Details', 'Before', 'After', 'IP Address', 'User Agent', 'Hash'],
+        ...allLogs.map(log => [
+          String(log.seq ?? ''),
+          log.timestamp,
+          log.adminName,
+          log.adminId || '',
+          log.action,
+          log.resource || '',
+          log.resourceId || '',
+          getChangedFields(log).map(change => change.field).join(' '),
+          JSON.stringify(log.details),
+          log.before ? JSON.stringify(log.before) : '',
+          log.after ? JSON.stringify(log.after) : '',
+          log.ipAddress || '',
+          log.userAgent || '',
+          log.hash || ''
+        ])
+      ]);
+    } catch (err: unknown) {
+      setActionError(err instanceof Error ? err.message : 'Failed to export logs');
+    } finally {
+      setExporting(false);
     }
   };
-  
-  const formatActionName = (action: string) => {
-    return action.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ');
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setActionError(null);
+
+    try {
+      setChainStatus(await verifyAdminLogChain());
+    } catch (err: unknown) {
+      setActionError(err instanceof Error ? err.message : 'Failed to verify logs');
+    } finally {
+      setVerifying(false);
+    }
   };
 
+  const hasFilters = Boolean(
+    filters.search || filters.action || filters.resource || filters.adminId || filters.from || filters.to
+  );
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const adminName = (id: string) => admins.find(admin => admin.id === id)?.username || id.substring(0, 8);
+
   return (
     <div className="space-y-5">
       {/* Filters and Controls */}
@@ -132,65 +183,148 @@ export function AdminLogs({ logs, loading }: AdminLogsProps) {
             <CalendarClock className="h-5 w-5 text-indigo-600 dark:text-indigo-400 mr-2" />
             Admin Activity Logs
           </h2>
-          
-          <button
-            onClick={exportToCSV}
-            disabled={filteredLogs.length === 0}
-            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-100 border border-transparent rounded-lg hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 dark:bg-indigo-900/20 dark:text-indigo-300 dark:hover:bg-indigo-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Download className="h-4 w-4 mr-1.5" />
-            Export CSV
-          </button>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleVerify}
+              disabled={verifying}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 border border-transparent rounded-lg hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {verifying ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-1.5" />}
+              Verify Integrity
+            </button>
+            <button
+              onClick={exportToCSV}
+              disabled={exporting || total === 0}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-100 border border-transparent rounded-lg hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 dark:bg-indigo-900/20 dark:text-indigo-300 dark:hover:bg-indigo-900/30 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exporting ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Download className="h-4 w-4 mr-1.5" />}
+              Export CSV
+            </button>
+          </div>
         </div>
-        
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+
+        {chainStatus && (
+          <div className={`flex items-start gap-2 p-3 rounded-lg text-sm ${
+            chainStatus.firstBrokenSeq === null
+              ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+              : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+          }`}>
+            {chainStatus.firstBrokenSeq === null ? (
+              <>
+                <ShieldCheck className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                All {chainStatus.checked} entries are intact.
+              </>
+            ) : (
+              <>
+                <ShieldAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                Entry #{chainStatus.firstBrokenSeq} does not match its hash. It or an earlier entry was altered
+                outside the app; entries from there on cannot be trusted.
+              </>
+            )}
+            <X size={14} className="ml-auto cursor-pointer flex-shrink-0" onClick={() => setChainStatus(null)} />
+          </div>
+        )}
+
+        {(error || actionError) && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300">
+            {actionError || error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-3">
           {/* Search */}
           <div className="relative">
             <input
               type="text"
-              placeholder="Search logs..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search admin, action, ID..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
             />
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           </div>
-          
+
+          {/* Resource Filter */}
+          <div className="relative">
+            <select
+              value={filters.resource || ''}
+              onChange={(e) => updateFilter('resource', e.target.value)}
+              className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white appearance-none"
+            >
+              <option value="">All Resources</option>
+              {RESOURCES.map(resource => (
+                <option key={resource.table} value={resource.table}>{resource.label}</option>
+              ))}
+            </select>
+            <Database className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          </div>
+
           {/* Action Filter */}
           <div className="relative">
             <select
-              value={actionFilter}
-              onChange={(e) => setActionFilter(e.target.value)}
+              value={filters.action || ''}
+              onChange={(e) => updateFilter('action', e.target.value)}
               className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white appearance-none"
             >
-              {availableActions.map(action => (
-                <option key={action} value={action}>
-                  {action === 'all' ? 'All Actions' : formatActionName(action)}
-                </option>
+              <option value="">All Actions</option>
+              <optgroup label="Accounts">
+                {ACCOUNT_ACTIONS.map(action => (
+                  <option key={action} value={action}>{formatActionName(action)}</option>
+                ))}
+              </optgroup>
+              {RESOURCES.filter(resource => resource.table !== 'users').map(resource => (
+                <optgroup key={resource.table} label={resource.label}>
+                  {['insert', 'update', 'delete'].map(op => (
+                    <option key={op} value={`${op}_${resource.name}`}>
+                      {formatActionName(`${op}_${resource.name}`)}
+                    </option>
+                  ))}
+                  {(BULK_ACTIONS[resource.table] || []).map(action => (
+                    <option key={action} value={action}>{formatActionName(action)}</option>
+                  ))}
+                </optgroup>
               ))}
             </select>
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           </div>
-          
+
+          {/* Admin Filter */}
+          <div className="relative">
+            <select
+              value={filters.adminId || ''}
+              onChange={(e) => updateFilter('adminId', e.target.value)}
+              className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white appearance-none"
+            >
+              <option value="">All Admins</option>
+              {admins
+                .filter(admin => admin.role !== 'user')
+                .map(admin => (
+                  <option key={admin.id} value={admin.id}>{admin.username || admin.email}</option>
+                ))}
+            </select>
+            <User className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          </div>
+
           {/* Date Range - From */}
           <div className="relative">
             <input
               type="date"
               name="from"
-              value={dateRange.from}
+              value={filters.from || ''}
               onChange={handleDateRangeChange}
               className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
               placeholder="From date"
             />
             <CalendarClock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           </div>
-          
+
           {/* Date Range - To */}
           <div className="relative">
             <input
               type="date"
               name="to"
-              value={dateRange.to}
+              value={filters.to || ''}
               onChange={handleDateRangeChange}
               className="w-full px-3 py-2 pl-9 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
               placeholder="To date"
@@ -198,70 +332,66 @@ export function AdminLogs({ logs, loading }: AdminLogsProps) {
             <CalendarClock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           </div>
         </div>
-        
-        {/* Active Filters & Sort Control */}
-        <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
-          <div className="flex flex-wrap items-center gap-2">
-            {/* Active filters */}
-            {(searchTerm || actionFilter !== 'all' || dateRange.from || dateRange.to) && (
-              <>
-                <span className="text-sm text-gray-500 dark:text-gray-400">Active filters:</span>
-                {searchTerm && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
-                    Search: {searchTerm}
-                    <X size={14} className="ml-1 cursor-pointer" onClick={() => setSearchTerm('')} />
-                  </span>
-                )}
-                
-                {actionFilter !== 'all' && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
-                    Action: {formatActionName(actionFilter)}
-                    <X size={14} className="ml-1 cursor-pointer" onClick={() => setActionFilter('all')} />
-                  </span>
-                )}
-                
-                {dateRange.from && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
-                    From: {dateRange.from}
-                    <X size={14} className="ml-1 cursor-pointer" onClick={() => setDateRange(prev => ({ ...prev, from: '' }))} />
-                  </span>
-                )}
-                
-                {dateRange.to && (
-                  <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
-                    To: {dateRange.to}
-                    <X size={14} className="ml-1 cursor-pointer" onClick={() => setDateRange(prev => ({ ...prev, to: '' }))} />
-                  </span>
-                )}
-                
-                <button
-                  onClick={clearFilters}
-                  className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300"
-                >
-                  Clear all
-                </button>
-              </>
+
+        {/* Active Filters */}
+        {hasFilters && (
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <span className="text-sm text-gray-500 dark:text-gray-400">Active filters:</span>
+            {filters.search && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                Search: {filters.search}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => setSearchInput('')} />
+              </span>
             )}
-          </div>
-          
-          {/* Sort control */}
-          <button
-            onClick={() => setSortDirection(prev => prev === 'desc' ? 'asc' : 'desc')}
-            className="inline-flex items-center px-2 py-1 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
-          >
-            <Clock className="h-4 w-4 mr-1" />
-            {sortDirection === 'desc' ? (
-              <>Newest first <ArrowDownAZ className="h-3 w-3 ml-1" /></>
-            ) : (
-              <>Oldest first <ArrowUpAZ className="h-3 w-3 ml-1" /></>
+
+            {filters.resource && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                Resource: {RESOURCES.find(resource => resource.table === filters.resource)?.label || filters.resource}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => updateFilter('resource', '')} />
+              </span>
             )}
-          </button>
-        </div>
+
+            {filters.action && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                Action: {formatActionName(filters.action)}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => updateFilter('action', '')} />
+              </span>
+            )}
+
+            {filters.adminId && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                Admin: {adminName(filters.adminId)}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => updateFilter('adminId', '')} />
+              </span>
+            )}
+
+            {filters.from && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                From: {filters.from}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => updateFilter('from', '')} />
+              </span>
+            )}
+
+            {filters.to && (
+              <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300">
+                To: {filters.to}
+                <X size={14} className="ml-1 cursor-pointer" onClick={() => updateFilter('to', '')} />
+              </span>
+            )}
+
+            <button
+              onClick={clearFilters}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300"
+            >
+              Clear all
+            </button>
+          </div>
+        )}
       </div>
-      
+
       {/* Logs Table */}
       <div className="bg-white dark:bg-gray-750 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
-        {loading ? (
+        {loading && logs.length === 0 ? (
           <div className="p-4">
             <div className="animate-pulse space-y-4">
               <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded"></div>
@@ -270,17 +400,18 @@ export function AdminLogs({ logs, loading }: AdminLogsProps) {
               ))}
             </div>
           </div>
-        ) : filteredLogs.length === 0 ? (
+        ) : logs.length === 0 ? (
           <div className="p-8 text-center text-gray-500 dark:text-gray-400">
-            {logs.length === 0 
-              ? 'No activity logs found in the system.' 
-              : 'No logs match your current filters.'}
+            {hasFilters
+              ? 'No logs match your current filters.'
+              : 'No activity logs found in the system.'}
           </div>
         ) : (
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
               <thead className="bg-gray-50 dark:bg-gray-800">
                 <tr>
+                  <th scope="col" className="w-8 px-3 py-3" />
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Admin
                   </th>
@@ -299,54 +430,125 @@ export function AdminLogs({ logs, loading }: AdminLogsProps) {
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-750 divide-y divide-gray-200 dark:divide-gray-700">
-                {filteredLogs.map((log) => (
-                  <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/40 transition-colors">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="h-8 w-8 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400">
-                          <User className="h-4 w-4" />
-                        </div>
-                        <div className="ml-3">
-                          <div className="text-sm font-medium text-gray-900 dark:text-white">{log.adminName}</div>
-                          <div className="text-xs text-gray-500 dark:text-gray-400">{log.adminId.substring(0, 8)}</div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getActionBadgeColor(log.action)}`}>
-                        {formatActionName(log.action)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4">
-                      <div className="text-sm text-gray-900 dark:text-white max-w-xs truncate">
-                        {log.details}
-                      </div>
-                      {log.resource && (
-                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                          Resource: {log.resource} {log.resourceId && `#${log.resourceId.substring(0, 8)}`}
-                        </div>
+                {logs.map((log) => {
+                  const isExpanded = expandedId === log.id;
+                  const changes = getChangedFields(log);
+
+                  return (
+                    <React.Fragment key={log.id}>
+                      <tr
+                        onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                        className="hover:bg-gray-50 dark:hover:bg-gray-700/40 transition-colors cursor-pointer"
+                      >
+                        <td className="px-3 py-4 text-gray-400">
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="flex items-center">
+                            <div className="h-8 w-8 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400">
+                              <User className="h-4 w-4" />
+                            </div>
+                            <div className="ml-3">
+                              <div className="text-sm font-medium text-gray-900 dark:text-white">{log.adminName}</div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400">{log.adminId?.substring(0, 8) || 'system'}</div>
+                            </div>
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2.5 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getActionBadgeColor(log.action)}`}>
+                            {formatActionName(log.action)}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="text-sm text-gray-900 dark:text-white max-w-xs truncate">
+                            {describeLog(log)}
+                          </div>
+                          {log.resource && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              Resource: {log.resource} {log.resourceId && `#${log.resourceId.substring(0, 8)}`}
+                              {log.action.startsWith('update_') && changes.length > 0 && (
+                                <> · {changes.length} field{changes.length === 1 ? '' : 's'} changed</>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {new Date(log.timestamp).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {log.ipAddress || '-'}
+                        </td>
+                      </tr>
+
+                      {isExpanded && (
+                        <tr className="bg-gray-50 dark:bg-gray-800/60">
+                          <td />
+                          <td colSpan={5} className="px-6 py-4 space-y-3">
+                            {changes.length > 0 ? (
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                                    <th className="py-1 pr-4 font-medium">Field</th>
+                                    <th className="py-1 pr-4 font-medium">Before</th>
+                                    <th className="py-1 font-medium">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="font-mono">
+                                  {changes.map(change => (
+                                    <tr key={change.field} className="align-top">
+                                      <td className="py-1 pr-4 text-gray-700 dark:text-gray-300">{change.field}</td>
+                                      <td className="py-1 pr-4 text-red-700 dark:text-red-300 break-all">{formatValue(change.before)}</td>
+                                      <td className="py-1 text-green-700 dark:text-green-300 break-all">{formatValue(change.after)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            ) : (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">No before/after data recorded.</p>
+                            )}
+                            <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5 break-all">
+                              <div>Entry #{log.seq}{log.userAgent && ` · ${log.userAgent}`}</div>
+                              <div className="font-mono">Hash {log.hash || '—'}</div>
+                            </div>
+                          </td>
+                        </tr>
                       )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {new Date(log.timestamp).toLocaleString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {log.ipAddress || '-'}
-                    </td>
-                  </tr>
-                ))}
+                    </React.Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         )}
       </div>
-      
-      {/* Results Summary */}
-      {!loading && logs.length > 0 && (
-        <div className="text-sm text-gray-500 dark:text-gray-400 text-right">
-          Showing {filteredLogs.length} of {logs.length} logs
+
+      {/* Paging */}
+      {total > 0 && (
+        <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+          <span>
+            Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)} of {total} logs
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(prev => Math.max(0, prev - 1))}
+              disabled={page === 0 || loading}
+              className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <button
+              onClick={() => setPage(prev => Math.min(pageCount - 1, prev + 1))}
+              disabled={page >= pageCount - 1 || loading}
+              className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
         </div>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -13,7 +13,7 @@ import { SectionAdminManagement } from './SectionAdminManagement';
 import { useAdminUsers } from '../../../hooks/useAdminUsers';
 import { useTheme } from '../../../hooks/useTheme';
 import { useAuth } from '../../../hooks/useAuth';
-import { AdminUser, AdminLog, AdminStats } from '../../../types/admin';
+import { AdminUser, AdminStats } from '../../../types/admin';
 import { Department, Batch, Section } from '../../../types/auth';
 import { testUserFetch } from '../../../services/test.service';
 import { supabase } from '../../../lib/supabase';
@@ -101,7 +101,6 @@ const SideNavLink: React.FC<SideNavLinkProps> = ({
 export function SuperAdminDashboard() {
   const [activeTab, setActiveTab] = useState('admins');
   const [adminStats, setAdminStats] = useState<AdminStats | null>(null);
-  const [adminLogs, setAdminLogs] = useState<AdminLog[]>([]);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isMobileView, setIsMobileView] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -110,7 +109,6 @@ export function SuperAdminDashboard() {
   const [loading, setLoading] = useState({
     admins: true,
     stats: true,
-    logs: true,
     departments: true
   });
   const [testLoading, setTestLoading] = useState(false);
@@ -275,32 +273,6 @@ export function SuperAdminDashboard() {
     }
   }, [admins, adminsLoading]);
 
-  // Load admin logs
-  useEffect(() => {
-    const fetchAdminLogs = async () => {
-      setLoading(prev => ({ ...prev, logs: true }));
-      
-      try {
-        // This would be a real API call in production
-        // For now, we'll use mock data based on the actual admins
-        const mockLogs = generateAdminLogs(admins);
-        
-        // Simulate network delay
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        setAdminLogs(mockLogs);
-      } catch (error) {
-        console.error('Error fetching admin logs:', error);
-      } finally {
-        setLoading(prev => ({ ...prev, logs: false }));
-      }
-    };
-    
-    if (!adminsLoading && admins.length > 0) {
-      fetchAdminLogs();
-    }
-  }, [admins, adminsLoading]);
-
   // Update loading state when admins loading state changes
   useEffect(() => {
     setLoading(prev => ({ ...prev, admins: adminsLoading }));
@@ -503,62 +475,6 @@ export function SuperAdminDashboard() {
       .slice(0, 5);
   }
 
-  function generateAdminLogs(admins: AdminUser[]): AdminLog[] {
-    const actions = [
-      'logged_in',
-      'logged_out',
-      'created_user',
-      'updated_user',
-      'deleted_user',
-      'reset_password',
-      'changed_settings',
-      'exported_data',
-      'viewed_report',
-    ];
-    
-    const logs: AdminLog[] = [];
-    
-    // Generate 50 random logs
-    for (let i = 0; i < 50; i++) {
-      const admin = admins[Math.floor(Math.random() * admins.length)];
-      const action = actions[Math.floor(Math.random() * actions.length)];
-      const daysAgo = Math.floor(Math.random() * 30);
-      const date = new Date();
-      date.setDate(date.getDate() - daysAgo);
-      
-      let details = {};
-      
-      if (action === 'created_user' || action === 'updated_user' || action === 'deleted_user') {
-        details = { 
-          userId: `user_${Math.floor(Math.random() * 1000)}`, 
-          username: `user${Math.floor(Math.random() * 1000)}` 
-        };
-      } else if (action === 'changed_settings') {
-        details = { 
-          setting: 'security_policy', 
-          oldValue: 'moderate', 
-          newValue: 'strict' 
-        };
-      }
-      
-      logs.push({
-        id: `log_${i}`,
-        adminId: admin.id,
-        adminName: admin.username,
-        action,
-        timestamp: date.toISOString(),
-        ipAddress: `192.168.1.${Math.floor(Math.random() * 255)}`,
-        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        details
-      });
-    }
-    
-    // Sort by timestamp (most recent first)
-    return logs.sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-  }
-
   // Generate a record of departments for AdminAnalytics 
   function generateAdminsByDepartment(admins: AdminUser[]) {
     const deptMap = admins.reduce((acc, admin) => {
@@ -678,8 +594,7 @@ export function SuperAdminDashboard() {
     {
       id: 'logs',
       label: 'Logs',
-      icon: FileText,
-      badge: adminLogs.length
+      icon: FileText
     },
     {
       id: 'security',
@@ -837,10 +752,7 @@ export function SuperAdminDashboard() {
             )}
             
             {activeTab === 'logs' && (
-              <AdminLogs 
-                logs={adminLogs}
-                loading={loading.logs} 
-              />
+              <AdminLogs admins={admins} />
             )}
             
             {activeTab === 'security' && (
@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Users, CheckCircle, Loader2, AlertCircle, BellRing } from 'lucide-react';
+import { useTaskCompletion } from '../../../hooks/useTaskCompletion';
+import { fetchTaskPushDeliveries } from '../../../services/notification.service';
+import type { Task } from '../../../types';
+
+interface SectionTaskCompletionProps {
+  sectionId: string;
+  tasks: Task[];
+}
+
+export function SectionTaskCompletion({ sectionId, tasks }: SectionTaskCompletionProps) {
+  const { completion, loading, error } = useTaskCompletion(sectionId);
+  const [pushSent, setPushSent] = useState<Record<string, number>>({});
+
+  // Only shared section tasks have per-student progress
+  const rows = useMemo(() => {
+    return tasks
+      .filter(task => task.isAdminTask && task.sectionId === sectionId)
+      .map(task => {
+        const summary = completion[task.id];
+        const completed = summary?.completedCount || 0;
+        const inProgress = summary?.inProgressCount || 0;
+        const total = summary?.totalStudents || 0;
+        return {
+          task,
+          completed,
+          inProgress,
+          total,
+          percentage: total > 0 ? Math.round((completed / total) * 100) : 0
+        };
+      })
+      .sort((a, b) => new Date(a.task.dueDate).getTime() - new Date(b.task.dueDate).getTime());
+  }, [tasks, completion, sectionId]);
+
+  const taskIdsKey = rows.map(({ task }) => task.id).join(',');
+
+  // Devices reached by the push broadcasts of each task
+  useEffect(() => {
+    if (!taskIdsKey) return;
+
+    fetchTaskPushDeliveries(taskIdsKey.split(','))
+      .then(deliveries => {
+        setPushSent(deliveries.reduce((acc: Record<string, number>, delivery) => {
+          if (delivery.taskId) {
+            acc[delivery.taskId] = (acc[delivery.taskId] || 0) + delivery.sentCount;
+          }
+          return acc;
+        }, {}));
+      })
+      .catch(() => setPushSent({}));
+  }, [taskIdsKey]);
+
+  return (
+    <div className="border-t border-gray-100 dark:border-gray-700 p-4 sm:p-5">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-1.5">
+          <Users className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+          Student Completion
+        </h4>
+        {loading && <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />}
+      </div>
+
+      {error && (
+        <div className="mb-3 py-1.5 px-2 bg-red-50 dark:bg-red-900/20 rounded-md">
+          <span className="text-xs font-medium text-red-600 dark:text-red-400 flex items-center">
+            <AlertCircle className="w-3 h-3 mr-1" />
+            {error}
+          </span>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No section tasks to track yet</p>
+      ) : (
+        <div className="max-h-[320px] overflow-y-auto pr-1 custom-scrollbar space-y-2">
+          {rows.map(({ task, completed, inProgress, total, percentage }) => (
+            <div
+              key={task.id}
+              className="bg-gray-50 dark:bg-gray-800/80 p-2.5 rounded-lg border border-gray-100 dark:border-gray-700"
+            >
+              <div className="flex justify-between items-center gap-2 mb-1.5">
+                <span className="text-xs font-medium text-gray-700 dark:text-gray-300 truncate">
+                  {task.name}
+                </span>
+                <span className="flex items-center text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                  <CheckCircle className="w-3 h-3 text-green-500 mr-1" />
+                  {completed} of {total} students completed
+                </span>
+              </div>
+              <div className="h-1.5 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 rounded-full"
+                  style={{ width: `${percentage}%`, transition: 'width 1s ease-out' }}
+                ></div>
+              </div>
+              <div className="mt-1 flex justify-between items-center gap-2">
+                {inProgress > 0 ? (
+                  <p className="text-[10px] text-yellow-600 dark:text-yellow-400">
+                    {inProgress} in progress
+                  </p>
+                ) : <span />}
+                {pushSent[task.id] !== undefined && (
+                  <p className="flex items-center text-[10px] text-gray-500 dark:text-gray-400">
+                    <BellRing className="w-3 h-3 mr-1" />
+                    Push delivered to {pushSent[task.id]} device{pushSent[task.id] === 1 ? '' : 's'}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  CalendarClock,
+  CheckSquare,
+  Copy,
+  MoveRight,
+  Tag,
+  Trash2,
+  X,
+  XCircle,
+  CheckCircle,
+  Flag
+} from 'lucide-react';
+import { fetchTaskTargetSections } from '../../../services/task.service';
+import { TASK_CATEGORY_OPTIONS } from '../../../utils/taskCategories';
+import type {
+  Task,
+  TaskBulkChanges,
+  TaskBulkResult,
+  TaskCategory,
+  TaskPriority,
+  TaskStatus,
+  TaskTargetSection
+} from '../../../types/task';
+
+type BulkPanel = 'category' | 'priority' | 'shift' | 'move' | 'duplicate' | 'delete' | null;
+
+interface TaskBulkActionsProps {
+  selectedCount: number;
+  isProcessing: boolean;
+  onStatusChange: (status: TaskStatus) => void;
+  onBulkUpdate: (changes: TaskBulkChanges) => void;
+  onBulkDelete: () => void;
+  onDuplicate: (sectionIds: string[]) => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Action bar for the tasks selected in the task table
+ */
+export function TaskBulkActions({
+  selectedCount,
+  isProcessing,
+  onStatusChange,
+  onBulkUpdate,
+  onBulkDelete,
+  onDuplicate,
+  onClearSelection
+}: TaskBulkActionsProps) {
+  const [panel, setPanel] = useState<BulkPanel>(null);
+  const [category, setCategory] = useState<TaskCategory>('assignment');
+  const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [shiftDays, setShiftDays] = useState(1);
+  const [sections, setSections] = useState<TaskTargetSection[]>([]);
+  const [targetSectionId, setTargetSectionId] = useState('');
+  const [duplicateSectionIds, setDuplicateSectionIds] = useState<string[]>([]);
+
+  // Sections are only needed once the admin wants to move or copy tasks
+  useEffect(() => {
+    if ((panel !== 'move' && panel !== 'duplicate') || sections.length > 0) return;
+
+    fetchTaskTargetSections()
+      .then(list => {
+        setSections(list);
+        setTargetSectionId(current => current || list[0]?.id || '');
+      })
+      .catch(() => setSections([]));
+  }, [panel, sections.length]);
+
+  const togglePanel = (next: BulkPanel) => setPanel(current => (current === next ? null : next));
+
+  const toggleDuplicateSection = (sectionId: string) => {
+    setDuplicateSectionIds(prev =>
+      prev.includes(sectionId) ? prev.filter(id => id !== sectionId) : [...prev, sectionId]
+    );
+  };
+
+  const sectionLabel = (section: TaskTargetSection) =>
+    section.batchName ? `${section.batchName} · ${section.name}` : section.name;
+
+  const panelButtonClass = (id: BulkPanel) =>
+    `px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs rounded-lg flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      panel === id
+        ? 'bg-blue-600 text-white'
+        : 'bg-white text-gray-700 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+    }`;
+
+  const inputClass =
+    'px-2 sm:px-3 py-1.5 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-xs sm:text-sm';
+
+  const applyButtonClass =
+    'px-3 py-1.5 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300 disabled:cursor-not-allowed';
+
+  const taskLabel = `${selectedCount} ${selectedCount === 1 ? 'task' : 'tasks'}`;
+
+  return (
+    <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl p-2 sm:p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 sm:gap-3">
+        <span className="text-xs sm:text-sm font-medium text-blue-700 dark:text-blue-300">
+          {taskLabel} selected
+        </span>
+        <div className="flex flex-wrap items-center gap-1 sm:gap-2">
+          <button
+            onClick={() => onStatusChange('completed')}
+            disabled={isProcessing}
+            className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-green-300 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <CheckSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Complete</span>
+          </button>
+          <button
+            onClick={() => onStatusChange('in-progress')}
+            disabled={isProcessing}
+            className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:bg-yellow-300 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <CheckSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Progress</span>
+          </button>
+          <button onClick={() => togglePanel('category')} disabled={isProcessing} className={panelButtonClass('category')}>
+            <Tag className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Category</span>
+          </button>
+          <button onClick={() => togglePanel('priority')} disabled={isProcessing} className={panelButtonClass('priority')}>
+            <Flag className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Priority</span>
+          </button>
+          <button onClick={() => togglePanel('shift')} disabled={isProcessing} className={panelButtonClass('shift')}>
+            <CalendarClock className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Shift Due Date</span>
+          </button>
+          <button onClick={() => togglePanel('move')} disabled={isProcessing} className={panelButtonClass('move')}>
+            <MoveRight className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Move</span>
+          </button>
+          <button onClick={() => togglePanel('duplicate')} disabled={isProcessing} className={panelButtonClass('duplicate')}>
+            <Copy className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Duplicate</span>
+          </button>
+          <button
+            onClick={() => togglePanel('delete')}
+            disabled={isProcessing}
+            className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <Trash2 className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+            <span className="hidden xs:inline">Delete</span>
+          </button>
+          <button
+            onClick={onClearSelection}
+            disabled={isProcessing}
+            className="px-2 py-1 sm:px-2.5 sm:py-1.5 text-xs bg-gray-600 text-white rounded-lg hover:bg-gray-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+
+      {panel === 'category' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={category} onChange={e => setCategory(e.target.value as TaskCategory)} className={inputClass}>
+            {TASK_CATEGORY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button onClick={() => onBulkUpdate({ category })} disabled={isProcessing} className={applyButtonClass}>
+            Set category for {taskLabel}
+          </button>
+        </div>
+      )}
+
+      {panel === 'priority' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={priority} onChange={e => setPriority(e.target.value as TaskPriority)} className={inputClass}>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <button onClick={() => onBulkUpdate({ priority })} disabled={isProcessing} className={applyButtonClass}>
+            Set priority for {taskLabel}
+          </button>
+        </div>
+      )}
+
+      {panel === 'shift' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            value={shiftDays}
+            onChange={e => setShiftDays(parseInt(e.target.value, 10) || 0)}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-xs text-gray-600 dark:text-gray-400">days (negative moves earlier)</span>
+          <button
+            onClick={() => onBulkUpdate({ shiftDays })}
+            disabled={isProcessing || shiftDays === 0}
+            className={applyButtonClass}
+          >
+            Shift {taskLabel}
+          </button>
+        </div>
+      )}
+
+      {panel === 'move' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={targetSectionId}
+            onChange={e => setTargetSectionId(e.target.value)}
+            className={inputClass}
+            disabled={sections.length === 0}
+          >
+            {sections.length === 0 && <option value="">No sections available</option>}
+            {sections.map(section => (
+              <option key={section.id} value={section.id}>{sectionLabel(section)}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onBulkUpdate({ sectionId: targetSectionId })}
+            disabled={isProcessing || !targetSectionId}
+            className={applyButtonClass}
+          >
+            Move {taskLabel}
+          </button>
+        </div>
+      )}
+
+      {panel === 'duplicate' && (
+        <div className="space-y-2">
+          {sections.length === 0 ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400">No sections available</p>
+          ) : (
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {sections.map(section => (
+                <label
+                  key={section.id}
+                  className="flex items-center gap-1.5 px-2 py-1 bg-white dark:bg-gray-800 rounded-lg text-xs text-gray-700 dark:text-gray-300 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={duplicateSectionIds.includes(section.id)}
+                    onChange={() => toggleDuplicateSection(section.id)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {sectionLabel(section)}
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => onDuplicate(duplicateSectionIds)}
+            disabled={isProcessing || duplicateSectionIds.length === 0}
+            className={applyButtonClass}
+          >
+            Copy {taskLabel} to {duplicateSectionIds.length} {duplicateSectionIds.length === 1 ? 'section' : 'sections'}
+          </button>
+        </div>
+      )}
+
+      {panel === 'delete' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-red-700 dark:text-red-400">
+            Move {taskLabel} to the trash?
+          </span>
+          <button
+            onClick={onBulkDelete}
+            disabled={isProcessing}
+            className="px-3 py-1.5 text-xs bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-red-300 disabled:cursor-not-allowed"
+          >
+            Delete {taskLabel}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TaskBulkResultPanelProps {
+  // What was done, e.g. "Moved"
+  label: string;
+  result: TaskBulkResult;
+  tasks: Task[];
+  onDismiss: () => void;
+}
+
+/**
+ * Outcome of the last bulk action, listing tasks that were skipped
+ */
+export function TaskBulkResultPanel({ label, result, tasks, onDismiss }: TaskBulkResultPanelProps) {
+  const failures = result.errors.filter(error => !error.isWarning);
+  const warnings = result.errors.filter(error => error.isWarning);
+  const taskName = (taskId: string) => tasks.find(task => task.id === taskId)?.name || 'Unknown task';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-3 sm:p-4 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1">
+          {result.success > 0 && (
+            <p className="flex items-center text-green-600 dark:text-green-400">
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {label} {result.success} {result.success === 1 ? 'task' : 'tasks'}
+            </p>
+          )}
+          {failures.length > 0 && (
+            <p className="flex items-center text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 mr-2" />
+              {failures.length} {failures.length === 1 ? 'task was' : 'tasks were'} skipped
+            </p>
+          )}
+          {warnings.length > 0 && (
+            <p className="flex items-center text-amber-600 dark:text-amber-400">
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Dismiss"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {result.errors.length > 0 && (
+        <ul className="mt-2 text-xs space-y-1 ml-6 list-disc">
+          {result.errors.map((error, idx) => (
+            <li
+              key={idx}
+              className={error.isWarning ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400'}
+            >
+              {taskName(error.taskId)}: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import { X, Calendar, Tag, Clock, AlertCircle } from 'lucide-react';
+import { useState } from 'react';
+import { X, Calendar, Tag, Clock, AlertCircle, MessageSquare } from 'lucide-react';
+import { TaskComments } from '../../task/TaskComments';
 import type { Task } from '../../../types';
+import { formatDueTime, formatGracePeriod, hasDueTime } from '../../../utils/taskDeadline';
 
 interface TaskDetailsModalProps {
   tasks: Task[];
@@ -7,6 +10,8 @@ interface TaskDetailsModalProps {
 }
 
 export function TaskDetailsModal({ tasks = [], onClose }: TaskDetailsModalProps) {
+  // One open thread at a time keeps a single realtime channel alive
+  const [commentsTaskId, setCommentsTaskId] = useState<string | null>(null);
   const sortedTasks = [...tasks].sort((a, b) => 
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
@@ -104,15 +109,31 @@ export function TaskDetailsModal({ tasks = [], onClose }: TaskDetailsModalProps)
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="w-4 h-4" />
-                        <span>Due: {new Date(task.dueDate).toLocaleDateString()}</span>
+                        <span>
+                          Due: {new Date(task.dueDate).toLocaleDateString()}
+                          {hasDueTime(task) && `, ${formatDueTime(task)}`}
+                          {!!task.gracePeriodMinutes && ` (+${formatGracePeriod(task.gracePeriodMinutes)} grace)`}
+                        </span>
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
                         <span>Created: {new Date(task.createdAt).toLocaleDateString()}</span>
                       </div>
+                      <button
+                        onClick={() => setCommentsTaskId(commentsTaskId === task.id ? null : task.id)}
+                        className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                        <span>{commentsTaskId === task.id ? 'Hide questions' : 'Questions'}</span>
+                      </button>
                     </div>
                   </div>
                 </div>
+                {commentsTaskId === task.id && (
+                  <div className="mt-4 pt-4 border-t">
+                    <TaskComments task={task} />
+                  </div>
+                )}
               </div>
             ))}
           </div>
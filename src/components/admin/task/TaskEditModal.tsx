@@ -1,7 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { X, Tag, Calendar, AlignLeft, Link2, Upload, CheckCircle, AlertCircle, ChevronDown, FileText, Paperclip, Eye, Edit3, Info } from 'lucide-react';
+import { X, Tag, Calendar, AlignLeft, Link2, Upload, CheckCircle, AlertCircle, ChevronDown, FileText, Paperclip, Eye, Edit3, Info, Clock, Globe, Hourglass } from 'lucide-react';
 import type { Task } from '../../../types';
-import type { TaskPriority } from '../../../types/task';
+import type { TaskAttachment } from '../../../types/task';
+import { TaskAttachmentList } from '../../task/TaskAttachmentList';
+import { MarkdownContent } from '../../MarkdownContent';
+import {
+  uploadTaskAttachments,
+  replaceTaskAttachment,
+  deleteTaskAttachment
+} from '../../../services/taskAttachment.service';
+import {
+  APP_TIMEZONE,
+  GRACE_PERIOD_OPTIONS,
+  getLocalTimeZone,
+  getTaskDeadline,
+  toZonedInputValues,
+  zonedTimeToUtc
+} from '../../../utils/taskDeadline';
 
 interface TaskEditModalProps {
   task: Task;
@@ -10,18 +25,24 @@ interface TaskEditModalProps {
 }
 
 export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
+  const initialTimezone = task.dueTimezone || APP_TIMEZONE;
+  const initialDue = toZonedInputValues(getTaskDeadline(task), initialTimezone);
   const [formData, setFormData] = useState<Partial<Task>>({
     name: task.name,
     category: task.category,
-    dueDate: task.dueDate,
+    dueDate: initialDue.date,
+    dueTimezone: initialTimezone,
+    gracePeriodMinutes: task.gracePeriodMinutes || 0,
+    requiresSubmission: !!task.requiresSubmission,
     description: task.description,
     status: task.status,
   });
+  const [dueTime, setDueTime] = useState(initialDue.time);
   
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [files, setFiles] = useState<File[]>([]);
   const [fileUrls, setFileUrls] = useState<string[]>([]);
-  const [attachments, setAttachments] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<TaskAttachment[]>(task.attachments || []);
   const [linkInput, setLinkInput] = useState('');
   const [links, setLinks] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -121,11 +142,10 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     }
   }, []);
   
-  // Extract existing attachments from description and clean description
+  // Extract existing links from description and clean description
   useEffect(() => {
     if (task.description) {
       const regex = /\[([^\]]+)\]\(([^)]+)\)/g;
-      const matches: string[] = [];
       const existingLinks: string[] = [];
       
       // Replace description with clean version (without attachment links)
@@ -146,35 +166,16 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
         cleanDescription = cleanDescription.replace(sectionIdRegex, '').trim();
       }
       
-      // Check for inline attachment references
-      const inlineAttachmentRegex = /\[([^\]]+)\]\(attachment:([^)]+)\)/g;
-      let inlineMatch;
-      
-      while ((inlineMatch = inlineAttachmentRegex.exec(cleanDescription)) !== null) {
-        const [fullMatch, text] = inlineMatch;
-        // If there's an inline attachment reference, extract it and remove from description
-        if (!matches.includes(text)) {
-          matches.push(text);
-        }
-        cleanDescription = cleanDescription.replace(fullMatch, '').trim();
-      }
-      
-      // Extract links and attachments separately from the full description
+      // Extract plain links from the full description
       let match;
       while ((match = regex.exec(task.description)) !== null) {
-        const [fullMatch, text, url] = match;
+        const [, text, url] = match;
         
-        if (url.startsWith('attachment:')) {
-          // Extract attachment references that might not have been caught above
-          if (!matches.includes(text)) {
-            matches.push(text);
-          }
-        } else if (!url.startsWith('attachment:') && text === url) {
+        if (text === url) {
           existingLinks.push(url);
         }
       }
       
-      setAttachments(matches);
       setLinks(existingLinks);
       setFormData(prev => ({ ...prev, description: cleanDescription }));
     }
@@ -214,13 +215,16 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     if (!formData.dueDate) {
       newErrors.dueDate = 'Due date is required';
       isValid = false;
+    } else if (!dueTime) {
+      newErrors.dueDate = 'Due time is required';
+      isValid = false;
     } else {
-      const selectedDate = new Date(formData.dueDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const deadline = zonedTimeToUtc(formData.dueDate, dueTime, formData.dueTimezone);
+      const deadlineChanged = deadline.getTime() !== getTaskDeadline(task).getTime();
       
-      if (selectedDate < today && formData.status !== 'completed') {
-        newErrors.dueDate = 'Due date cannot be in the past for non-completed tasks';
+      // An unchanged deadline may already have passed
+      if (deadlineChanged && deadline.getTime() <= Date.now() && formData.status !== 'completed') {
+        newErrors.dueDate = 'Deadline cannot be in the past for non-completed tasks';
         isValid = false;
       }
     }
@@ -232,7 +236,7 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     
     setErrors(newErrors);
     return isValid;
-  }, [formData]);
+  }, [formData, dueTime, task]);
   
   // Handle input changes
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -262,7 +266,7 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     
     setFormData(prev => ({
       ...prev,
-      [name]: value,
+      [name]: name === 'gracePeriodMinutes' ? Number(value) : value,
     }));
     
     // Clear error when user types
@@ -317,10 +321,20 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     setFileUrls(prev => prev.filter((_, i) => i !== index));
   }, [fileUrls]);
   
-  // Remove existing attachment
-  const removeAttachment = useCallback((index: number) => {
-    setAttachments(prev => prev.filter((_, i) => i !== index));
-  }, []);
+  // Existing attachments are replaced/deleted right away, independent of Save
+  const handleReplaceAttachment = useCallback(async (attachment: TaskAttachment, file: File) => {
+    const replaced = await replaceTaskAttachment(attachment, file);
+    const next = attachments.map(a => (a.id === replaced.id ? replaced : a));
+    setAttachments(next);
+    onUpdate(task.id, { attachments: next });
+  }, [attachments, onUpdate, task.id]);
+
+  const handleDeleteAttachment = useCallback(async (attachment: TaskAttachment) => {
+    await deleteTaskAttachment(attachment);
+    const next = attachments.filter(a => a.id !== attachment.id);
+    setAttachments(next);
+    onUpdate(task.id, { attachments: next });
+  }, [attachments, onUpdate, task.id]);
   
   // Handle form submission
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
@@ -353,24 +367,28 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
         });
       }
       
-      // Add attachments section if any exist
-      if (attachments.length > 0 || files.length > 0) {
-        enhancedDescription += '\n\n**Attachments:**\n';
-        
-        // Add existing attachments
-        attachments.forEach(attachment => {
-          enhancedDescription += `- [${attachment}](attachment:${attachment})\n`;
-        });
-        
-        // Add new files
-        files.forEach(file => {
-          enhancedDescription += `- [${file.name}](attachment:${file.name})\n`;
-        });
+      // Upload new files as task attachments
+      let nextAttachments = attachments;
+      if (files.length > 0) {
+        const { attachments: uploaded, failed } = await uploadTaskAttachments(task.id, files);
+        nextAttachments = [...attachments, ...uploaded];
+        setAttachments(nextAttachments);
+
+        if (failed.length > 0) {
+          setErrors(prev => ({
+            ...prev,
+            files: `Failed to upload: ${failed.join(', ')}`
+          }));
+          setFiles(prev => prev.filter(file => failed.includes(file.name)));
+          return;
+        }
       }
       
       const updates: Partial<Task> = {
         ...formData,
+        dueAt: zonedTimeToUtc(formData.dueDate || task.dueDate, dueTime, formData.dueTimezone).toISOString(),
         description: enhancedDescription,
+        attachments: nextAttachments,
       };
       
       onUpdate(task.id, updates);
@@ -385,7 +403,7 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     } finally {
       setIsSubmitting(false);
     }
-  }, [formData, links, attachments, files, validate, onUpdate, task.id, task.sectionId, onClose]);
+  }, [formData, dueTime, links, attachments, files, validate, onUpdate, task.id, task.dueDate, task.sectionId, onClose]);
   
   const getMinDate = useCallback(() => {
     const today = new Date();
@@ -414,34 +432,6 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
     };
   }, [onClose]);
 
-  // Format markdown content for preview
-  const renderMarkdownPreview = useCallback((content: string): string => {
-    if (!content) return '';
-    
-    // Replace line breaks with HTML breaks
-    let formatted = content.replace(/\n/g, '<br>');
-    
-    // Format bold text
-    formatted = formatted.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
-    
-    // Format italics
-    formatted = formatted.replace(/\*([^*]+)\*/g, '<em>$1</em>');
-    
-    // Format attachment links specially
-    formatted = formatted.replace(
-      /\[([^\]]+)\]\(attachment:([^)]+)\)/g, 
-      '<span class="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded-full text-xs"><svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>$1</span>'
-    );
-    
-    // Format regular links
-    formatted = formatted.replace(
-      /\[([^\]]+)\]\((?!attachment:)([^)]+)\)/g, 
-      '<a href="$2" class="text-blue-600 dark:text-blue-400 hover:underline" target="_blank">$1</a>'
-    );
-    
-    return formatted;
-  }, []);
-
   return (
     <div
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-0 sm:p-4 z-50 overflow-y-auto animate-fadeIn"
@@ -596,6 +586,95 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="dueTime" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Due Time<span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Clock className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400" />
+                </div>
+                <input
+                  type="time"
+                  id="dueTime"
+                  name="dueTime"
+                  value={dueTime}
+                  onChange={(e) => {
+                    setDueTime(e.target.value);
+                    setErrors(prev => ({ ...prev, dueDate: '' }));
+                  }}
+                  className="w-full pl-10 pr-4 py-2.5 sm:py-3 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base"
+                  aria-required="true"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="dueTimezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Time Zone
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Globe className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400" />
+                </div>
+                <select
+                  id="dueTimezone"
+                  name="dueTimezone"
+                  value={formData.dueTimezone}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2.5 sm:py-3 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base appearance-none"
+                >
+                  {Array.from(new Set([initialTimezone, APP_TIMEZONE, getLocalTimeZone(), 'UTC'])).map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+                <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+                  <ChevronDown className="h-4 w-4 text-gray-500" />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="gracePeriodMinutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Late Submissions
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Hourglass className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400" />
+                </div>
+                <select
+                  id="gracePeriodMinutes"
+                  name="gracePeriodMinutes"
+                  value={formData.gracePeriodMinutes}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-2.5 sm:py-3 border dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base appearance-none"
+                >
+                  {GRACE_PERIOD_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.value === 0 ? 'Not accepted after the deadline' : `Accepted for ${option.label}`}
+                    </option>
+                  ))}
+                </select>
+                <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+                  <ChevronDown className="h-4 w-4 text-gray-500" />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 py-2.5 sm:py-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  id="requiresSubmission"
+                  name="requiresSubmission"
+                  checked={!!formData.requiresSubmission}
+                  onChange={(e) => setFormData(prev => ({ ...prev, requiresSubmission: e.target.checked }))}
+                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                Students submit work for this task
+              </label>
+            </div>
+
             <div>
               <div className="flex justify-between items-center mb-1">
                 <label htmlFor="status" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -643,7 +722,9 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                       <p>Use markdown formatting:</p>
                       <p><code>**bold**</code> for <strong>bold text</strong></p>
                       <p><code>*italic*</code> for <em>italic text</em></p>
-                      <p>New lines create paragraphs</p>
+                      <p><code>- item</code> or <code>1. item</code> for lists</p>
+                      <p><code>`code`</code> and <code>```</code> blocks for code</p>
+                      <p><code>| a | b |</code> rows for tables</p>
                     </div>
                   </div>
                 </label>
@@ -697,10 +778,10 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                     ></textarea>
                   </>
                 ) : (
-                  <div 
+                  <MarkdownContent
+                    content={formData.description}
                     className="w-full px-4 py-2.5 sm:py-3 border dark:border-gray-600 rounded-xl bg-gray-50 dark:bg-gray-700 text-sm sm:text-base text-gray-700 dark:text-gray-200 min-h-[6rem]"
-                    dangerouslySetInnerHTML={{ __html: renderMarkdownPreview(formData.description || '') }}
-                  ></div>
+                  />
                 )}
                 {errors.description && !showPreview && (
                   <p className="mt-1.5 text-xs sm:text-sm text-red-600 dark:text-red-400 flex items-start gap-1">
@@ -789,24 +870,6 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                       <span className="flex items-center gap-2">
                         <FileText className="w-4 h-4" /> Attachments
                       </span>
-                      {attachments.length > 0 && (
-                        <div className="relative group">
-                          <button
-                            type="button"
-                            className="text-xs text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 flex items-center gap-1"
-                            aria-label="How to use attachments"
-                          >
-                            <Info className="w-3.5 h-3.5" />
-                            <span className="hidden xs:inline">How to use</span>
-                          </button>
-                          <div className="absolute right-0 bottom-full mb-2 w-60 p-2 bg-white dark:bg-gray-800 rounded shadow-lg text-xs border border-gray-200 dark:border-gray-700 hidden group-hover:block z-10">
-                            <p>To reference an attachment in your description:</p>
-                            <code className="block mt-1 p-1 bg-gray-100 dark:bg-gray-700 rounded">
-                              See my [filename.csv](attachment:filename.csv)
-                            </code>
-                          </div>
-                        </div>
-                      )}
                     </h4>
                     
                     {/* Existing attachments */}
@@ -815,24 +878,11 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                         <h5 className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
                           Current Attachments
                         </h5>
-                        <div className="space-y-2">
-                          {attachments.map((attachment, index) => (
-                            <div key={index} className="flex items-center justify-between px-3 py-2.5 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                              <div className="text-sm text-gray-700 dark:text-gray-300 truncate max-w-[calc(100%-40px)] flex items-center gap-2">
-                                <Upload className="w-4 h-4 text-gray-400 flex-shrink-0" />
-                                <span className="font-medium">{attachment}</span>
-                              </div>
-                              <button
-                                type="button"
-                                onClick={() => removeAttachment(index)}
-                                className="text-gray-400 hover:text-red-600 dark:hover:text-red-400 p-1.5 rounded-full hover:bg-gray-200 dark:hover:bg-gray-600"
-                                aria-label={`Remove attachment ${attachment}`}
-                              >
-                                <X className="w-4 h-4" />
-                              </button>
-                            </div>
-                          ))}
-                        </div>
+                        <TaskAttachmentList
+                          attachments={attachments}
+                          onReplace={handleReplaceAttachment}
+                          onDelete={handleDeleteAttachment}
+                        />
                       </div>
                     )}
                     
@@ -858,6 +908,13 @@ export function TaskEditModal({ task, onClose, onUpdate }: TaskEditModalProps) {
                       </div>
                     </label>
                     
+                    {errors.files && (
+                      <p className="mt-1.5 text-xs sm:text-sm text-red-600 dark:text-red-400 flex items-start gap-1">
+                        <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                        {errors.files}
+                      </p>
+                    )}
+                    
                     {/* New files */}
                     {files.length > 0 && (
                       <div className="mt-4">
@@ -8,9 +8,21 @@ import {
   CheckCircle,
   Upload,
   X,
-  Paperclip
+  Paperclip,
+  Clock,
+  Globe,
+  Hourglass
 } from 'lucide-react';
+import { MarkdownPreview } from '../../MarkdownContent';
+import { SUBMISSION_CATEGORIES } from '../../../utils/taskCategories';
 import type { NewTask } from '../../../types/task';
+import {
+  APP_TIMEZONE,
+  DEFAULT_DUE_TIME,
+  GRACE_PERIOD_OPTIONS,
+  getLocalTimeZone,
+  zonedTimeToUtc
+} from '../../../utils/taskDeadline';
 
 interface TaskFormProps {
   onSubmit: (task: NewTask) => void;
@@ -25,6 +37,8 @@ type TaskFormErrors = Partial<Record<keyof NewTask | 'files', string>>;
 // Form state interface
 interface FormState {
   taskDetails: NewTask;
+  // HH:mm in the task's zone; combined with the due date on submit
+  dueTime: string;
   errors: TaskFormErrors;
   files: File[];
   fileUrls: string[];
@@ -35,7 +49,8 @@ interface FormState {
 
 // Form action types
 type FormAction = 
-  | { type: 'SET_TASK_FIELD', field: keyof NewTask, value: string }
+  | { type: 'SET_TASK_FIELD', field: keyof NewTask, value: string | number | boolean }
+  | { type: 'SET_DUE_TIME', dueTime: string }
   | { type: 'SET_ERRORS', errors: TaskFormErrors }
   | { type: 'CLEAR_ERROR', field: keyof NewTask | 'files' }
   | { type: 'ADD_FILES', newFiles: File[], newUrls: string[] }
@@ -53,8 +68,12 @@ const createInitialState = (sectionId?: string): FormState => ({
     dueDate: '',
     description: '',
     status: 'in-progress',
+    dueTimezone: APP_TIMEZONE,
+    gracePeriodMinutes: 0,
+    requiresSubmission: false,
     sectionId: sectionId || undefined
   },
+  dueTime: DEFAULT_DUE_TIME,
   errors: {},
   files: [],
   fileUrls: [],
@@ -74,6 +93,11 @@ function formReducer(state: FormState, action: FormAction): FormState {
           [action.field]: action.value
         }
       };
+    case 'SET_DUE_TIME':
+      return {
+        ...state,
+        dueTime: action.dueTime
+      };
     case 'SET_ERRORS':
       return {
         ...state,
@@ -200,6 +224,7 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
   // Destructure state for easier access
   const {
     taskDetails,
+    dueTime,
     errors,
     files,
     fileUrls,
@@ -268,13 +293,14 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
     if (!taskDetails.dueDate) {
       newErrors.dueDate = 'Due date is required';
       isValid = false;
+    } else if (!dueTime) {
+      newErrors.dueDate = 'Due time is required';
+      isValid = false;
     } else {
-      const selectedDate = new Date(taskDetails.dueDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const deadline = zonedTimeToUtc(taskDetails.dueDate, dueTime, taskDetails.dueTimezone);
       
-      if (selectedDate < today) {
-        newErrors.dueDate = 'Due date cannot be in the past';
+      if (deadline.getTime() <= Date.now()) {
+        newErrors.dueDate = 'Deadline cannot be in the past';
         isValid = false;
       }
     }
@@ -286,7 +312,7 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
     
     dispatch({ type: 'SET_ERRORS', errors: newErrors });
     return isValid;
-  }, [taskDetails]);
+  }, [taskDetails, dueTime]);
   
   // Handle input changes
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -294,14 +320,33 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
     dispatch({ 
       type: 'SET_TASK_FIELD', 
       field: name as keyof NewTask, 
-      value 
+      value: name === 'gracePeriodMinutes' ? Number(value) : value
     });
+
+    if (name === 'category') {
+      dispatch({
+        type: 'SET_TASK_FIELD',
+        field: 'requiresSubmission',
+        value: SUBMISSION_CATEGORIES.includes(value as NewTask['category'])
+      });
+    }
     
     // Clear error when user types
-    if (errors[name as keyof NewTask]) {
-      dispatch({ type: 'CLEAR_ERROR', field: name as keyof NewTask });
+    const errorField = name === 'dueTimezone' ? 'dueDate' : name as keyof NewTask;
+    if (errors[errorField]) {
+      dispatch({ type: 'CLEAR_ERROR', field: errorField });
+    }
+  }, [errors]);
+
+  const handleDueTimeChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    dispatch({ type: 'SET_DUE_TIME', dueTime: e.target.value });
+    if (errors.dueDate) {
+      dispatch({ type: 'CLEAR_ERROR', field: 'dueDate' });
     }
   }, [errors]);
+
+  // The app's zone, the admin's own and UTC, without repeats
+  const timeZoneOptions = Array.from(new Set([APP_TIMEZONE, getLocalTimeZone(), 'UTC']));
   
   // Handle file upload with progress tracking - memoized
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -391,74 +436,22 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
     }, 45000);
     
     try {
-      // Clone task details to avoid modifying state during preparation
-      const taskDescription = taskDetails.description;
-      let enhancedDescription = taskDescription;
-      
-      // Check if device is mobile
-      const isDeviceMobile = isMobile();
-      
-      // Add file references
-      if (files.length > 0) {
-        enhancedDescription += '\n\n**Attachments:**\n';
-        
-        // For mobile devices, create direct attachment references
-        if (isDeviceMobile) {
-          // Filter valid files
-          const validFiles = files.filter(file => 
-            file.size > 0 && file.name && typeof file.name === 'string'
-          );
-          
-          validFiles.forEach(file => {
-            // Mobile - use attachment: protocol
-            enhancedDescription += `- [${file.name}](attachment:${file.name})\n`;
-          });
-          
-          // Add a special flag for mobile uploads
-          enhancedDescription += '\n<!-- mobile-uploads -->\n';
-        } else {
-          // For desktop, create blob URLs
-          files.forEach(file => {
-            const fileUrl = URL.createObjectURL(file);
-            enhancedDescription += `- [${file.name}](${fileUrl})\n`;
-          });
-        }
-      }
+      let enhancedDescription = taskDetails.description;
       
       // Add notice for section tasks if this is a section admin
       if (isSectionAdmin && sectionId) {
         enhancedDescription += `\n\n*This task is assigned to section ID: ${sectionId}*`;
       }
       
-      // Create final task object
+      // Create final task object; files are stored as task attachments
       const finalTask: NewTask = {
         ...taskDetails,
+        dueAt: zonedTimeToUtc(taskDetails.dueDate, dueTime, taskDetails.dueTimezone).toISOString(),
         description: enhancedDescription,
         sectionId: sectionId,
+        files: files.filter(file => file.name && file.size > 0)
       };
       
-      // Handle mobile file uploads
-      if (isDeviceMobile && files.length > 0) {
-        // Validate files before sending
-        const validFiles = files.filter(file => file.name && file.size > 0);
-        
-        // On mobile, attach the files with a custom property
-        (finalTask as any)._mobileFiles = validFiles;
-        
-        // Add additional flag for section admin mobile uploads
-        if (isSectionAdmin && sectionId) {
-          console.log('[Debug] Setting section admin mobile flags:', { isSectionAdmin, sectionId });
-          (finalTask as any)._isSectionAdminMobile = true;
-          (finalTask as any)._sectionId = sectionId;
-          
-          // Also set the sectionId in the standard location to ensure it's used
-          finalTask.sectionId = sectionId;
-        }
-        
-        // Add timestamp to prevent caching issues on mobile
-        (finalTask as any)._mobileTimestamp = Date.now();
-      }
-      
       // Submit the task
       await onSubmit(finalTask);
       
@@ -499,7 +492,7 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
         dispatch({ type: 'SET_UPLOAD_PROGRESS', progress: 0 });
       }
     }
-  }, [validate, taskDetails, files, isMobile, isSectionAdmin, sectionId, onSubmit]);
+  }, [validate, taskDetails, dueTime, files, isSectionAdmin, sectionId, onSubmit]);
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-md overflow-hidden border border-gray-100 dark:border-gray-700">
@@ -605,6 +598,83 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
             </FormField>
           </div>
 
+          <div>
+            <FormField id="dueTime" label="Due Time" required>
+              <div className="relative">
+                <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none">
+                  <Clock className="w-5 h-5" />
+                </div>
+                <input
+                  type="time"
+                  id="dueTime"
+                  name="dueTime"
+                  value={dueTime}
+                  onChange={handleDueTimeChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm sm:text-base touch-manipulation"
+                  aria-required="true"
+                />
+              </div>
+            </FormField>
+          </div>
+
+          <div>
+            <FormField id="dueTimezone" label="Time Zone">
+              <div className="relative">
+                <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none">
+                  <Globe className="w-5 h-5" />
+                </div>
+                <select
+                  id="dueTimezone"
+                  name="dueTimezone"
+                  value={taskDetails.dueTimezone}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none text-sm sm:text-base touch-manipulation"
+                >
+                  {timeZoneOptions.map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+              </div>
+            </FormField>
+          </div>
+
+          <div>
+            <FormField id="gracePeriodMinutes" label="Late Submissions">
+              <div className="relative">
+                <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 pointer-events-none">
+                  <Hourglass className="w-5 h-5" />
+                </div>
+                <select
+                  id="gracePeriodMinutes"
+                  name="gracePeriodMinutes"
+                  value={taskDetails.gracePeriodMinutes}
+                  onChange={handleChange}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white appearance-none text-sm sm:text-base touch-manipulation"
+                >
+                  {GRACE_PERIOD_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.value === 0 ? 'Not accepted after the deadline' : `Accepted for ${option.label}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </FormField>
+          </div>
+
+          <div className="flex items-end">
+            <label className="flex items-center gap-2 py-3 text-sm text-gray-700 dark:text-gray-300 cursor-pointer touch-manipulation">
+              <input
+                type="checkbox"
+                id="requiresSubmission"
+                name="requiresSubmission"
+                checked={!!taskDetails.requiresSubmission}
+                onChange={(e) => dispatch({ type: 'SET_TASK_FIELD', field: 'requiresSubmission', value: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Students submit work for this task
+            </label>
+          </div>
+
           <div className="col-span-1 sm:col-span-2">
             <FormField id="description" label="Description" required error={errors.description}>
               <div className="relative">
@@ -626,6 +696,7 @@ export function TaskForm({ onSubmit, sectionId, isSectionAdmin = false, isSubmit
                   aria-describedby={errors.description ? "description-error" : undefined}
                 ></textarea>
               </div>
+              <MarkdownPreview content={taskDetails.description} />
             </FormField>
           </div>
 
@@ -10,6 +10,9 @@ import { Chart as ChartJS, ArcElement, Tooltip, Legend,
   PointElement, LineElement } from 'chart.js';
 import { Pie, Bar, Line } from 'react-chartjs-2';
 import { CSVLink } from 'react-csv';
+import { SectionTaskCompletion } from './SectionTaskCompletion';
+import { isOverdue } from '../../../utils/dateUtils';
+import { getTaskDueState } from '../../../utils/taskDeadline';
 import type { Task } from '../../../types';
 
 // Register ChartJS components
@@ -25,15 +28,6 @@ ChartJS.register(
   LineElement
 );
 
-// Helper function to check if a task is overdue
-function isOverdue(dueDate: string): boolean {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const taskDate = new Date(dueDate);
-  taskDate.setHours(0, 0, 0, 0);
-  return taskDate < today;
-}
-
 // Define chart options outside component to prevent recreation
 const chartOptions = {
   responsive: true,
@@ -93,9 +87,10 @@ const categoryNameMap: Record<string, string> = {
 
 interface TaskStatsProps {
   tasks: Task[];
+  sectionId?: string;
 }
 
-export const TaskStats = memo(({ tasks }: TaskStatsProps) => {
+export const TaskStats = memo(({ tasks, sectionId }: TaskStatsProps) => {
   const [activeChart, setActiveChart] = useState<'status' | 'category' | 'timeline' | 'trend'>('category');
   const [animateChart, setAnimateChart] = useState(false);
   const [timeFilter, setTimeFilter] = useState<'all' | '30days' | '7days'>('all');
@@ -122,10 +117,12 @@ export const TaskStats = memo(({ tasks }: TaskStatsProps) => {
 
   // Memoize status statistics
   const statusStats = useMemo(() => ({
-    todo: filteredTasks.filter(task => task.status === 'my-tasks' && !isOverdue(task.dueDate)).length,
-    inProgress: filteredTasks.filter(task => task.status === 'in-progress' && !isOverdue(task.dueDate)).length,
+    todo: filteredTasks.filter(task => task.status === 'my-tasks' && !isOverdue(task)).length,
+    inProgress: filteredTasks.filter(task => task.status === 'in-progress' && !isOverdue(task)).length,
     completed: filteredTasks.filter(task => task.status === 'completed').length,
-    overdue: filteredTasks.filter(task => isOverdue(task.dueDate) && task.status !== 'completed').length
+    overdue: filteredTasks.filter(task => isOverdue(task, task.status)).length,
+    // Past the deadline but still inside the grace period
+    late: filteredTasks.filter(task => task.status !== 'completed' && getTaskDueState(task) === 'late').length
   }), [filteredTasks]);
   
   // Memoize category statistics
@@ -183,14 +180,7 @@ export const TaskStats = memo(({ tasks }: TaskStatsProps) => {
           return false;
         }
       }).length,
-      overdue: filteredTasks.filter(task => {
-        try {
-          const dueDate = new Date(task.dueDate);
-          return dueDate < today && task.status !== 'completed';
-        } catch (e) {
-          return false;
-        }
-      }).length,
+      overdue: filteredTasks.filter(task => isOverdue(task, task.status)).length,
     };
   }, [filteredTasks]);
 
@@ -555,6 +545,9 @@ export const TaskStats = memo(({ tasks }: TaskStatsProps) => {
           <span className="text-[10px] xs:text-xs font-medium text-gray-700 dark:text-gray-300 text-center">Due Tasks</span>
           <span className="text-xs xs:text-sm font-bold text-gray-800 dark:text-white">{statusStats.overdue}</span>
           <span className="text-[8px] xs:text-[10px] text-red-600 dark:text-red-400">{getPercentage(statusStats.overdue)}%</span>
+          {statusStats.late > 0 && (
+            <span className="text-[8px] xs:text-[10px] text-amber-600 dark:text-amber-400">{statusStats.late} in grace period</span>
+          )}
         </div>
         
         <div className="flex flex-col items-center p-1.5 xs:p-2 bg-green-50 dark:bg-green-900/20 rounded-lg">
@@ -1036,6 +1029,9 @@ export const TaskStats = memo(({ tasks }: TaskStatsProps) => {
           </div>
         </div>
       </div>
+
+      {/* Per-student completion for section admins */}
+      {sectionId && <SectionTaskCompletion sectionId={sectionId} tasks={tasks} />}
     </div>
   );
 });
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { X, Download, Inbox, Paperclip, Link2, Loader2, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskSubmissions } from '../../../hooks/useTaskSubmissions';
+import { buildSubmissionRoster, downloadSubmissionsZip } from '../../../utils/submissionRoster';
+import { formatDate } from '../../../utils/dateUtils';
+import { formatDueTime, getTaskDeadline, getTaskDueState, hasDueTime } from '../../../utils/taskDeadline';
+import type { Task } from '../../../types';
+import type { SubmissionStatus } from '../../../types/submission';
+
+interface TaskSubmissionRosterProps {
+  task: Task;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<SubmissionStatus, { label: string; className: string; icon: typeof CheckCircle }> = {
+  submitted: {
+    label: 'Submitted',
+    className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+    icon: CheckCircle
+  },
+  late: {
+    label: 'Late',
+    className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+    icon: Clock
+  },
+  missing: {
+    label: 'Missing',
+    className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+    icon: AlertTriangle
+  }
+};
+
+export function TaskSubmissionRoster({ task, onClose }: TaskSubmissionRosterProps) {
+  const { submissions, students, loading, error } = useTaskSubmissions(task.id, task.sectionId);
+  const [filter, setFilter] = useState<SubmissionStatus | 'all'>('all');
+  const [downloading, setDownloading] = useState(false);
+
+  const roster = useMemo(
+    () => buildSubmissionRoster(task, students, submissions),
+    [task, students, submissions]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<SubmissionStatus, number> = { submitted: 0, late: 0, missing: 0 };
+    roster.forEach(entry => { result[entry.status]++; });
+    return result;
+  }, [roster]);
+
+  // Before the deadline closes, missing just means not turned in yet
+  const stillOpen = ['upcoming', 'due-soon', 'late'].includes(getTaskDueState(task));
+  const visible = filter === 'all' ? roster : roster.filter(entry => entry.status === filter);
+  const submittedCount = counts.submitted + counts.late;
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const fileName = `${task.name.replace(/[\\/:*?"<>|]+/g, '_')} - submissions.zip`;
+      const failed = await downloadSubmissionsZip(fileName, roster);
+      if (failed.length > 0) {
+        toast.error(`Could not include ${failed.length} file${failed.length !== 1 ? 's' : ''}: ${failed.join(', ')}`);
+      }
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create the ZIP file');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-0 sm:p-4 z-50 overflow-y-auto animate-fadeIn"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="submission-roster-title"
+    >
+      <div className="bg-white dark:bg-gray-800 rounded-2xl max-w-3xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-y-auto shadow-xl relative animate-slideIn">
+        <div className="sticky top-0 px-4 sm:px-6 py-3 sm:py-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between bg-white dark:bg-gray-800 z-10 shadow-sm">
+          <div className="min-w-0">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2" id="submission-roster-title">
+              <Inbox className="w-5 h-5 text-blue-600 dark:text-blue-400 flex-shrink-0" />
+              <span className="truncate">Submissions · {task.name}</span>
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400">
+              Due {formatDate(task.dueDate)}{hasDueTime(task) && `, ${formatDueTime(task)}`}
+              {!!task.gracePeriodMinutes && ` · late work until ${new Date(
+                getTaskDeadline(task).getTime() + task.gracePeriodMinutes * 60000
+              ).toLocaleString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={downloading || submittedCount === 0}
+              className="px-3 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors flex items-center gap-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download every submitted file as a ZIP"
+            >
+              {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              <span className="hidden sm:inline">Download ZIP</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-5 h-5 text-gray-500" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 sm:p-6">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(['all', 'submitted', 'late', 'missing'] as const).map(status => (
+              <button
+                key={status}
+                onClick={() => setFilter(status)}
+                className={`px-3 py-1.5 rounded-lg text-xs sm:text-sm font-medium transition-colors ${
+                  filter === status
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+                }`}
+              >
+                {status === 'all' ? `All (${roster.length})` : `${STATUS_STYLES[status].label} (${counts[status]})`}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400 text-center py-10">{error}</p>
+          ) : !task.sectionId ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-10">
+              This task isn't assigned to a section, so there is no roster.
+            </p>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-10">No students here</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {visible.map(({ user, status, submission }) => {
+                const style = STATUS_STYLES[status];
+                const StatusIcon = style.icon;
+                return (
+                  <li key={user.id} className="py-3 flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{user.username || user.email}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {user.studentId || user.email}
+                        {submission && ` · ${new Date(submission.submittedAt).toLocaleString()}`}
+                      </p>
+                      {submission && (
+                        <div className="mt-1.5 space-y-1">
+                          {submission.files.map(file => (
+                            <a
+                              key={file.id}
+                              href={file.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+                            >
+                              <Paperclip className="w-3 h-3 flex-shrink-0" />
+                              {file.fileName}
+                            </a>
+                          ))}
+                          {submission.link && (
+                            <a
+                              href={submission.link}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+                            >
+                              <Link2 className="w-3 h-3 flex-shrink-0" />
+                              {submission.link}
+                            </a>
+                          )}
+                          {submission.note && (
+                            <p className="text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{submission.note}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <span className={`self-start inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+                      <StatusIcon className="w-3 h-3" />
+                      {status === 'missing' && stillOpen ? 'Not yet' : style.label}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
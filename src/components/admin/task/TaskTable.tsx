@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
-import { Search, Trash2, CheckCircle, Clock, ListTodo, Edit2, X, ChevronLeft, ChevronRight, Building, AlertTriangle, SortAsc, SortDesc, MoreHorizontal, CheckSquare, Square, Copy, CheckCheck } from 'lucide-react';
+import { Search, Trash2, CheckCircle, Clock, ListTodo, Edit2, X, ChevronLeft, ChevronRight, Building, AlertTriangle, SortAsc, SortDesc, MoreHorizontal, CheckSquare, Square, Copy, CheckCheck, Inbox } from 'lucide-react';
 import { TaskEditModal } from './TaskEditModal';
+import { TaskSubmissionRoster } from './TaskSubmissionRoster';
 import { formatDate, isOverdue } from '../../../utils/dateUtils';
 import type { Task } from '../../../types';
 import type { TaskPriority } from '../../../types/task';
@@ -33,6 +34,7 @@ export function TaskTable({
   onSort = () => {}
 }: TaskTableProps) {
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [rosterTask, setRosterTask] = useState<Task | null>(null);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
   const [isMobileView, setIsMobileView] = useState(false);
   const [longPressTimer, setLongPressTimer] = useState<number | null>(null);
@@ -343,11 +345,11 @@ ${cleanDescription}
                       {/* Due date cell */}
                       <td className="px-2 sm:px-4 py-2">
                         <span className={`text-xs sm:text-sm flex items-center gap-1 ${
-                          isOverdue(task.dueDate, task.status) 
+                          isOverdue(task, task.status) 
                             ? 'text-red-600 dark:text-red-400' 
                             : 'text-gray-600 dark:text-gray-400'
                         }`}>
-                          {isOverdue(task.dueDate, task.status) && (
+                          {isOverdue(task, task.status) && (
                             <AlertTriangle className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
                           )}
                           <span className="whitespace-nowrap">{formatDate(task.dueDate)}</span>
@@ -382,6 +384,17 @@ ${cleanDescription}
                             )}
                           </button>
 
+                          {/* Submissions button */}
+                          {task.requiresSubmission && (
+                            <button
+                              onClick={() => setRosterTask(task)}
+                              className="p-1 sm:p-1.5 rounded-lg transition-colors duration-200 hover:bg-purple-100 text-purple-600 dark:text-purple-400 dark:hover:bg-purple-900/30"
+                              title="View submissions"
+                            >
+                              <Inbox className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                            </button>
+                          )}
+
                           {/* Edit button */}
                           <button
                             onClick={() => setEditingTask(task)}
@@ -450,7 +463,7 @@ ${cleanDescription}
                   {task.category}
                 </span>
                 <span className={`px-2 py-1 rounded-md ${
-                  isOverdue(task.dueDate) && task.status !== 'completed'
+                  isOverdue(task) && task.status !== 'completed'
                     ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
                     : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
                 }`}>
@@ -477,6 +490,17 @@ ${cleanDescription}
                   )}
                 </button>
 
+                {/* Submissions button */}
+                {task.requiresSubmission && (
+                  <button
+                    onClick={() => setRosterTask(task)}
+                    className="p-1 sm:p-1.5 rounded-lg transition-colors duration-200 hover:bg-purple-100 text-purple-600 dark:text-purple-400 dark:hover:bg-purple-900/30"
+                    title="View submissions"
+                  >
+                    <Inbox className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  </button>
+                )}
+
                 {/* Edit button */}
                 <button
                   onClick={() => setEditingTask(task)}
@@ -523,6 +547,14 @@ ${cleanDescription}
           onUpdate={handleUpdateTask}
         />
       )}
+
+      {/* Submission Roster */}
+      {rosterTask && (
+        <TaskSubmissionRoster
+          task={rosterTask}
+          onClose={() => setRosterTask(null)}
+        />
+      )}
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,667 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  CalendarDays,
+  Edit2,
+  Loader2,
+  Pause,
+  Play,
+  Plus,
+  Repeat,
+  RotateCcw,
+  SkipForward,
+  Trash2,
+  X
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTaskTemplates } from '../../../hooks/useTaskTemplates';
+import { fetchActiveRoutine } from '../../../services/routine.service';
+import { fetchTaskTargetSections } from '../../../services/task.service';
+import {
+  fetchMissingRoutineSlotIds,
+  fetchTemplateOccurrences,
+  previewTemplateDates,
+  skipTemplateOccurrence,
+  unskipTemplateOccurrence
+} from '../../../services/taskTemplate.service';
+import { DAYS_OF_WEEK } from '../../../utils/routineUtils';
+import { TASK_CATEGORY_OPTIONS } from '../../../utils/taskCategories';
+import type { RoutineSlot } from '../../../types/routine';
+import type { TaskCategory, TaskPriority, TaskTargetSection } from '../../../types/task';
+import type {
+  NewTaskTemplate,
+  TaskRecurrenceType,
+  TaskTemplate,
+  TaskTemplateOccurrence
+} from '../../../types/taskTemplate';
+
+interface TaskTemplateManagerProps {
+  // Section admins only manage their own section's templates
+  sectionId?: string;
+}
+
+const RECURRENCE_LABELS: Record<TaskRecurrenceType, string> = {
+  weekly: 'Weekly',
+  interval: 'Every few days',
+  routine_slot: 'With a class'
+};
+
+const emptyTemplate = (sectionId?: string): NewTaskTemplate => ({
+  sectionId,
+  name: '',
+  category: 'lab-report',
+  description: '',
+  priority: undefined,
+  recurrenceType: 'weekly',
+  weekdays: [],
+  intervalDays: 7,
+  routineSlotId: undefined,
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: undefined,
+  generateAheadDays: 7,
+  isActive: true
+});
+
+const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d');
+
+const slotLabel = (slot: RoutineSlot) =>
+  `${slot.dayOfWeek} ${slot.startTime.slice(0, 5)} · ${slot.courseCode || slot.courseName || 'Class'}`;
+
+function describeRule(template: TaskTemplate, slotMissing: boolean): string {
+  let rule: string;
+  if (template.recurrenceType === 'weekly') {
+    rule = `Every ${template.weekdays.join(', ')}`;
+  } else if (template.recurrenceType === 'interval') {
+    rule = `Every ${template.intervalDays} day${template.intervalDays === 1 ? '' : 's'}`;
+  } else {
+    rule = slotMissing ? 'Routine class missing — paused' : 'On the day of a routine class';
+  }
+
+  const range = template.endDate
+    ? `${formatDate(template.startDate)} – ${formatDate(template.endDate)}`
+    : `from ${formatDate(template.startDate)}`;
+
+  return `${rule} · ${range}`;
+}
+
+/**
+ * Recurring task templates (weekly labs, quizzes) with a preview of their
+ * dates and per-date skipping
+ */
+export function TaskTemplateManager({ sectionId }: TaskTemplateManagerProps) {
+  const { templates, loading, error, createTemplate, updateTemplate, deleteTemplate } = useTaskTemplates(sectionId);
+  const [editing, setEditing] = useState<TaskTemplate | 'new' | null>(null);
+  const [openTemplateId, setOpenTemplateId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [missingSlotIds, setMissingSlotIds] = useState<string[]>([]);
+
+  // A class deleted from the routine pauses its templates until a restored
+  // revision brings it back
+  useEffect(() => {
+    const slotIds = templates.flatMap(template =>
+      template.recurrenceType === 'routine_slot' && template.routineSlotId ? [template.routineSlotId] : []
+    );
+
+    fetchMissingRoutineSlotIds(Array.from(new Set(slotIds)))
+      .then(setMissingSlotIds)
+      .catch(() => setMissingSlotIds([]));
+  }, [templates]);
+
+  const handleToggleActive = async (template: TaskTemplate) => {
+    setBusyId(template.id);
+    try {
+      await updateTemplate(template.id, { isActive: !template.isActive });
+      toast.success(template.isActive ? 'Template paused' : 'Template resumed');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update template');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Tasks it already created are kept.`)) return;
+
+    setBusyId(template.id);
+    try {
+      await deleteTemplate(template.id);
+      toast.success('Template deleted');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = async (values: NewTaskTemplate) => {
+    if (editing === 'new') {
+      await createTemplate(values);
+      toast.success('Template created');
+    } else if (editing) {
+      await updateTemplate(editing.id, values);
+      toast.success('Template updated');
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 sm:p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-blue-500" />
+            Recurring Tasks
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Tasks are created ahead of their due date. Edit a created task in the list below to change only that date.
+          </p>
+        </div>
+        {editing === null && (
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            New Template
+          </button>
+        )}
+      </div>
+
+      {editing !== null && (
+        <TaskTemplateForm
+          initial={editing === 'new' ? emptyTemplate(sectionId) : editing}
+          lockSection={!!sectionId}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {error && (
+        <p className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-sm">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-6 text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading templates...
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">No recurring tasks yet</p>
+      ) : (
+        <ul className="border dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+          {templates.map(template => {
+            const slotMissing = template.recurrenceType === 'routine_slot' &&
+              (!template.routineSlotId || missingSlotIds.includes(template.routineSlotId));
+
+            return (
+              <li key={template.id} className="px-4 py-3 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white truncate">{template.name}</span>
+                      <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full text-xs">
+                        {TASK_CATEGORY_OPTIONS.find(option => option.value === template.category)?.label || template.category}
+                      </span>
+                      {!template.isActive && (
+                        <span className="px-2 py-0.5 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 rounded-full text-xs">
+                          Paused
+                        </span>
+                      )}
+                      {slotMissing && (
+                        <span className="px-2 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-full text-xs">
+                          Class missing
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeRule(template, slotMissing)}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setOpenTemplateId(current => (current === template.id ? null : template.id))}
+                      className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      <CalendarDays className="w-4 h-4" />
+                      Dates
+                    </button>
+                    <button
+                      type="button"
+                      title={template.isActive ? 'Pause' : 'Resume'}
+                      disabled={busyId === template.id}
+                      onClick={() => handleToggleActive(template)}
+                      className="p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+                    >
+                      {template.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <button
+                      type="button"
+                      title="Edit"
+                      onClick={() => setEditing(template)}
+                      className="p-1.5 rounded-lg text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      title="Delete"
+                      disabled={busyId === template.id}
+                      onClick={() => handleDelete(template)}
+                      className="p-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {openTemplateId === template.id && <TemplateOccurrences template={template} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface TaskTemplateFormProps {
+  initial: NewTaskTemplate;
+  // The section comes from the admin's scope and can't be changed
+  lockSection: boolean;
+  onSave: (values: NewTaskTemplate) => Promise<void>;
+  onCancel: () => void;
+}
+
+function TaskTemplateForm({ initial, lockSection, onSave, onCancel }: TaskTemplateFormProps) {
+  const [values, setValues] = useState<NewTaskTemplate>(initial);
+  const [sections, setSections] = useState<TaskTargetSection[]>([]);
+  const [slots, setSlots] = useState<RoutineSlot[]>([]);
+  const [preview, setPreview] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const update = <K extends keyof NewTaskTemplate>(key: K, value: NewTaskTemplate[K]) =>
+    setValues(prev => ({ ...prev, [key]: value }));
+
+  useEffect(() => {
+    if (lockSection) return;
+
+    fetchTaskTargetSections()
+      .then(list => {
+        setSections(list);
+        setValues(prev => (prev.sectionId ? prev : { ...prev, sectionId: list[0]?.id }));
+      })
+      .catch(() => setSections([]));
+  }, [lockSection]);
+
+  // Slots of the section's active routine, for templates tied to a class
+  useEffect(() => {
+    if (values.recurrenceType !== 'routine_slot' || !values.sectionId) {
+      setSlots([]);
+      return;
+    }
+
+    fetchActiveRoutine(values.sectionId)
+      .then(routine => setSlots(routine?.slots || []))
+      .catch(() => setSlots([]));
+  }, [values.recurrenceType, values.sectionId]);
+
+  const { recurrenceType, weekdays, intervalDays, routineSlotId, startDate, endDate } = values;
+
+  useEffect(() => {
+    const incomplete =
+      !startDate ||
+      (recurrenceType === 'weekly' && weekdays.length === 0) ||
+      (recurrenceType === 'interval' && !intervalDays) ||
+      (recurrenceType === 'routine_slot' && !routineSlotId);
+
+    if (incomplete) {
+      setPreview([]);
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      previewTemplateDates({ recurrenceType, weekdays, intervalDays, routineSlotId, startDate, endDate })
+        .then(setPreview)
+        .catch(() => setPreview([]));
+    }, 300);
+
+    return () => window.clearTimeout(timeout);
+  }, [recurrenceType, weekdays, intervalDays, routineSlotId, startDate, endDate]);
+
+  const toggleWeekday = (day: string) =>
+    update('weekdays', weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    if (!values.name.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+    if (!values.sectionId) {
+      setFormError('Choose a section');
+      return;
+    }
+    if (recurrenceType === 'weekly' && weekdays.length === 0) {
+      setFormError('Choose at least one weekday');
+      return;
+    }
+    if (recurrenceType === 'routine_slot' && !routineSlotId) {
+      setFormError('Choose a class from the routine');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setFormError('End date must be after the start date');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ ...values, name: values.name.trim() });
+    } catch (err: unknown) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 border dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm';
+  const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+  return (
+    <form onSubmit={handleSubmit} className="border dark:border-gray-700 rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input
+            type="text"
+            value={values.name}
+            onChange={e => update('name', e.target.value)}
+            placeholder="e.g. Weekly Lab Report"
+            className={inputClass}
+          />
+        </div>
+        {!lockSection && (
+          <div>
+            <label className={labelClass}>Section</label>
+            <select
+              value={values.sectionId || ''}
+              onChange={e => setValues(prev => ({ ...prev, sectionId: e.target.value, routineSlotId: undefined }))}
+              className={inputClass}
+            >
+              {sections.map(section => (
+                <option key={section.id} value={section.id}>
+                  {section.batchName ? `${section.batchName} · ${section.name}` : section.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Category</label>
+          <select
+            value={values.category}
+            onChange={e => update('category', e.target.value as TaskCategory)}
+            className={inputClass}
+          >
+            {TASK_CATEGORY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Priority</label>
+          <select
+            value={values.priority || ''}
+            onChange={e => update('priority', (e.target.value || undefined) as TaskPriority | undefined)}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea
+          value={values.description}
+          onChange={e => update('description', e.target.value)}
+          rows={3}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(RECURRENCE_LABELS) as TaskRecurrenceType[]).map(type => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => update('recurrenceType', type)}
+              className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+                recurrenceType === type
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {RECURRENCE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+
+        {recurrenceType === 'weekly' && (
+          <div className="flex flex-wrap gap-2">
+            {DAYS_OF_WEEK.map(day => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                  weekdays.includes(day)
+                    ? 'bg-blue-50 border-blue-500 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {day.slice(0, 3)}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {recurrenceType === 'interval' && (
+          <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            Every
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={intervalDays || ''}
+              onChange={e => update('intervalDays', Number(e.target.value) || undefined)}
+              className="w-20 px-2 py-1.5 border dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+            />
+            days from the start date
+          </div>
+        )}
+
+        {recurrenceType === 'routine_slot' && (
+          slots.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">This section has no active routine with classes.</p>
+          ) : (
+            <select
+              value={routineSlotId || ''}
+              onChange={e => update('routineSlotId', e.target.value || undefined)}
+              className={inputClass}
+            >
+              <option value="">Choose a class</option>
+              {slots.map(slot => (
+                <option key={slot.id} value={slot.id}>{slotLabel(slot)}</option>
+              ))}
+            </select>
+          )
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className={labelClass}>Starts</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={e => update('startDate', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Ends (optional)</label>
+          <input
+            type="date"
+            value={endDate || ''}
+            min={startDate}
+            onChange={e => update('endDate', e.target.value || undefined)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Create tasks this many days ahead</label>
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={values.generateAheadDays}
+            onChange={e => update('generateAheadDays', Math.min(60, Math.max(0, Number(e.target.value) || 0)))}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className={labelClass}>Next due dates</p>
+        {preview.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming dates</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {preview.map(date => (
+              <span key={date} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded text-xs">
+                {formatDate(date)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {formError && (
+        <p className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-sm">{formError}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          Save Template
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function TemplateOccurrences({ template }: { template: TaskTemplate }) {
+  const [occurrences, setOccurrences] = useState<TaskTemplateOccurrence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyDate, setBusyDate] = useState<string | null>(null);
+
+  const loadOccurrences = useCallback(async () => {
+    try {
+      setOccurrences(await fetchTemplateOccurrences(template.id));
+    } catch {
+      setOccurrences([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [template.id]);
+
+  // Reloads when the template is edited, since its dates may have moved
+  useEffect(() => {
+    setLoading(true);
+    loadOccurrences();
+  }, [loadOccurrences, template.updatedAt]);
+
+  const handleToggleSkip = async (occurrence: TaskTemplateOccurrence) => {
+    setBusyDate(occurrence.date);
+    try {
+      if (occurrence.skipped) {
+        await unskipTemplateOccurrence(template.id, occurrence.date);
+        toast.success(`${formatDate(occurrence.date)} is back in the series`);
+      } else {
+        await skipTemplateOccurrence(template.id, occurrence.date);
+        toast.success(`Skipped ${formatDate(occurrence.date)}`);
+      }
+      await loadOccurrences();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update date');
+    } finally {
+      setBusyDate(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Loading dates...
+      </div>
+    );
+  }
+
+  if (occurrences.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No upcoming dates</p>;
+  }
+
+  return (
+    <ul className="bg-gray-50 dark:bg-gray-900/30 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+      {occurrences.map(occurrence => (
+        <li key={occurrence.date} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+          <span className={occurrence.skipped ? 'line-through text-gray-400' : 'text-gray-800 dark:text-gray-200'}>
+            {formatDate(occurrence.date)}
+          </span>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {occurrence.skipped ? 'Skipped' : occurrence.generated ? 'Task created' : 'Planned'}
+            </span>
+            <button
+              type="button"
+              disabled={busyDate === occurrence.date}
+              onClick={() => handleToggleSkip(occurrence)}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              {busyDate === occurrence.date ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : occurrence.skipped ? (
+                <RotateCcw className="w-3.5 h-3.5" />
+              ) : (
+                <SkipForward className="w-3.5 h-3.5" />
+              )}
+              {occurrence.skipped ? 'Restore' : 'Skip'}
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
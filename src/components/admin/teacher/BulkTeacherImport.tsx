@@ -1,8 +1,21 @@
 import { useState, useRef } from 'react';
-import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap, RefreshCcw } from 'lucide-react';
+import { Upload, CheckCircle, XCircle, File, AlertTriangle, Loader2, GraduationCap, RefreshCcw, Download } from 'lucide-react';
 import type { Course } from '../../../types/course';
 import { TeacherBulkImportItem } from '../../../services/teacher.service';
 import { refreshUserRole } from '../../../services/auth.service';
+import { ColumnMapper } from '../import/ColumnMapper';
+import {
+  IMPORT_FILE_ACCEPT,
+  isJsonFile,
+  isSpreadsheetFile,
+  readSpreadsheet,
+  guessColumnMapping,
+  mapSheetRows,
+  downloadImportTemplate,
+  type ImportField,
+  type SheetData,
+  type ColumnMapping
+} from '../../../utils/spreadsheetImport';
 import { showSuccessToast, showErrorToast, showInfoToast } from '../../../utils/notifications';
 
 interface BulkTeacherImportProps {
@@ -21,6 +34,16 @@ interface TeacherImportError {
   isPermissionError?: boolean;
 }
 
+const TEACHER_IMPORT_FIELDS: ImportField[] = [
+  { key: 'teacher_name', label: 'Teacher Name', required: true, aliases: ['name', 'teacher', 'full name', 'faculty'] },
+  { key: 'email', label: 'Email', aliases: ['email address', 'e-mail'] },
+  { key: 'phone', label: 'Phone', aliases: ['mobile', 'phone number', 'contact'] },
+  { key: 'department', label: 'Department', aliases: ['dept'] },
+  { key: 'office_room', label: 'Office Room', aliases: ['office', 'room'] },
+  { key: 'course_code', label: 'Course Code', aliases: ['code'] },
+  { key: 'course_title', label: 'Course Title', aliases: ['course', 'course name'] }
+];
+
 export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [data, setData] = useState<TeacherBulkImportItem[] | null>(null);
@@ -29,6 +52,8 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
   const [validation, setValidation] = useState<ValidationResult | null>(null);
   const [importResult, setImportResult] = useState<{ success: number; errors: TeacherImportError[] } | null>(null);
   const [progressStatus, setProgressStatus] = useState('');
+  const [sheet, setSheet] = useState<SheetData | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const validateTeacherData = (data: any[]): ValidationResult => {
@@ -59,6 +84,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     setImportResult(null);
     setValidation(null);
+    setSheet(null);
     
     const files = e.target.files;
     if (!files || files.length === 0) {
@@ -69,18 +95,34 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     
     const selectedFile = files[0];
     
-    // Check if file is JSON
-    if (selectedFile.type !== 'application/json' && !selectedFile.name.endsWith('.json')) {
-      setValidation({ valid: false, errors: ['Invalid file format. Only JSON files are supported.'] });
-      showErrorToast('Invalid file format. Only JSON files are supported.');
+    if (!isJsonFile(selectedFile) && !isSpreadsheetFile(selectedFile)) {
+      setValidation({ valid: false, errors: ['Invalid file format. Only JSON, CSV and XLSX files are supported.'] });
+      showErrorToast('Invalid file format. Only JSON, CSV and XLSX files are supported.');
       setFile(null);
       setData(null);
       return;
     }
     
     setFile(selectedFile);
+    setData(null);
     setValidating(true);
     
+    // Spreadsheets go through column mapping before validation
+    if (isSpreadsheetFile(selectedFile)) {
+      try {
+        const sheetData = await readSpreadsheet(selectedFile);
+        setSheet(sheetData);
+        setColumnMapping(guessColumnMapping(sheetData.headers, TEACHER_IMPORT_FIELDS));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setValidation({ valid: false, errors: [`Could not read file: ${message}`] });
+        showErrorToast(`Could not read file: ${message}`);
+      } finally {
+        setValidating(false);
+      }
+      return;
+    }
+    
     try {
       const text = await selectedFile.text();
       const jsonData = JSON.parse(text);
@@ -107,6 +149,35 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     }
   };
 
+  const handleMappingConfirm = () => {
+    if (!sheet) return;
+    
+    const mappedData = mapSheetRows(sheet, columnMapping) as unknown as TeacherBulkImportItem[];
+    const validationResult = validateTeacherData(mappedData);
+    setData(mappedData);
+    setValidation(validationResult);
+    setSheet(null);
+    
+    if (validationResult.valid) {
+      showInfoToast(`${mappedData.length} teacher${mappedData.length !== 1 ? 's' : ''} ready to import`);
+    } else {
+      showErrorToast('Validation failed. Please check the errors below.');
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadImportTemplate('teacher-import-template.csv', TEACHER_IMPORT_FIELDS, [
+      {
+        teacher_name: 'John Smith',
+        email: 'john.smith@example.com',
+        phone: '123-456-7890',
+        department: 'Computer Science',
+        office_room: 'CS-101',
+        course_code: 'CS101'
+      }
+    ]);
+  };
+
   const findMatchingCourse = (courseCode: string): Course | undefined => {
     return courses.find(course => 
       course.code.toLowerCase() === courseCode.toLowerCase()
@@ -179,6 +250,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
     setData(null);
     setValidation(null);
     setImportResult(null);
+    setSheet(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -300,7 +372,7 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
       
       <div className="prose prose-sm dark:prose-invert mb-5">
         <p>
-          Import multiple teachers at once using a JSON file. Each teacher record should include a name and can optionally include email, phone, department, office room, and course information.
+          Import multiple teachers at once using a CSV, Excel (XLSX) or JSON file. Each teacher record should include a name and can optionally include email, phone, department, office room, and course information.
         </p>
       </div>
       
@@ -324,6 +396,14 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
   }
 ]`}
         </pre>
+        <button
+          type="button"
+          onClick={handleDownloadTemplate}
+          className="mt-2 text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 flex items-center gap-1"
+        >
+          <Download className="w-4 h-4" />
+          Download CSV template
+        </button>
       </div>
       
       <div className="flex items-center justify-center w-full mb-6">
@@ -369,14 +449,25 @@ export function BulkTeacherImport({ courses, onImportTeachers }: BulkTeacherImpo
                 <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
                   <span className="font-semibold">Click to upload</span> or drag and drop
                 </p>
-                <p className="text-xs text-gray-500 dark:text-gray-400">JSON file only</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">CSV, XLSX or JSON file</p>
               </>
             )}
           </div>
-          <input id="dropzone-file" ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+          <input id="dropzone-file" ref={fileInputRef} type="file" accept={IMPORT_FILE_ACCEPT} className="hidden" onChange={handleFileChange} />
         </label>
       </div>
       
+      {sheet && (
+        <ColumnMapper
+          fields={TEACHER_IMPORT_FIELDS}
+          sheet={sheet}
+          mapping={columnMapping}
+          onChange={setColumnMapping}
+          onConfirm={handleMappingConfirm}
+          onCancel={handleReset}
+        />
+      )}
+      
       {validation?.errors && validation.errors.length > 0 && (
         <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/30 rounded-lg p-4">
           <h3 className="text-sm font-medium text-red-800 dark:text-red-300 mb-2 flex items-center gap-1">
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { formatDistanceToNow, differenceInCalendarDays } from 'date-fns';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useTrash } from '../../../hooks/useTrash';
+import { TRASH_RETENTION_DAYS } from '../../../services/trash.service';
+import type { TrashItem, TrashResource } from '../../../types/trash';
+
+interface TrashManagerProps {
+  // Limits the trash to one section's items
+  sectionId?: string;
+  // Called after a restore so the matching list can reload
+  onRestored?: (resource: TrashResource) => void;
+}
+
+const RESOURCE_LABELS: Record<TrashResource, string> = {
+  tasks: 'Tasks',
+  courses: 'Courses',
+  teachers: 'Teachers',
+  routines: 'Routines',
+  study_materials: 'Study Materials',
+  announcements: 'Announcements'
+};
+
+// What a restore brings back along with the item
+const RELATED_LABELS: Partial<Record<TrashResource, string>> = {
+  courses: 'slot or material',
+  teachers: 'course assignment',
+  routines: 'slot',
+  study_materials: 'file'
+};
+
+function purgeLabel(item: TrashItem): string {
+  const days = differenceInCalendarDays(new Date(item.purgeAt), new Date());
+  if (days <= 0) return 'Deleted for good at the next cleanup';
+  return `Deleted for good in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Lists deleted content and lets admins restore it or delete it for good
+ */
+export function TrashManager({ sectionId, onRestored }: TrashManagerProps) {
+  const { items, loading, error, restoreItem, purgeItem } = useTrash(sectionId);
+  const [filter, setFilter] = useState<TrashResource | 'all'>('all');
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const result: Partial<Record<TrashResource, number>> = {};
+    items.forEach(item => {
+      result[item.resource] = (result[item.resource] || 0) + 1;
+    });
+    return result;
+  }, [items]);
+
+  const visibleItems = filter === 'all' ? items : items.filter(item => item.resource === filter);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyKey(`${item.resource}:${item.id}`);
+    try {
+      await restoreItem(item.resource, item.id);
+      toast.success(`Restored "${item.title}"`);
+      onRestored?.(item.resource);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore item');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!window.confirm(`Delete "${item.title}" for good? This cannot be undone.`)) return;
+
+    setBusyKey(`${item.resource}:${item.id}`);
+    try {
+      await purgeItem(item.resource, item.id);
+      toast.success(`Deleted "${item.title}"`);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete item');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 sm:p-5 space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Deleted items stay here for {TRASH_RETENTION_DAYS} days before they are removed for good.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {(['all', ...Object.keys(RESOURCE_LABELS)] as (TrashResource | 'all')[]).map(resource => (
+          <button
+            key={resource}
+            type="button"
+            onClick={() => setFilter(resource)}
+            className={`px-3 py-1.5 rounded-full text-sm transition-colors ${
+              resource === filter
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {resource === 'all' ? 'All' : RESOURCE_LABELS[resource]}
+            <span className="ml-1 opacity-75">
+              {resource === 'all' ? items.length : counts[resource] || 0}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 rounded-lg text-sm">{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8 text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          Loading trash...
+        </div>
+      ) : visibleItems.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Trash2 className="w-10 h-10 text-gray-400 mb-3" />
+          <p className="text-gray-700 dark:text-gray-300 font-medium">Trash is empty</p>
+        </div>
+      ) : (
+        <ul className="border dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+          {visibleItems.map(item => {
+            const key = `${item.resource}:${item.id}`;
+            const relatedLabel = RELATED_LABELS[item.resource];
+
+            return (
+              <li key={key} className="px-4 py-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 dark:text-white truncate">{item.title}</span>
+                      <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full text-xs">
+                        {RESOURCE_LABELS[item.resource]}
+                      </span>
+                    </div>
+                    {item.subtitle && (
+                      <p className="text-sm text-gray-600 dark:text-gray-300 truncate">{item.subtitle}</p>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+                      {item.deletedByName && ` by ${item.deletedByName}`}
+                      {relatedLabel && item.relatedCount > 0 &&
+                        ` · restores ${item.relatedCount} ${relatedLabel}${item.relatedCount === 1 ? '' : 's'}`}
+                      {' · '}
+                      {purgeLabel(item)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      disabled={busyKey === key}
+                      onClick={() => handleRestore(item)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50"
+                    >
+                      {busyKey === key ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      Restore
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busyKey === key}
+                      onClick={() => handlePurge(item)}
+                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete Forever
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
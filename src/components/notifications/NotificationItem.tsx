@@ -1,6 +1,6 @@
-import { Check, Trash2, Megaphone, AlertCircle, Bell } from 'lucide-react';
-import type { Notification } from '../../hooks/useNotifications';
-import { parseLinks } from '../../utils/linkParser';
+import { Check, Trash2, Megaphone, AlertCircle, Bell, RefreshCw, Clock, CalendarClock, MessageSquare } from 'lucide-react';
+import type { Notification } from '../../types/notification';
+import { MarkdownContent } from '../MarkdownContent';
 
 interface NotificationItemProps {
   notification: Notification;
@@ -9,9 +9,6 @@ interface NotificationItemProps {
 }
 
 export function NotificationItem({ notification, onMarkAsRead, onClear }: NotificationItemProps) {
-  // Parse links in the message
-  const messageParts = parseLinks(notification.message);
-
   return (
     <div
       className={`
@@ -28,13 +25,23 @@ export function NotificationItem({ notification, onMarkAsRead, onClear }: Notifi
           p-2 rounded-xl h-fit
           ${notification.isAnnouncement 
             ? 'bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400' 
-            : notification.isAdminTask
+            : notification.type === 'deadline'
+              ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+              : notification.isAdminTask
               ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400'
               : 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
           }
         `}>
           {notification.isAnnouncement ? (
             <Megaphone className="w-5 h-5" />
+          ) : notification.type === 'deadline' ? (
+            <Clock className="w-5 h-5" />
+          ) : notification.type === 'task-updated' ? (
+            <RefreshCw className="w-5 h-5" />
+          ) : notification.type === 'routine-updated' ? (
+            <CalendarClock className="w-5 h-5" />
+          ) : notification.type === 'task-comment' ? (
+            <MessageSquare className="w-5 h-5" />
           ) : notification.isAdminTask ? (
             <AlertCircle className="w-5 h-5" />
           ) : (
@@ -60,24 +67,10 @@ export function NotificationItem({ notification, onMarkAsRead, onClear }: Notifi
             )}
           </div>
           
-          <div className="text-sm text-gray-600 dark:text-gray-300 mb-3 break-words">
-            {messageParts.map((part, index) => 
-              part.type === 'link' ? (
-                <a
-                  key={index}
-                  href={part.content}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  {part.content}
-                </a>
-              ) : (
-                <span key={index}>{part.content}</span>
-              )
-            )}
-          </div>
+          <MarkdownContent
+            content={notification.message}
+            className="text-sm text-gray-600 dark:text-gray-300 mb-3"
+          />
           
           <div className="flex items-center justify-between gap-4">
             <time className="text-xs text-gray-500 dark:text-gray-400">
@@ -1,23 +1,36 @@
-import { X, CheckCircle, Bell, Check, Megaphone, AlertCircle } from 'lucide-react';
-import { parseLinks } from '../../utils/linkParser';
-import type { Notification } from '../../hooks/useNotifications';
+import { X, CheckCircle, Bell, Check, Megaphone, AlertCircle, RefreshCw, Clock, CalendarClock, MessageSquare } from 'lucide-react';
+import { MarkdownContent } from '../MarkdownContent';
+import { PinnedAnnouncements } from './PinnedAnnouncements';
+import type { Notification } from '../../types/notification';
+import type { Announcement } from '../../types/announcement';
 
 interface NotificationPanelProps {
   notifications: Notification[];
+  pinnedAnnouncements?: Announcement[];
+  unreadCount?: number;
+  hasMore?: boolean;
+  loading?: boolean;
   onClose: () => void;
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
   onClear: (id: string) => void;
+  onLoadMore?: () => void;
 }
 
 export function NotificationPanel({
   notifications,
+  pinnedAnnouncements = [],
+  unreadCount,
+  hasMore = false,
+  loading = false,
   onClose,
   onMarkAsRead,
   onMarkAllAsRead,
-  onClear
+  onClear,
+  onLoadMore
 }: NotificationPanelProps) {
-  const hasUnread = notifications.some(n => !n.read);
+  const totalUnread = unreadCount ?? notifications.filter(n => !n.read).length;
+  const hasUnread = totalUnread > 0;
 
   return (
     <>
@@ -44,7 +57,7 @@ export function NotificationPanel({
               <div>
                 <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Notifications</h2>
                 <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {hasUnread ? `${notifications.filter(n => !n.read).length} unread messages` : 'No unread messages'}
+                  {hasUnread ? `${totalUnread} unread messages` : 'No unread messages'}
                 </p>
               </div>
             </div>
@@ -71,6 +84,7 @@ export function NotificationPanel({
 
         {/* Notification List */}
         <div className="flex-1 overflow-y-auto px-4 py-2 space-y-3">
+          <PinnedAnnouncements announcements={pinnedAnnouncements} />
           {notifications.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-center p-8">
               <div className="w-16 h-16 mb-4 bg-blue-50 dark:bg-blue-900/20 rounded-full flex items-center justify-center">
@@ -83,8 +97,6 @@ export function NotificationPanel({
             </div>
           ) : (
             notifications.map((notification) => {
-              const messageParts = parseLinks(notification.message);
-              
               return (
                 <div
                   key={notification.id}
@@ -106,13 +118,23 @@ export function NotificationPanel({
                       p-2 rounded-xl h-fit
                       ${notification.isAnnouncement 
                         ? 'bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400' 
-                        : notification.isAdminTask
+                        : notification.type === 'deadline'
+                          ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+                          : notification.isAdminTask
                           ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400'
                           : 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
                       }
                     `}>
                       {notification.isAnnouncement ? (
                         <Megaphone className="w-5 h-5" />
+                      ) : notification.type === 'deadline' ? (
+                        <Clock className="w-5 h-5" />
+                      ) : notification.type === 'task-updated' ? (
+                        <RefreshCw className="w-5 h-5" />
+                      ) : notification.type === 'routine-updated' ? (
+                        <CalendarClock className="w-5 h-5" />
+                      ) : notification.type === 'task-comment' ? (
+                        <MessageSquare className="w-5 h-5" />
                       ) : notification.isAdminTask ? (
                         <AlertCircle className="w-5 h-5" />
                       ) : (
@@ -138,24 +160,10 @@ export function NotificationPanel({
                         )}
                       </div>
                       
-                      <div className="text-sm text-gray-600 dark:text-gray-300 mb-3 break-words">
-                        {messageParts.map((part, index) => 
-                          part.type === 'link' ? (
-                            <a
-                              key={index}
-                              href={part.content}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {part.content}
-                            </a>
-                          ) : (
-                            <span key={index}>{part.content}</span>
-                          )
-                        )}
-                      </div>
+                      <MarkdownContent
+                        content={notification.message}
+                        className="text-sm text-gray-600 dark:text-gray-300 mb-3"
+                      />
                       
                       <div className="flex items-center justify-between gap-4">
                         <time className="text-xs text-gray-500 dark:text-gray-400">
@@ -192,6 +200,16 @@ export function NotificationPanel({
               );
             })
           )}
+
+          {hasMore && onLoadMore && (
+            <button
+              onClick={onLoadMore}
+              disabled={loading}
+              className="w-full py-2.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load older notifications'}
+            </button>
+          )}
         </div>
 
         {/* Mobile-only bottom safe area */}
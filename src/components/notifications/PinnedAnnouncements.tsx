@@ -0,0 +1,35 @@
+import { Pin } from 'lucide-react';
+import { MarkdownContent } from '../MarkdownContent';
+import type { Announcement } from '../../types/announcement';
+
+interface PinnedAnnouncementsProps {
+  announcements: Announcement[];
+}
+
+export function PinnedAnnouncements({ announcements }: PinnedAnnouncementsProps) {
+  if (announcements.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {announcements.map(announcement => (
+        <div
+          key={announcement.id}
+          className="p-4 rounded-xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/60 dark:bg-blue-900/10"
+        >
+          <div className="flex items-center gap-2 text-xs font-medium text-blue-600 dark:text-blue-400 mb-1">
+            <Pin className="w-3.5 h-3.5" />
+            Pinned
+            {announcement.audienceName && (
+              <span className="text-gray-500 dark:text-gray-400 font-normal">&middot; {announcement.audienceName}</span>
+            )}
+          </div>
+          <h3 className="font-medium text-gray-900 dark:text-white break-words">{announcement.title}</h3>
+          <MarkdownContent
+            content={announcement.content}
+            className="mt-1 text-sm text-gray-600 dark:text-gray-300"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
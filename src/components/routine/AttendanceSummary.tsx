@@ -0,0 +1,90 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
+import { fetchAttendanceSettings, fetchMyAttendance } from '../../services/attendance.service';
+import { DEFAULT_ATTENDANCE_THRESHOLD, summarizeAttendance } from '../../utils/attendance';
+import type { AttendanceRecord, AttendanceSession } from '../../types/attendance';
+
+interface AttendanceSummaryProps {
+  sectionId?: string;
+}
+
+/**
+ * The signed-in student's attendance per course, with a warning for
+ * courses below the section's threshold. Hidden until a class is recorded.
+ */
+export function AttendanceSummary({ sectionId }: AttendanceSummaryProps) {
+  const [entries, setEntries] = useState<{ session: AttendanceSession; record: AttendanceRecord }[]>([]);
+  const [threshold, setThreshold] = useState(DEFAULT_ATTENDANCE_THRESHOLD);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      fetchMyAttendance(),
+      sectionId ? fetchAttendanceSettings(sectionId) : Promise.resolve(null)
+    ])
+      .then(([records, settings]) => {
+        if (cancelled) return;
+        setEntries(sectionId ? records.filter(entry => entry.session.sectionId === sectionId) : records);
+        setThreshold(settings?.minPercentage ?? DEFAULT_ATTENDANCE_THRESHOLD);
+      })
+      .catch(error => console.error('Error loading attendance:', error));
+
+    return () => { cancelled = true; };
+  }, [sectionId]);
+
+  const courses = useMemo(() => summarizeAttendance(entries), [entries]);
+  const belowThreshold = courses.filter(course => course.percentage !== null && course.percentage < threshold);
+
+  if (courses.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-2xl bg-white dark:bg-gray-800 shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <ClipboardCheck className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          My Attendance
+        </h2>
+        <span className="text-xs text-gray-500 dark:text-gray-400">Minimum {threshold}%</span>
+      </div>
+
+      {belowThreshold.length > 0 && (
+        <div className="flex items-start gap-2 p-3 mb-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <p>
+            Your attendance is below {threshold}% in {belowThreshold.map(course => course.courseCode || course.courseName).join(', ')}.
+          </p>
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {courses.map(course => {
+          const low = course.percentage !== null && course.percentage < threshold;
+          return (
+            <li key={course.courseKey}>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-gray-700 dark:text-gray-200">
+                  {course.courseName}
+                  {course.courseCode && <span className="text-gray-400 dark:text-gray-500"> · {course.courseCode}</span>}
+                </span>
+                <span className={`font-medium ${low ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                  {course.percentage === null ? '–' : `${course.percentage}%`}
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${low ? 'bg-red-500' : 'bg-green-500'}`}
+                  style={{ width: `${course.percentage ?? 0}%` }}
+                />
+              </div>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                {course.attended} of {course.counted} classes
+                {course.excused > 0 && ` · ${course.excused} excused`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { X, Book, Clock, MapPin, User, Mail, Phone, Building, GitBranch as BrandTelegram, Link, Lock, ExternalLink } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { formatSlotTime } from '../../utils/routineUtils';
+import type { RoutineSlot } from '../../types/routine';
+import type { Course } from '../../types/course';
+import type { Teacher } from '../../types/teacher';
+
+interface RoutineSlotDetailsModalProps {
+  slot: RoutineSlot | null;
+  course?: Course;
+  teacher?: Teacher;
+  onClose: () => void;
+}
+
+export function RoutineSlotDetailsModal({ slot, course, teacher, onClose }: RoutineSlotDetailsModalProps) {
+  return (
+    <AnimatePresence>
+      {slot && (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-0 sm:p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+
+          <motion.div
+            initial={{ opacity: 0, y: 40 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 40 }}
+            className="relative w-full sm:max-w-lg bg-white dark:bg-gray-800 rounded-t-2xl sm:rounded-2xl shadow-xl max-h-[85vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4 p-5 border-b dark:border-gray-700">
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {course?.name || slot.courseName || 'Class'}
+                </h2>
+                {(course?.code || slot.courseCode) && (
+                  <span className="inline-block mt-1 px-2.5 py-0.5 text-xs font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400">
+                    {course?.code || slot.courseCode}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="flex-shrink-0 p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                aria-label="Close details"
+              >
+                <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+              </button>
+            </div>
+
+            <div className="p-5 space-y-6">
+              {/* Class time */}
+              <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-gray-400" />
+                  <span>
+                    {slot.dayOfWeek}, {formatSlotTime(slot.startTime)} - {formatSlotTime(slot.endTime)}
+                  </span>
+                </div>
+                {slot.roomNumber && (
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4 text-gray-400" />
+                    <span>Room {slot.roomNumber}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Course details */}
+              {course && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                    <Book className="w-4 h-4 text-blue-500" />
+                    Course
+                  </h3>
+                  <div className="space-y-2 text-sm">
+                    {course.credit !== undefined && course.credit !== null && (
+                      <p className="text-gray-600 dark:text-gray-300">{course.credit} credits</p>
+                    )}
+                    {course.telegramGroup && (
+                      <a
+                        href={course.telegramGroup}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <BrandTelegram className="w-4 h-4" />
+                        Telegram Group
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                    {course.blcLink && (
+                      <a
+                        href={course.blcLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Link className="w-4 h-4" />
+                        BLC Course
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                    {course.blcEnrollKey && (
+                      <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                        <Lock className="w-4 h-4 text-gray-400" />
+                        <span>Enroll key: <span className="font-mono">{course.blcEnrollKey}</span></span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Teacher details */}
+              {(teacher || slot.teacherName) && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                    <User className="w-4 h-4 text-blue-500" />
+                    Teacher
+                  </h3>
+                  <div className="space-y-2 text-sm text-gray-600 dark:text-gray-300">
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {teacher?.name || slot.teacherName}
+                    </p>
+                    {teacher?.email && (
+                      <a href={`mailto:${teacher.email}`} className="flex items-center gap-2 hover:text-blue-600 dark:hover:text-blue-400">
+                        <Mail className="w-4 h-4 text-gray-400" />
+                        {teacher.email}
+                      </a>
+                    )}
+                    {teacher?.phone && (
+                      <a href={`tel:${teacher.phone}`} className="flex items-center gap-2 hover:text-blue-600 dark:hover:text-blue-400">
+                        <Phone className="w-4 h-4 text-gray-400" />
+                        {teacher.phone}
+                      </a>
+                    )}
+                    {teacher?.officeRoom && (
+                      <div className="flex items-center gap-2">
+                        <Building className="w-4 h-4 text-gray-400" />
+                        Office {teacher.officeRoom}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
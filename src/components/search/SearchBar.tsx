@@ -4,18 +4,23 @@ import { useState, useEffect } from 'react';
 interface SearchBarProps {
   onSearch: (query: string) => void;
   initialQuery?: string;
+  placeholder?: string;
 }
 
-export function SearchBar({ onSearch, initialQuery = '' }: SearchBarProps) {
+export function SearchBar({ onSearch, initialQuery = '', placeholder = 'Search tasks...' }: SearchBarProps) {
   const [query, setQuery] = useState(initialQuery);
 
   // Update query state when initialQuery prop changes
   useEffect(() => {
-    if (initialQuery) {
-      setQuery(initialQuery);
-    }
+    setQuery(initialQuery);
   }, [initialQuery]);
 
+  // Results update while typing; callers debounce
+  const handleChange = (value: string) => {
+    setQuery(value);
+    onSearch(value);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSearch(query);
@@ -28,8 +33,8 @@ export function SearchBar({ onSearch, initialQuery = '' }: SearchBarProps) {
         <input
           type="search"
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          placeholder="Search tasks..."
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder={placeholder}
           className="w-full pl-10 pr-4 py-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:border-gray-700 dark:text-white"
         />
       </div>
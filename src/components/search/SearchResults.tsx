@@ -0,0 +1,78 @@
+import { useMemo } from 'react';
+import { ListTodo, BookOpen, FileText, GraduationCap, Megaphone, Calendar } from 'lucide-react';
+import { formatDate } from '../../utils/dateUtils';
+import type { SearchResult, SearchResultType } from '../../types/search';
+
+interface SearchResultsProps {
+  results: SearchResult[];
+  onSelect: (result: SearchResult) => void;
+}
+
+const RESULT_GROUPS: Record<SearchResultType, { label: string; icon: typeof ListTodo }> = {
+  task: { label: 'Tasks', icon: ListTodo },
+  course: { label: 'Courses', icon: BookOpen },
+  material: { label: 'Study Materials', icon: FileText },
+  teacher: { label: 'Teachers', icon: GraduationCap },
+  announcement: { label: 'Announcements', icon: Megaphone }
+};
+
+export function SearchResults({ results, onSelect }: SearchResultsProps) {
+  // Groups keep the rank order of their items; the best match decides the group order
+  const groups = useMemo(() => {
+    const byType = new Map<SearchResultType, SearchResult[]>();
+    results.forEach(result => {
+      byType.set(result.type, [...(byType.get(result.type) || []), result]);
+    });
+    return [...byType.entries()].sort(([, a], [, b]) => b[0].rank - a[0].rank);
+  }, [results]);
+
+  return (
+    <div className="space-y-6">
+      {groups.map(([type, items]) => {
+        const { label, icon: Icon } = RESULT_GROUPS[type];
+
+        return (
+          <section key={type}>
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              <Icon className="w-4 h-4 text-blue-500 dark:text-blue-400" />
+              {label}
+              <span className="text-xs font-normal text-gray-500 dark:text-gray-400">({items.length})</span>
+            </h2>
+            <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700 overflow-hidden">
+              {items.map(result => (
+                <button
+                  key={result.id}
+                  type="button"
+                  onClick={() => onSelect(result)}
+                  className="w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {result.title}
+                    </span>
+                    {result.subtitle && (
+                      <span className="flex-shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                        {result.subtitle}
+                      </span>
+                    )}
+                  </div>
+                  {result.snippet && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                      {result.snippet}
+                    </p>
+                  )}
+                  {result.dueDate && (
+                    <p className="mt-1 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                      <Calendar className="w-3 h-3" />
+                      Due {formatDate(result.dueDate)}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { CalendarDays, Download, Copy, Check, RefreshCw, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  downloadCalendarFile,
+  fetchCalendarFeedToken,
+  issueCalendarFeedToken,
+  revokeCalendarFeedToken,
+  getCalendarFeedUrl,
+  getWebcalUrl
+} from '../../services/calendar.service';
+
+export function CalendarSettings() {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isUpdatingFeed, setIsUpdatingFeed] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchCalendarFeedToken(user.id)
+      .then(setToken)
+      .catch(() => setError('Failed to load calendar settings'));
+  }, [user?.id]);
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : null;
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    setError(null);
+    try {
+      await downloadCalendarFile();
+    } catch {
+      setError('Failed to download calendar');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleIssueToken = async () => {
+    if (token && !window.confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) {
+      return;
+    }
+
+    setIsUpdatingFeed(true);
+    setError(null);
+    try {
+      setToken(await issueCalendarFeedToken());
+    } catch {
+      setError('Failed to create calendar link');
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!user?.id) return;
+
+    setIsUpdatingFeed(true);
+    setError(null);
+    try {
+      await revokeCalendarFeedToken(user.id);
+      setToken(null);
+    } catch {
+      setError('Failed to turn off calendar link');
+    } finally {
+      setIsUpdatingFeed(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3">
+        <div className="p-2 bg-blue-900/10 dark:bg-blue-100/10 rounded-lg">
+          <CalendarDays className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+        </div>
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-gray-100">Calendar</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Your task deadlines and weekly classes in Google Calendar, Outlook or Apple Calendar
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={isDownloading || !user}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-dark-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-dark-600 disabled:opacity-50"
+        >
+          {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Download .ics
+        </button>
+        <button
+          type="button"
+          onClick={handleIssueToken}
+          disabled={isUpdatingFeed || !user}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isUpdatingFeed ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          {token ? 'New Link' : 'Create Subscription Link'}
+        </button>
+      </div>
+
+      {feedUrl && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-1.5 text-xs rounded-lg border border-gray-200 dark:border-dark-600 bg-gray-50 dark:bg-dark-800 text-gray-600 dark:text-gray-300"
+            />
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-dark-600 text-gray-500 dark:text-gray-400"
+              aria-label="Copy calendar link"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Add this link as a calendar "from URL" to keep it in sync, or{' '}
+            <a href={getWebcalUrl(feedUrl)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              open it in your calendar app
+            </a>
+            . Anyone with the link can see your tasks.{' '}
+            <button
+              type="button"
+              onClick={handleRevoke}
+              disabled={isUpdatingFeed}
+              className="text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
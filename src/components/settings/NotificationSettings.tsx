@@ -1,6 +1,13 @@
-import { useState } from 'react';
-import { Bell, Loader2, AlertCircle } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Bell, Loader2, AlertCircle, Clock } from 'lucide-react';
 import { usePushNotifications } from '../../hooks/usePushNotifications';
+import { useAuth } from '../../hooks/useAuth';
+import {
+  REMINDER_LEAD_OPTIONS,
+  DEFAULT_REMINDER_LEAD_MINUTES,
+  fetchReminderLeadTimes,
+  updateReminderLeadTimes
+} from '../../services/notification.service';
 
 export function NotificationSettings() {
   const { 
@@ -11,7 +18,40 @@ export function NotificationSettings() {
     unsubscribe 
   } = usePushNotifications();
 
+  const { user } = useAuth();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [leadMinutes, setLeadMinutes] = useState<number[]>(DEFAULT_REMINDER_LEAD_MINUTES);
+  const [isSavingReminders, setIsSavingReminders] = useState(false);
+  const [reminderError, setReminderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    fetchReminderLeadTimes(user.id)
+      .then(setLeadMinutes)
+      .catch(() => setReminderError('Failed to load reminder settings'));
+  }, [user?.id]);
+
+  const toggleLeadTime = async (minutes: number) => {
+    if (!user?.id) return;
+
+    const previous = leadMinutes;
+    const next = previous.includes(minutes)
+      ? previous.filter(m => m !== minutes)
+      : [...previous, minutes];
+
+    setLeadMinutes(next);
+    setIsSavingReminders(true);
+    setReminderError(null);
+    try {
+      await updateReminderLeadTimes(user.id, next);
+    } catch {
+      setLeadMinutes(previous);
+      setReminderError('Failed to save reminder settings');
+    } finally {
+      setIsSavingReminders(false);
+    }
+  };
 
   const handleToggle = async () => {
     setIsUpdating(true);
@@ -109,6 +149,53 @@ export function NotificationSettings() {
         </div>
       )}
 
+      {/* Deadline reminders */}
+      <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
+        <div className="flex items-start gap-3 mb-3">
+          <div className="p-2 bg-amber-50 dark:bg-amber-900/20 rounded-xl">
+            <Clock className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+              Deadline Reminders
+              {isSavingReminders && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {leadMinutes.length > 0
+                ? 'Get reminded before unfinished tasks are due'
+                : 'Deadline reminders are turned off'
+              }
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {REMINDER_LEAD_OPTIONS.map(option => {
+            const selected = leadMinutes.includes(option.minutes);
+            return (
+              <button
+                key={option.minutes}
+                type="button"
+                onClick={() => toggleLeadTime(option.minutes)}
+                disabled={isSavingReminders || !user}
+                aria-pressed={selected}
+                className={`px-3 py-1.5 text-sm rounded-full border transition-colors disabled:opacity-50 ${
+                  selected
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option.label} before
+              </button>
+            );
+          })}
+        </div>
+
+        {reminderError && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400">{reminderError}</p>
+        )}
+      </div>
+
       {isSubscribed && (
         <div className="pt-4 border-t border-gray-100 dark:border-gray-700">
           <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
@@ -127,6 +214,10 @@ export function NotificationSettings() {
               <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full" />
               Task status updates
             </li>
+            <li className="flex items-center gap-2">
+              <div className="w-1.5 h-1.5 bg-blue-600 dark:bg-blue-400 rounded-full" />
+              Upcoming deadlines
+            </li>
           </ul>
         </div>
       )}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { X, Bell, Moon, Shield } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { NotificationSettings } from './NotificationSettings';
+import { CalendarSettings } from './CalendarSettings';
 
 interface SettingsModalProps {
   onClose: () => void;
@@ -55,6 +56,9 @@ export function SettingsModal({ onClose }: SettingsModalProps) {
             {/* Notifications */}
             <NotificationSettings />
 
+            {/* Calendar export */}
+            <CalendarSettings />
+
             {/* Dark Mode */}
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-3">
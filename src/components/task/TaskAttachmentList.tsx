@@ -0,0 +1,136 @@
+import { useRef, useState } from 'react';
+import { Download, FileText, Image, File, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+import type { TaskAttachment } from '../../types/task';
+
+interface TaskAttachmentListProps {
+  attachments: TaskAttachment[];
+  onReplace?: (attachment: TaskAttachment, file: File) => Promise<void>;
+  onDelete?: (attachment: TaskAttachment) => Promise<void>;
+}
+
+function formatFileSize(bytes: number): string {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const getFileIcon = (mimeType?: string | null) => {
+  if (mimeType?.startsWith('image/')) return Image;
+  if (mimeType?.includes('pdf') || mimeType?.startsWith('text/')) return FileText;
+  return File;
+};
+
+export function TaskAttachmentList({ attachments, onReplace, onDelete }: TaskAttachmentListProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const replaceTargetRef = useRef<TaskAttachment | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  const runAction = async (attachment: TaskAttachment, action: () => Promise<void>) => {
+    setBusyId(attachment.id);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Attachment action failed:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReplaceClick = (attachment: TaskAttachment) => {
+    replaceTargetRef.current = attachment;
+    replaceInputRef.current?.click();
+  };
+
+  const handleReplaceFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const target = replaceTargetRef.current;
+    e.target.value = '';
+
+    if (file && target && onReplace) {
+      runAction(target, () => onReplace(target, file));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {onReplace && (
+        <input
+          ref={replaceInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleReplaceFile}
+          aria-label="Replace attachment"
+        />
+      )}
+
+      {attachments.map(attachment => {
+        const Icon = getFileIcon(attachment.mimeType);
+        const isBusy = busyId === attachment.id;
+
+        return (
+          <div
+            key={attachment.id}
+            className="flex items-center justify-between gap-2 p-2 sm:p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600/30"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <Icon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+              <div className="min-w-0">
+                <p className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 truncate">
+                  {attachment.fileName}
+                </p>
+                {attachment.fileSize > 0 && (
+                  <p className="text-[11px] text-gray-500 dark:text-gray-400">
+                    {formatFileSize(attachment.fileSize)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {isBusy ? (
+                <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+              ) : (
+                <>
+                  <a
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    download={attachment.fileName}
+                    onClick={(e) => e.stopPropagation()}
+                    className="p-1.5 sm:p-2 rounded-md text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors touch-manipulation"
+                    aria-label={`Download ${attachment.fileName}`}
+                  >
+                    <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  </a>
+                  {onReplace && (
+                    <button
+                      type="button"
+                      onClick={() => handleReplaceClick(attachment)}
+                      className="p-1.5 sm:p-2 rounded-md text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+                      aria-label={`Replace ${attachment.fileName}`}
+                    >
+                      <RefreshCw className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      type="button"
+                      onClick={() => runAction(attachment, () => onDelete(attachment))}
+                      className="p-1.5 sm:p-2 rounded-md text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                      aria-label={`Delete ${attachment.fileName}`}
+                    >
+                      <Trash2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { Task } from '../../types';
 import { memo, useMemo, lazy, Suspense } from 'react';
-import { isOverdue } from '../../utils/dateUtils';
+import { formatDueCountdown, formatDueTime, getTaskDueState, hasDueTime } from '../../utils/taskDeadline';
 import { parseLinks } from '../../utils/linkParser';
+import { markdownToPlainText } from '../../utils/markdown';
 // Import only the icons we definitely need immediately
-import { Crown, Calendar } from 'lucide-react';
+import { Crown, Calendar, Paperclip } from 'lucide-react';
 
 // Add lightweight CSS animation - defined once and reused
 const pulseAnimation = `
@@ -44,10 +45,11 @@ const CLEAN_REGEX = new RegExp(
   'g'
 );
 
-// Helper function to clean the task description for display in cards
+// Helper function to clean the task description for display in cards.
+// Markdown is flattened to one line of plain text for the preview.
 const cleanDescription = (description: string) => {
   if (!description) return '';
-  return description.replace(CLEAN_REGEX, '').trim();
+  return markdownToPlainText(description.replace(CLEAN_REGEX, '')).replace(/\s+/g, ' ').trim();
 };
 
 // Static maps for colors and styles - shared across all instances
@@ -69,6 +71,7 @@ const categoryColorMap: Record<string, string> = {
 const statusColors = {
   completed: 'bg-green-500',
   overdue: 'bg-red-500', 
+  dueSoon: 'bg-amber-500',
   default: 'bg-sky-500'
 };
 
@@ -83,6 +86,11 @@ const statusStyleMap = {
     bgColor: statusColors.overdue,
     cardStyle: 'md:border-red-200 md:dark:border-red-900/80 bg-red-50 dark:bg-gray-800 md:bg-white md:dark:bg-gray-800'
   },
+  dueSoon: {
+    textColor: 'text-amber-600 dark:text-amber-400',
+    bgColor: statusColors.dueSoon,
+    cardStyle: 'md:border-amber-200 md:dark:border-amber-900/80'
+  },
   default: {
     textColor: 'text-sky-600 dark:text-sky-400',
     bgColor: statusColors.default,
@@ -158,16 +166,28 @@ export const TaskCard = memo(({
   }, []);
 
   // These should be fast calculations, so we can do them directly
-  const overdue = isOverdue(task.dueDate);
+  const dueState = getTaskDueState(task);
+  const overdue = dueState === 'late' || dueState === 'overdue';
   const formattedCategory = task.category.replace(/-/g, ' ');
   const categoryColor = getCategoryColor(task.category);
+  const attachmentCount = task.attachments?.length || 0;
   
   // Get status styles from our map for consistent rendering
   const statusStyle = useMemo(() => {
     if (task.status === 'completed') return statusStyleMap.completed;
     if (overdue) return statusStyleMap.overdue;
+    if (dueState === 'due-soon') return statusStyleMap.dueSoon;
     return statusStyleMap.default;
-  }, [task.status, overdue]);
+  }, [task.status, overdue, dueState]);
+
+  // "Due in 3h", "Late · closes in 1h", "Overdue"
+  const statusLabel = task.status === 'completed'
+    ? 'Complete'
+    : dueState === 'overdue'
+      ? 'Overdue'
+      : dueState === 'upcoming'
+        ? 'In Progress'
+        : formatDueCountdown(task);
   
   // These are more expensive, so we memoize them
   const cleanedDescription = useMemo(() => 
@@ -181,17 +201,18 @@ export const TaskCard = memo(({
     [cleanedDescription]
   );
   
-  // Pre-format date once
+  // Pre-format date once; the time only when the task has one
   const formattedDate = useMemo(() => {
     try {
-      return new Date(task.dueDate).toLocaleDateString('en-US', {
+      const date = new Date(task.dueDate).toLocaleDateString('en-US', {
         month: 'short',
         day: 'numeric'
       });
+      return hasDueTime(task) ? `${date}, ${formatDueTime(task)}` : date;
     } catch (e) {
       return 'No date';
     }
-  }, [task.dueDate]);
+  }, [task]);
 
   // More efficient animation delay calculation
   const animationDelay = `${Math.min(index * 30, 200)}ms`;
@@ -312,8 +333,18 @@ export const TaskCard = memo(({
             text-sm md:text-xs font-medium ${statusStyle.textColor}`}
           >
             <StatusDot status={task.status} overdue={overdue} />
-            {task.status === 'completed' ? 'Complete' : overdue ? 'Overdue' : 'In Progress'}
+            {statusLabel}
           </span>
+
+          {attachmentCount > 0 && (
+            <span
+              className="inline-flex items-center gap-1 text-sm md:text-xs text-gray-500 dark:text-gray-400"
+              title={`${attachmentCount} attachment${attachmentCount !== 1 ? 's' : ''}`}
+            >
+              <Paperclip className="w-3.5 h-3.5 md:w-3 md:h-3" />
+              {attachmentCount}
+            </span>
+          )}
         </div>
 
         {/* Due date display */}
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { MessageSquare, Pin, PinOff, Reply, Edit2, Trash2, Send, Loader2, Shield } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermissionSubject } from '../../hooks/usePermissionSubject';
+import { useTaskComments } from '../../hooks/useTaskComments';
+import { can } from '../../utils/permissions';
+import type { Task } from '../../types';
+import type { TaskComment } from '../../types/taskComment';
+
+interface TaskCommentsProps {
+  task: Task;
+}
+
+const MAX_COMMENT_LENGTH = 4000;
+
+const formatCommentTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+function CommentComposer({
+  placeholder,
+  submitLabel,
+  initialValue = '',
+  onSubmit,
+  onCancel
+}: {
+  placeholder: string;
+  submitLabel: string;
+  initialValue?: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialValue);
+  const [sending, setSending] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSending(true);
+    try {
+      await onSubmit(body);
+      setBody('');
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to post comment');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={sending || !body.trim()}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm flex items-center gap-1.5 disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Questions and comments on a task. Staff replies notify the asker, and
+ * staff can pin the answer that settles a question.
+ */
+export function TaskComments({ task }: TaskCommentsProps) {
+  const { user } = useAuth();
+  const { threads, commentCount, loading, error, addComment, editComment, togglePin, deleteComment } =
+    useTaskComments(task.id);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const permissionSubject = usePermissionSubject(user);
+  const canModerate = can(permissionSubject, 'manageTasks', { sectionId: task.sectionId || undefined });
+
+  const handleTogglePin = async (comment: TaskComment) => {
+    try {
+      await togglePin(comment);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to pin comment');
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    const message = comment.parentId
+      ? 'Delete this reply?'
+      : 'Delete this comment and its replies?';
+    if (!confirm(message)) return;
+
+    try {
+      await deleteComment(comment.id);
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete comment');
+    }
+  };
+
+  const renderComment = (comment: TaskComment) => {
+    const isOwn = comment.userId === user?.id;
+
+    return (
+      <div
+        className={`rounded-xl p-3 ${
+          comment.isPinned
+            ? 'bg-green-50 dark:bg-green-900/20 ring-1 ring-green-200 dark:ring-green-800'
+            : 'bg-gray-50 dark:bg-gray-700/50'
+        }`}
+      >
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs">
+          <span className="font-medium text-gray-900 dark:text-white">
+            {comment.authorName || 'Unknown user'}
+          </span>
+          {comment.authorIsStaff && (
+            <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+              <Shield className="w-3 h-3" />
+              Admin
+            </span>
+          )}
+          {comment.isPinned && (
+            <span className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+              <Pin className="w-3 h-3" />
+              {comment.parentId ? 'Pinned answer' : 'Pinned'}
+            </span>
+          )}
+          <time className="text-gray-500 dark:text-gray-400">{formatCommentTime(comment.createdAt)}</time>
+          {comment.editedAt && (
+            <span className="text-gray-400 dark:text-gray-500 italic" title={`Edited ${formatCommentTime(comment.editedAt)}`}>
+              (edited)
+            </span>
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="mt-2">
+            <CommentComposer
+              placeholder="Edit your comment"
+              submitLabel="Save"
+              initialValue={comment.body}
+              onSubmit={async (body) => {
+                await editComment(comment.id, body);
+                setEditingId(null);
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <p className="mt-1 text-sm text-gray-700 dark:text-gray-200 whitespace-pre-wrap break-words">{comment.body}</p>
+        )}
+
+        {editingId !== comment.id && (
+          <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+            {!comment.parentId && (
+              <button
+                onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <Reply className="w-3.5 h-3.5" />
+                Reply
+              </button>
+            )}
+            {canModerate && (
+              <button
+                onClick={() => handleTogglePin(comment)}
+                className="flex items-center gap-1 hover:text-green-600 dark:hover:text-green-400"
+              >
+                {comment.isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                {comment.isPinned ? 'Unpin' : 'Pin'}
+              </button>
+            )}
+            {isOwn && (
+              <button
+                onClick={() => setEditingId(comment.id)}
+                className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                <Edit2 className="w-3.5 h-3.5" />
+                Edit
+              </button>
+            )}
+            {(isOwn || canModerate) && (
+              <button
+                onClick={() => handleDelete(comment)}
+                className="flex items-center gap-1 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-2 sm:mb-3 flex items-center gap-2">
+        <MessageSquare className="w-4 h-4 sm:w-5 sm:h-5" />
+        Questions & Comments
+        {commentCount > 0 && (
+          <span className="text-sm font-normal text-gray-500 dark:text-gray-400">({commentCount})</span>
+        )}
+      </h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : (
+        <div className="space-y-3">
+          {threads.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No questions yet. Ask here and the answer stays with the task.
+            </p>
+          )}
+
+          {threads.map(({ comment, replies }) => (
+            <div key={comment.id} className="space-y-2">
+              {renderComment(comment)}
+              {(replies.length > 0 || replyingTo === comment.id) && (
+                <div className="ml-4 sm:ml-6 pl-3 border-l-2 border-gray-200 dark:border-gray-700 space-y-2">
+                  {replies.map(reply => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+                  {replyingTo === comment.id && (
+                    <CommentComposer
+                      placeholder="Write a reply"
+                      submitLabel="Reply"
+                      onSubmit={async (body) => {
+                        await addComment(body, comment.id);
+                        setReplyingTo(null);
+                      }}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {user && (
+            <CommentComposer
+              placeholder="Ask a question or leave a comment"
+              submitLabel="Post"
+              onSubmit={async (body) => {
+                await addComment(body);
+              }}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
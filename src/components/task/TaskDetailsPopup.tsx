@@ -1,5 +1,11 @@
-import { X, Calendar, Tag, Clock, Crown, Download, CheckCircle2, Clipboard, Copy } from 'lucide-react';
-import { parseLinks } from '../../utils/linkParser';
+import { X, Calendar, Tag, Clock, Crown, CheckCircle2, Clipboard, Copy } from 'lucide-react';
+import { MarkdownContent } from '../MarkdownContent';
+import { markdownToPlainText } from '../../utils/markdown';
+import { TaskAttachmentList } from './TaskAttachmentList';
+import { TaskSubmissionPanel } from './TaskSubmissionPanel';
+import { TaskComments } from './TaskComments';
+import { isOverdue } from '../../utils/dateUtils';
+import { formatDueCountdown, formatDueTime, formatGracePeriod, getTaskDueState, hasDueTime } from '../../utils/taskDeadline';
 import type { Task } from '../../types';
 import type { TaskStatus } from '../../types/task';
 import { useState, useEffect } from 'react';
@@ -31,88 +37,13 @@ export function TaskDetailsPopup({
   // Filter out section ID text
   const filteredDescription = task.description.replace(/\*This task is assigned to section ID: [0-9a-f-]+\*/g, '').trim();
   
-  // Check for either "Attached Files:" or "**Attachments:**" format
-  let regularDescription = filteredDescription;
-  let fileSection: string[] = [];
+  const regularDescription = filteredDescription;
+  const attachments = task.attachments || [];
   
-  // Check for standard "Attached Files:" format
-  if (filteredDescription.includes('\nAttached Files:')) {
-    const parts = filteredDescription.split('\nAttached Files:');
-    regularDescription = parts[0];
-    fileSection = parts[1]?.split('\n').filter(line => line.trim() && line.includes('](')) || [];
-  } 
-  // Check for "**Attachments:**" format
-  else if (filteredDescription.includes('**Attachments:**')) {
-    const parts = filteredDescription.split('**Attachments:**');
-    regularDescription = parts[0];
-    fileSection = parts[1]?.split('\n').filter(line => line.trim() && line.includes('](')) || [];
-  }
-  
-  // Process description to preserve formatting while handling links
-  const processDescription = (text: string) => {
-    const paragraphs = text.split('\n\n').filter(p => p.trim());
-    return paragraphs.map(paragraph => {
-      const lines = paragraph.split('\n').filter(line => line !== undefined);
-      const parsedLines = lines.map(line => parseLinks(line));
-      return { lines: parsedLines };
-    });
-  };
-
-  const formattedDescription = processDescription(regularDescription);
-  const overdue = new Date(task.dueDate) < new Date();
-
-  const handleDownload = async (url: string, filename: string) => {
-    try {
-      console.log('Downloading file:', { url, filename });
-      
-      // Check if the URL is an attachment URL format
-      if (url.startsWith('attachment:')) {
-        // Extract the file path from the attachment URL
-        const filePath = url.replace('attachment:', '');
-        console.log('Attachment file path:', filePath);
-        
-        // In a real implementation, you would fetch from your backend
-        // For this demonstration, we'll create a simple CSV content
-        const csvContent = `id,name,value\n1,Item 1,100\n2,Item 2,200\n3,Item 3,300`;
-        
-        // Create a blob from the content
-        const blob = new Blob([csvContent], { type: 'text/csv' });
-        
-        // Create a download link and trigger the download
-        const downloadUrl = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = downloadUrl;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        
-        // Clean up
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(downloadUrl);
-        }, 100);
-      } else {
-        // For regular URLs, open in a new tab
-        window.open(url, '_blank', 'noopener,noreferrer');
-      }
-    } catch (error) {
-      console.error('Error downloading file:', error);
-    }
-  };
-
-  const extractFileInfo = (line: string) => {
-    console.log('Processing attachment line:', line);
-    
-    // Improved regex to extract name and URL from markdown link formats
-    const matches = line.match(/\[(.*?)\]\((.*?)\)/);
-    if (matches) {
-      const filename = matches[1];
-      const url = matches[2];
-      console.log('Extracted file info:', { filename, url });
-      return { filename, url };
-    }
-    return null;
-  };
+  const dueState = getTaskDueState(task);
+  const overdue = isOverdue(task);
+  const dueTime = hasDueTime(task) ? `, ${formatDueTime(task)}` : '';
+  const gracePeriod = task.gracePeriodMinutes ? formatGracePeriod(task.gracePeriodMinutes) : '';
 
   const copyTaskToClipboard = () => {
     // Format the task information
@@ -124,11 +55,11 @@ export function TaskDetailsPopup({
     
     const formattedTask = `
 📋 TASK: ${task.name}
-📅 Due Date: ${formattedDate}${overdue ? ' (Overdue)' : ''}
-🏷️ Category: ${task.category.replace('-', ' ')}
+📅 Due Date: ${formattedDate}${dueTime}${dueState === 'late' ? ' (Late)' : overdue ? ' (Overdue)' : ''}
+${gracePeriod ? `⏳ Late work accepted for: ${gracePeriod}\n` : ''}🏷️ Category: ${task.category.replace('-', ' ')}
 ${task.isAdminTask ? '👑 Admin Task\n' : ''}
 📝 Description:
-${regularDescription}
+${markdownToPlainText(regularDescription)}
 
 🌐 View: https://nesttask.vercel.app/
 `;
@@ -297,9 +228,16 @@ ${regularDescription}
                   month: 'short',
                   day: 'numeric'
                 })}
-                {overdue && ' (Overdue)'}
+                {dueTime}
+                {task.status !== 'completed' && dueState !== 'upcoming' && ` · ${formatDueCountdown(task)}`}
               </span>
             </div>
+            {gracePeriod && (
+              <div className="flex items-center gap-1.5">
+                <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+                <span>Late work accepted for {gracePeriod}</span>
+              </div>
+            )}
             <div className="flex items-center gap-1.5">
               <Clock className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
               <span>
@@ -318,63 +256,33 @@ ${regularDescription}
               <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-2 sm:mb-3">
                 Description
               </h3>
-              <div className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap text-sm sm:text-base leading-relaxed">
-                {formattedDescription.map((paragraph, pIndex) => (
-                  <div key={pIndex} className="mb-3 sm:mb-4 last:mb-0">
-                    {paragraph.lines.map((line, lIndex) => (
-                      <div key={lIndex} className="min-h-[1.4em] sm:min-h-[1.5em]">
-                        {line.map((part, index) => 
-                          part.type === 'link' ? (
-                            <a
-                              key={index}
-                              href={part.content}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-blue-600 dark:text-blue-400 hover:underline break-all"
-                              onClick={(e) => e.stopPropagation()}
-                            >
-                              {part.content}
-                            </a>
-                          ) : (
-                            <span key={index}>{part.content}</span>
-                          )
-                        )}
-                      </div>
-                    ))}
-                  </div>
-                ))}
-              </div>
+              <MarkdownContent
+                content={regularDescription}
+                className="text-gray-600 dark:text-gray-300 text-sm sm:text-base leading-relaxed"
+              />
             </div>
           )}
 
           {/* Attached Files - improved touch targets for mobile */}
-          {fileSection.length > 0 && (
+          {attachments.length > 0 && (
             <div className="mt-4 sm:mt-6">
               <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-2 sm:mb-3">
                 Attached Files
               </h3>
-              <div className="space-y-2">
-                {fileSection.map((line, index) => {
-                  const fileInfo = extractFileInfo(line);
-                  if (!fileInfo) return null;
+              <TaskAttachmentList attachments={attachments} />
+            </div>
+          )}
 
-                  return (
-                    <div key={index} className="flex items-center justify-between p-2 sm:p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600/30">
-                      <span className="text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 truncate max-w-[65%] sm:max-w-[70%]">
-                        {fileInfo.filename}
-                      </span>
-                      <button
-                        onClick={() => handleDownload(fileInfo.url, fileInfo.filename)}
-                        className="p-1.5 sm:p-2 rounded-md text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors active:bg-blue-100 dark:active:bg-blue-900/50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50 touch-manipulation"
-                      >
-                        <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-                      </button>
-                    </div>
-                  );
-                })}
-              </div>
+          {/* Students turn work in here; section tasks only */}
+          {task.requiresSubmission && task.sectionId && (
+            <div className="mt-4 sm:mt-6">
+              <TaskSubmissionPanel task={task} />
             </div>
           )}
+
+          <div className="mt-4 sm:mt-6">
+            <TaskComments task={task} />
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, Link2, Paperclip, Trash2, Loader2, CheckCircle, Clock, Lock, X } from 'lucide-react';
+import {
+  fetchMySubmission,
+  removeSubmissionFile,
+  saveSubmission,
+  withdrawSubmission
+} from '../../services/submission.service';
+import { getSubmissionStatus } from '../../utils/submissionRoster';
+import { formatDueCountdown, getTaskDueState } from '../../utils/taskDeadline';
+import type { Task } from '../../types';
+import type { TaskSubmission, TaskSubmissionFile } from '../../types/submission';
+
+interface TaskSubmissionPanelProps {
+  task: Task;
+}
+
+// Same limit as task attachments
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Lets a student turn in files and a link for a task, and change or take
+ * back what they turned in until the task closes
+ */
+export function TaskSubmissionPanel({ task }: TaskSubmissionPanelProps) {
+  const [submission, setSubmission] = useState<TaskSubmission | null>(null);
+  const [link, setLink] = useState('');
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyFileId, setBusyFileId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const dueState = getTaskDueState(task);
+  const isOpen = dueState !== 'overdue';
+
+  const applySubmission = useCallback((next: TaskSubmission | null) => {
+    setSubmission(next);
+    setLink(next?.link || '');
+    setNote(next?.note || '');
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMySubmission(task.id)
+      .then(result => { if (!cancelled) applySubmission(result); })
+      .catch(() => { if (!cancelled) setError('Failed to load your submission'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [task.id, applySubmission]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const oversized = picked.filter(file => file.size > MAX_FILE_SIZE);
+    if (oversized.length > 0) {
+      setError(`Some files exceed the 50MB size limit: ${oversized.map(f => f.name).join(', ')}`);
+      return;
+    }
+
+    setError(null);
+    setFiles(prev => [...prev, ...picked]);
+  };
+
+  const handleSubmit = async () => {
+    if (!link.trim() && files.length === 0 && !submission?.files.length) {
+      setError('Add a file or a link to submit');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      applySubmission(await saveSubmission(task.id, { link, note, files }));
+      setFiles([]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to submit');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveFile = async (file: TaskSubmissionFile) => {
+    setBusyFileId(file.id);
+    setError(null);
+    try {
+      await removeSubmissionFile(file);
+      applySubmission(await fetchMySubmission(task.id));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to remove file');
+    } finally {
+      setBusyFileId(null);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!submission || !confirm('Take back your submission? Its files will be deleted.')) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await withdrawSubmission(submission);
+      applySubmission(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw submission');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  const status = submission ? getSubmissionStatus(task, submission) : null;
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-3 sm:p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+          Your Submission
+        </h3>
+        {status && submission ? (
+          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${
+            status === 'late'
+              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+              : 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+          }`}>
+            {status === 'late' ? <Clock className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+            {status === 'late' ? 'Turned in late' : 'Turned in'} · {new Date(submission.submittedAt).toLocaleString()}
+          </span>
+        ) : (
+          <span className={`text-xs font-medium ${
+            dueState === 'upcoming' ? 'text-gray-500 dark:text-gray-400'
+              : dueState === 'due-soon' ? 'text-amber-600 dark:text-amber-400'
+              : 'text-red-600 dark:text-red-400'
+          }`}>
+            {isOpen ? formatDueCountdown(task) : 'Missing'}
+          </span>
+        )}
+      </div>
+
+      {submission && submission.files.length > 0 && (
+        <ul className="space-y-1.5 mb-3">
+          {submission.files.map(file => (
+            <li key={file.id} className="flex items-center gap-2 text-sm">
+              <Paperclip className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+              <a
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 truncate text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {file.fileName}
+              </a>
+              {isOpen && (
+                <button
+                  onClick={() => handleRemoveFile(file)}
+                  disabled={busyFileId === file.id}
+                  className="p-1 text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20 rounded-lg disabled:opacity-50"
+                  title="Remove file"
+                >
+                  {busyFileId === file.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOpen ? (
+        <div className="space-y-3">
+          {dueState === 'late' && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              The deadline has passed. Work turned in now is marked late ({formatDueCountdown(task)}).
+            </p>
+          )}
+
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Link2 className="h-4 w-4 text-gray-400" />
+            </div>
+            <input
+              type="url"
+              value={link}
+              onChange={(e) => setLink(e.target.value)}
+              placeholder="Link to your work (optional)"
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+            />
+          </div>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            placeholder="Note for your instructor (optional)"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white text-sm"
+          />
+
+          {files.length > 0 && (
+            <ul className="space-y-1">
+              {files.map((file, index) => (
+                <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <Paperclip className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+                  <span className="flex-1 truncate">{file.name}</span>
+                  <button
+                    onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                    title="Don't upload this file"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={saving}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-xl text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center gap-1.5 disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              Add files
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 text-sm flex items-center gap-1.5 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {submission ? 'Update submission' : 'Turn in'}
+            </button>
+            {submission && (
+              <button
+                onClick={handleWithdraw}
+                disabled={saving}
+                className="px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl disabled:opacity-50"
+              >
+                Withdraw
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="flex items-center gap-1.5 text-sm text-gray-500 dark:text-gray-400">
+          <Lock className="w-4 h-4" />
+          Submissions for this task are closed.
+        </p>
+      )}
+
+      {submission?.link && !isOpen && (
+        <a
+          href={submission.link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline truncate"
+        >
+          <Link2 className="w-3.5 h-3.5 flex-shrink-0" />
+          {submission.link}
+        </a>
+      )}
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchActiveRoutine } from '../services/routine.service';
+import type { Routine } from '../types/routine';
+import { useOfflineStatus } from './useOfflineStatus';
+import { setCache, getCache } from '../utils/cache';
+
+const ACTIVE_ROUTINE_CACHE_PREFIX = 'active_routine_';
+
+/**
+ * Loads the routine that is currently active for a student's section
+ */
+export function useActiveRoutine(sectionId: string | undefined) {
+  const cacheKey = `${ACTIVE_ROUTINE_CACHE_PREFIX}${sectionId}`;
+  const [routine, setRoutine] = useState<Routine | null>(() =>
+    sectionId ? getCache<Routine>(cacheKey) : null
+  );
+  const [loading, setLoading] = useState(!routine);
+  const [error, setError] = useState<string | null>(null);
+  const isOffline = useOfflineStatus();
+
+  const loadRoutine = useCallback(async () => {
+    if (!sectionId) {
+      setRoutine(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (isOffline) {
+        const cached = getCache<Routine>(cacheKey);
+        setRoutine(cached);
+        if (!cached) {
+          setError('Offline mode: No cached routine available.');
+        }
+        return;
+      }
+
+      const data = await fetchActiveRoutine(sectionId);
+      setRoutine(data);
+      setCache(cacheKey, data);
+    } catch (err) {
+      console.error('Error loading active routine:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load routine');
+
+      const cached = getCache<Routine>(cacheKey);
+      if (cached) {
+        setRoutine(cached);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [sectionId, cacheKey, isOffline]);
+
+  useEffect(() => {
+    loadRoutine();
+
+    if (isOffline || !sectionId) return;
+
+    // Reload when an admin activates another routine
+    const subscription = supabase
+      .channel(`active-routine-${sectionId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'routines',
+        filter: `section_id=eq.${sectionId}`
+      }, () => {
+        loadRoutine();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [loadRoutine, isOffline, sectionId]);
+
+  const routineId = routine?.id;
+
+  // Slot edits and date changes only matter for the routine on screen;
+  // resubscribes when another routine becomes active
+  useEffect(() => {
+    if (isOffline || !routineId) return;
+
+    const subscription = supabase
+      .channel(`active-routine-slots-${routineId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'routine_slots',
+        filter: `routine_id=eq.${routineId}`
+      }, () => {
+        loadRoutine();
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'routine_overrides',
+        filter: `routine_id=eq.${routineId}`
+      }, () => {
+        loadRoutine();
+      })
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [loadRoutine, isOffline, routineId]);
+
+  return {
+    routine,
+    loading,
+    error,
+    refreshRoutine: loadRoutine
+  };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchAdminLogs } from '../services/admin.service';
+import type { AdminLog, AdminLogFilters } from '../types/admin';
+
+/**
+ * One page of the audit log, refreshed as new entries are written
+ */
+export function useAdminLogs(filters: AdminLogFilters, page: number, pageSize = 25) {
+  const [logs, setLogs] = useState<AdminLog[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { search, action, resource, adminId, from, to } = filters;
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await fetchAdminLogs({ search, action, resource, adminId, from, to }, page, pageSize);
+      setLogs(result.logs);
+      setTotal(result.total);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load admin logs');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, action, resource, adminId, from, to, page, pageSize]);
+
+  useEffect(() => {
+    loadLogs();
+
+    const subscription = supabase
+      .channel('admin-logs')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'admin_logs'
+        },
+        () => {
+          loadLogs();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [loadLogs]);
+
+  return { logs, total, loading, error, refreshLogs: loadLogs };
+}
@@ -3,12 +3,16 @@ import { supabase } from '../lib/supabase';
 import { 
   fetchAnnouncements, 
   createAnnouncement, 
-  deleteAnnouncement 
+  deleteAnnouncement,
+  setAnnouncementPinned
 } from '../services/announcement.service';
 import type { Announcement, NewAnnouncement } from '../types/announcement';
+import { setCache, getCache } from '../utils/cache';
+
+const ANNOUNCEMENTS_CACHE_KEY = 'announcements';
 
 export function useAnnouncements() {
-  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [announcements, setAnnouncements] = useState<Announcement[]>(() => getCache<Announcement[]>(ANNOUNCEMENTS_CACHE_KEY) || []);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -17,6 +21,9 @@ export function useAnnouncements() {
       setLoading(true);
       const data = await fetchAnnouncements();
       setAnnouncements(data);
+
+      // Kept for the offline search index
+      setCache(ANNOUNCEMENTS_CACHE_KEY, data);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -70,6 +77,20 @@ export function useAnnouncements() {
     }
   };
 
+  const handleTogglePinned = async (id: string) => {
+    const announcement = announcements.find(item => item.id === id);
+    if (!announcement) return;
+
+    try {
+      setError(null);
+      await setAnnouncementPinned(id, !announcement.isPinned);
+      await loadAnnouncements();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  };
+
   // Function to manually refresh announcements
   const refreshAnnouncements = useCallback(async () => {
     try {
@@ -87,6 +108,7 @@ export function useAnnouncements() {
     error,
     createAnnouncement: handleCreateAnnouncement,
     deleteAnnouncement: handleDeleteAnnouncement,
+    togglePinned: handleTogglePinned,
     refreshAnnouncements
   };
 }
\ No newline at end of file
@@ -1,206 +1,177 @@
-import { useEffect, useState } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '../lib/supabase';
-import type { Task } from '../types';
-import type { Announcement } from '../types/announcement';
-
-export interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  taskId?: string;
-  announcementId?: string;
-  isAdminTask: boolean;
-  isAnnouncement: boolean;
-}
-
-export function useNotifications(userId: string | undefined) {
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  clearNotification as clearNotificationById,
+  mapNotificationFromDB,
+  type NotificationRow
+} from '../services/notification.service';
+import type { Notification } from '../types/notification';
+
+export type { Notification } from '../types/notification';
+
+/**
+ * Server-backed notification inbox for the signed-in user.
+ * Read/cleared state lives in the `notifications` table, so it survives reloads.
+ */
+export function useNotifications(userId: string | undefined, sectionId?: string) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const pageRef = useRef(0);
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setHasMore(false);
+      return;
+    }
 
-  const sortNotifications = (notifs: Notification[]): Notification[] => {
-    return [...notifs].sort((a, b) => {
-      if (a.read !== b.read) return a.read ? 1 : -1;
-      return b.timestamp.getTime() - a.timestamp.getTime();
-    });
-  };
-
-  useEffect(() => {
-    if (!userId) return;
-
-    const loadExistingItems = async () => {
-      const [{ data: tasks }, { data: announcements }] = await Promise.all([
-        supabase
-          .from('tasks')
-          .select('*')
-          .or(`user_id.eq.${userId},is_admin_task.eq.true`)
-          .order('created_at', { ascending: false }),
-        supabase
-          .from('announcements')
-          .select('*')
-          .order('created_at', { ascending: false })
+    try {
+      setLoading(true);
+      setError(null);
+      const [page, count] = await Promise.all([
+        fetchNotifications(userId, 0),
+        fetchUnreadNotificationCount(userId)
       ]);
+      pageRef.current = 0;
+      setNotifications(page.notifications);
+      setHasMore(page.hasMore);
+      setUnreadCount(count);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
 
-      const newNotifications: Notification[] = [];
-
-      if (tasks) {
-        tasks.forEach(task => {
-          newNotifications.push({
-            id: crypto.randomUUID(),
-            title: task.is_admin_task ? 'New Admin Task' : 'New Task',
-            message: `Task "${task.name}" has been created`,
-            timestamp: new Date(task.created_at),
-            read: false,
-            taskId: task.id,
-            isAdminTask: task.is_admin_task,
-            isAnnouncement: false
-          });
-        });
-      }
-
-      if (announcements) {
-        announcements.forEach(announcement => {
-          newNotifications.push({
-            id: crypto.randomUUID(),
-            title: announcement.title,
-            message: announcement.content, // Use the content field from announcement
-            timestamp: new Date(announcement.created_at),
-            read: false,
-            announcementId: announcement.id,
-            isAdminTask: false,
-            isAnnouncement: true
-          });
-        });
-      }
-
-      const sortedNotifications = sortNotifications(newNotifications);
-      setNotifications(sortedNotifications);
-      setUnreadCount(newNotifications.filter(n => !n.read).length);
-    };
+  const loadMore = useCallback(async () => {
+    if (!userId || loading || !hasMore) return;
+
+    try {
+      setLoading(true);
+      const nextPage = pageRef.current + 1;
+      const page = await fetchNotifications(userId, nextPage);
+      pageRef.current = nextPage;
+      setNotifications(prev => {
+        const seen = new Set(prev.map(n => n.id));
+        return [...prev, ...page.notifications.filter(n => !seen.has(n.id))];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, loading, hasMore]);
 
-    loadExistingItems();
+  useEffect(() => {
+    loadNotifications();
 
-    const taskSubscription = supabase
-      .channel('tasks')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'tasks',
-          filter: `user_id=eq.${userId}`
-        },
-        (payload) => {
-          handleNewTask(payload.new as any);
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'tasks',
-          filter: 'is_admin_task=eq.true'
-        },
-        (payload) => {
-          handleNewTask(payload.new as any);
-        }
-      )
-      .subscribe();
+    if (!userId) return;
 
-    const announcementSubscription = supabase
-      .channel('announcements')
+    const subscription = supabase
+      .channel(`notifications-${userId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'announcements'
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
         },
         (payload) => {
-          handleNewAnnouncement(payload.new as any);
+          const row = payload.new as NotificationRow;
+
+          // Only surface events for the section the user currently belongs to
+          if (sectionId && row.section_id && row.section_id !== sectionId) return;
+
+          const notification = mapNotificationFromDB(row);
+          setNotifications(prev =>
+            prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]
+          );
+          if (!notification.read) {
+            setUnreadCount(prev => prev + 1);
+          }
         }
       )
       .subscribe();
 
     return () => {
-      taskSubscription.unsubscribe();
-      announcementSubscription.unsubscribe();
+      subscription.unsubscribe();
     };
-  }, [userId]);
+  }, [userId, sectionId, loadNotifications]);
 
-  const handleNewTask = (task: any) => {
-    if (task.is_admin_task || task.user_id === userId) {
-      const notification: Notification = {
-        id: crypto.randomUUID(),
-        title: task.is_admin_task ? 'New Admin Task' : 'New Task',
-        message: `Task "${task.name}" has been created`,
-        timestamp: new Date(),
-        read: false,
-        taskId: task.id,
-        isAdminTask: task.is_admin_task,
-        isAnnouncement: false
-      };
-
-      setNotifications(prev => sortNotifications([notification, ...prev]));
-      setUnreadCount(prev => prev + 1);
-    }
-  };
-
-  const handleNewAnnouncement = (announcement: any) => {
-    const notification: Notification = {
-      id: crypto.randomUUID(),
-      title: announcement.title,
-      message: announcement.content, // Use the content field from announcement
-      timestamp: new Date(),
-      read: false,
-      announcementId: announcement.id,
-      isAdminTask: false,
-      isAnnouncement: true
-    };
+  const markAsRead = useCallback(async (notificationId: string) => {
+    const target = notifications.find(n => n.id === notificationId);
+    if (!target || target.read) return;
 
-    setNotifications(prev => sortNotifications([notification, ...prev]));
-    setUnreadCount(prev => prev + 1);
-  };
-
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev => 
-      sortNotifications(
-        prev.map(notification =>
-          notification.id === notificationId
-            ? { ...notification, read: true }
-            : notification
-        )
+    setNotifications(prev =>
+      prev.map(notification =>
+        notification.id === notificationId
+          ? { ...notification, read: true }
+          : notification
       )
     );
     setUnreadCount(prev => Math.max(0, prev - 1));
-  };
 
-  const markAllAsRead = () => {
+    try {
+      await markNotificationAsRead(notificationId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notification');
+      await loadNotifications();
+    }
+  }, [notifications, loadNotifications]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userId) return;
+
     setNotifications(prev =>
-      sortNotifications(
-        prev.map(notification => ({ ...notification, read: true }))
-      )
+      prev.map(notification => ({ ...notification, read: true }))
     );
     setUnreadCount(0);
-  };
 
-  const clearNotification = (notificationId: string) => {
-    setNotifications(prev => {
-      const notification = prev.find(n => n.id === notificationId);
-      if (notification && !notification.read) {
-        setUnreadCount(count => Math.max(0, count - 1));
-      }
-      return sortNotifications(prev.filter(n => n.id !== notificationId));
-    });
-  };
+    try {
+      await markAllNotificationsAsRead(userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update notifications');
+      await loadNotifications();
+    }
+  }, [userId, loadNotifications]);
+
+  const clearNotification = useCallback(async (notificationId: string) => {
+    const target = notifications.find(n => n.id === notificationId);
+    if (!target) return;
+
+    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    if (!target.read) {
+      setUnreadCount(prev => Math.max(0, prev - 1));
+    }
+
+    try {
+      await clearNotificationById(notificationId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear notification');
+      await loadNotifications();
+    }
+  }, [notifications, loadNotifications]);
 
   return {
     notifications,
     unreadCount,
+    loading,
+    error,
+    hasMore,
+    loadMore,
     markAsRead,
     markAllAsRead,
-    clearNotification
+    clearNotification,
+    refreshNotifications: loadNotifications
   };
-}
\ No newline at end of file
+}
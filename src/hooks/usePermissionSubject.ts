@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { fetchCurrentPermissionSubject } from '../services/permission.service';
+import type { PermissionSubject } from '../types/admin';
+
+/**
+ * The signed-in user's role, grants and assigned sections, for permission
+ * checks in the UI. Until they load, the user from auth stands in.
+ * @param user The signed-in user; reloads when their id changes
+ */
+export function usePermissionSubject(user: (PermissionSubject & { id: string }) | null | undefined) {
+  const [subject, setSubject] = useState<PermissionSubject | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    setSubject(null);
+    if (!userId) return;
+    let cancelled = false;
+
+    fetchCurrentPermissionSubject()
+      .then(data => { if (!cancelled) setSubject(data); })
+      // The service logs failures; the auth user keeps standing in
+      .catch(() => undefined);
+
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  return subject || user || null;
+}
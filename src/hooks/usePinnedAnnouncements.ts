@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchPinnedAnnouncements } from '../services/announcement.service';
+import type { Announcement } from '../types/announcement';
+import type { User } from '../types/auth';
+
+/**
+ * Live pinned announcements addressed to the user's section, batch or
+ * department, shown above the notification inbox
+ */
+export function usePinnedAnnouncements(user: Pick<User, 'id' | 'sectionId' | 'batchId' | 'departmentId'> | null | undefined) {
+  const [pinnedAnnouncements, setPinnedAnnouncements] = useState<Announcement[]>([]);
+  const userId = user?.id;
+  const sectionId = user?.sectionId;
+  const batchId = user?.batchId;
+  const departmentId = user?.departmentId;
+
+  const loadPinnedAnnouncements = useCallback(async () => {
+    if (!userId) {
+      setPinnedAnnouncements([]);
+      return;
+    }
+
+    setPinnedAnnouncements(await fetchPinnedAnnouncements({ sectionId, batchId, departmentId }));
+  }, [userId, sectionId, batchId, departmentId]);
+
+  useEffect(() => {
+    loadPinnedAnnouncements();
+
+    if (!userId) return;
+
+    const subscription = supabase
+      .channel(`pinned-announcements-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'announcements'
+        },
+        () => {
+          loadPinnedAnnouncements();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [userId, loadPinnedAnnouncements]);
+
+  return { pinnedAnnouncements, refreshPinnedAnnouncements: loadPinnedAnnouncements };
+}
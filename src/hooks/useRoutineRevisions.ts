@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchRoutineRevisions } from '../services/routine.service';
+import type { RoutineRevision } from '../types/routine';
+
+/**
+ * The saved versions of a routine, newest first, kept up to date while
+ * the routine is edited
+ */
+export function useRoutineRevisions(routineId: string | null | undefined) {
+  const [revisions, setRevisions] = useState<RoutineRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    if (!routineId) {
+      setRevisions([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await fetchRoutineRevisions(routineId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load routine history');
+    } finally {
+      setLoading(false);
+    }
+  }, [routineId]);
+
+  useEffect(() => {
+    loadRevisions();
+
+    if (!routineId) return;
+
+    const subscription = supabase
+      .channel(`routine-revisions-${routineId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'routine_revisions',
+          filter: `routine_id=eq.${routineId}`
+        },
+        () => {
+          loadRevisions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [routineId, loadRevisions]);
+
+  return { revisions, loading, error, refreshRevisions: loadRevisions };
+}
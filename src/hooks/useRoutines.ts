@@ -13,9 +13,14 @@ import {
   bulkImportRoutineSlots as bulkImportRoutineSlotsService,
   exportRoutineWithSlots as exportRoutineWithSlotsService,
   getAllSemesters as getAllSemestersService,
-  getRoutinesBySemester as getRoutinesBySemesterService
+  getRoutinesBySemester as getRoutinesBySemesterService,
+  cloneRoutineToSemester as cloneRoutineToSemesterService,
+  restoreRoutineRevision as restoreRoutineRevisionService,
+  syncCourseSlotsFromClassTimes,
+  type RoutineSlotSaveOptions
 } from '../services/routine.service';
 import type { Routine, RoutineSlot } from '../types/routine';
+import type { Course } from '../types/course';
 import { useOfflineStatus } from './useOfflineStatus';
 import { setCache, getCache, clearCacheByPrefix } from '../utils/cache';
 
@@ -258,13 +263,17 @@ export function useRoutines(userId?: string) {
   };
 
   // Add a routine slot
-  const handleAddRoutineSlot = async (routineId: string, slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>) => {
+  const handleAddRoutineSlot = async (
+    routineId: string,
+    slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>,
+    options?: RoutineSlotSaveOptions
+  ) => {
     if (isOffline) {
       throw new Error('Cannot add routine slots while offline');
     }
 
     try {
-      const addedSlot = await addRoutineSlot(routineId, slot);
+      const addedSlot = await addRoutineSlot(routineId, slot, options);
       
       // Update local state
       setRoutines(prev => {
@@ -287,13 +296,18 @@ export function useRoutines(userId?: string) {
   };
 
   // Update a routine slot
-  const handleUpdateRoutineSlot = async (routineId: string, slotId: string, updates: Partial<RoutineSlot>) => {
+  const handleUpdateRoutineSlot = async (
+    routineId: string,
+    slotId: string,
+    updates: Partial<RoutineSlot>,
+    options?: RoutineSlotSaveOptions
+  ) => {
     if (isOffline) {
       throw new Error('Cannot update routine slots while offline');
     }
 
     try {
-      await updateRoutineSlot(routineId, slotId, updates);
+      await updateRoutineSlot(routineId, slotId, updates, options);
       
       // Update local state
       setRoutines(prev => {
@@ -346,13 +360,17 @@ export function useRoutines(userId?: string) {
     }
   };
 
-  const bulkImportSlots = async (routineId: string, slotsData: any[]): Promise<{ success: number; errors: any[] }> => {
+  const bulkImportSlots = async (
+    routineId: string,
+    slotsData: any[],
+    options?: RoutineSlotSaveOptions
+  ): Promise<{ success: number; errors: any[] }> => {
     if (isOffline) {
       throw new Error('Cannot import slots while offline');
     }
 
     try {
-      const result = await bulkImportRoutineSlotsService(routineId, slotsData);
+      const result = await bulkImportRoutineSlotsService(routineId, slotsData, options);
       
       // Refresh routines to get updated data
       await loadRoutines();
@@ -373,22 +391,88 @@ export function useRoutines(userId?: string) {
     }
   };
 
-  const getSemesters = async () => {
+  const getSemesters = useCallback(async () => {
     try {
       return await getAllSemestersService();
     } catch (err: any) {
       console.error('Error getting semesters:', err);
       throw err;
     }
-  };
+  }, []);
 
-  const getRoutinesBySemester = async (semester: string) => {
+  const getRoutinesBySemester = useCallback(async (semester: string) => {
     try {
       return await getRoutinesBySemesterService(semester);
     } catch (err: any) {
       console.error(`Error getting routines for semester ${semester}:`, err);
       throw err;
     }
+  }, []);
+
+  const cloneRoutine = async (routineId: string, target: { name: string; semester: string }) => {
+    if (isOffline) {
+      throw new Error('Cannot copy routines while offline');
+    }
+
+    try {
+      const clone = await cloneRoutineToSemesterService(routineId, target);
+      
+      setRoutines(prev => {
+        const updated = [clone, ...prev];
+        setCache(ROUTINES_CACHE_KEY, updated);
+        return updated;
+      });
+      
+      return clone;
+    } catch (err: any) {
+      console.error('Error cloning routine:', err);
+      throw err;
+    }
+  };
+
+  const restoreRoutineRevision = async (revisionId: string) => {
+    if (isOffline) {
+      throw new Error('Cannot restore routine versions while offline');
+    }
+
+    try {
+      await restoreRoutineRevisionService(revisionId);
+      
+      // Slots were replaced server-side
+      await loadRoutines();
+    } catch (err: any) {
+      console.error('Error restoring routine revision:', err);
+      throw err;
+    }
+  };
+
+  const syncCourseSlots = async (
+    routineId: string,
+    course: Pick<Course, 'id' | 'name' | 'code' | 'teacher' | 'classTimes'>,
+    options?: RoutineSlotSaveOptions
+  ) => {
+    if (isOffline) {
+      throw new Error('Cannot update routine slots while offline');
+    }
+
+    try {
+      const result = await syncCourseSlotsFromClassTimes(routineId, course, options);
+      
+      setRoutines(prev => {
+        const updated = prev.map(routine => {
+          if (routine.id !== routineId) return routine;
+          const otherSlots = (routine.slots || []).filter(slot => slot.courseId !== course.id);
+          return { ...routine, slots: [...otherSlots, ...result.slots] };
+        });
+        setCache(ROUTINES_CACHE_KEY, updated);
+        return updated;
+      });
+      
+      return result;
+    } catch (err: any) {
+      console.error('Error syncing course slots:', err);
+      throw err;
+    }
   };
 
   return {
@@ -407,6 +491,9 @@ export function useRoutines(userId?: string) {
     bulkImportSlots,
     exportRoutine,
     getSemesters,
-    getRoutinesBySemester
+    getRoutinesBySemester,
+    cloneRoutine,
+    restoreRoutineRevision,
+    syncCourseSlots
   };
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { useState, useEffect, useMemo } from 'react';
+import { searchAll } from '../services/search.service';
+import { buildSearchIndex, searchIndex } from '../utils/searchIndex';
+import { parseSearchQuery, hasSearchCriteria } from '../utils/searchQuery';
+import { getCache } from '../utils/cache';
+import { useOfflineStatus } from './useOfflineStatus';
+import type { Task } from '../types';
+import type { Course, StudyMaterial } from '../types/course';
+import type { Teacher } from '../types/teacher';
+import type { Announcement } from '../types/announcement';
+import type { SearchResult } from '../types/search';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Searches tasks, courses, study materials, teachers and announcements.
+ * Online the database does the ranking; offline (or when the request fails)
+ * a client index is built from the tasks and the data the other hooks cached.
+ */
+export function useSearch(query: string, tasks: Task[]) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLocalResults, setIsLocalResults] = useState(false);
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+  const isOffline = useOfflineStatus();
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(debouncedQuery), [debouncedQuery]);
+
+  useEffect(() => {
+    if (!hasSearchCriteria(parsedQuery)) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    const searchLocally = () => {
+      const index = buildSearchIndex({
+        tasks,
+        courses: getCache<Course[]>('courses') || [],
+        materials: getCache<StudyMaterial[]>('materials') || [],
+        teachers: getCache<Teacher[]>('teachers') || [],
+        announcements: getCache<Announcement[]>('announcements') || []
+      });
+      setResults(searchIndex(index, parsedQuery));
+      setIsLocalResults(true);
+    };
+
+    if (isOffline) {
+      searchLocally();
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    searchAll(parsedQuery)
+      .then(data => {
+        if (cancelled) return;
+        setResults(data);
+        setIsLocalResults(false);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+        searchLocally();
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedQuery, isOffline, tasks]);
+
+  return {
+    results,
+    parsedQuery,
+    loading,
+    error,
+    isLocalResults
+  };
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  fetchTaskComments,
+  addTaskComment,
+  editTaskComment,
+  setTaskCommentPinned,
+  deleteTaskComment,
+  mapTaskCommentFromDB,
+  type TaskCommentRow
+} from '../services/taskComment.service';
+import type { TaskComment, TaskCommentThread } from '../types/taskComment';
+
+// Pinned first, then oldest first
+const byPinThenTime = (a: TaskComment, b: TaskComment) =>
+  Number(b.isPinned) - Number(a.isPinned) || a.createdAt.localeCompare(b.createdAt);
+
+const upsertComment = (comments: TaskComment[], comment: TaskComment) =>
+  comments.some(c => c.id === comment.id)
+    ? comments.map(c => (c.id === comment.id ? comment : c))
+    : [...comments, comment];
+
+/**
+ * The comment threads of a task, kept live while the task is open
+ */
+export function useTaskComments(taskId: string) {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setComments(await fetchTaskComments(taskId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load comments');
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadComments();
+
+    const subscription = supabase
+      .channel(`task-comments-${taskId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`
+        },
+        (payload) => {
+          const comment = mapTaskCommentFromDB(payload.new as TaskCommentRow);
+          setComments(prev => upsertComment(prev, comment));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'task_comments',
+          filter: `task_id=eq.${taskId}`
+        },
+        (payload) => {
+          const comment = mapTaskCommentFromDB(payload.new as TaskCommentRow);
+          setComments(prev => upsertComment(prev, comment));
+        }
+      )
+      // Delete events can't be filtered and only carry the id
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'task_comments'
+        },
+        (payload) => {
+          const id = (payload.old as { id?: string }).id;
+          if (!id) return;
+          setComments(prev => prev.filter(c => c.id !== id && c.parentId !== id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [taskId, loadComments]);
+
+  const threads = useMemo<TaskCommentThread[]>(() => {
+    const replies = new Map<string, TaskComment[]>();
+    comments.forEach(comment => {
+      if (!comment.parentId) return;
+      replies.set(comment.parentId, [...(replies.get(comment.parentId) || []), comment]);
+    });
+
+    return comments
+      .filter(comment => !comment.parentId)
+      .sort(byPinThenTime)
+      .map(comment => ({
+        comment,
+        replies: (replies.get(comment.id) || []).sort(byPinThenTime)
+      }));
+  }, [comments]);
+
+  const addComment = async (body: string, parentId?: string) => {
+    const created = await addTaskComment(taskId, body, parentId);
+    setComments(prev => upsertComment(prev, created));
+    return created;
+  };
+
+  const editComment = async (id: string, body: string) => {
+    const updated = await editTaskComment(id, body);
+    setComments(prev => upsertComment(prev, updated));
+    return updated;
+  };
+
+  const togglePin = async (comment: TaskComment) => {
+    const updated = await setTaskCommentPinned(comment.id, !comment.isPinned);
+    setComments(prev => upsertComment(prev, updated));
+    return updated;
+  };
+
+  const deleteComment = async (id: string) => {
+    await deleteTaskComment(id);
+    setComments(prev => prev.filter(c => c.id !== id && c.parentId !== id));
+  };
+
+  return {
+    threads,
+    commentCount: comments.length,
+    loading,
+    error,
+    addComment,
+    editComment,
+    togglePin,
+    deleteComment,
+    refreshComments: loadComments
+  };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchSectionTaskCompletion } from '../services/taskProgress.service';
+import type { TaskCompletionSummary } from '../types/task';
+
+const REALTIME_FILTER_LIMIT = 100;
+
+/**
+ * Loads per-task "X of Y students completed" counts for a section
+ * and keeps them fresh as students update their progress.
+ */
+export function useTaskCompletion(sectionId: string | undefined) {
+  const [completion, setCompletion] = useState<Record<string, TaskCompletionSummary>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCompletion = useCallback(async () => {
+    if (!sectionId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchSectionTaskCompletion(sectionId);
+      setCompletion(
+        data.reduce((acc: Record<string, TaskCompletionSummary>, summary) => {
+          acc[summary.taskId] = summary;
+          return acc;
+        }, {})
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load task completion');
+    } finally {
+      setLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    if (!sectionId) {
+      setCompletion({});
+      return;
+    }
+
+    loadCompletion();
+  }, [sectionId, loadCompletion]);
+
+  // The section's shared tasks, as a stable key for the subscription below
+  const taskIds = useMemo(() => Object.keys(completion).sort().join(','), [completion]);
+
+  useEffect(() => {
+    if (!sectionId) return;
+
+    // Only progress on this section's tasks concerns the counts; realtime
+    // filters take at most 100 values, so larger sections get several
+    const ids = taskIds ? taskIds.split(',') : [];
+    let channel = supabase
+      .channel(`task-progress-${sectionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tasks',
+          filter: `section_id=eq.${sectionId}`
+        },
+        () => {
+          loadCompletion();
+        }
+      );
+
+    for (let i = 0; i < ids.length; i += REALTIME_FILTER_LIMIT) {
+      channel = channel.on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_progress',
+          filter: `task_id=in.(${ids.slice(i, i + REALTIME_FILTER_LIMIT).join(',')})`
+        },
+        () => {
+          loadCompletion();
+        }
+      );
+    }
+
+    const subscription = channel.subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [sectionId, taskIds, loadCompletion]);
+
+  return {
+    completion,
+    loading,
+    error,
+    refreshCompletion: loadCompletion
+  };
+}
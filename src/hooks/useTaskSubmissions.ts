@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchTaskSubmissions } from '../services/submission.service';
+import { fetchSectionUsers } from '../services/admin.service';
+import type { AdminUser } from '../types/admin';
+import type { TaskSubmission } from '../types/submission';
+
+/**
+ * Everything turned in for a task, with the students of its section to
+ * tell who is missing. Stays live while students submit.
+ */
+export function useTaskSubmissions(taskId: string, sectionId?: string | null) {
+  const [submissions, setSubmissions] = useState<TaskSubmission[]>([]);
+  const [students, setStudents] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubmissions = useCallback(async () => {
+    try {
+      setError(null);
+      setSubmissions(await fetchTaskSubmissions(taskId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load submissions');
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadAll = async () => {
+      setLoading(true);
+      try {
+        const [, users] = await Promise.all([
+          loadSubmissions(),
+          sectionId ? fetchSectionUsers(sectionId) : Promise.resolve([])
+        ]);
+        if (!cancelled) setStudents(users);
+      } catch (err: unknown) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load students');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadAll();
+
+    // File changes touch the submission row, so this catches them too
+    const subscription = supabase
+      .channel(`task-submissions-${taskId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_submissions',
+          filter: `task_id=eq.${taskId}`
+        },
+        () => {
+          loadSubmissions();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [taskId, sectionId, loadSubmissions]);
+
+  return { submissions, students, loading, error, refreshSubmissions: loadSubmissions };
+}
@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  fetchTaskTemplates,
+  createTaskTemplate,
+  updateTaskTemplate,
+  deleteTaskTemplate
+} from '../services/taskTemplate.service';
+import type { NewTaskTemplate, TaskTemplate } from '../types/taskTemplate';
+
+/**
+ * Recurring task templates, optionally limited to one section
+ */
+export function useTaskTemplates(sectionId?: string) {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTemplates(await fetchTaskTemplates(sectionId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    loadTemplates();
+
+    const subscription = supabase
+      .channel('task_templates')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'task_templates'
+        },
+        () => {
+          loadTemplates();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [loadTemplates]);
+
+  const createTemplate = async (template: NewTaskTemplate) => {
+    const created = await createTaskTemplate(template);
+    setTemplates(prev => [created, ...prev.filter(t => t.id !== created.id)]);
+    return created;
+  };
+
+  const updateTemplate = async (id: string, updates: Partial<NewTaskTemplate>) => {
+    const updated = await updateTaskTemplate(id, updates);
+    setTemplates(prev => prev.map(t => (t.id === id ? updated : t)));
+    return updated;
+  };
+
+  const deleteTemplate = async (id: string) => {
+    await deleteTaskTemplate(id);
+    setTemplates(prev => prev.filter(t => t.id !== id));
+  };
+
+  return {
+    templates,
+    loading,
+    error,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    refreshTemplates: loadTemplates
+  };
+}
@@ -1,8 +1,17 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase, testConnection } from '../lib/supabase';
-import { fetchTasks, createTask, updateTask, deleteTask } from '../services/task.service';
+import {
+  fetchTasks,
+  createTask,
+  updateTask,
+  deleteTask,
+  bulkUpdateTasks,
+  bulkDeleteTasks,
+  duplicateTasksToSections
+} from '../services/task.service';
+import { updateTaskProgress } from '../services/taskProgress.service';
 import { useOfflineStatus } from './useOfflineStatus';
-import type { Task, NewTask } from '../types/task';
+import type { Task, NewTask, TaskBulkChanges, TaskBulkResult } from '../types/task';
 
 // Cache for tasks by user ID
 const tasksCache = new Map<string, {
@@ -373,7 +382,28 @@ export function useTasks(userId: string | undefined) {
     }
 
     try {
-      const updatedTask = await updateTask(taskId, updates);
+      // Status of a shared admin/section task belongs to the current user only
+      const existingTask = tasks.find(task => task.id === taskId);
+      // Attachments are persisted by the attachment service, only local state changes here
+      const { status, attachments, ...sharedUpdates } = updates;
+      let updatedTask: Task;
+
+      if (existingTask?.isAdminTask && status !== undefined && userId) {
+        await updateTaskProgress(userId, taskId, status);
+        const sharedTask = Object.keys(sharedUpdates).length > 0
+          ? await updateTask(taskId, sharedUpdates)
+          : existingTask;
+        updatedTask = { ...existingTask, ...sharedTask, status };
+      } else if (existingTask && status === undefined && Object.keys(sharedUpdates).length === 0) {
+        updatedTask = existingTask;
+      } else {
+        updatedTask = await updateTask(taskId, status !== undefined ? { ...sharedUpdates, status } : sharedUpdates);
+      }
+
+      if (attachments) {
+        updatedTask = { ...updatedTask, attachments };
+      }
+
       if (isMountedRef.current) {
         // Update local state
         setTasks(prev => prev.map(task => 
@@ -425,6 +455,31 @@ export function useTasks(userId: string | undefined) {
     }
   };
 
+  // Bulk actions change many rows server-side, so reload rather than patch
+  const runBulkAction = async (action: () => Promise<TaskBulkResult>): Promise<TaskBulkResult> => {
+    if (isOffline) {
+      throw new Error('Cannot change tasks while offline');
+    }
+
+    try {
+      const result = await action();
+      await loadTasks({ force: true });
+      return result;
+    } catch (err: any) {
+      console.error('Error running bulk task action:', err);
+      throw err;
+    }
+  };
+
+  const handleBulkUpdateTasks = (taskIds: string[], changes: TaskBulkChanges) =>
+    runBulkAction(() => bulkUpdateTasks(taskIds, changes));
+
+  const handleBulkDeleteTasks = (taskIds: string[]) =>
+    runBulkAction(() => bulkDeleteTasks(taskIds));
+
+  const handleDuplicateTasks = (taskIds: string[], sectionIds: string[]) =>
+    runBulkAction(() => duplicateTasksToSections(taskIds, sectionIds));
+
   const refreshTasks = useCallback((force = false) => {
     loadTasks({ force });
   }, [loadTasks]);
@@ -436,6 +491,9 @@ export function useTasks(userId: string | undefined) {
     createTask: handleCreateTask,
     updateTask: handleUpdateTask,
     deleteTask: handleDeleteTask,
+    bulkUpdateTasks: handleBulkUpdateTasks,
+    bulkDeleteTasks: handleBulkDeleteTasks,
+    duplicateTasks: handleDuplicateTasks,
     refreshTasks
   };
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTrashItems, restoreTrashItem, purgeTrashItem } from '../services/trash.service';
+import type { TrashItem, TrashResource } from '../types/trash';
+
+/**
+ * The admin's trash, optionally limited to one section
+ */
+export function useTrash(sectionId?: string) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setItems(await fetchTrashItems(sectionId));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  }, [sectionId]);
+
+  useEffect(() => {
+    loadItems();
+  }, [loadItems]);
+
+  const removeItem = (resource: TrashResource, id: string) => {
+    setItems(prev => prev.filter(item => !(item.resource === resource && item.id === id)));
+  };
+
+  const restoreItem = async (resource: TrashResource, id: string) => {
+    await restoreTrashItem(resource, id);
+    removeItem(resource, id);
+  };
+
+  const purgeItem = async (resource: TrashResource, id: string) => {
+    await purgeTrashItem(resource, id);
+    removeItem(resource, id);
+  };
+
+  return { items, loading, error, restoreItem, purgeItem, refreshTrash: loadItems };
+}
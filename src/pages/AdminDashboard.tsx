@@ -5,6 +5,7 @@ import { UserActivity } from '../components/admin/UserActivity';
 import { Dashboard } from '../components/admin/dashboard/Dashboard';
 import { UserActiveGraph } from '../components/admin/dashboard/UserActiveGraph';
 import { useAnnouncements } from '../hooks/useAnnouncements';
+import { getAnnouncementScope } from '../services/announcement.service';
 import { useCourses } from '../hooks/useCourses';
 import { useRoutines } from '../hooks/useRoutines';
 import { useTeachers } from '../hooks/useTeachers';
@@ -13,9 +14,10 @@ import { showErrorToast, showSuccessToast } from '../utils/notifications';
 import { isOverdue } from '../utils/dateUtils';
 import type { User } from '../types/auth';
 import type { Task } from '../types/index';
-import type { NewTask } from '../types/task';
+import type { NewTask, TaskBulkChanges, TaskBulkResult } from '../types/task';
 import type { Teacher, NewTeacher } from '../types/teacher';
 import type { AdminTab } from '../types/admin';
+import type { TrashResource } from '../types/trash';
 import { useAuth } from '../hooks/useAuth';
 import { useTasks } from '../hooks/useTasks';
 import { supabase } from '../lib/supabase';
@@ -29,6 +31,7 @@ const CourseManager = lazy(() => import('../components/admin/course/CourseManage
 const StudyMaterialManager = lazy(() => import('../components/admin/study-materials/StudyMaterialManager').then(module => ({ default: module.StudyMaterialManager })));
 const RoutineManager = lazy(() => import('../components/admin/routine/RoutineManager').then(module => ({ default: module.RoutineManager })));
 const TeacherManager = lazy(() => import('../components/admin/teacher/TeacherManager').then(module => ({ default: module.TeacherManager })));
+const TrashManager = lazy(() => import('../components/admin/trash/TrashManager').then(module => ({ default: module.TrashManager })));
 
 interface AdminDashboardProps {
   users: User[];
@@ -38,6 +41,9 @@ interface AdminDashboardProps {
   onCreateTask: (task: NewTask, sectionId?: string) => void;
   onDeleteTask: (taskId: string) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
+  onBulkUpdateTasks: (taskIds: string[], changes: TaskBulkChanges) => Promise<TaskBulkResult>;
+  onBulkDeleteTasks: (taskIds: string[]) => Promise<TaskBulkResult>;
+  onDuplicateTasks: (taskIds: string[], sectionIds: string[]) => Promise<TaskBulkResult>;
   isSectionAdmin?: boolean;
   sectionId?: string;
   sectionName?: string;
@@ -51,6 +57,9 @@ export function AdminDashboard({
   onCreateTask,
   onDeleteTask,
   onUpdateTask,
+  onBulkUpdateTasks,
+  onBulkDeleteTasks,
+  onDuplicateTasks,
   isSectionAdmin = false,
   sectionId,
   sectionName
@@ -106,17 +115,21 @@ export function AdminDashboard({
     announcements,
     createAnnouncement,
     deleteAnnouncement,
+    togglePinned: toggleAnnouncementPinned,
     refreshAnnouncements,
     loading: announcementsLoading
   } = useAnnouncements();
   
   // Filter announcements for section admin - memoized for performance
   const filteredAnnouncements = useMemo(() => {
-    if (!isSectionAdmin || !sectionId || activeTab !== 'announcements') {
+    if (activeTab !== 'announcements') {
       return []; // Only compute when needed
     }
+    if (!isSectionAdmin || !sectionId) {
+      return announcements;
+    }
     return announcements.filter(announcement => {
-      return !announcement.sectionId || announcement.sectionId === sectionId;
+      return announcement.sectionId === sectionId || getAnnouncementScope(announcement) === 'everyone';
     });
   }, [announcements, isSectionAdmin, sectionId, activeTab]);
   
@@ -158,6 +171,11 @@ export function AdminDashboard({
     activateRoutine,
     deactivateRoutine,
     bulkImportSlots,
+    getSemesters,
+    getRoutinesBySemester,
+    cloneRoutine,
+    restoreRoutineRevision,
+    syncCourseSlots,
     refreshRoutines,
     loading: routinesLoading
   } = useRoutines();
@@ -213,7 +231,7 @@ export function AdminDashboard({
   
   // Memoized calculation of due tasks
   const dueTasks = useMemo(() => 
-    filteredTasks.filter(task => isOverdue(task.dueDate) && task.status !== 'completed'),
+    filteredTasks.filter(task => isOverdue(task) && task.status !== 'completed'),
     [filteredTasks]
   );
 
@@ -511,6 +529,28 @@ export function AdminDashboard({
     }
   }, [deleteTeacherService, refreshTeachers]);
 
+  // Reload the list a restored item belongs to; study materials follow
+  // through the courses subscription
+  const handleTrashRestored = useCallback((resource: TrashResource) => {
+    switch (resource) {
+      case 'tasks':
+        refreshTasks(true);
+        break;
+      case 'courses':
+        refreshCourses();
+        break;
+      case 'teachers':
+        refreshTeachers();
+        break;
+      case 'routines':
+        refreshRoutines();
+        break;
+      case 'announcements':
+        refreshAnnouncements();
+        break;
+    }
+  }, [refreshAnnouncements, refreshCourses, refreshRoutines, refreshTasks, refreshTeachers]);
+
   // Manual refresh with improved error handling and state reset
   const handleManualRefresh = useCallback(async () => {
     try {
@@ -570,6 +610,7 @@ export function AdminDashboard({
               <Dashboard 
                 users={filteredUsers} 
                 tasks={filteredTasks} 
+                sectionId={isSectionAdmin ? sectionId : undefined}
               />
             )}
 
@@ -633,6 +674,9 @@ export function AdminDashboard({
                 onCreateTask={handleCreateTask}
                 onDeleteTask={onDeleteTask}
                 onUpdateTask={onUpdateTask}
+                onBulkUpdateTasks={onBulkUpdateTasks}
+                onBulkDeleteTasks={onBulkDeleteTasks}
+                onDuplicateTasks={onDuplicateTasks}
                   showTaskForm={showTaskForm}
                 sectionId={sectionId}
                 isSectionAdmin={isSectionAdmin}
@@ -650,6 +694,7 @@ export function AdminDashboard({
                   announcements={filteredAnnouncements}
                   onCreateAnnouncement={createAnnouncement}
                   onDeleteAnnouncement={deleteAnnouncement}
+                  onTogglePin={toggleAnnouncementPinned}
                   sectionId={sectionId}
                   isSectionAdmin={isSectionAdmin}
                   isLoading={announcementsLoading}
@@ -679,6 +724,8 @@ export function AdminDashboard({
                 onUpdateCourse={updateCourse}
                 onDeleteCourse={deleteCourse}
                 onBulkImportCourses={bulkImportCourses}
+                routines={routines}
+                onSyncCourseToRoutine={syncCourseSlots}
                 sectionId={sectionId}
                 isSectionAdmin={isSectionAdmin}
                 isLoading={coursesLoading}
@@ -699,6 +746,7 @@ export function AdminDashboard({
             {activeTab === 'routine' && (
               <RoutineManager
                 routines={filteredRoutines}
+                allRoutines={routines}
                 courses={filteredCourses}
                 teachers={filteredTeachers}
                 onCreateRoutine={createRoutine}
@@ -710,11 +758,22 @@ export function AdminDashboard({
                 onActivateRoutine={activateRoutine}
                 onDeactivateRoutine={deactivateRoutine}
                 onBulkImportSlots={bulkImportSlots}
+                onGetSemesters={getSemesters}
+                onGetRoutinesBySemester={getRoutinesBySemester}
+                onCloneRoutine={cloneRoutine}
+                onRestoreRevision={restoreRoutineRevision}
                 sectionId={sectionId}
                 isSectionAdmin={isSectionAdmin}
                 isLoading={routinesLoading}
               />
             )}
+
+            {activeTab === 'trash' && (
+              <TrashManager
+                sectionId={isSectionAdmin ? sectionId : undefined}
+                onRestored={handleTrashRestored}
+              />
+            )}
       </Suspense>
     );
   };
@@ -747,6 +806,7 @@ export function AdminDashboard({
                   {activeTab === 'courses' && 'Course Management'}
                   {activeTab === 'study-materials' && 'Study Materials'}
                   {activeTab === 'routine' && 'Routine Management'}
+                  {activeTab === 'trash' && 'Trash'}
                 </h1>
                 {isSectionAdmin && sectionName && (
                   <p className="text-sm text-green-600 dark:text-green-400 font-medium mt-1">
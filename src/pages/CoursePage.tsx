@@ -1,10 +1,17 @@
 import { useState } from 'react';
 import { Book, Calendar, User, GitBranch as BrandTelegram, Link, Lock, Search, ExternalLink, MapPin } from 'lucide-react';
 import { useCourses } from '../hooks/useCourses';
-import type { Course } from '../types/course';
+import { useActiveRoutine } from '../hooks/useActiveRoutine';
+import { getClassTimesFromRoutines } from '../utils/courseSchedule';
+import type { ClassTime, Course } from '../types/course';
 
-export function CoursePage() {
+interface CoursePageProps {
+  sectionId?: string;
+}
+
+export function CoursePage({ sectionId }: CoursePageProps) {
   const { courses, loading } = useCourses();
+  const { routine } = useActiveRoutine(sectionId);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
 
@@ -15,6 +22,15 @@ export function CoursePage() {
     course.teacher.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // The active routine is authoritative; hand-entered times only fill in
+  // for courses it doesn't cover
+  const getSchedule = (course: Course): { times: ClassTime[]; fromRoutine: boolean } => {
+    const routineTimes = routine ? getClassTimesFromRoutines(course.id, [routine]) : [];
+    return routineTimes.length > 0
+      ? { times: routineTimes, fromRoutine: true }
+      : { times: course.classTimes.filter(time => time.day), fromRoutine: false };
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -60,89 +76,98 @@ export function CoursePage() {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredCourses.map((course) => (
-            <div
-              key={course.id}
-              className="group relative bg-white dark:bg-gray-800 rounded-2xl overflow-hidden shadow-sm hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1"
-            >
-              {/* Gradient overlay */}
-              <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-indigo-500/5 dark:from-blue-500/10 dark:to-indigo-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-              
-              <div className="relative p-6 space-y-4">
-                {/* Course Header */}
-                <div className="space-y-2">
-                  <div className="flex items-start justify-between">
-                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-                      {course.name}
-                    </h2>
-                    <span className="px-3 py-1 text-sm font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400">
-                      {course.code}
-                    </span>
-                  </div>
-                  
-                  <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
-                    <User className="w-4 h-4 flex-shrink-0" />
-                    <span className="truncate">{course.teacher}</span>
-                  </div>
-                </div>
+          {filteredCourses.map((course) => {
+            const schedule = getSchedule(course);
 
-                {/* Class Times */}
-                <div className="space-y-2">
-                  {course.classTimes.map((time, index) => (
-                    <div
-                      key={index}
-                      className="flex items-center gap-2 text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-2"
-                    >
-                      <Calendar className="w-4 h-4 flex-shrink-0 text-blue-500 dark:text-blue-400" />
-                      <span className="text-sm">{time.day} at {time.time}</span>
-                      {time.classroom && (
-                        <div className="flex items-center gap-1 ml-2 text-sm text-gray-500 dark:text-gray-400">
-                          <MapPin className="w-4 h-4 flex-shrink-0" />
-                          <span>{time.classroom}</span>
-                        </div>
-                      )}
+            return (
+              <div
+                key={course.id}
+                className="group relative bg-white dark:bg-gray-800 rounded-2xl overflow-hidden shadow-sm hover:shadow-xl transition-all duration-300 transform hover:-translate-y-1"
+              >
+                {/* Gradient overlay */}
+                <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-indigo-500/5 dark:from-blue-500/10 dark:to-indigo-500/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+                
+                <div className="relative p-6 space-y-4">
+                  {/* Course Header */}
+                  <div className="space-y-2">
+                    <div className="flex items-start justify-between">
+                      <h2 className="text-xl font-semibold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
+                        {course.name}
+                      </h2>
+                      <span className="px-3 py-1 text-sm font-medium rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400">
+                        {course.code}
+                      </span>
                     </div>
-                  ))}
-                </div>
+                    
+                    <div className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                      <User className="w-4 h-4 flex-shrink-0" />
+                      <span className="truncate">{course.teacher}</span>
+                    </div>
+                  </div>
+
+                  {/* Class Times */}
+                  <div className="space-y-2">
+                    {routine && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {schedule.fromRoutine ? 'From the class routine' : 'Not on the class routine'}
+                      </p>
+                    )}
+                    {schedule.times.map((time, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center gap-2 text-gray-600 dark:text-gray-300 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-2"
+                      >
+                        <Calendar className="w-4 h-4 flex-shrink-0 text-blue-500 dark:text-blue-400" />
+                        <span className="text-sm">{time.day} at {time.time}</span>
+                        {time.classroom && (
+                          <div className="flex items-center gap-1 ml-2 text-sm text-gray-500 dark:text-gray-400">
+                            <MapPin className="w-4 h-4 flex-shrink-0" />
+                            <span>{time.classroom}</span>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
 
-                {/* Course Links */}
-                <div className="pt-4 space-y-2 border-t border-gray-100 dark:border-gray-700">
-                  {course.blcLink && (
-                    <a
-                      href={course.blcLink}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors group"
-                    >
-                      <Link className="w-4 h-4 transition-transform group-hover:-rotate-12" />
-                      <span className="flex-grow">BLC Course</span>
-                      <ExternalLink className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
-                    </a>
-                  )}
+                  {/* Course Links */}
+                  <div className="pt-4 space-y-2 border-t border-gray-100 dark:border-gray-700">
+                    {course.blcLink && (
+                      <a
+                        href={course.blcLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors group"
+                      >
+                        <Link className="w-4 h-4 transition-transform group-hover:-rotate-12" />
+                        <span className="flex-grow">BLC Course</span>
+                        <ExternalLink className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
+                      </a>
+                    )}
 
-                  {course.blcEnrollKey && (
-                    <div className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
-                      <Lock className="w-4 h-4" />
-                      <span>Enroll Key: {course.blcEnrollKey}</span>
-                    </div>
-                  )}
+                    {course.blcEnrollKey && (
+                      <div className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                        <Lock className="w-4 h-4" />
+                        <span>Enroll Key: {course.blcEnrollKey}</span>
+                      </div>
+                    )}
 
-                  {course.telegramGroup && (
-                    <a
-                      href={course.telegramGroup}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors group"
-                    >
-                      <BrandTelegram className="w-4 h-4 transition-transform group-hover:-rotate-12" />
-                      <span className="flex-grow">Join Telegram Group</span>
-                      <ExternalLink className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
-                    </a>
-                  )}
+                    {course.telegramGroup && (
+                      <a
+                        href={course.telegramGroup}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors group"
+                      >
+                        <BrandTelegram className="w-4 h-4 transition-transform group-hover:-rotate-12" />
+                        <span className="flex-grow">Join Telegram Group</span>
+                        <ExternalLink className="w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity" />
+                      </a>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
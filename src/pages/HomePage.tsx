@@ -4,6 +4,7 @@ import { TaskList } from '../components/TaskList';
 import { TaskCategories } from '../components/task/TaskCategories';
 import { isOverdue } from '../utils/dateUtils';
 import { formatUpcomingDueDate } from '../utils/dateUtils';
+import { getTaskDeadline } from '../utils/taskDeadline';
 import type { Task, TaskCategory } from '../types/task';
 import type { User } from '../types/user';
 
@@ -56,7 +57,7 @@ export const HomePage: React.FC<HomePageProps> = ({
       total: totalTasks,
       inProgress: validTasks.filter(t => t.status === 'in-progress').length,
       completed: validTasks.filter(t => t.status === 'completed').length,
-      overdue: validTasks.filter(t => isOverdue(t.dueDate) && t.status !== 'completed').length
+      overdue: validTasks.filter(t => isOverdue(t) && t.status !== 'completed').length
     };
   }, [tasks]);
 
@@ -65,11 +66,11 @@ export const HomePage: React.FC<HomePageProps> = ({
     if (!tasks || tasks.length === 0) return [];
     return tasks
       .filter(task => task.status !== 'completed')
-      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime())
+      .sort((a, b) => getTaskDeadline(a).getTime() - getTaskDeadline(b).getTime())
       .slice(0, MAX_RECENT_TASKS_TO_SHOW)
       .map(task => ({
         ...task,
-        formattedDueDate: formatUpcomingDueDate(task.dueDate)
+        formattedDueDate: formatUpcomingDueDate(task)
       }));
   }, [tasks]);
 
@@ -112,7 +113,7 @@ export const HomePage: React.FC<HomePageProps> = ({
     // Then apply stat filter
     switch (statFilter) {
       case 'overdue':
-        return filtered.filter(task => isOverdue(task.dueDate) && task.status !== 'completed');
+        return filtered.filter(task => isOverdue(task) && task.status !== 'completed');
       case 'in-progress':
         return filtered.filter(task => task.status === 'in-progress');
       case 'completed':
@@ -1,21 +1,33 @@
 import { Bell, Check } from 'lucide-react';
 import { NotificationItem } from '../components/notifications/NotificationItem';
-import type { Notification } from '../hooks/useNotifications';
+import { PinnedAnnouncements } from '../components/notifications/PinnedAnnouncements';
+import type { Notification } from '../types/notification';
+import type { Announcement } from '../types/announcement';
 
 interface NotificationsPageProps {
   notifications: Notification[];
+  pinnedAnnouncements?: Announcement[];
+  unreadCount?: number;
+  hasMore?: boolean;
+  loading?: boolean;
   onMarkAsRead: (id: string) => void;
   onMarkAllAsRead: () => void;
   onClear: (id: string) => void;
+  onLoadMore?: () => void;
 }
 
 export function NotificationsPage({
   notifications,
+  pinnedAnnouncements = [],
+  unreadCount,
+  hasMore = false,
+  loading = false,
   onMarkAsRead,
   onMarkAllAsRead,
-  onClear
+  onClear,
+  onLoadMore
 }: NotificationsPageProps) {
-  const hasUnread = notifications.some(n => !n.read);
+  const hasUnread = (unreadCount ?? notifications.filter(n => !n.read).length) > 0;
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-8">
@@ -35,6 +47,12 @@ export function NotificationsPage({
         )}
       </div>
 
+      {pinnedAnnouncements.length > 0 && (
+        <div className="mb-6">
+          <PinnedAnnouncements announcements={pinnedAnnouncements} />
+        </div>
+      )}
+
       {notifications.length === 0 ? (
         <div className="text-center py-12">
           <Bell className="w-16 h-16 mx-auto mb-4 text-gray-400" />
@@ -55,6 +73,16 @@ export function NotificationsPage({
               onClear={onClear}
             />
           ))}
+
+          {hasMore && onLoadMore && (
+            <button
+              onClick={onLoadMore}
+              disabled={loading}
+              className="w-full py-3 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load older notifications'}
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -1,16 +1,324 @@
-import React from 'react';
-import { Calendar } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Calendar, Clock, MapPin, User, CalendarDays, List, ChevronRight, Info } from 'lucide-react';
+import { useActiveRoutine } from '../hooks/useActiveRoutine';
+import { useCourses } from '../hooks/useCourses';
+import { useTeachers } from '../hooks/useTeachers';
+import { RoutineSlotDetailsModal } from '../components/routine/RoutineSlotDetailsModal';
+import { AttendanceSummary } from '../components/routine/AttendanceSummary';
+import {
+  DAYS_OF_WEEK,
+  getDayName,
+  formatSlotTime,
+  getCurrentAndNextSlot
+} from '../utils/routineUtils';
+import {
+  ROUTINE_OVERRIDE_LABELS,
+  formatClassDate,
+  getClassesOnDate,
+  getUpcomingDateForDay,
+  isClassHeld,
+  toDateKey
+} from '../utils/routineOverrides';
+import type { RoutineSlot, ScheduledClass } from '../types/routine';
+
+interface RoutinePageProps {
+  sectionId?: string;
+}
+
+type RoutineView = 'day' | 'week';
+
+export function RoutinePage({ sectionId }: RoutinePageProps) {
+  const { routine, loading, error } = useActiveRoutine(sectionId);
+  const { courses } = useCourses();
+  const { teachers } = useTeachers();
+  const [view, setView] = useState<RoutineView>('day');
+  const [selectedDay, setSelectedDay] = useState<string>(() => getDayName());
+  const [selectedSlot, setSelectedSlot] = useState<RoutineSlot | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the now / next highlight current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const slots = useMemo(() => routine?.slots || [], [routine]);
+  const overrides = useMemo(() => routine?.overrides || [], [routine]);
+  const todayKey = toDateKey(now);
+
+  // Each day shows its coming date, with that date's changes applied
+  const classesByDay = useMemo(() => {
+    const grouped: Record<string, { date: string; classes: ScheduledClass[] }> = {};
+    DAYS_OF_WEEK.forEach(day => {
+      const date = getUpcomingDateForDay(day, new Date(`${todayKey}T00:00:00`));
+      grouped[day] = { date, classes: getClassesOnDate(slots, overrides, date) };
+    });
+    return grouped;
+  }, [slots, overrides, todayKey]);
+
+  const today = getDayName(now);
+  const { current, next } = useMemo(
+    () => getCurrentAndNextSlot(classesByDay[today]?.classes.filter(isClassHeld) || [], now),
+    [classesByDay, today, now]
+  );
+
+  const selectedCourse = selectedSlot?.courseId
+    ? courses.find(course => course.id === selectedSlot.courseId)
+    : undefined;
+  const selectedTeacher = selectedSlot?.teacherId
+    ? teachers.find(teacher => teacher.id === selectedSlot.teacherId)
+    : undefined;
+
+  const getSlotHighlight = (slot: ScheduledClass) => {
+    if (slot.date !== todayKey || !isClassHeld(slot)) return null;
+    if (slot.id === current?.id) return 'now';
+    if (slot.id === next?.id) return 'next';
+    return null;
+  };
+
+  if (loading && !routine) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!routine) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-12 text-center">
+        <Calendar className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <p className="text-gray-500 dark:text-gray-400 font-medium">
+          {sectionId ? 'No active routine for your section yet' : 'Join a section to see your class routine'}
+        </p>
+        <p className="text-sm text-gray-400 dark:text-gray-500 mt-1">
+          {error || 'Check back later for updates'}
+        </p>
+      </div>
+    );
+  }
+
+  const renderSlotCard = (slot: ScheduledClass, compact = false) => {
+    const highlight = getSlotHighlight(slot);
+    const held = isClassHeld(slot);
+    const override = slot.override;
+
+    return (
+      <button
+        key={`${slot.id}-${slot.status}`}
+        onClick={() => setSelectedSlot(slot)}
+        className={`w-full text-left rounded-xl border transition-all duration-200 hover:shadow-md ${
+          compact ? 'p-2.5' : 'p-4'
+        } ${
+          highlight === 'now'
+            ? 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-700'
+            : highlight === 'next'
+              ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700'
+              : !held
+                ? 'bg-gray-50 dark:bg-gray-800/50 border-dashed border-gray-300 dark:border-gray-600 opacity-75'
+                : override
+                  ? 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-800'
+                  : 'bg-white dark:bg-gray-800 border-gray-100 dark:border-gray-700'
+        }`}
+      >
+        {override && (
+          <span className={`inline-block mb-1.5 px-2 py-0.5 text-[10px] font-semibold uppercase rounded-full ${
+            held
+              ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'
+              : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300'
+          }`}>
+            {slot.status === 'moved'
+              ? `Moved to ${formatClassDate(override.newDate || slot.date)}`
+              : ROUTINE_OVERRIDE_LABELS[override.kind]}
+          </span>
+        )}
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className={`font-semibold text-gray-900 dark:text-white truncate ${compact ? 'text-xs' : 'text-sm'} ${held ? '' : 'line-through'}`}>
+              {slot.courseName || 'Class'}
+            </p>
+            {!compact && slot.courseCode && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">{slot.courseCode}</p>
+            )}
+          </div>
+          {highlight && (
+            <span className={`flex-shrink-0 px-2 py-0.5 text-[10px] font-semibold uppercase rounded-full ${
+              highlight === 'now'
+                ? 'bg-green-500 text-white'
+                : 'bg-blue-500 text-white'
+            }`}>
+              {highlight}
+            </span>
+          )}
+        </div>
+        <div className={`mt-2 space-y-1 text-gray-600 dark:text-gray-300 ${compact ? 'text-[11px]' : 'text-xs'}`}>
+          <div className="flex items-center gap-1.5">
+            <Clock className="w-3.5 h-3.5 text-gray-400" />
+            {formatSlotTime(slot.startTime)} - {formatSlotTime(slot.endTime)}
+          </div>
+          {slot.roomNumber && (
+            <div className="flex items-center gap-1.5">
+              <MapPin className="w-3.5 h-3.5 text-gray-400" />
+              Room {slot.roomNumber}
+            </div>
+          )}
+          {!compact && slot.teacherName && (
+            <div className="flex items-center gap-1.5">
+              <User className="w-3.5 h-3.5 text-gray-400" />
+              {slot.teacherName}
+            </div>
+          )}
+          {!compact && override?.reason && (
+            <div className="flex items-center gap-1.5">
+              <Info className="w-3.5 h-3.5 text-gray-400" />
+              {override.reason}
+            </div>
+          )}
+        </div>
+      </button>
+    );
+  };
 
-export function RoutinePage() {
   return (
-    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100 dark:bg-gray-900">
-      <Calendar className="w-24 h-24 text-blue-500 dark:text-blue-400 mb-8" />
-      <h1 className="text-4xl font-bold text-gray-800 dark:text-white mb-4">
-        Coming Soon!
-      </h1>
-      <p className="text-lg text-gray-600 dark:text-gray-400 text-center px-4">
-        We are working hard to bring you this feature. Please check back later.
-      </p>
+    <div className="max-w-7xl mx-auto px-4 py-8">
+      {/* Header Section */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Class Routine</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            {routine.name} &middot; {routine.semester}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl self-start">
+          <button
+            onClick={() => setView('day')}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              view === 'day'
+                ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                : 'text-gray-600 dark:text-gray-300'
+            }`}
+          >
+            <List className="w-4 h-4" />
+            Day
+          </button>
+          <button
+            onClick={() => setView('week')}
+            className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              view === 'week'
+                ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                : 'text-gray-600 dark:text-gray-300'
+            }`}
+          >
+            <CalendarDays className="w-4 h-4" />
+            Week
+          </button>
+        </div>
+      </div>
+
+      {/* Now / next class */}
+      {(current || next) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-6">
+          {current && (
+            <button
+              onClick={() => setSelectedSlot(current)}
+              className="flex items-center justify-between gap-3 p-4 rounded-2xl bg-gradient-to-r from-green-500 to-emerald-500 text-white text-left shadow-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-xs uppercase tracking-wide opacity-80">Now</p>
+                <p className="font-semibold truncate">{current.courseName || 'Class'}</p>
+                <p className="text-xs opacity-90">
+                  Until {formatSlotTime(current.endTime)}{current.roomNumber ? ` · Room ${current.roomNumber}` : ''}
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 flex-shrink-0" />
+            </button>
+          )}
+          {next && (
+            <button
+              onClick={() => setSelectedSlot(next)}
+              className="flex items-center justify-between gap-3 p-4 rounded-2xl bg-gradient-to-r from-blue-500 to-indigo-500 text-white text-left shadow-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-xs uppercase tracking-wide opacity-80">Next</p>
+                <p className="font-semibold truncate">{next.courseName || 'Class'}</p>
+                <p className="text-xs opacity-90">
+                  At {formatSlotTime(next.startTime)}{next.roomNumber ? ` · Room ${next.roomNumber}` : ''}
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 flex-shrink-0" />
+            </button>
+          )}
+        </div>
+      )}
+
+      <AttendanceSummary sectionId={sectionId} />
+
+      {view === 'day' ? (
+        <>
+          {/* Day selector */}
+          <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+            {DAYS_OF_WEEK.map(day => (
+              <button
+                key={day}
+                onClick={() => setSelectedDay(day)}
+                className={`flex-shrink-0 px-3 py-2 text-sm font-medium rounded-xl transition-colors ${
+                  selectedDay === day
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-white dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {day.slice(0, 3)}
+                {day === today && <span className="ml-1 text-[10px] opacity-75">•</span>}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+            {formatClassDate(classesByDay[selectedDay].date)}
+          </p>
+
+          {classesByDay[selectedDay].classes.length ? (
+            <div className="space-y-3">
+              {classesByDay[selectedDay].classes.map(slot => renderSlotCard(slot))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <Calendar className="w-12 h-12 text-gray-300 dark:text-gray-600 mx-auto mb-3" />
+              <p className="text-gray-500 dark:text-gray-400 font-medium">No classes on {selectedDay}</p>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="overflow-x-auto pb-2">
+          <div className="grid grid-cols-7 gap-3 min-w-[980px]">
+            {DAYS_OF_WEEK.map(day => (
+              <div key={day} className="space-y-2">
+                <div className={`text-center text-sm font-semibold py-2 rounded-lg ${
+                  day === today
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300'
+                }`}>
+                  {day}
+                  <span className="block text-[11px] font-normal opacity-75">{formatClassDate(classesByDay[day].date)}</span>
+                </div>
+                {classesByDay[day].classes.length ? (
+                  classesByDay[day].classes.map(slot => renderSlotCard(slot, true))
+                ) : (
+                  <p className="text-center text-xs text-gray-400 dark:text-gray-500 py-4">No classes</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <RoutineSlotDetailsModal
+        slot={selectedSlot}
+        course={selectedCourse}
+        teacher={selectedTeacher}
+        onClose={() => setSelectedSlot(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
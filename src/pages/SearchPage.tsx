@@ -1,123 +1,108 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
+import { Loader2, WifiOff } from 'lucide-react';
 import { SearchBar } from '../components/search/SearchBar';
-import { TaskList } from '../components/TaskList';
-import { useOfflineStatus } from '../hooks/useOfflineStatus';
+import { SearchResults } from '../components/search/SearchResults';
+import { TaskDetailsPopup } from '../components/task/TaskDetailsPopup';
+import { useSearch } from '../hooks/useSearch';
+import { hasSearchCriteria } from '../utils/searchQuery';
 import type { Task } from '../types';
+import type { NavPage } from '../types/navigation';
+import type { SearchResult, SearchResultType } from '../types/search';
 
 interface SearchPageProps {
   tasks: Task[];
+  onNavigate?: (page: NavPage) => void;
 }
 
-export function SearchPage({ tasks }: SearchPageProps) {
-  const [searchResults, setSearchResults] = useState<Task[]>([]);
-  const [hasSearched, setHasSearched] = useState(false);
+const FILTER_EXAMPLES = ['category:quiz', 'course:CSE221', 'due:<7d', 'type:teacher'];
+
+// Where results that have no detail view of their own are shown
+const RESULT_PAGES: Partial<Record<SearchResultType, NavPage>> = {
+  course: 'courses',
+  teacher: 'courses',
+  material: 'study-materials',
+  announcement: 'notifications'
+};
+
+export function SearchPage({ tasks, onNavigate }: SearchPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const isOffline = useOfflineStatus();
-  
-  // Cache search results in localStorage
-  const SEARCH_CACHE_KEY = 'search_results_cache';
-  
-  // Optimized search function with memoization
-  const performSearch = useMemo(() => {
-    const normalizedQuery = searchQuery.toLowerCase().trim();
-    
-    if (!normalizedQuery) {
-      return [];
-    }
-    
-    console.log(`Searching for "${normalizedQuery}" in ${tasks.length} tasks`);
-    
-    return tasks.filter(task => 
-      task.name.toLowerCase().includes(normalizedQuery) ||
-      task.description.toLowerCase().includes(normalizedQuery) ||
-      task.category.toLowerCase().includes(normalizedQuery)
-    );
-  }, [searchQuery, tasks]);
-  
-  // Update results when search query or tasks change
-  useEffect(() => {
-    if (searchQuery) {
-      setSearchResults(performSearch);
-      setHasSearched(true);
-      
-      // Save to localStorage if online (as offline data is already in IndexedDB)
-      if (!isOffline && performSearch.length > 0) {
-        try {
-          localStorage.setItem(SEARCH_CACHE_KEY, JSON.stringify({
-            query: searchQuery,
-            results: performSearch.map(task => task.id), // Store just the IDs to save space
-            timestamp: Date.now()
-          }));
-        } catch (err) {
-          console.error('Error caching search results:', err);
-        }
-      }
-    }
-  }, [searchQuery, performSearch, isOffline]);
-  
-  // Try to restore cached search on initial load
-  useEffect(() => {
-    const cachedSearch = localStorage.getItem(SEARCH_CACHE_KEY);
-    
-    if (cachedSearch) {
-      try {
-        const { query, results, timestamp } = JSON.parse(cachedSearch);
-        const cacheAge = Date.now() - timestamp;
-        
-        // Use cache if it's less than 1 hour old
-        if (cacheAge < 60 * 60 * 1000) {
-          setSearchQuery(query);
-          
-          // Match task IDs with current task objects
-          const taskMap = new Map(tasks.map(task => [task.id, task]));
-          const cachedResults = results
-            .map((id: string) => taskMap.get(id))
-            .filter(Boolean); // Remove any undefined entries
-            
-          if (cachedResults.length > 0) {
-            setSearchResults(cachedResults as Task[]);
-            setHasSearched(true);
-          }
-        }
-      } catch (err) {
-        console.error('Error restoring cached search:', err);
-      }
-    }
-  }, [tasks]);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const { results, parsedQuery, loading, isLocalResults } = useSearch(searchQuery, tasks);
+
+  const taskMap = useMemo(() => new Map(tasks.map(task => [task.id, task])), [tasks]);
+  const hasSearched = hasSearchCriteria(parsedQuery);
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    
-    if (!query.trim()) {
-      setSearchResults([]);
-      setHasSearched(false);
+  const handleSelect = (result: SearchResult) => {
+    if (result.type === 'task') {
+      const task = taskMap.get(result.id);
+      if (task) setSelectedTask(task);
+      return;
     }
+
+    const page = RESULT_PAGES[result.type];
+    if (page && onNavigate) onNavigate(page);
+  };
+
+  const handleAddFilter = (filter: string) => {
+    setSearchQuery(prev => `${prev.trim()} ${filter}`.trim());
   };
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Search Tasks</h1>
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">Search</h1>
       
-      <SearchBar onSearch={handleSearch} initialQuery={searchQuery} />
+      <SearchBar
+        onSearch={setSearchQuery}
+        initialQuery={searchQuery}
+        placeholder="Search tasks, courses, materials, teachers..."
+      />
+
+      <div className="flex flex-wrap justify-center gap-2 -mt-5 mb-8">
+        {FILTER_EXAMPLES.map(filter => (
+          <button
+            key={filter}
+            type="button"
+            onClick={() => handleAddFilter(filter)}
+            className="text-xs px-2.5 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-blue-50 hover:text-blue-600 dark:hover:bg-blue-900/30 dark:hover:text-blue-400 transition-colors"
+          >
+            {filter}
+          </button>
+        ))}
+      </div>
       
       {hasSearched ? (
-        searchResults.length > 0 ? (
-          <div>
-            <div className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-              Found {searchResults.length} {searchResults.length === 1 ? 'task' : 'tasks'} matching "{searchQuery}"
-            </div>
-            <TaskList tasks={searchResults} />
-          </div>
-        ) : (
-          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            No tasks found matching your search
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isLocalResults && <WifiOff className="w-4 h-4" />}
+            <span>
+              {loading
+                ? 'Searching...'
+                : `Found ${results.length} ${results.length === 1 ? 'result' : 'results'}${parsedQuery.text ? ` matching "${parsedQuery.text}"` : ''}`}
+              {isLocalResults && !loading && ' in saved data'}
+            </span>
           </div>
-        )
+
+          {results.length > 0 ? (
+            <SearchResults results={results} onSelect={handleSelect} />
+          ) : !loading && (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              Nothing found matching your search
+            </div>
+          )}
+        </div>
       ) : (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-          Enter a search term to find tasks
+          Enter a search term or a filter to get started
         </div>
       )}
+
+      {selectedTask && (
+        <TaskDetailsPopup
+          task={selectedTask}
+          onClose={() => setSelectedTask(null)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
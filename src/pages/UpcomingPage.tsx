@@ -1,5 +1,7 @@
 import { useState, useMemo, useEffect, useCallback, Suspense, lazy, useRef, memo } from 'react';
-import { format, addDays, startOfWeek, isSameDay, parseISO, isAfter, isBefore, startOfDay, endOfDay, formatDistanceToNow } from 'date-fns';
+import { format, addDays, startOfWeek, isSameDay, parseISO, isAfter, formatDistanceToNow } from 'date-fns';
+import { isOverdue as isPastDeadline } from '../utils/dateUtils';
+import { formatDueCountdown, formatDueTime, getTaskDueState, hasDueTime } from '../utils/taskDeadline';
 import { Crown, Calendar, Clock, Tag, CheckCircle2, AlertCircle, BookOpen, FileText, PenTool, FlaskConical, GraduationCap, CalendarDays, Folder, Activity, Building, Users, Paperclip } from 'lucide-react';
 import { useTasks } from '../hooks/useTasks';
 import { useAuth } from '../hooks/useAuth';
@@ -124,27 +126,27 @@ const DayButton = memo(({
   );
 });
 
+// Section admin tasks carry a section notice that isn't useful on cards
+const stripSectionNotice = (description: string): string =>
+  (description || '').replace(/\*This task is assigned to section ID: [0-9a-f-]+\*/g, '').trim();
+
 // Memoized task card component
 const TaskCard = memo(({ 
   task, 
   status, 
   categoryInfo, 
-  hasAttachments, 
-  cleanTaskDescription,
   onClick,
   preventTaskSelection
 }: { 
   task: Task, 
   status: any, 
   categoryInfo: any, 
-  hasAttachments: boolean, 
-  cleanTaskDescription: (desc: string) => string,
   onClick: () => void,
   preventTaskSelection: boolean
 }) => {
   const dueDate = parseISO(task.dueDate);
-  const currentDate = new Date();
-  const isOverdue = isBefore(endOfDay(dueDate), startOfDay(currentDate));
+  const isOverdue = isPastDeadline(task);
+  const isDueSoon = getTaskDueState(task) === 'due-soon';
 
   return (
     <div
@@ -186,7 +188,7 @@ const TaskCard = memo(({
                 <Crown className="w-3.5 h-3.5 text-amber-500 dark:text-amber-400" />
               </div>
             )}
-            {hasAttachments && (
+            {!!task.attachments?.length && (
               <div className="flex-shrink-0 p-0.5 mt-0.5">
                 <Paperclip className="w-3.5 h-3.5 text-gray-500 dark:text-gray-400" />
               </div>
@@ -204,7 +206,7 @@ const TaskCard = memo(({
               : 'text-gray-600 dark:text-gray-300'
           }
         `}>
-          {cleanTaskDescription(task.description)}
+          {stripSectionNotice(task.description)}
         </p>
 
         {/* Footer Section */}
@@ -225,14 +227,14 @@ const TaskCard = memo(({
                 : 'text-gray-500 dark:text-gray-400'
               }`
             }>
-              Due: {format(dueDate, 'MMM d')}
+              Due: {format(dueDate, 'MMM d')}{hasDueTime(task) && `, ${formatDueTime(task)}`}
             </span>
           </div>
           
           {/* Status Badge and Category Tag */}
           <div className="flex items-center gap-2">
-            {/* Status Badge - only show for Completed or Overdue */}
-            {(task.status === 'completed' || isOverdue) && (
+            {/* Status Badge - only show for Completed, Overdue or due within a day */}
+            {(task.status === 'completed' || isOverdue || isDueSoon) && (
               <span className={`
                 inline-flex items-center gap-1
                 px-2 py-0.5
@@ -240,7 +242,9 @@ const TaskCard = memo(({
                 rounded-full
                 ${task.status === 'completed'
                   ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
-                  : 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
+                  : isDueSoon
+                    ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                    : 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
                 }
                 ${isOverdue && task.status !== 'completed' ? 'animate-pulse' : ''}
               `}>
@@ -411,34 +415,6 @@ export function UpcomingPage({ tasks: propTasks }: UpcomingPageProps) {
       refreshTasks();
   }, [refreshTasks]);
 
-  // Utility function to clean task description
-  const cleanTaskDescription = useCallback((description: string): string => {
-    if (!description) return '';
-    
-    // Clean multiple patterns at once for better performance
-    const cleanedText = description
-      .replace(/\*This task is assigned to section ID: [0-9a-f-]+\*/g, '') // Remove section ID
-      .replace(/\[([^\]]+)\]\(attachment:[^)]+\)/g, '') // Remove attachment links
-      .replace(/\*\*Attachments:\*\*.*?\)/g, '') // Remove attachment references
-      .replace(/AS \*\*Attachments:\*\*.*?$/gm, '') // Remove AS attachments format
-      .replace(/Attachments:.*?$/gm, '') // Remove other attachment references
-      .trim(); // Clean up whitespace
-    
-    return cleanedText;
-  }, []);
-
-  // Check if a task has attachments
-  const hasAttachments = useCallback((description: string): boolean => {
-    const attachmentPatterns = [
-      /\[([^\]]+)\]\(attachment:[^)]+\)/,
-      /\*\*Attachments:\*\*/,
-      /AS \*\*Attachments:\*\*/,
-      /Attachments:/
-    ];
-    
-    return attachmentPatterns.some(pattern => pattern.test(description));
-  }, []);
-
   // Memoized and optimized formatDate function - using cached format for performance
   const formatDate = useCallback((date: Date): string => {
     return cachedFormat(date, 'yyyy-MM-dd');
@@ -500,9 +476,7 @@ export function UpcomingPage({ tasks: propTasks }: UpcomingPageProps) {
 
   // Get task status - memoized utility function
   const getTaskStatus = useCallback((task: Task) => {
-    const dueDate = parseISO(task.dueDate);
-    const currentDate = new Date();
-    const isOverdue = isBefore(endOfDay(dueDate), startOfDay(currentDate));
+    const dueState = getTaskDueState(task);
 
     if (task.status === 'completed') {
       return {
@@ -512,7 +486,17 @@ export function UpcomingPage({ tasks: propTasks }: UpcomingPageProps) {
       };
     }
     
-    if (isOverdue) {
+    // Late work is still accepted: say for how long
+    if (dueState === 'late') {
+      return {
+        label: formatDueCountdown(task),
+        color: 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 ring-red-500/20',
+        icon: <AlertCircle className="w-3.5 h-3.5" />,
+        cardStyle: 'border-l-[3px] border-l-red-500 bg-red-50/30 dark:bg-red-900/10'
+      };
+    }
+
+    if (dueState === 'overdue') {
       return {
         label: 'Overdue',
         color: 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400 ring-red-500/20',
@@ -521,6 +505,14 @@ export function UpcomingPage({ tasks: propTasks }: UpcomingPageProps) {
       };
     }
 
+    if (dueState === 'due-soon') {
+      return {
+        label: formatDueCountdown(task),
+        color: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400 ring-amber-500/20',
+        icon: <Clock className="w-3.5 h-3.5" />
+      };
+    }
+
     return {
       label: 'In Progress',
       color: 'bg-blue-50 text-blue-600 dark:bg-blue-900/20 dark:text-blue-400 ring-blue-500/20',
@@ -828,8 +820,6 @@ export function UpcomingPage({ tasks: propTasks }: UpcomingPageProps) {
                 task={task}
                 status={getTaskStatus(task)}
                 categoryInfo={getCategoryInfo(task.category)}
-                hasAttachments={hasAttachments(task.description)}
-                cleanTaskDescription={cleanTaskDescription}
                   onClick={() => {
                     if (!preventTaskSelection) {
                       setSelectedTask(task);
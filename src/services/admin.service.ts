@@ -1,6 +1,17 @@
 import { supabase } from '../lib/supabase';
-import type { AdminUser, AdminPermission, AdminLog, AdminStats } from '../types/admin';
+import type {
+  AdminUser,
+  AdminPermission,
+  AdminLog,
+  AdminLogChainStatus,
+  AdminLogDetails,
+  AdminLogFilters,
+  AdminLogPage,
+  AdminStats
+} from '../types/admin';
 import { showSuccessToast, showErrorToast } from '../utils/notifications';
+import { can } from '../utils/permissions';
+import { fetchCurrentPermissionSubject, requirePermission } from './permission.service';
 
 // Admin Users
 export async function fetchAdminUsers(): Promise<AdminUser[]> {
@@ -12,13 +23,7 @@ export async function fetchAdminUsers(): Promise<AdminUser[]> {
     console.log('User metadata:', user?.user_metadata);
     console.log('User role:', user?.user_metadata?.role);
     
-    // Remove role check to allow all users to be fetched
-    /*
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      console.warn('Non-super-admin user attempted to fetch admin users');
-      return [];
-    }
-    */
+    await requirePermission('manageAdmins');
 
     // Fetch ALL users, not just those with admin roles
     const { data: usersData, error } = await supabase
@@ -84,13 +89,7 @@ export async function createAdminUser(adminData: Omit<AdminUser, 'id' | 'created
     console.log('Current user in createAdminUser:', user);
     console.log('User metadata:', user?.user_metadata);
     
-    // TEMPORARILY SKIP ROLE CHECK TO ALLOW CREATION
-    // Comment out the role check to allow any authenticated user to create admin users
-    /*
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      throw new Error('Unauthorized: Only super admins can create admin users');
-    }
-    */
+    await requirePermission('manageAdmins');
 
     // Create auth user
     const { data: authData, error: authError } = await supabase.auth.admin.createUser({
@@ -127,7 +126,7 @@ export async function createAdminUser(adminData: Omit<AdminUser, 'id' | 'created
 
     // Log admin creation
     if (user) {
-      await logAdminAction(user.id, 'create_admin', `Created admin user: ${adminData.email}`);
+      await logAdminAction('create_admin', { userId: authData.user.id, username: adminData.email }, 'users', authData.user.id);
     } else {
       console.log('Skipping log admin action - no user available');
     }
@@ -162,13 +161,7 @@ export async function updateAdminUser(id: string, updates: Partial<AdminUser>):
     console.log('Current user in updateAdminUser:', user);
     console.log('User metadata:', user?.user_metadata);
     
-    // TEMPORARILY SKIP ROLE CHECK TO ALLOW UPDATES
-    // Comment out the role check to allow any authenticated user to update admin users
-    /*
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      throw new Error('Unauthorized: Only super admins can update admin users');
-    }
-    */
+    await requirePermission('manageAdmins');
 
     // Update auth user if email or role changes
     if (updates.email || updates.role || updates.username) {
@@ -206,7 +199,9 @@ export async function updateAdminUser(id: string, updates: Partial<AdminUser>):
 
     // Log admin update
     if (user) {
-      await logAdminAction(user.id, 'update_admin', `Updated admin user: ${id}`);
+      await logAdminAction('update_admin', { userId: id, username: updates.email || updates.username }, 'users', id, {
+        after: { ...updates }
+      });
     } else {
       console.log('Skipping log admin action - no user available');
     }
@@ -241,13 +236,7 @@ export async function resetAdminPassword(id: string, newPassword: string): Promi
     console.log('Current user in resetAdminPassword:', user);
     console.log('User metadata:', user?.user_metadata);
     
-    // TEMPORARILY SKIP ROLE CHECK TO ALLOW PASSWORD RESET
-    // Comment out the role check to allow any authenticated user to reset passwords
-    /*
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      throw new Error('Unauthorized: Only super admins can reset admin passwords');
-    }
-    */
+    await requirePermission('manageAdmins');
 
     const { error } = await supabase.auth.admin.updateUserById(id, {
       password: newPassword
@@ -261,7 +250,7 @@ export async function resetAdminPassword(id: string, newPassword: string): Promi
     // Log password reset
     try {
       if (user) {
-        await logAdminAction(user.id, 'reset_password', `Reset password for admin: ${id}`);
+        await logAdminAction('reset_password', { userId: id }, 'users', id);
       } else {
         console.log('Skipping log admin action - no user available');
       }
@@ -285,13 +274,7 @@ export async function deleteAdminUser(id: string): Promise<void> {
     console.log('Current user in deleteAdminUser:', user);
     console.log('User metadata:', user?.user_metadata);
     
-    // TEMPORARILY SKIP ROLE CHECK TO ALLOW DELETION
-    // Comment out the role check to allow any authenticated user to delete admin users
-    /*
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      throw new Error('Unauthorized: Only super admins can delete admin users');
-    }
-    */
+    await requirePermission('manageAdmins');
 
     // Archive admin data first
     const { data: adminData, error: fetchError } = await supabase
@@ -335,7 +318,9 @@ export async function deleteAdminUser(id: string): Promise<void> {
 
     // Log admin deletion
     if (user) {
-      await logAdminAction(user.id, 'delete_admin', `Deleted admin user: ${id}`);
+      await logAdminAction('delete_admin', { userId: id, username: adminData?.email }, 'users', id, {
+        before: adminData
+      });
     } else {
       console.log('Skipping log admin action - no user available');
     }
@@ -348,9 +333,8 @@ export async function deleteAdminUser(id: string): Promise<void> {
 // Admin Permissions
 export async function fetchPermissions(): Promise<AdminPermission[]> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      console.warn('Non-super-admin user attempted to fetch permissions');
+    if (!can(await fetchCurrentPermissionSubject(), 'manageAdmins')) {
+      console.warn('User without manageAdmins attempted to fetch permissions');
       return [];
     }
 
@@ -372,72 +356,173 @@ export async function fetchPermissions(): Promise<AdminPermission[]> {
 }
 
 // Admin Logs
-export async function fetchAdminLogs(): Promise<AdminLog[]> {
+const ADMIN_LOG_COLUMNS =
+  'id, seq, admin_id, admin_name, action, details, timestamp, ip_address, user_agent, resource, resource_id, before_data, after_data, prev_hash, hash';
+
+interface AdminLogRow {
+  id: string;
+  seq: number | null;
+  admin_id: string | null;
+  admin_name: string | null;
+  action: string;
+  details: AdminLogDetails | null;
+  timestamp: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  resource: string | null;
+  resource_id: string | null;
+  before_data: Record<string, unknown> | null;
+  after_data: Record<string, unknown> | null;
+  prev_hash: string | null;
+  hash: string | null;
+}
+
+const mapAdminLogFromDB = (log: AdminLogRow): AdminLog => ({
+  id: log.id,
+  adminId: log.admin_id,
+  adminName: log.admin_name || 'System',
+  action: log.action,
+  details: log.details || {},
+  timestamp: log.timestamp,
+  ipAddress: log.ip_address,
+  userAgent: log.user_agent,
+  resource: log.resource,
+  resourceId: log.resource_id,
+  before: log.before_data,
+  after: log.after_data,
+  seq: log.seq ?? undefined,
+  prevHash: log.prev_hash,
+  hash: log.hash
+});
+
+const buildAdminLogQuery = (filters: AdminLogFilters, count?: 'exact') => {
+  let query = supabase
+    .from('admin_logs')
+    .select(ADMIN_LOG_COLUMNS, count ? { count } : undefined);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.resource) query = query.eq('resource', filters.resource);
+  if (filters.adminId) query = query.eq('admin_id', filters.adminId);
+  if (filters.from) query = query.gte('timestamp', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('timestamp', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  const search = filters.search?.trim().replace(/[,()%]/g, ' ');
+  if (search) {
+    query = query.or(`admin_name.ilike.%${search}%,action.ilike.%${search}%,resource_id.ilike.%${search}%`);
+  }
+
+  return query;
+};
+
+/**
+ * Fetches one page of the audit log, newest first
+ * @param filters Server-side filters
+ * @param page Zero-based page number
+ * @param pageSize Entries per page
+ * @returns The page and the total number of matching entries
+ */
+export async function fetchAdminLogs(
+  filters: AdminLogFilters = {},
+  page = 0,
+  pageSize = 25
+): Promise<AdminLogPage> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      console.warn('Non-super-admin user attempted to fetch admin logs');
-      return [];
+    if (!can(await fetchCurrentPermissionSubject(), 'viewLogs')) {
+      console.warn('User without viewLogs attempted to fetch admin logs');
+      return { logs: [], total: 0 };
     }
 
-    const { data, error } = await supabase
-      .from('admin_logs')
-      .select('id, admin_id, admin_name, action, details, timestamp, ip_address, resource, resource_id')
-      .order('timestamp', { ascending: false });
+    const { data, error, count } = await buildAdminLogQuery(filters, 'exact')
+      .order('seq', { ascending: false })
+      .range(page * pageSize, (page + 1) * pageSize - 1);
 
     if (error) {
       console.error('Error fetching admin logs:', error);
       throw new Error(error.message || 'Failed to fetch admin logs');
     }
-    
-    return data?.map(log => ({
-      id: log.id,
-      adminId: log.admin_id,
-      adminName: log.admin_name,
-      action: log.action,
-      details: log.details,
-      timestamp: log.timestamp,
-      ipAddress: log.ip_address,
-      resource: log.resource,
-      resourceId: log.resource_id
-    })) || [];
+
+    return {
+      logs: ((data || []) as AdminLogRow[]).map(mapAdminLogFromDB),
+      total: count || 0
+    };
   } catch (error: any) {
     console.error('Error fetching admin logs:', error);
     throw new Error(error.message || 'Failed to fetch admin logs');
   }
 }
 
-export async function logAdminAction(
-  adminId: string, 
-  action: string, 
-  details: string, 
-  resource?: string, 
-  resourceId?: string
-): Promise<void> {
+/**
+ * Fetches every entry matching the filters, for export
+ * @param filters Server-side filters
+ * @returns Matching entries, newest first
+ */
+export async function fetchAllAdminLogs(filters: AdminLogFilters = {}): Promise<AdminLog[]> {
+  const batchSize = 1000;
+  const logs: AdminLog[] = [];
+
   try {
-    // Get admin name
-    const { data: adminData, error: adminError } = await supabase
-      .from('users')
-      .select('name')
-      .eq('id', adminId)
-      .single();
+    await requirePermission('viewLogs');
+
+    for (let offset = 0; ; offset += batchSize) {
+      const { data, error } = await buildAdminLogQuery(filters)
+        .order('seq', { ascending: false })
+        .range(offset, offset + batchSize - 1);
+
+      if (error) throw error;
 
-    if (adminError) {
-      console.error('Error fetching admin name for logging:', adminError);
-      return;
+      logs.push(...((data || []) as AdminLogRow[]).map(mapAdminLogFromDB));
+      if (!data || data.length < batchSize) break;
     }
 
-    const { error } = await supabase
-      .from('admin_logs')
-      .insert([{
-        admin_id: adminId,
-        admin_name: adminData?.name || 'Unknown',
-        action,
-        details,
-        timestamp: new Date().toISOString(),
-        resource,
-        resource_id: resourceId
-      }]);
+    return logs;
+  } catch (error: any) {
+    console.error('Error exporting admin logs:', error);
+    throw new Error(error.message || 'Failed to export admin logs');
+  }
+}
+
+/**
+ * Recomputes the audit log hash chain on the server
+ * @returns How many entries were checked and the first one that was altered
+ */
+export async function verifyAdminLogChain(): Promise<AdminLogChainStatus> {
+  try {
+    const { data, error } = await supabase.rpc('verify_admin_log_chain');
+
+    if (error) throw error;
+
+    const result = Array.isArray(data) ? data[0] : data;
+    return {
+      checked: Number(result?.checked || 0),
+      firstBrokenSeq: result?.first_broken_seq ?? null
+    };
+  } catch (error: any) {
+    console.error('Error verifying admin log chain:', error);
+    throw new Error(error.message || 'Failed to verify admin logs');
+  }
+}
+
+/**
+ * Records an admin action that is not a change to an audited table.
+ * Table changes are logged by database triggers; the acting admin, IP
+ * address and user agent are filled in on the server.
+ */
+export async function logAdminAction(
+  action: string,
+  details: AdminLogDetails,
+  resource?: string,
+  resourceId?: string,
+  snapshots?: { before?: Record<string, any> | null; after?: Record<string, any> | null }
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('log_admin_action', {
+      p_action: action,
+      p_details: details,
+      p_resource: resource ?? null,
+      p_resource_id: resourceId ?? null,
+      p_before: snapshots?.before ?? null,
+      p_after: snapshots?.after ?? null
+    });
 
     if (error) {
       console.error('Error logging admin action:', error);
@@ -450,9 +535,8 @@ export async function logAdminAction(
 // Admin Analytics
 export async function fetchAdminStats(): Promise<AdminStats> {
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user?.user_metadata?.role || user.user_metadata.role !== 'super-admin') {
-      console.warn('Non-super-admin user attempted to fetch admin stats');
+    if (!can(await fetchCurrentPermissionSubject(), 'manageAdmins')) {
+      console.warn('User without manageAdmins attempted to fetch admin stats');
       return {
         totalAdmins: 0,
         activeAdmins: 0,
@@ -503,27 +587,7 @@ export async function promoteUserToAdmin(userId: string): Promise<void> {
     console.log('User metadata:', user?.user_metadata);
     console.log('User role from metadata:', user?.user_metadata?.role);
     
-    // First, check for the super-admin role directly in user_metadata
-    let isSuperAdmin = user?.user_metadata?.role === 'super-admin';
-    
-    // If not found there, check in the database as a fallback
-    if (!isSuperAdmin) {
-      const { data, error } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user?.id)
-        .single();
-        
-      if (!error && data) {
-        console.log('User role from database:', data.role);
-        isSuperAdmin = data.role === 'super-admin';
-      }
-    }
-    
-    if (!isSuperAdmin) {
-      console.error('User is not a super-admin:', user?.id);
-      throw new Error('Unauthorized: Only super admins can promote users to admin');
-    }
+    await requirePermission('manageAdmins');
 
     // Update the role in users table
     const { error } = await supabase
@@ -536,15 +600,9 @@ export async function promoteUserToAdmin(userId: string): Promise<void> {
       throw new Error(error.message || 'Failed to promote user to admin');
     }
     
+    // The role change is recorded in the audit log by the users trigger
     console.log('Successfully updated user role in database');
 
-    // Log admin action
-    if (user) {
-      await logAdminAction(user.id, 'promote_to_admin', `Promoted user ${userId} to admin role`);
-    } else {
-      console.warn('Could not log admin action - user is null');
-    }
-    
     console.log('Successfully promoted user to admin role - user will need to log out and log back in for changes to take effect');
   } catch (error: any) {
     console.error('Error promoting user to admin:', error);
@@ -1,49 +1,154 @@
 import { supabase } from '../lib/supabase';
 import { sendAnnouncementNotification } from './telegram.service';
-import type { Announcement, NewAnnouncement } from '../types/announcement';
+import { requirePermission } from './permission.service';
+import { moveToTrash } from './trash.service';
+import type { Announcement, AnnouncementScope, NewAnnouncement } from '../types/announcement';
 
-export async function fetchAnnouncements() {
+interface AnnouncementRow {
+  id: string;
+  title: string;
+  content: string;
+  created_at: string;
+  created_by: string;
+  section_id: string | null;
+  batch_id: string | null;
+  department_id: string | null;
+  is_pinned: boolean;
+  publish_at: string;
+  expires_at: string | null;
+  sections?: { name: string } | null;
+  batches?: { name: string } | null;
+  departments?: { name: string } | null;
+}
+
+const ANNOUNCEMENT_SELECT = '*, sections(name), batches(name), departments(name)';
+
+const mapAnnouncementFromDB = (row: AnnouncementRow): Announcement => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  createdAt: row.created_at,
+  createdBy: row.created_by,
+  sectionId: row.section_id || undefined,
+  batchId: row.batch_id || undefined,
+  departmentId: row.department_id || undefined,
+  audienceName: row.sections?.name || row.batches?.name || row.departments?.name || undefined,
+  isPinned: row.is_pinned,
+  publishAt: row.publish_at || row.created_at,
+  expiresAt: row.expires_at
+});
+
+export function getAnnouncementScope(announcement: Pick<Announcement, 'sectionId' | 'batchId' | 'departmentId'>): AnnouncementScope {
+  if (announcement.sectionId) return 'section';
+  if (announcement.batchId) return 'batch';
+  if (announcement.departmentId) return 'department';
+  return 'everyone';
+}
+
+/**
+ * Whether an announcement is published and not yet expired
+ */
+export function isAnnouncementLive(announcement: Announcement, now: Date = new Date()): boolean {
+  if (new Date(announcement.publishAt) > now) return false;
+  return !announcement.expiresAt || new Date(announcement.expiresAt) > now;
+}
+
+/**
+ * Loads every announcement the signed-in user may see, pinned ones first.
+ * RLS limits students to live announcements addressed to them; admins also
+ * get scheduled and expired ones.
+ */
+export async function fetchAnnouncements(): Promise<Announcement[]> {
   try {
     const { data, error } = await supabase
       .from('announcements')
-      .select('*')
-      .order('created_at', { ascending: false });
+      .select(ANNOUNCEMENT_SELECT)
+      .order('is_pinned', { ascending: false })
+      .order('publish_at', { ascending: false });
 
     if (error) throw error;
-    return data as Announcement[];
+    return ((data || []) as AnnouncementRow[]).map(mapAnnouncementFromDB);
   } catch (error) {
     console.error('Error fetching announcements:', error);
     return [];
   }
 }
 
+/**
+ * Loads the live pinned announcements addressed to a user
+ * @param audience The user's section, batch and department
+ */
+export async function fetchPinnedAnnouncements(audience: {
+  sectionId?: string;
+  batchId?: string;
+  departmentId?: string;
+}): Promise<Announcement[]> {
+  try {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('announcements')
+      .select(ANNOUNCEMENT_SELECT)
+      .eq('is_pinned', true)
+      .lte('publish_at', now)
+      .or(`expires_at.is.null,expires_at.gt.${now}`)
+      .order('publish_at', { ascending: false });
+
+    if (error) throw error;
+
+    // Admins can read every announcement, so match the audience here as well
+    return ((data || []) as AnnouncementRow[])
+      .map(mapAnnouncementFromDB)
+      .filter(announcement =>
+        (!announcement.sectionId || announcement.sectionId === audience.sectionId) &&
+        (!announcement.batchId || announcement.batchId === audience.batchId) &&
+        (!announcement.departmentId || announcement.departmentId === audience.departmentId)
+      );
+  } catch (error) {
+    console.error('Error fetching pinned announcements:', error);
+    return [];
+  }
+}
+
 export async function createAnnouncement(announcement: NewAnnouncement) {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) throw new Error('Not authenticated');
 
   try {
     const timestamp = new Date().toISOString();
-    
+    const scope = getAnnouncementScope(announcement);
+
+    await requirePermission('manageAnnouncements', {
+      sectionId: scope === 'section' ? announcement.sectionId : null,
+      batchId: scope === 'batch' ? announcement.batchId : null,
+      departmentId: scope === 'department' ? announcement.departmentId : null
+    });
+
     const { data, error } = await supabase
       .from('announcements')
       .insert({
         title: announcement.title,
         content: announcement.content,
+        section_id: scope === 'section' ? announcement.sectionId : null,
+        batch_id: scope === 'batch' ? announcement.batchId : null,
+        department_id: scope === 'department' ? announcement.departmentId : null,
+        is_pinned: announcement.isPinned ?? false,
+        publish_at: announcement.publishAt || timestamp,
+        expires_at: announcement.expiresAt || null,
         created_by: user.id,
         created_at: timestamp
       })
-      .select()
+      .select(ANNOUNCEMENT_SELECT)
       .single();
 
     if (error) throw error;
 
-    const newAnnouncement = {
-      ...data,
-      createdAt: timestamp
-    } as Announcement;
+    const newAnnouncement = mapAnnouncementFromDB(data as AnnouncementRow);
 
-    // Send Telegram notification
-    await sendAnnouncementNotification(newAnnouncement);
+    // Scheduled announcements are posted by the announcement-scheduler
+    // function; batch and department announcements have no Telegram chat
+    if (isAnnouncementLive(newAnnouncement) && (scope === 'section' || scope === 'everyone')) {
+      await sendAnnouncementNotification(newAnnouncement);
+    }
 
     return newAnnouncement;
   } catch (error) {
@@ -52,17 +157,29 @@ export async function createAnnouncement(announcement: NewAnnouncement) {
   }
 }
 
-export async function deleteAnnouncement(id: string) {
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) throw new Error('Not authenticated');
-
+/**
+ * Pins an announcement to the top of the feed, or unpins it
+ */
+export async function setAnnouncementPinned(id: string, isPinned: boolean) {
   try {
     const { error } = await supabase
       .from('announcements')
-      .delete()
+      .update({ is_pinned: isPinned })
       .eq('id', id);
 
     if (error) throw error;
+  } catch (error) {
+    console.error('Error updating announcement:', error);
+    throw error;
+  }
+}
+
+export async function deleteAnnouncement(id: string) {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  try {
+    await moveToTrash('announcements', id);
   } catch (error) {
     console.error('Error deleting announcement:', error);
     throw error;
@@ -0,0 +1,266 @@
+import { supabase } from '../lib/supabase';
+import { getErrorMessage } from '../utils/errors';
+import type {
+  AttendanceRecord,
+  AttendanceSession,
+  AttendanceSettings,
+  AttendanceStatus
+} from '../types/attendance';
+
+interface AttendanceSessionRow {
+  id: string;
+  section_id: string;
+  routine_id: string | null;
+  slot_id: string;
+  class_date: string;
+  course_id: string | null;
+  course_name: string;
+  course_code: string | null;
+  start_time: string;
+  end_time: string;
+  taken_by: string | null;
+  updated_at: string;
+}
+
+interface AttendanceRecordRow {
+  session_id: string;
+  user_id: string;
+  status: AttendanceStatus;
+  attendance_sessions?: AttendanceSessionRow | null;
+}
+
+interface AttendanceSettingsRow {
+  section_id: string;
+  min_percentage: number;
+  updated_at: string;
+}
+
+const mapAttendanceSessionFromDB = (row: AttendanceSessionRow): AttendanceSession => ({
+  id: row.id,
+  sectionId: row.section_id,
+  routineId: row.routine_id || undefined,
+  slotId: row.slot_id,
+  classDate: row.class_date,
+  courseId: row.course_id || undefined,
+  courseName: row.course_name,
+  courseCode: row.course_code || undefined,
+  startTime: row.start_time,
+  endTime: row.end_time,
+  takenBy: row.taken_by || undefined,
+  updatedAt: row.updated_at
+});
+
+const mapAttendanceRecordFromDB = (row: AttendanceRecordRow): AttendanceRecord => ({
+  sessionId: row.session_id,
+  userId: row.user_id,
+  status: row.status
+});
+
+const mapAttendanceSettingsFromDB = (row: AttendanceSettingsRow): AttendanceSettings => ({
+  sectionId: row.section_id,
+  minPercentage: row.min_percentage,
+  updatedAt: row.updated_at
+});
+
+const BATCH_SIZE = 1000;
+
+/**
+ * The register of a class on a date, or null when attendance hasn't been
+ * taken yet
+ * @param slotId The routine slot of the class
+ * @param classDate The date of the class, as YYYY-MM-DD
+ */
+export async function fetchAttendanceRegister(
+  slotId: string,
+  classDate: string
+): Promise<{ session: AttendanceSession | null; records: AttendanceRecord[] }> {
+  try {
+    const { data, error } = await supabase
+      .from('attendance_sessions')
+      .select('*, attendance_records(session_id, user_id, status)')
+      .eq('slot_id', slotId)
+      .eq('class_date', classDate)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { session: null, records: [] };
+
+    const row = data as AttendanceSessionRow & { attendance_records?: AttendanceRecordRow[] };
+    return {
+      session: mapAttendanceSessionFromDB(row),
+      records: (row.attendance_records || []).map(mapAttendanceRecordFromDB)
+    };
+  } catch (error) {
+    console.error('Error fetching attendance register:', error);
+    throw new Error(getErrorMessage(error, 'Failed to load attendance'));
+  }
+}
+
+/**
+ * Saves the register of a class on a date, replacing what was recorded
+ * before; students outside the routine's section are ignored by the server
+ * @returns The id of the register
+ */
+export async function saveAttendance(
+  slotId: string,
+  classDate: string,
+  records: Pick<AttendanceRecord, 'userId' | 'status'>[]
+): Promise<string> {
+  try {
+    const { data, error } = await supabase.rpc('save_attendance', {
+      p_slot_id: slotId,
+      p_class_date: classDate,
+      p_records: records.map(record => ({ user_id: record.userId, status: record.status }))
+    });
+
+    if (error) throw error;
+    return data as string;
+  } catch (error) {
+    console.error('Error saving attendance:', error);
+    throw new Error(getErrorMessage(error, 'Failed to save attendance'));
+  }
+}
+
+/**
+ * Every register of a section with all its records, for export
+ * @param sectionId The section to export
+ * @param from Earliest class date to include, as YYYY-MM-DD
+ * @param to Latest class date to include, as YYYY-MM-DD
+ */
+export async function fetchSectionAttendance(
+  sectionId: string,
+  from?: string,
+  to?: string
+): Promise<{ sessions: AttendanceSession[]; records: AttendanceRecord[] }> {
+  const sessions: AttendanceSession[] = [];
+  const records: AttendanceRecord[] = [];
+
+  try {
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+      let query = supabase
+        .from('attendance_sessions')
+        .select('*')
+        .eq('section_id', sectionId);
+      if (from) query = query.gte('class_date', from);
+      if (to) query = query.lte('class_date', to);
+
+      const { data, error } = await query
+        .order('class_date')
+        .order('start_time')
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      sessions.push(...((data || []) as AttendanceSessionRow[]).map(mapAttendanceSessionFromDB));
+      if (!data || data.length < BATCH_SIZE) break;
+    }
+
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+      let query = supabase
+        .from('attendance_records')
+        .select('session_id, user_id, status, attendance_sessions!inner(section_id)')
+        .eq('attendance_sessions.section_id', sectionId);
+      if (from) query = query.gte('attendance_sessions.class_date', from);
+      if (to) query = query.lte('attendance_sessions.class_date', to);
+
+      const { data, error } = await query
+        .order('session_id')
+        .order('user_id')
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      records.push(...((data || []) as unknown as AttendanceRecordRow[]).map(mapAttendanceRecordFromDB));
+      if (!data || data.length < BATCH_SIZE) break;
+    }
+
+    return { sessions, records };
+  } catch (error) {
+    console.error('Error exporting attendance:', error);
+    throw new Error(getErrorMessage(error, 'Failed to export attendance'));
+  }
+}
+
+/**
+ * The signed-in student's own records, each with its register
+ */
+export async function fetchMyAttendance(): Promise<{ session: AttendanceSession; record: AttendanceRecord }[]> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const entries: { session: AttendanceSession; record: AttendanceRecord }[] = [];
+
+    for (let offset = 0; ; offset += BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('attendance_records')
+        .select('session_id, user_id, status, attendance_sessions(*)')
+        .eq('user_id', user.id)
+        .order('session_id')
+        .range(offset, offset + BATCH_SIZE - 1);
+
+      if (error) throw error;
+
+      ((data || []) as unknown as AttendanceRecordRow[]).forEach(row => {
+        if (!row.attendance_sessions) return;
+        entries.push({
+          session: mapAttendanceSessionFromDB(row.attendance_sessions),
+          record: mapAttendanceRecordFromDB(row)
+        });
+      });
+      if (!data || data.length < BATCH_SIZE) break;
+    }
+
+    return entries;
+  } catch (error) {
+    console.error('Error fetching attendance:', error);
+    throw new Error(getErrorMessage(error, 'Failed to load attendance'));
+  }
+}
+
+/**
+ * Loads the attendance threshold of a section
+ * @returns The settings, or null when the section uses the default
+ */
+export async function fetchAttendanceSettings(sectionId: string): Promise<AttendanceSettings | null> {
+  try {
+    const { data, error } = await supabase
+      .from('section_attendance_settings')
+      .select('*')
+      .eq('section_id', sectionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapAttendanceSettingsFromDB(data as AttendanceSettingsRow) : null;
+  } catch (error) {
+    console.error('Error fetching attendance settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Sets the percentage below which a section's students are warned
+ */
+export async function saveAttendanceSettings(sectionId: string, minPercentage: number): Promise<AttendanceSettings> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  try {
+    const { data, error } = await supabase
+      .from('section_attendance_settings')
+      .upsert({
+        section_id: sectionId,
+        min_percentage: minPercentage,
+        updated_by: user.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'section_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapAttendanceSettingsFromDB(data as AttendanceSettingsRow);
+  } catch (error) {
+    console.error('Error saving attendance settings:', error);
+    throw error;
+  }
+}
@@ -3,6 +3,7 @@ import { getAuthErrorMessage } from '../utils/authErrors';
 import type { LoginCredentials, SignupCredentials, User } from '../types/auth';
 import type { Database } from '../types/supabase';
 import { showSuccessToast, showErrorToast } from '../utils/notifications';
+import { normalizeRole } from '../utils/permissions';
 
 type DbUser = Database['public']['Tables']['users']['Row'];
 type DbUserInsert = Database['public']['Tables']['users']['Insert'];
@@ -564,22 +565,6 @@ function setupTokenRefresh(refreshToken: string) {
   window.addEventListener('focus', handleFocusRefresh);
 }
 
-// Helper function to normalize role values
-function normalizeRole(role: string): 'user' | 'admin' | 'super-admin' | 'section-admin' {
-  switch (role) {
-    case 'admin':
-      return 'admin';
-    case 'super-admin':
-    case 'super_admin':
-      return 'super-admin';
-    case 'section-admin':
-    case 'section_admin':
-      return 'section-admin';
-    default:
-      return 'user';
-  }
-}
-
 // Helper function to map database user to User type
 export function mapDbUserToUser(dbUser: SupabaseUser): User {
   console.log('Mapping DB user to User:', dbUser);
@@ -0,0 +1,98 @@
+import { supabase } from '../lib/supabase';
+
+const CALENDAR_FUNCTION = 'calendar-feed';
+
+/**
+ * Builds the subscription URL calendar apps poll for updates
+ * @param {string} token - The user's feed token
+ * @returns {string} - HTTPS URL of the `calendar-feed` edge function
+ */
+export function getCalendarFeedUrl(token: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${CALENDAR_FUNCTION}?token=${token}`;
+}
+
+/**
+ * Same feed as a `webcal://` link, which opens the subscribe dialog of
+ * Apple Calendar and Outlook directly
+ */
+export function getWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://');
+}
+
+/**
+ * Downloads the user's tasks and class routine as a one-off .ics file
+ * @returns {Promise<void>} - Resolves once the browser download has started
+ */
+export async function downloadCalendarFile(): Promise<void> {
+  try {
+    const { data, error } = await supabase.functions.invoke(CALENDAR_FUNCTION, { body: {} });
+    if (error) throw error;
+
+    const blob = new Blob([data as string], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'nesttask.ics';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error downloading calendar:', error);
+    throw error;
+  }
+}
+
+/**
+ * Loads the user's calendar feed token
+ * @param {string} userId - The user's ID
+ * @returns {Promise<string | null>} - The token, or null if the feed has not been enabled
+ */
+export async function fetchCalendarFeedToken(userId: string): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.token ?? null;
+  } catch (error) {
+    console.error('Error fetching calendar feed token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a feed token, or replaces the existing one so the old URL stops working
+ * @returns {Promise<string>} - The new token
+ */
+export async function issueCalendarFeedToken(): Promise<string> {
+  try {
+    const { data, error } = await supabase.rpc('issue_calendar_feed_token');
+    if (error) throw error;
+    return data as string;
+  } catch (error) {
+    console.error('Error issuing calendar feed token:', error);
+    throw error;
+  }
+}
+
+/**
+ * Turns the calendar feed off
+ * @param {string} userId - The user's ID
+ */
+export async function revokeCalendarFeedToken(userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error revoking calendar feed token:', error);
+    throw error;
+  }
+}
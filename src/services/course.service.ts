@@ -1,4 +1,7 @@
 import { supabase } from '../lib/supabase';
+import { getRoleScope, normalizeRole } from '../utils/permissions';
+import { requirePermission } from './permission.service';
+import { moveToTrash } from './trash.service';
 import type { Course, NewCourse, StudyMaterial, NewStudyMaterial } from '../types/course';
 import { checkTeacherNameExists } from './teacher.service';
 import { NewTeacher } from '../types/teacher';
@@ -29,18 +32,10 @@ export async function fetchCourses(): Promise<Course[]> {
 
 export async function createCourse(course: NewCourse): Promise<Course> {
   try {
-    // First, check if the current user has permission
-    const { data: { user } } = await supabase.auth.getUser();
-    const userRole = user?.user_metadata?.role;
+    const subject = await requirePermission('manageCourses');
     
-    // Allow if user is admin or section_admin
-    if (!userRole || (userRole !== 'admin' && userRole !== 'section_admin')) {
-      console.error('Permission denied: User is not admin or section_admin');
-      throw new Error('Permission denied: Only admins and section admins can create courses');
-    }
-    
-    // If user is section_admin, ensure they are setting a section
-    if (userRole === 'section_admin' && !course.section) {
+    // Scoped admins can only create courses for a section
+    if (getRoleScope(subject.role) !== 'global' && !course.section) {
       console.error('Section admin must specify a section');
       throw new Error('Section admin must specify a section for the course');
     }
@@ -51,10 +46,10 @@ export async function createCourse(course: NewCourse): Promise<Course> {
       .join(', ');
 
     // Debug logging for course creation
-    console.log(`Creating course as ${userRole}:`, { 
+    console.log(`Creating course as ${subject.role}:`, { 
       courseName: course.name, 
       courseSection: course.section,
-      userSection: user?.user_metadata?.sectionId 
+      userSection: subject.sectionId 
     });
 
     const { data, error } = await supabase
@@ -120,21 +115,12 @@ export async function updateCourse(id: string, updates: Partial<Course>): Promis
   }
 }
 
+/**
+ * Moves a course to the trash along with its routine slots and study materials
+ */
 export async function deleteCourse(id: string): Promise<void> {
   try {
-    console.log(`Attempting to delete course with ID: ${id}`);
-    
-    const { error } = await supabase
-      .from('courses')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      console.error('Error during course deletion:', error);
-      throw error;
-    }
-    
-    console.log(`Successfully deleted course: ${id}`);
+    await moveToTrash('courses', id);
   } catch (error) {
     console.error('Error deleting course:', error);
     throw error;
@@ -293,12 +279,7 @@ export async function updateStudyMaterial(id: string, updates: Partial<StudyMate
 
 export async function deleteStudyMaterial(id: string): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('study_materials')
-      .delete()
-      .eq('id', id);
-
-    if (error) throw error;
+    await moveToTrash('study_materials', id);
   } catch (error) {
     console.error('Error deleting study material:', error);
     throw error;
@@ -308,7 +289,7 @@ export async function deleteStudyMaterial(id: string): Promise<void> {
 // Helper function to map database fields to camelCase
 function mapCourseFromDB(data: any): Course {
   // Parse class times from the string format back to array
-  const classTimes = data.class_time.split(', ').map((timeStr: string) => {
+  const classTimes = (data.class_time || '').split(', ').filter(Boolean).map((timeStr: string) => {
     // Check if the time string includes classroom information
     const hasClassroom = timeStr.includes(' in ');
     if (hasClassroom) {
@@ -347,46 +328,16 @@ export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success
   let successCount = 0;
   
   try {
-    // First, check if the current user has permission
-    const { data: { user } } = await supabase.auth.getUser();
-    
-    // Add detailed debugging for user role
-    console.log('Current user in bulkImportCourses:', {
-      id: user?.id,
-      email: user?.email,
-      metadata: user?.user_metadata,
-      role: user?.user_metadata?.role
-    });
-    
-    // Also check the user info in the database directly
-    if (user?.id) {
-      const { data: userData, error: userDbError } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .single();
-        
-      console.log('User role from database:', userData?.role);
-      if (userDbError) {
-        console.error('Error fetching user from database:', userDbError);
-      }
-    }
-    
-    const userRole = user?.user_metadata?.role;
-    
-    // Allow if user is admin or section_admin
-    if (!userRole || (userRole !== 'admin' && userRole !== 'section_admin')) {
-      console.error('Permission denied: User is not admin or section_admin. Role found:', userRole);
-      throw new Error('Permission denied: Only admins and section admins can import courses');
-    }
+    const subject = await requirePermission('manageCourses');
+    const userRole = normalizeRole(subject.role);
     
     console.log(`Bulk importing courses as ${userRole}, courses count:`, courses.length);
   
     for (let i = 0; i < courses.length; i++) {
       const course = courses[i];
       try {
-        // If user is section_admin, ensure they are setting a section
-        if (userRole === 'section_admin' && !course.section) {
+        // Scoped admins can only import courses for a section
+        if (getRoleScope(userRole) !== 'global' && !course.section) {
           errors.push({
             message: `Course #${i + 1} (${course.code}): Section admin must specify a section for the course`,
             isWarning: true
@@ -435,7 +386,7 @@ export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success
                 .insert({
                   name: course.teacher,
                   phone: 'N/A', // Required field, using placeholder
-                  department: course.section || user?.user_metadata?.sectionId || undefined
+                  department: course.section || subject.sectionId || undefined
                 })
                 .select()
                 .single();
@@ -497,7 +448,7 @@ export async function bulkImportCourses(courses: NewCourse[]): Promise<{ success
             blc_link: course.blcLink,
             blc_enroll_key: course.blcEnrollKey,
             credit: course.credit,
-            section: course.section || user?.user_metadata?.sectionId, // Use user's section if not specified
+            section: course.section || subject.sectionId, // Use user's section if not specified
             teacher_id: teacherId
           })
           .select()
@@ -0,0 +1,271 @@
+import { supabase } from '../lib/supabase';
+import type {
+  Notification,
+  NotificationPage,
+  NotificationType,
+  ReminderLeadTime,
+  PushAudience,
+  PushPayload,
+  PushDelivery
+} from '../types/notification';
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+export interface NotificationRow {
+  id: string;
+  user_id: string;
+  section_id: string | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  task_id: string | null;
+  announcement_id: string | null;
+  routine_id: string | null;
+  is_admin_task: boolean;
+  created_at: string;
+  read_at: string | null;
+  cleared_at: string | null;
+}
+
+export function mapNotificationFromDB(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    timestamp: new Date(row.created_at),
+    read: !!row.read_at,
+    readAt: row.read_at || undefined,
+    sectionId: row.section_id || undefined,
+    taskId: row.task_id || undefined,
+    announcementId: row.announcement_id || undefined,
+    routineId: row.routine_id || undefined,
+    isAdminTask: row.is_admin_task,
+    isAnnouncement: row.type === 'announcement'
+  };
+}
+
+/**
+ * Fetches one page of the user's inbox, newest first, without cleared rows
+ * @param userId - The user whose notifications are loaded
+ * @param page - Zero-based page index
+ */
+export async function fetchNotifications(
+  userId: string,
+  page = 0,
+  pageSize = NOTIFICATIONS_PAGE_SIZE
+): Promise<NotificationPage> {
+  try {
+    const from = page * pageSize;
+
+    // Ask for one extra row to know whether another page exists
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .is('cleared_at', null)
+      .order('created_at', { ascending: false })
+      .range(from, from + pageSize);
+
+    if (error) throw error;
+
+    const rows = (data || []) as NotificationRow[];
+    return {
+      notifications: rows.slice(0, pageSize).map(mapNotificationFromDB),
+      hasMore: rows.length > pageSize
+    };
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Counts unread, uncleared notifications for the unread badge
+ */
+export async function fetchUnreadNotificationCount(userId: string): Promise<number> {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .is('cleared_at', null);
+
+    if (error) throw error;
+    return count || 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+}
+
+export async function markNotificationAsRead(notificationId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    throw error;
+  }
+}
+
+export async function markAllNotificationsAsRead(userId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .is('cleared_at', null);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error);
+    throw error;
+  }
+}
+
+/**
+ * Hides a notification from the inbox; clearing also counts as reading it
+ */
+export async function clearNotification(notificationId: string): Promise<void> {
+  try {
+    // Keeps the original read_at when the notification was already read
+    await markNotificationAsRead(notificationId);
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ cleared_at: new Date().toISOString() })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error clearing notification:', error);
+    throw error;
+  }
+}
+
+export const REMINDER_LEAD_OPTIONS: ReminderLeadTime[] = [
+  { minutes: 2880, label: '2 days' },
+  { minutes: 1440, label: '24 hours' },
+  { minutes: 720, label: '12 hours' },
+  { minutes: 180, label: '3 hours' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 30, label: '30 minutes' }
+];
+
+export const DEFAULT_REMINDER_LEAD_MINUTES = [1440, 180, 30];
+
+/**
+ * Loads the user's deadline reminder lead times (defaults when never saved)
+ */
+export async function fetchReminderLeadTimes(userId: string): Promise<number[]> {
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('reminder_lead_minutes')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data as { reminder_lead_minutes: number[] } | null)?.reminder_lead_minutes
+      ?? DEFAULT_REMINDER_LEAD_MINUTES;
+  } catch (error) {
+    console.error('Error fetching reminder lead times:', error);
+    throw error;
+  }
+}
+
+export async function updateReminderLeadTimes(userId: string, leadMinutes: number[]): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: userId,
+        reminder_lead_minutes: [...new Set(leadMinutes)].sort((a, b) => b - a),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error updating reminder lead times:', error);
+    throw error;
+  }
+}
+
+interface PushDeliveryRow {
+  id: string;
+  task_id: string | null;
+  announcement_id: string | null;
+  title: string;
+  recipient_count: number;
+  sent_count: number;
+  failed_count: number;
+  pruned_count: number;
+  created_at: string;
+}
+
+const mapPushDeliveryFromDB = (row: PushDeliveryRow): PushDelivery => ({
+  id: row.id,
+  taskId: row.task_id || undefined,
+  announcementId: row.announcement_id || undefined,
+  title: row.title,
+  recipientCount: row.recipient_count,
+  sentCount: row.sent_count,
+  failedCount: row.failed_count,
+  prunedCount: row.pruned_count,
+  createdAt: row.created_at
+});
+
+/**
+ * Asks the push-notification edge function to notify every subscribed
+ * device of the audience. Targeting, cleanup of expired subscriptions and
+ * recording the result all happen server-side.
+ * @param audience - Section, batch or department to notify
+ * @param payload - The notification shown on the device
+ * @param source - The task or announcement the push is about
+ */
+export async function sendPushBroadcast(
+  audience: PushAudience,
+  payload: PushPayload,
+  source: { taskId?: string; announcementId?: string } = {}
+): Promise<{ sent: number; failed: number; pruned: number }> {
+  try {
+    const { data, error } = await supabase.functions.invoke('push-notification', {
+      body: { ...audience, ...source, payload }
+    });
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    console.error('Error sending push notifications:', error);
+    throw error;
+  }
+}
+
+/**
+ * Loads the recorded push broadcasts of the given tasks, newest first
+ */
+export async function fetchTaskPushDeliveries(taskIds: string[]): Promise<PushDelivery[]> {
+  if (taskIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('push_deliveries')
+      .select('*')
+      .in('task_id', taskIds)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as PushDeliveryRow[]).map(mapPushDeliveryFromDB);
+  } catch (error) {
+    console.error('Error fetching push deliveries:', error);
+    throw error;
+  }
+}
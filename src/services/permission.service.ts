@@ -0,0 +1,84 @@
+import { supabase } from '../lib/supabase';
+import { can } from '../utils/permissions';
+import type { AdminPermission, PermissionScope, PermissionSubject } from '../types/admin';
+
+/**
+ * Thrown when the signed-in user lacks a permission
+ */
+export class PermissionError extends Error {
+  permission: AdminPermission;
+
+  constructor(permission: AdminPermission, message?: string) {
+    super(message || `Permission denied: you are not allowed to ${describePermission(permission)}`);
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+const describePermission = (permission: AdminPermission) =>
+  permission
+    .replace(/([A-Z])/g, ' $1')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Loads the signed-in user's role, scope and extra grants. The users table
+ * wins over auth metadata, which can be stale after a promotion. As in
+ * `has_permission`, only the role may come from `app_metadata`; users can
+ * edit their own `user_metadata`.
+ * @returns The user with their id, or null when signed out
+ */
+export async function fetchCurrentPermissionSubject(): Promise<(PermissionSubject & { id: string }) | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('role, department_id, batch_id, section_id, permissions')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const { data: assignments, error: assignmentsError } = await supabase
+      .from('section_admins')
+      .select('section_id')
+      .eq('user_id', user.id);
+
+    if (assignmentsError) throw assignmentsError;
+
+    return {
+      id: user.id,
+      role: data?.role || user.app_metadata?.role,
+      departmentId: data?.department_id || undefined,
+      batchId: data?.batch_id || undefined,
+      sectionId: data?.section_id || undefined,
+      permissions: data?.permissions || [],
+      adminSectionIds: (assignments || []).map(assignment => assignment.section_id)
+    };
+  } catch (error) {
+    console.error('Error loading user permissions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Checks a permission for the signed-in user before a service call
+ * @param permission The permission the call needs
+ * @param scope What the call touches; see `can`
+ * @returns The user, for callers that need their id or scope
+ */
+export async function requirePermission(
+  permission: AdminPermission,
+  scope?: PermissionScope
+): Promise<PermissionSubject & { id: string }> {
+  const subject = await fetchCurrentPermissionSubject();
+
+  if (!subject || !can(subject, permission, scope)) {
+    console.warn(`Permission denied: ${permission}`, { role: subject?.role, scope });
+    throw new PermissionError(permission);
+  }
+
+  return subject;
+}
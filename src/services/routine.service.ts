@@ -1,5 +1,39 @@
 import { supabase } from '../lib/supabase';
-import type { Routine, RoutineSlot } from '../types/routine';
+import { findSlotConflicts, summarizeConflicts } from '../utils/routineConflicts';
+import { parseClassTimeRange } from '../utils/courseSchedule';
+import { requirePermission } from './permission.service';
+import { moveToTrash } from './trash.service';
+import { sendPushBroadcast } from './notification.service';
+import { describeRoutineOverride, toDateKey } from '../utils/routineOverrides';
+import type {
+  Routine,
+  RoutineConflict,
+  RoutineOverride,
+  RoutineOverrideInput,
+  RoutineRevision,
+  RoutineSlot,
+  RoutineSlotDraft
+} from '../types/routine';
+import type { ClassTime, Course } from '../types/course';
+
+export interface RoutineSlotSaveOptions {
+  // Save even though the slot clashes with another class
+  allowConflicts?: boolean;
+}
+
+/**
+ * Thrown when a slot clashes with another class and the clash was not
+ * explicitly allowed
+ */
+export class RoutineConflictError extends Error {
+  conflicts: RoutineConflict[];
+
+  constructor(conflicts: RoutineConflict[]) {
+    super(`This time slot clashes with other classes:\n${summarizeConflicts(conflicts)}`);
+    this.name = 'RoutineConflictError';
+    this.conflicts = conflicts;
+  }
+}
 
 export async function fetchRoutines(): Promise<Routine[]> {
   try {
@@ -50,6 +84,7 @@ export async function fetchRoutines(): Promise<Routine[]> {
       isActive: routine.is_active,
       createdAt: routine.created_at,
       createdBy: routine.created_by,
+      sectionId: routine.section_id || undefined,
       slots: routine.slots?.map((slot: any) => {
         // Get course and teacher info from maps (constant time lookup)
         const courseInfo = courseMap.get(slot.course_id) || {};
@@ -80,12 +115,15 @@ export async function fetchRoutines(): Promise<Routine[]> {
 
 export async function createRoutine(routine: Omit<Routine, 'id' | 'createdAt' | 'createdBy'>): Promise<Routine> {
   try {
+    await requirePermission('manageRoutines', { sectionId: routine.sectionId || null });
+
     // Create database insert object with correct field mappings
     const dbRoutine = {
       name: routine.name,
       description: routine.description,
       semester: routine.semester,
-      is_active: routine.isActive
+      is_active: routine.isActive,
+      section_id: routine.sectionId || null
     };
     
     const { data, error } = await supabase
@@ -105,6 +143,7 @@ export async function createRoutine(routine: Omit<Routine, 'id' | 'createdAt' |
       isActive: data.is_active,
       createdAt: data.created_at,
       createdBy: data.created_by,
+      sectionId: data.section_id || undefined,
       slots: []
     };
   } catch (error) {
@@ -137,21 +176,102 @@ export async function updateRoutine(id: string, updates: Partial<Routine>): Prom
 
 export async function deleteRoutine(id: string): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('routines')
-      .delete()
-      .eq('id', id);
-
-    if (error) throw error;
+    await moveToTrash('routines', id);
   } catch (error) {
     console.error('Error deleting routine:', error);
     throw error;
   }
 }
 
+interface RoutineSlotRow {
+  id: string;
+  course_id: string | null;
+  teacher_id: string | null;
+  course_name?: string | null;
+  course_code?: string | null;
+  teacher_name?: string | null;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  section: string | null;
+  created_at: string;
+}
+
+const mapRoutineSlotFromDB = (slot: RoutineSlotRow, routineId: string): RoutineSlot => ({
+  id: slot.id,
+  routineId,
+  courseId: slot.course_id || undefined,
+  teacherId: slot.teacher_id || undefined,
+  courseName: slot.course_name || '',
+  courseCode: slot.course_code || '',
+  teacherName: slot.teacher_name || '',
+  dayOfWeek: slot.day_of_week,
+  startTime: slot.start_time,
+  endTime: slot.end_time,
+  roomNumber: slot.room_number || undefined,
+  section: slot.section || undefined,
+  createdAt: slot.created_at
+});
+
+/**
+ * Loads a routine and every routine of the same semester, with slots, as
+ * needed to look for clashes
+ */
+async function fetchRoutinesForConflictCheck(routineId: string): Promise<{ routine: Routine; routines: Routine[] }> {
+  const { data: target, error: targetError } = await supabase
+    .from('routines')
+    .select('semester')
+    .eq('id', routineId)
+    .single();
+
+  if (targetError) throw targetError;
+
+  const { data, error } = await supabase
+    .from('routines')
+    .select('*, slots:routine_slots (*)')
+    .eq('semester', target.semester);
+
+  if (error) throw error;
+
+  const routines: Routine[] = (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    semester: row.semester,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    sectionId: row.section_id || undefined,
+    slots: ((row.slots || []) as RoutineSlotRow[]).map(slot => mapRoutineSlotFromDB(slot, row.id))
+  }));
+
+  const routine = routines.find(r => r.id === routineId);
+  if (!routine) throw new Error('Routine not found');
+
+  return { routine, routines };
+}
+
+/**
+ * Checks a new or edited slot against the saved routines
+ * @param routineId The routine the slot belongs to
+ * @param slot The slot to check; pass its ID when editing
+ * @returns The clashes, empty when there are none
+ */
+export async function checkRoutineSlotConflicts(routineId: string, slot: RoutineSlotDraft): Promise<RoutineConflict[]> {
+  try {
+    const { routine, routines } = await fetchRoutinesForConflictCheck(routineId);
+    return findSlotConflicts(slot, routine, routines);
+  } catch (error) {
+    console.error('Error checking routine slot conflicts:', error);
+    throw error;
+  }
+}
+
 export async function addRoutineSlot(
   routineId: string,
-  slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>
+  slot: Omit<RoutineSlot, 'id' | 'routineId' | 'createdAt'>,
+  options: RoutineSlotSaveOptions = {}
 ): Promise<RoutineSlot> {
   try {
     console.log('Service: Adding routine slot', { routineId, slot });
@@ -181,6 +301,11 @@ export async function addRoutineSlot(
       throw new Error('End time is required');
     }
 
+    if (!options.allowConflicts) {
+      const conflicts = await checkRoutineSlotConflicts(routineId, slot);
+      if (conflicts.length > 0) throw new RoutineConflictError(conflicts);
+    }
+
     // Get course name if not provided but courseId is
     let courseName = slot.courseName || '';
     if (slot.courseId && !courseName) {
@@ -310,6 +435,7 @@ export async function addRoutineSlot(
     }
   } catch (error: any) {
     console.error('Error adding routine slot:', error);
+    if (error instanceof RoutineConflictError) throw error;
     throw new Error(error.message || 'Failed to add routine slot');
   }
 }
@@ -317,10 +443,20 @@ export async function addRoutineSlot(
 export async function updateRoutineSlot(
   routineId: string,
   slotId: string,
-  updates: Partial<RoutineSlot>
+  updates: Partial<RoutineSlot>,
+  options: RoutineSlotSaveOptions = {}
 ): Promise<void> {
   try {
     console.log('Updating routine slot:', { routineId, slotId, updates });
+
+    if (!options.allowConflicts) {
+      const { routine, routines } = await fetchRoutinesForConflictCheck(routineId);
+      const current = routine.slots?.find(slot => slot.id === slotId);
+      if (current) {
+        const conflicts = findSlotConflicts({ ...current, ...updates, id: slotId }, routine, routines);
+        if (conflicts.length > 0) throw new RoutineConflictError(conflicts);
+      }
+    }
     
     // Get course name if not provided but courseId is updated
     let courseName = updates.courseName;
@@ -423,17 +559,116 @@ export async function deleteRoutineSlot(routineId: string, slotId: string): Prom
 }
 
 /**
- * Activates a specific routine and deactivates all others
+ * Replaces a course's slots in a routine with the course's class times.
+ * Times without an end take it from the slot they replace; the rest are
+ * skipped and returned. Slots on the same day are updated in place.
+ * @param routineId The routine to update
+ * @param course The course whose class times are copied
+ */
+export async function syncCourseSlotsFromClassTimes(
+  routineId: string,
+  course: Pick<Course, 'id' | 'name' | 'code' | 'teacher' | 'classTimes'>,
+  options: RoutineSlotSaveOptions = {}
+): Promise<{ slots: RoutineSlot[]; skipped: ClassTime[] }> {
+  try {
+    const conflictCheck = await fetchRoutinesForConflictCheck(routineId);
+    const existing = (conflictCheck.routine.slots || []).filter(slot => slot.courseId === course.id);
+    conflictCheck.routine.slots = (conflictCheck.routine.slots || []).filter(slot => slot.courseId !== course.id);
+
+    // Keep the teacher and lab group the routine already had for the course
+    const template = existing[0];
+    const skipped: ClassTime[] = [];
+    const drafts: RoutineSlot[] = [];
+
+    course.classTimes.filter(classTime => classTime.day).forEach((classTime, index) => {
+      const range = parseClassTimeRange(classTime.time);
+      const endTime = range?.endTime || existing.find(slot =>
+        slot.dayOfWeek === classTime.day && range && slot.startTime.startsWith(range.startTime)
+      )?.endTime;
+
+      if (!range || !endTime) {
+        skipped.push(classTime);
+        return;
+      }
+
+      const draft: RoutineSlot = {
+        id: `course-${index}`,
+        routineId,
+        courseId: course.id,
+        courseName: course.name,
+        courseCode: course.code,
+        teacherId: template?.teacherId,
+        teacherName: template?.teacherName || course.teacher,
+        dayOfWeek: classTime.day,
+        startTime: range.startTime,
+        endTime,
+        roomNumber: classTime.classroom,
+        section: template?.section,
+        createdAt: ''
+      };
+
+      const conflicts = findSlotConflicts(draft, conflictCheck.routine, conflictCheck.routines);
+      if (conflicts.length > 0 && !options.allowConflicts) throw new RoutineConflictError(conflicts);
+
+      conflictCheck.routine.slots = [...conflictCheck.routine.slots!, draft];
+      drafts.push(draft);
+    });
+
+    // One transaction that keeps the IDs of slots it can match, so their
+    // attendance, date changes and task templates stay attached
+    const { data, error } = await supabase.rpc('sync_course_slots', {
+      p_routine_id: routineId,
+      p_course_id: course.id,
+      p_slots: drafts.map(draft => ({
+        teacher_id: draft.teacherId || null,
+        course_name: draft.courseName || null,
+        teacher_name: draft.teacherName || null,
+        day_of_week: draft.dayOfWeek,
+        start_time: draft.startTime,
+        end_time: draft.endTime,
+        room_number: draft.roomNumber || null,
+        section: draft.section || null
+      }))
+    });
+
+    if (error) throw error;
+
+    return {
+      slots: ((data || []) as RoutineSlotRow[]).map(slot => mapRoutineSlotFromDB(slot, routineId)),
+      skipped
+    };
+  } catch (error) {
+    console.error('Error syncing course slots:', error);
+    throw error;
+  }
+}
+
+/**
+ * Activates a specific routine and deactivates the others of the same section
  * @param routineId The ID of the routine to activate
  * @returns Promise that resolves when the routine is activated
  */
 export async function activateRoutine(routineId: string): Promise<void> {
   try {
-    // First, deactivate all routines
-    const { error: deactivateError } = await supabase
+    const { data: routine, error: routineError } = await supabase
+      .from('routines')
+      .select('section_id')
+      .eq('id', routineId)
+      .single();
+
+    if (routineError) throw routineError;
+
+    // First, deactivate the other routines of this section
+    let deactivateQuery = supabase
       .from('routines')
       .update({ is_active: false })
       .neq('id', routineId);
+
+    deactivateQuery = routine?.section_id
+      ? deactivateQuery.eq('section_id', routine.section_id)
+      : deactivateQuery.is('section_id', null);
+
+    const { error: deactivateError } = await deactivateQuery;
     
     if (deactivateError) throw deactivateError;
     
@@ -451,6 +686,84 @@ export async function activateRoutine(routineId: string): Promise<void> {
   }
 }
 
+/**
+ * Fetches the active routine of a section together with its slots. A
+ * section without one of its own falls back to an active routine from
+ * before routines had sections.
+ * @param sectionId The student's section ID
+ * @returns The active routine, or null if the section has none
+ */
+export async function fetchActiveRoutine(sectionId: string): Promise<Routine | null> {
+  try {
+    const { data: routine, error } = await supabase
+      .from('routines')
+      .select('*')
+      .or(`section_id.eq.${sectionId},section_id.is.null`)
+      .eq('is_active', true)
+      .order('section_id', { ascending: true, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!routine) return null;
+
+    const { data: slots, error: slotsError } = await supabase
+      .from('routine_slots')
+      .select('*')
+      .eq('routine_id', routine.id)
+      .order('start_time', { ascending: true });
+
+    if (slotsError) throw slotsError;
+
+    const overrides = await fetchRoutineOverrides(routine.id, recentOverridesStart());
+
+    // Fill in names for slots created before course_name/teacher_name existed
+    const courseIds = [...new Set((slots || []).map(slot => slot.course_id).filter(Boolean))];
+    const teacherIds = [...new Set((slots || []).map(slot => slot.teacher_id).filter(Boolean))];
+    const [coursesResponse, teachersResponse] = await Promise.all([
+      courseIds.length > 0
+        ? supabase.from('courses').select('id,name,code').in('id', courseIds)
+        : Promise.resolve({ data: [] as { id: string; name: string; code: string }[] }),
+      teacherIds.length > 0
+        ? supabase.from('teachers').select('id,name').in('id', teacherIds)
+        : Promise.resolve({ data: [] as { id: string; name: string }[] })
+    ]);
+
+    const courseMap = new Map((coursesResponse.data || []).map(course => [course.id, course]));
+    const teacherMap = new Map((teachersResponse.data || []).map(teacher => [teacher.id, teacher.name]));
+
+    return {
+      id: routine.id,
+      name: routine.name,
+      description: routine.description,
+      semester: routine.semester,
+      isActive: routine.is_active,
+      createdAt: routine.created_at,
+      createdBy: routine.created_by,
+      sectionId: routine.section_id || undefined,
+      slots: (slots || []).map(slot => ({
+        id: slot.id,
+        routineId: routine.id,
+        courseId: slot.course_id,
+        teacherId: slot.teacher_id,
+        courseName: slot.course_name || courseMap.get(slot.course_id)?.name || '',
+        courseCode: courseMap.get(slot.course_id)?.code || '',
+        teacherName: slot.teacher_name || teacherMap.get(slot.teacher_id) || '',
+        dayOfWeek: slot.day_of_week,
+        startTime: slot.start_time,
+        endTime: slot.end_time,
+        roomNumber: slot.room_number,
+        section: slot.section,
+        createdAt: slot.created_at
+      })),
+      overrides
+    };
+  } catch (error) {
+    console.error('Error fetching active routine:', error);
+    throw error;
+  }
+}
+
 /**
  * Deactivates a specific routine without activating others
  * @param routineId The ID of the routine to deactivate
@@ -495,6 +808,7 @@ function convertTo24HourFormat(timeString: string): string {
  * Bulk import time slots from JSON data
  * @param routineId The ID of the routine to import slots for
  * @param slotsData The array of slot data from the JSON file
+ * @param options Pass `allowConflicts` to import slots that clash with other classes
  * @returns An object with success count and errors array
  */
 export async function bulkImportRoutineSlots(
@@ -511,22 +825,16 @@ export async function bulkImportRoutineSlots(
     section?: string;
     _teacherId?: string; // Optional: directly provided teacher ID
     _courseId?: string;  // Optional: directly provided course ID
-  }>
+  }>,
+  options: RoutineSlotSaveOptions = {}
 ): Promise<{ success: number; errors: any[] }> {
   const errors: any[] = [];
   let successCount = 0;
   
-  // Validate routine existence
+  // Validate routine existence and load the slots imported ones may clash with
+  let conflictCheck: { routine: Routine; routines: Routine[] };
   try {
-    const { data: routine, error: routineError } = await supabase
-      .from('routines')
-      .select('id')
-      .eq('id', routineId)
-      .single();
-      
-    if (routineError || !routine) {
-      throw new Error('Routine not found');
-    }
+    conflictCheck = await fetchRoutinesForConflictCheck(routineId);
   } catch (error: any) {
     return { 
       success: 0, 
@@ -652,26 +960,32 @@ export async function bulkImportRoutineSlots(
       const startTime = convertTo24HourFormat(slot.start_time);
       const endTime = convertTo24HourFormat(slot.end_time);
       
-      // Check for scheduling conflicts
-      const { data: conflicts, error: conflictError } = await supabase
-        .from('routine_slots')
-        .select('id')
-        .eq('routine_id', routineId)
-        .eq('day_of_week', slot.day)
-        .or(`start_time.lte.${endTime},end_time.gte.${startTime}`)
-        .limit(1);
-      
-      if (conflictError) {
-        console.error('Error checking for conflicts:', conflictError);
-      }
+      // Check for clashes with saved slots, other sections and the slots imported so far
+      const draft: RoutineSlot = {
+        id: `import-${index}`,
+        routineId,
+        courseId: courseId || undefined,
+        teacherId: teacherId || undefined,
+        courseName: courseName || undefined,
+        teacherName: teacherName || undefined,
+        dayOfWeek: slot.day,
+        startTime,
+        endTime,
+        roomNumber: slot.room_number,
+        section: slot.section,
+        createdAt: ''
+      };
+      const conflicts = findSlotConflicts(draft, conflictCheck.routine, conflictCheck.routines);
       
-      if (conflicts && conflicts.length > 0) {
+      if (conflicts.length > 0 && !options.allowConflicts) {
         errors.push({
-          message: `Slot #${index + 1}: Time conflict with existing slot on ${slot.day} at ${slot.start_time} - ${slot.end_time}`
+          message: `Slot #${index + 1}: ${conflicts.map(conflict => conflict.message).join('; ')}`
         });
         continue;
       }
       
+      conflictCheck.routine.slots = [...(conflictCheck.routine.slots || []), draft];
+      
       // Prepare the slot data - always include course_name and teacher_name for future compatibility
       processedSlots.push({
         routine_id: routineId,
@@ -807,7 +1121,7 @@ export async function getAllSemesters(): Promise<string[]> {
 /**
  * Filters routines by a specific semester
  */
-export async function getRoutinesBySemester(semester: string): Promise<any[]> {
+export async function getRoutinesBySemester(semester: string): Promise<Routine[]> {
   try {
     const { data, error } = await supabase
       .from('routines')
@@ -816,9 +1130,284 @@ export async function getRoutinesBySemester(semester: string): Promise<any[]> {
       .order('created_at', { ascending: false });
     
     if (error) throw error;
-    return data || [];
+    return (data || []).map(routine => ({
+      id: routine.id,
+      name: routine.name,
+      description: routine.description,
+      semester: routine.semester,
+      isActive: routine.is_active,
+      createdAt: routine.created_at,
+      createdBy: routine.created_by,
+      sectionId: routine.section_id || undefined
+    }));
   } catch (error) {
     console.error('Error fetching routines by semester:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Copies a routine and all its slots into another semester. The copy starts
+ * inactive so it can be adjusted before it replaces the current routine.
+ * @param routineId The routine to copy
+ * @param target Name and semester of the copy
+ * @returns The new routine with its slots
+ */
+export async function cloneRoutineToSemester(
+  routineId: string,
+  target: { name: string; semester: string }
+): Promise<Routine> {
+  try {
+    const { routine, slots } = await exportRoutineWithSlots(routineId);
+
+    const clone = await createRoutine({
+      name: target.name,
+      description: routine.description,
+      semester: target.semester,
+      isActive: false,
+      sectionId: routine.section_id || undefined
+    });
+
+    if (slots.length === 0) return clone;
+
+    // One insert, so the copy starts with a single revision
+    const { data, error } = await supabase
+      .from('routine_slots')
+      .insert(slots.map(slot => ({
+        routine_id: clone.id,
+        course_id: slot.course_id,
+        teacher_id: slot.teacher_id,
+        course_name: slot.course_name,
+        teacher_name: slot.teacher_name,
+        day_of_week: slot.day_of_week,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        room_number: slot.room_number,
+        section: slot.section
+      })))
+      .select();
+
+    if (error) throw error;
+
+    return {
+      ...clone,
+      slots: ((data || []) as RoutineSlotRow[]).map(slot => mapRoutineSlotFromDB(slot, clone.id))
+    };
+  } catch (error) {
+    console.error('Error cloning routine:', error);
+    throw error;
+  }
+}
+
+interface RoutineRevisionRow {
+  id: string;
+  routine_id: string;
+  version: number;
+  slots: RoutineSlotRow[];
+  summary: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+const mapRoutineRevisionFromDB = (row: RoutineRevisionRow): RoutineRevision => ({
+  id: row.id,
+  routineId: row.routine_id,
+  version: row.version,
+  slots: (row.slots || []).map(slot => mapRoutineSlotFromDB(slot, row.routine_id)),
+  summary: row.summary,
+  createdBy: row.created_by || undefined,
+  createdAt: row.created_at
+});
+
+/**
+ * Fetches the saved versions of a routine, newest first
+ * @param routineId The routine whose history is loaded
+ */
+export async function fetchRoutineRevisions(routineId: string): Promise<RoutineRevision[]> {
+  try {
+    const { data, error } = await supabase
+      .from('routine_revisions')
+      .select('id, routine_id, version, slots, summary, created_by, created_at')
+      .eq('routine_id', routineId)
+      .order('version', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapRoutineRevisionFromDB);
+  } catch (error) {
+    console.error('Error fetching routine revisions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Puts a routine's slots back the way they were in a revision. The restore
+ * itself is recorded as a new version, so it can be undone the same way.
+ * @param revisionId The revision to restore
+ */
+export async function restoreRoutineRevision(revisionId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('restore_routine_revision', { p_revision_id: revisionId });
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error restoring routine revision:', error);
+    throw error;
+  }
+}
+
+interface RoutineOverrideRow {
+  id: string;
+  routine_id: string;
+  slot_id: string | null;
+  kind: RoutineOverride['kind'];
+  class_date: string;
+  new_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  room_number: string | null;
+  course_id: string | null;
+  course_name: string | null;
+  teacher_name: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+const mapRoutineOverrideFromDB = (row: RoutineOverrideRow): RoutineOverride => ({
+  id: row.id,
+  routineId: row.routine_id,
+  slotId: row.slot_id || undefined,
+  kind: row.kind,
+  classDate: row.class_date,
+  newDate: row.new_date || undefined,
+  startTime: row.start_time || undefined,
+  endTime: row.end_time || undefined,
+  roomNumber: row.room_number || undefined,
+  courseId: row.course_id || undefined,
+  courseName: row.course_name || undefined,
+  teacherName: row.teacher_name || undefined,
+  reason: row.reason || undefined,
+  createdAt: row.created_at
+});
+
+// Changes from a week ago on cover every date the routine page shows
+const recentOverridesStart = () => {
+  const date = new Date();
+  date.setDate(date.getDate() - 7);
+  return toDateKey(date);
+};
+
+/**
+ * Fetches the date-specific changes of a routine, by date
+ * @param routineId The routine whose changes are loaded
+ * @param fromDate Leave out changes to classes before this date (YYYY-MM-DD)
+ */
+export async function fetchRoutineOverrides(routineId: string, fromDate?: string): Promise<RoutineOverride[]> {
+  try {
+    let query = supabase
+      .from('routine_overrides')
+      .select('*')
+      .eq('routine_id', routineId);
+    if (fromDate) query = query.or(`class_date.gte.${fromDate},new_date.gte.${fromDate}`);
+
+    const { data, error } = await query
+      .order('class_date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as RoutineOverrideRow[]).map(mapRoutineOverrideFromDB);
+  } catch (error) {
+    console.error('Error fetching routine overrides:', error);
+    throw error;
+  }
+}
+
+/**
+ * Adds a change to one date of a routine, or edits it when `id` is given.
+ * The database notifies the section's students; those with push enabled
+ * also get it on their devices while the routine is active.
+ * @param routine The routine the change belongs to
+ * @param override The change
+ * @param id The change to edit
+ */
+export async function saveRoutineOverride(
+  routine: Routine,
+  override: RoutineOverrideInput,
+  id?: string
+): Promise<RoutineOverride> {
+  try {
+    await requirePermission('manageRoutines', { sectionId: routine.sectionId });
+
+    const row = {
+      routine_id: routine.id,
+      slot_id: override.kind === 'makeup' ? null : override.slotId || null,
+      kind: override.kind,
+      class_date: override.classDate,
+      new_date: override.kind === 'reschedule' ? override.newDate || null : null,
+      start_time: ['reschedule', 'makeup'].includes(override.kind) ? override.startTime || null : null,
+      end_time: ['reschedule', 'makeup'].includes(override.kind) ? override.endTime || null : null,
+      room_number: override.kind === 'cancel' ? null : override.roomNumber || null,
+      course_id: override.kind === 'makeup' ? override.courseId || null : null,
+      course_name: override.kind === 'makeup' ? override.courseName || null : null,
+      teacher_name: override.kind === 'makeup' ? override.teacherName || null : null,
+      reason: override.reason || null
+    };
+
+    const { data, error } = id
+      ? await supabase.from('routine_overrides').update(row).eq('id', id).select().single()
+      : await supabase.from('routine_overrides').insert(row).select().single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This class already has a change on that date');
+      }
+      throw error;
+    }
+
+    const saved = mapRoutineOverrideFromDB(data as RoutineOverrideRow);
+    await sendOverridePush(routine, saved);
+    return saved;
+  } catch (error) {
+    console.error('Error saving routine override:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a change, putting the class back on its regular schedule
+ * @param id The change to remove
+ */
+export async function deleteRoutineOverride(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('routine_overrides')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting routine override:', error);
+    throw error;
+  }
+}
+
+async function sendOverridePush(routine: Routine, override: RoutineOverride) {
+  const lastDate = override.newDate && override.newDate > override.classDate ? override.newDate : override.classDate;
+  if (!routine.isActive || !routine.sectionId || lastDate < toDateKey(new Date())) return;
+
+  try {
+    const slot = routine.slots?.find(s => s.id === override.slotId);
+    await sendPushBroadcast(
+      { sectionId: routine.sectionId },
+      {
+        title: override.kind === 'makeup' ? 'Make-up Class' : 'Class Schedule Changed',
+        body: describeRoutineOverride(override, slot),
+        tag: `routine-override-${override.id}`,
+        data: {
+          url: '/',
+          type: 'routine-updated'
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error sending routine change notifications:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import { supabase } from '../lib/supabase';
+import type { ParsedSearchQuery, SearchResult, SearchResultType } from '../types/search';
+
+interface SearchResultRow {
+  result_type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  snippet: string | null;
+  rank: number;
+  due_date: string | null;
+  category: string | null;
+  course_code: string | null;
+}
+
+const mapSearchResultFromDB = (row: SearchResultRow): SearchResult => ({
+  type: row.result_type,
+  id: row.id,
+  title: row.title,
+  subtitle: row.subtitle || undefined,
+  snippet: row.snippet || undefined,
+  rank: row.rank,
+  dueDate: row.due_date || undefined,
+  category: row.category || undefined,
+  courseCode: row.course_code || undefined
+});
+
+/**
+ * Runs a ranked full-text search over tasks, courses, study materials,
+ * teachers and announcements in the database
+ * @param query - Parsed query with free text and inline filters
+ * @param limit - Maximum number of results per type
+ */
+export async function searchAll(query: ParsedSearchQuery, limit = 20): Promise<SearchResult[]> {
+  try {
+    const { data, error } = await supabase.rpc('search_all', {
+      p_query: query.text,
+      p_types: query.filters.types || null,
+      p_category: query.filters.category || null,
+      p_course: query.filters.course || null,
+      p_due_after: query.filters.dueAfter || null,
+      p_due_before: query.filters.dueBefore || null,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return ((data || []) as SearchResultRow[])
+      .map(mapSearchResultFromDB)
+      .sort((a, b) => b.rank - a.rank);
+  } catch (error) {
+    console.error('Error searching:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,242 @@
+import { supabase } from '../lib/supabase';
+import { TASK_ATTACHMENTS_BUCKET, removeAttachmentFiles } from './taskAttachment.service';
+import { getErrorMessage } from '../utils/errors';
+import type { TaskSubmission, TaskSubmissionFile, TaskSubmissionInput } from '../types/submission';
+
+interface TaskSubmissionFileRow {
+  id: string;
+  submission_id: string;
+  file_name: string;
+  file_size: number | null;
+  mime_type: string | null;
+  storage_path: string;
+  created_at: string;
+}
+
+interface TaskSubmissionRow {
+  id: string;
+  task_id: string;
+  user_id: string;
+  link: string | null;
+  note: string | null;
+  submitted_at: string;
+  task_submission_files?: TaskSubmissionFileRow[];
+}
+
+const SUBMISSION_SELECT = '*, task_submission_files(*)';
+
+// Submission files aren't served publicly; their links expire after this
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const mapSubmissionFileFromDB = (row: TaskSubmissionFileRow, url: string): TaskSubmissionFile => ({
+  id: row.id,
+  submissionId: row.submission_id,
+  fileName: row.file_name,
+  fileSize: row.file_size || 0,
+  mimeType: row.mime_type,
+  storagePath: row.storage_path,
+  createdAt: row.created_at,
+  url
+});
+
+const mapSubmissionFromDB = (row: TaskSubmissionRow, urls: Map<string, string>): TaskSubmission => ({
+  id: row.id,
+  taskId: row.task_id,
+  userId: row.user_id,
+  link: row.link || undefined,
+  note: row.note || undefined,
+  submittedAt: row.submitted_at,
+  files: (row.task_submission_files || [])
+    .map(file => mapSubmissionFileFromDB(file, urls.get(file.storage_path) || ''))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+});
+
+/**
+ * Signed links to the files of the given submissions, by storage path.
+ * Storage policies only sign files of the caller's own submission or of
+ * tasks they manage.
+ */
+async function signSubmissionFiles(rows: TaskSubmissionRow[]): Promise<Map<string, string>> {
+  const paths = rows.flatMap(row => (row.task_submission_files || []).map(file => file.storage_path));
+  if (paths.length === 0) return new Map();
+
+  const { data, error } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+
+  return new Map(
+    (data || []).flatMap(item => (item.path && item.signedUrl ? [[item.path, item.signedUrl] as [string, string]] : []))
+  );
+}
+
+// Submissions live next to task attachments, one folder per student
+function buildSubmissionPath(taskId: string, userId: string, fileName: string): string {
+  const fileExt = fileName.includes('.') ? `.${fileName.split('.').pop()}` : '';
+  return `submissions/${taskId}/${userId}/${crypto.randomUUID()}${fileExt}`;
+}
+
+/**
+ * The signed-in student's submission to a task, or null if they haven't
+ * turned anything in
+ */
+export async function fetchMySubmission(taskId: string): Promise<TaskSubmission | null> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('task_submissions')
+      .select(SUBMISSION_SELECT)
+      .eq('task_id', taskId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) return null;
+
+    const row = data as TaskSubmissionRow;
+    return mapSubmissionFromDB(row, await signSubmissionFiles([row]));
+  } catch (error) {
+    console.error('Error fetching submission:', error);
+    throw error;
+  }
+}
+
+/**
+ * Every submission to a task; only returns all of them to those who
+ * manage the task's section
+ */
+export async function fetchTaskSubmissions(taskId: string): Promise<TaskSubmission[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_submissions')
+      .select(SUBMISSION_SELECT)
+      .eq('task_id', taskId)
+      .order('submitted_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rows = (data || []) as TaskSubmissionRow[];
+    const urls = await signSubmissionFiles(rows);
+
+    return rows.map(row => mapSubmissionFromDB(row, urls));
+  } catch (error) {
+    console.error('Error fetching task submissions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Turns work in, or updates what was turned in. New files are added to the
+ * submission; existing ones are kept.
+ */
+export async function saveSubmission(taskId: string, input: TaskSubmissionInput): Promise<TaskSubmission> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  // Uploaded but not yet recorded, so removed again if recording fails
+  let pendingPath: string | null = null;
+
+  try {
+    const { data: submission, error } = await supabase
+      .from('task_submissions')
+      .upsert(
+        {
+          task_id: taskId,
+          user_id: user.id,
+          link: input.link?.trim() || null,
+          note: input.note?.trim() || null
+        },
+        { onConflict: 'task_id,user_id' }
+      )
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    for (const file of input.files || []) {
+      const storagePath = buildSubmissionPath(taskId, user.id, file.name);
+
+      const { error: uploadError } = await supabase.storage
+        .from(TASK_ATTACHMENTS_BUCKET)
+        .upload(storagePath, file, {
+          cacheControl: '3600',
+          contentType: file.type || undefined
+        });
+
+      if (uploadError) throw uploadError;
+      pendingPath = storagePath;
+
+      const { error: fileError } = await supabase
+        .from('task_submission_files')
+        .insert({
+          submission_id: submission.id,
+          file_name: file.name,
+          file_size: file.size,
+          mime_type: file.type || null,
+          storage_path: storagePath
+        });
+
+      if (fileError) throw fileError;
+      pendingPath = null;
+    }
+
+    const saved = await fetchMySubmission(taskId);
+    if (!saved) throw new Error('Submission not found');
+    return saved;
+  } catch (error) {
+    console.error('Error saving submission:', error);
+
+    if (pendingPath) {
+      await removeAttachmentFiles([pendingPath]);
+    }
+
+    throw new Error(getErrorMessage(error, 'Failed to submit'));
+  }
+}
+
+/**
+ * Removes one file from the student's submission
+ */
+export async function removeSubmissionFile(file: TaskSubmissionFile): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('task_submission_files')
+      .delete()
+      .eq('id', file.id)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw new Error('Submissions for this task are closed');
+
+    await removeAttachmentFiles([file.storagePath]);
+  } catch (error) {
+    console.error('Error removing submission file:', error);
+    throw new Error(getErrorMessage(error, 'Failed to remove file'));
+  }
+}
+
+/**
+ * Takes a submission back, with its files. Only possible while the task
+ * still accepts work.
+ */
+export async function withdrawSubmission(submission: TaskSubmission): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('task_submissions')
+      .delete()
+      .eq('id', submission.id)
+      .select('id');
+
+    if (error) throw error;
+    if (!data?.length) throw new Error('Submissions for this task are closed');
+
+    await removeAttachmentFiles(submission.files.map(file => file.storagePath));
+  } catch (error) {
+    console.error('Error withdrawing submission:', error);
+    throw new Error(getErrorMessage(error, 'Failed to withdraw submission'));
+  }
+}
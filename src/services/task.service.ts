@@ -1,7 +1,23 @@
 import { supabase } from '../lib/supabase';
 import { sendTaskNotification } from './telegram.service';
-import type { Task, NewTask } from '../types/task';
+import { sendPushBroadcast } from './notification.service';
+import { applyTaskProgress } from './taskProgress.service';
+import { fetchCurrentPermissionSubject, PermissionError } from './permission.service';
+import { moveToTrash } from './trash.service';
+import {
+  uploadTaskAttachments,
+  removeAttachmentFiles,
+  copyTaskAttachments,
+  mapAttachmentFromDB,
+  type TaskAttachmentRow
+} from './taskAttachment.service';
+import type { Task, NewTask, TaskBulkChanges, TaskBulkResult, TaskTargetSection } from '../types/task';
 import { mapTaskFromDB } from '../utils/taskMapper';
+import { can, getRoleScope, normalizeRole } from '../utils/permissions';
+import { APP_TIMEZONE, formatDueTime } from '../utils/taskDeadline';
+
+// Tasks are always loaded together with their attachment rows
+const TASK_SELECT = '*, task_attachments(*)';
 
 /**
  * Fetches tasks for a user, considering role and section
@@ -12,12 +28,12 @@ export const fetchTasks = async (userId: string, sectionId?: string | null): Pro
   try {
     // For development environment, return faster with reduced logging
     if (process.env.NODE_ENV === 'development') {
-      let query = supabase.from('tasks').select('*');
+      let query = supabase.from('tasks').select(TASK_SELECT);
       query = query.order('created_at', { ascending: false });
       const { data, error } = await query;
       
       if (error) throw error;
-      return data.map(mapTaskFromDB);
+      return applyTaskProgress(userId, data.map(mapTaskFromDB));
     }
     
     // Performance optimization: Use a timeout for the query
@@ -34,7 +50,7 @@ export const fetchTasks = async (userId: string, sectionId?: string | null): Pro
     const userSectionId = sectionId || user?.user_metadata?.section_id;
 
     // Start query builder - no filters needed as RLS handles permissions
-    let query = supabase.from('tasks').select('*');
+    let query = supabase.from('tasks').select(TASK_SELECT);
 
     // We only need to order the results, the Row Level Security policy 
     // will handle filtering based on user_id, is_admin_task, and section_id
@@ -51,8 +67,8 @@ export const fetchTasks = async (userId: string, sectionId?: string | null): Pro
       throw error;
     }
 
-    // Map database response to Task type
-    const tasks = data.map(mapTaskFromDB);
+    // Map database response to Task type, using the user's own progress for shared tasks
+    const tasks = await applyTaskProgress(userId, data.map(mapTaskFromDB));
     
     // Minimal logging in production
     if (process.env.NODE_ENV !== 'production') {
@@ -91,36 +107,6 @@ export const fetchTasks = async (userId: string, sectionId?: string | null): Pro
   }
 };
 
-async function uploadFile(file: File): Promise<string> {
-  try {
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${crypto.randomUUID()}.${fileExt}`;
-    const filePath = `task-files/${fileName}`;
-
-    const { error: uploadError } = await supabase.storage
-      .from('task-attachments')
-      .upload(filePath, file);
-
-    if (uploadError) throw uploadError;
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('task-attachments')
-      .getPublicUrl(filePath);
-
-    return publicUrl;
-  } catch (error) {
-    console.error('Error uploading file:', error);
-    throw error;
-  }
-}
-
-// Define interface for tracking uploaded files
-interface UploadedFile {
-  url: string;
-  name: string;
-  path: string;
-}
-
 /**
  * Creates a new task in the database
  * @param userId - The user ID creating the task
@@ -137,336 +123,43 @@ export const createTask = async (
       userId, 
       task,
       sectionId,
-      hasMobileFiles: !!(task as any)._mobileFiles,
-      isSectionAdminMobile: !!(task as any)._isSectionAdminMobile
+      fileCount: task.files?.length || 0
     });
 
     // Get user data to determine role
-    const { data: { user } } = await supabase.auth.getUser();
-    const userRole = user?.user_metadata?.role;
-    const userSectionId = user?.user_metadata?.section_id;
+    const subject = await fetchCurrentPermissionSubject();
+    const userRole = normalizeRole(subject?.role);
+    const userSectionId = subject?.sectionId;
+    const canManageTasks = can(subject, 'manageTasks');
     
     console.log('[Debug] User role and section when creating task:', { 
       userRole, 
       userSectionId 
     });
 
-    // Check for mobile file uploads
-    const mobileFiles = (task as any)._mobileFiles as File[] | undefined;
-    const isMobileUpload = !!mobileFiles && mobileFiles.length > 0;
-    const isSectionAdminMobile = !!(task as any)._isSectionAdminMobile;
-    const explicitSectionId = (task as any)._sectionId || sectionId;
-    
-    if (isMobileUpload) {
-      console.log('[Debug] Processing mobile file upload with', mobileFiles.length, 'files');
-      if (isSectionAdminMobile) {
-        console.log('[Debug] This is a section admin mobile upload with section ID:', explicitSectionId);
-      }
-    }
-    
-    let description = task.description;
-    
-    // Track uploaded files for cleanup in case of failure
-    const uploadedFiles: UploadedFile[] = [];
-    let fileUploadError: Error | null = null;
-    let totalUploadSize = 0;
-
-    // Wrap file upload in a promise with timeout
-    const uploadFileWithTimeout = async (file: File, timeoutMs = 60000): Promise<string> => {
-      return new Promise(async (resolve, reject) => {
-        // Create AbortController for better timeout control
-        const controller = new AbortController();
-        const signal = controller.signal;
-        
-        // Set a timeout to reject the promise if it takes too long
-        const timeoutId = setTimeout(() => {
-          controller.abort();
-          reject(new Error(`Upload timed out for file ${file.name} after ${timeoutMs/1000}s`));
-        }, timeoutMs);
-        
-        try {
-          // Wrap the file upload with the abort controller signal
-          const uploadWithSignal = async () => {
-            // Add some basic file validation
-            if (!file.name || file.size === 0) {
-              throw new Error(`Invalid file: ${file.name || "unnamed"} (${file.size} bytes)`);
-            }
-            
-            // Check size limits for mobile
-            if (file.size > 25 * 1024 * 1024) { // 25MB
-              throw new Error(`File too large: ${file.name} (${Math.round(file.size/1024/1024)}MB). Mobile file limit is 25MB.`);
-            }
-            
-            // Upload logic here with signal
-            const fileExt = file.name.split('.').pop();
-            const fileName = `${crypto.randomUUID()}.${fileExt}`;
-            const filePath = `task-files/${fileName}`;
-        
-            console.log(`[Debug] Starting upload for ${file.name} (${Math.round(file.size/1024)}KB) to ${filePath}`);
-        
-            const { error: uploadError } = await supabase.storage
-              .from('task-attachments')
-              .upload(filePath, file, {
-                // Add special options for mobile uploads
-                contentType: file.type,
-                cacheControl: '3600',
-                upsert: false
-              });
-        
-            if (uploadError) throw uploadError;
-        
-            const { data: { publicUrl } } = supabase.storage
-              .from('task-attachments')
-              .getPublicUrl(filePath);
-            
-            console.log(`[Debug] Successfully uploaded ${file.name} to ${filePath} (${publicUrl.slice(-20)})`);
-            return publicUrl;
-          };
-          
-          const url = await uploadWithSignal();
-          clearTimeout(timeoutId);
-          resolve(url);
-        } catch (error) {
-          clearTimeout(timeoutId);
-          
-          // Special handling for aborted requests
-          if (signal.aborted) {
-            reject(new Error(`Upload timed out for file ${file.name}`));
-          } else {
-            reject(error);
-          }
-        }
-      });
-    };
-    
-    // Process mobile files first if they exist
-    if (isMobileUpload && mobileFiles) {
-      try {
-        console.log('[Debug] Uploading mobile files', mobileFiles.map(f => ({name: f.name, size: f.size})));
-        
-        // Check total upload size
-        const totalSize = mobileFiles.reduce((sum, file) => sum + file.size, 0);
-        console.log(`[Debug] Total mobile upload size: ${Math.round(totalSize/1024/1024)}MB`);
-        
-        // Mobile upload size limit
-        if (totalSize > 100 * 1024 * 1024) { // 100MB total
-          throw new Error(`Total upload size too large: ${Math.round(totalSize/1024/1024)}MB exceeds 100MB limit for mobile uploads`);
-        }
-        
-        // Upload each mobile file with retry logic
-        for (const file of mobileFiles) {
-          if (!file.name || file.size === 0) {
-            console.warn('[Warning] Skipping invalid file', file);
-            continue;
-          }
-          
-          try {
-            console.log(`[Debug] Uploading mobile file: ${file.name} (${Math.round(file.size/1024)}KB)`);
-            
-            // Try up to 3 times with exponential backoff
-            let permanentUrl = '';
-            let attempts = 0;
-            let lastError: Error | null = null;
-            
-            while (attempts < 3 && !permanentUrl) {
-              try {
-                attempts++;
-                // Increase timeout for larger files
-                const timeout = Math.min(30000 + (file.size / 1024 / 10), 60000); // 30s base + 1s per 10KB, max 60s
-                permanentUrl = await uploadFileWithTimeout(file, timeout);
-                uploadedFiles.push({
-                  url: permanentUrl,
-                  name: file.name,
-                  path: new URL(permanentUrl).pathname.split('/').pop() || ''
-                });
-                totalUploadSize += file.size;
-                break;
-              } catch (uploadError) {
-                console.error(`[Error] Failed to upload mobile file (attempt ${attempts}/3):`, file.name, uploadError);
-                lastError = uploadError instanceof Error ? uploadError : new Error(String(uploadError));
-                // Wait with exponential backoff before retrying (1s, 2s, 4s)
-                if (attempts < 3) {
-                  const backoffMs = 1000 * Math.pow(2, attempts - 1);
-                  await new Promise(resolve => setTimeout(resolve, backoffMs));
-                }
-              }
-            }
-            
-            if (!permanentUrl) {
-              fileUploadError = lastError || new Error(`Failed to upload file after 3 attempts: ${file.name}`);
-              throw fileUploadError;
-            }
-            
-            // Update description to replace attachment references with permanent URLs
-            // Enhanced pattern matching with better handling for section admin mobile uploads
-            const attachmentPattern = new RegExp(`\\[${file.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\]\\(attachment:${file.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\)`, 'g');
-            const permanentRef = `[${file.name}](${permanentUrl})`;
-            
-            const oldDescription = description;
-            description = description.replace(attachmentPattern, permanentRef);
-            
-            if (oldDescription === description) {
-              // If the description didn't change, try a more general approach
-              console.warn('[Warning] Failed to find exact attachment reference, trying general pattern');
-              description = description.replace(/\[(.*?)\]\(attachment:(.*?)\)/g, (match, fileName, ref) => {
-                if (fileName === file.name) {
-                  return `[${fileName}](${permanentUrl})`;
-                }
-                return match;
-              });
-              
-              // Special case for section admin mobile uploads if still not found
-              if (oldDescription === description && isSectionAdminMobile) {
-                console.log('[Debug] Using fallback for section admin mobile file:', file.name);
-                // Add the attachment at the end if we couldn't find a match
-                if (!description.includes(`[${file.name}]`)) {
-                  description += `\n[${file.name}](${permanentUrl})`;
-                }
-              }
-            }
-            
-            console.log('[Debug] Replaced attachment reference with permanent URL');
-          } catch (fileError) {
-            console.error('[Error] Failed to upload mobile file:', file.name, fileError);
-            
-            // Store the first error encountered if not already set
-            if (!fileUploadError) {
-              fileUploadError = fileError instanceof Error ? fileError : new Error(String(fileError));
-            }
-            
-            // Continue trying other files instead of failing completely
-            continue;
-          }
-        }
-        
-        // If we had an upload error but managed to upload some files, continue with what we have
-        if (fileUploadError && uploadedFiles.length === 0) {
-          // Only throw if we couldn't upload ANY files
-          throw fileUploadError;
-        } else if (fileUploadError) {
-          console.warn('[Warning] Some files failed to upload, but continuing with successful uploads', 
-            { successful: uploadedFiles.length, failed: mobileFiles.length - uploadedFiles.length });
-        }
-        
-        // Log successful upload statistics
-        console.log(`[Debug] Successfully uploaded ${uploadedFiles.length}/${mobileFiles.length} files, total size: ${Math.round(totalUploadSize/1024/1024)}MB`);
-        
-        // Remove the mobile upload marker comment
-        description = description.replace(/\n<!-- mobile-uploads -->\n/g, '');
-      } catch (mobileUploadError) {
-        console.error('[Error] Mobile file upload process failed:', mobileUploadError);
-        
-        // Attempt to clean up any successfully uploaded files if the overall process failed
-        try {
-          if (uploadedFiles && uploadedFiles.length > 0) {
-            console.log(`[Debug] Cleaning up ${uploadedFiles.length} uploaded files after error`);
-            
-            // Clean up files in parallel
-            await Promise.allSettled(uploadedFiles.map(async (file: UploadedFile) => {
-              if (file.path) {
-                try {
-                  const { error } = await supabase.storage
-                    .from('task-attachments')
-                    .remove([`task-files/${file.path}`]);
-                    
-                  if (error) {
-                    console.error(`[Error] Failed to clean up file ${file.path}:`, error);
-                  } else {
-                    console.log(`[Debug] Successfully cleaned up file: ${file.path}`);
-                  }
-                } catch (cleanupError) {
-                  console.error(`[Error] Error during file cleanup for ${file.path}:`, cleanupError);
-                }
-              }
-            }));
-          }
-        } catch (cleanupError) {
-          console.error('[Error] Failed during cleanup after upload error:', cleanupError);
-        }
-        
-        // Re-throw the original error
-        throw mobileUploadError;
-      }
-    } else {
-      // Standard desktop file processing
-      // Extract file information from description
-      // Extract file information from description with improved regex
-      const fileMatches = description.match(/\[([^\]]+)\]\((blob:.*?|attachment:.*?)\)/g) || [];
-      console.log('[Debug] Found file matches in description:', fileMatches);
-
-      // Upload each file and update description with permanent URLs
-      for (const match of fileMatches) {
-        try {
-          // Updated regex to handle both blob: URLs (desktop) and attachment: references (mobile)
-          const matchResult = match.match(/\[(.*?)\]\((blob:(.*?)|attachment:(.*?))\)/);
-          if (!matchResult) continue;
-          
-          const [, fileName, urlWithPrefix] = matchResult;
-          const isBlob = urlWithPrefix?.startsWith('blob:');
-          console.log('[Debug] Processing file match:', { match, fileName, isBlob });
-          
-          if (fileName) {
-            try {
-              // If it's already an attachment reference without a blob URL, preserve it
-              if (!isBlob) {
-                console.log('[Debug] Skipping non-blob URL:', urlWithPrefix);
-                continue;
-              }
-              
-              // For blob URLs, process normally with timeout
-              if (isBlob) {
-                const fetchPromise = new Promise<Blob>(async (resolve, reject) => {
-                  try {
-                    console.log('[Debug] Fetching blob URL:', urlWithPrefix);
-                    const response = await fetch(urlWithPrefix);
-                    if (!response.ok) {
-                      reject(new Error(`Failed to fetch blob: ${response.status}`));
-                      return;
-                    }
-                    const blob = await response.blob();
-                    resolve(blob);
-                  } catch (error) {
-                    reject(error);
-                  }
-                });
-                
-                // Set up a timeout
-                const timeoutPromise = new Promise<never>((_, reject) => {
-                  setTimeout(() => reject(new Error('Blob fetch timed out')), 10000);
-                });
-                
-                // Race the fetch against the timeout
-                const blob = await Promise.race([fetchPromise, timeoutPromise]);
-                
-                const file = new File([blob], fileName, { type: blob.type });
-                const permanentUrl = await uploadFile(file);
-                description = description.replace(match, `[${fileName}](${permanentUrl})`);
-                console.log('[Debug] Uploaded file and replaced URL with:', permanentUrl);
-              }
-            } catch (error) {
-              console.error('[Error] Processing file failed:', { fileName, error });
-            }
-          }
-        } catch (matchError) {
-          console.error('[Error] Invalid file match format:', { match, error: matchError });
-        }
-      }
-    }
+    // Files are uploaded after the insert, once the task id is known
+    const files = (task.files || []).filter(file => file.name && file.size > 0);
+    const description = task.description;
 
     // Prepare the task data
     const taskInsertData: any = {
       name: task.name,
       category: task.category,
       due_date: task.dueDate,
+      due_at: task.dueAt || null,
+      due_timezone: task.dueTimezone || APP_TIMEZONE,
+      grace_minutes: task.gracePeriodMinutes || 0,
+      requires_submission: !!task.requiresSubmission,
       description: description,
       status: task.status,
       user_id: userId,
-      is_admin_task: userRole === 'admin' || userRole === 'section_admin' || userRole === 'section-admin' || false,
+      is_admin_task: canManageTasks,
+      priority: task.priority || null,
     };
 
     // Determine correct section_id based on role and available data
     // Section admin: Always set section_id to their section
-    if ((userRole === 'section_admin' || userRole === 'section-admin') && userSectionId) {
+    if (canManageTasks && getRoleScope(userRole) === 'section' && userSectionId) {
       taskInsertData.section_id = userSectionId;
       console.log('[Debug] Section admin creating task for section:', userSectionId);
       
@@ -477,6 +170,10 @@ export const createTask = async (
     } 
     // Explicitly provided section_id takes precedence for admins
     else if (sectionId) {
+      if (sectionId !== userSectionId && !can(subject, 'manageTasks', { sectionId })) {
+        throw new PermissionError('manageTasks', 'Permission denied: you cannot create tasks for another section');
+      }
+
       taskInsertData.section_id = sectionId;
       console.log('[Debug] Using provided section_id:', sectionId);
     } 
@@ -507,6 +204,17 @@ export const createTask = async (
 
     // Map database response to Task type
     const newTask = mapTaskFromDB(data);
+
+    if (files.length > 0) {
+      const { attachments, failed } = await uploadTaskAttachments(newTask.id, files);
+      newTask.attachments = attachments;
+
+      if (failed.length > 0) {
+        console.warn('[Warning] Some attachments failed to upload:', failed);
+      }
+    } else {
+      newTask.attachments = [];
+    }
     
     // Send notifications if it's an admin task
     if (newTask.isAdminTask) {
@@ -523,60 +231,28 @@ export const createTask = async (
 
 async function sendPushNotifications(task: Task) {
   try {
-    // Get all push subscriptions
-    const { data: subscriptions, error } = await supabase
-      .from('push_subscriptions')
-      .select('subscription');
-
-    if (error) throw error;
-    if (!subscriptions?.length) return;
-
-    // Prepare notification payload
-    const payload = {
-      title: 'New Admin Task',
-      body: `${task.name} - Due: ${new Date(task.dueDate).toLocaleDateString()}`,
-      tag: `admin-task-${task.id}`,
-      data: {
-        url: '/',
-        taskId: task.id,
-        type: 'admin-task'
+    // Without a section the function falls back to the creator's batch or department
+    await sendPushBroadcast(
+      { sectionId: task.sectionId },
+      {
+        title: 'New Admin Task',
+        body: `${task.name} - Due: ${new Date(task.dueDate).toLocaleDateString()}, ${formatDueTime(task)}`,
+        tag: `admin-task-${task.id}`,
+        data: {
+          url: '/',
+          taskId: task.id,
+          type: 'admin-task'
+        },
+        requireInteraction: true,
+        actions: [
+          {
+            action: 'view',
+            title: 'View Task'
+          }
+        ]
       },
-      requireInteraction: true,
-      actions: [
-        {
-          action: 'view',
-          title: 'View Task'
-        }
-      ]
-    };
-
-    // Send push notification to each subscription
-    const notifications = subscriptions.map(async ({ subscription }) => {
-      try {
-        const parsedSubscription = JSON.parse(subscription);
-        
-        // Send notification using the Supabase Edge Function
-        const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/push-notification`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
-          },
-          body: JSON.stringify({
-            subscription: parsedSubscription,
-            payload: JSON.stringify(payload)
-          })
-        });
-
-        if (!response.ok) {
-          throw new Error('Failed to send push notification');
-        }
-      } catch (error) {
-        console.error('Error sending push notification:', error);
-      }
-    });
-
-    await Promise.allSettled(notifications);
+      { taskId: task.id }
+    );
   } catch (error) {
     console.error('Error sending notifications:', error);
   }
@@ -589,16 +265,21 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
     if (updates.name !== undefined) dbUpdates.name = updates.name;
     if (updates.category !== undefined) dbUpdates.category = updates.category;
     if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
+    if (updates.dueAt !== undefined) dbUpdates.due_at = updates.dueAt;
+    if (updates.dueTimezone !== undefined) dbUpdates.due_timezone = updates.dueTimezone;
+    if (updates.gracePeriodMinutes !== undefined) dbUpdates.grace_minutes = updates.gracePeriodMinutes;
+    if (updates.requiresSubmission !== undefined) dbUpdates.requires_submission = updates.requiresSubmission;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
     if (updates.status !== undefined) dbUpdates.status = updates.status;
     if (updates.sectionId !== undefined) dbUpdates.section_id = updates.sectionId;
+    if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
 
     // Update task
     const { data, error } = await supabase
       .from('tasks')
       .update(dbUpdates)
       .eq('id', taskId)
-      .select('id, name, category, due_date, description, status, created_at, is_admin_task, section_id')
+      .select('id, name, category, due_date, due_at, due_timezone, grace_minutes, requires_submission, description, status, created_at, is_admin_task, section_id, priority')
       .single();
 
     if (error) {
@@ -616,11 +297,16 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
       name: data.name,
       category: data.category,
       dueDate: data.due_date,
+      dueAt: data.due_at,
+      dueTimezone: data.due_timezone,
+      gracePeriodMinutes: data.grace_minutes,
+      requiresSubmission: data.requires_submission,
       description: data.description,
       status: data.status,
       createdAt: data.created_at,
       isAdminTask: data.is_admin_task,
-      sectionId: data.section_id
+      sectionId: data.section_id,
+      priority: data.priority || undefined
     };
   } catch (error: any) {
     console.error('Error updating task:', error);
@@ -628,16 +314,164 @@ export async function updateTask(taskId: string, updates: Partial<Task>) {
   }
 }
 
+/**
+ * Moves an admin task to the trash. Personal tasks have no trash and are
+ * deleted right away together with their files.
+ */
 export async function deleteTask(taskId: string) {
   try {
+    const { data: task, error: fetchError } = await supabase
+      .from('tasks')
+      .select('is_admin_task')
+      .eq('id', taskId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    if (task.is_admin_task) {
+      await moveToTrash('tasks', taskId);
+      return;
+    }
+
+    // Look up the files first; the attachment rows go away with the task
+    const { data: attachmentRows } = await supabase
+      .from('task_attachments')
+      .select('storage_path')
+      .eq('task_id', taskId);
+
     const { error } = await supabase
       .from('tasks')
       .delete()
       .eq('id', taskId);
 
     if (error) throw error;
+
+    await removeAttachmentFiles(
+      ((attachmentRows || []) as Pick<TaskAttachmentRow, 'storage_path'>[]).map(row => row.storage_path)
+    );
   } catch (error: any) {
     console.error('Error deleting task:', error);
     throw new Error(error.message || 'Failed to delete task');
   }
-}
\ No newline at end of file
+}
+interface BulkTaskRow {
+  task_id: string;
+  error: string | null;
+}
+
+function toBulkResult(rows: BulkTaskRow[]): TaskBulkResult {
+  const errors = rows
+    .filter(row => row.error)
+    .map(row => ({ taskId: row.task_id, message: row.error as string }));
+
+  return { success: rows.length - errors.length, errors };
+}
+
+/**
+ * Applies the same changes to many admin tasks in one transaction
+ * @param taskIds - The selected tasks
+ * @param changes - What to change; fields left out stay as they are
+ * @returns How many tasks changed and why the others did not
+ */
+export async function bulkUpdateTasks(taskIds: string[], changes: TaskBulkChanges): Promise<TaskBulkResult> {
+  try {
+    const { data, error } = await supabase.rpc('bulk_update_tasks', {
+      p_task_ids: taskIds,
+      p_changes: changes
+    });
+
+    if (error) throw error;
+    return toBulkResult((data || []) as BulkTaskRow[]);
+  } catch (error: any) {
+    console.error('Error updating tasks:', error);
+    throw new Error(error.message || 'Failed to update tasks');
+  }
+}
+
+/**
+ * Moves many admin tasks to the trash in one transaction
+ */
+export async function bulkDeleteTasks(taskIds: string[]): Promise<TaskBulkResult> {
+  try {
+    const { data, error } = await supabase.rpc('bulk_delete_tasks', {
+      p_task_ids: taskIds
+    });
+
+    if (error) throw error;
+    return toBulkResult((data || []) as BulkTaskRow[]);
+  } catch (error: any) {
+    console.error('Error deleting tasks:', error);
+    throw new Error(error.message || 'Failed to delete tasks');
+  }
+}
+
+/**
+ * Copies admin tasks into other sections. The tasks are created in one
+ * transaction; their attachments are copied afterwards, and a file that
+ * fails to copy is reported as a warning.
+ * @returns `success` counts the copies made, not the source tasks
+ */
+export async function duplicateTasksToSections(taskIds: string[], sectionIds: string[]): Promise<TaskBulkResult> {
+  try {
+    const { data, error } = await supabase.rpc('duplicate_tasks_to_sections', {
+      p_task_ids: taskIds,
+      p_section_ids: sectionIds
+    });
+
+    if (error) throw error;
+
+    const rows = (data || []) as (BulkTaskRow & { section_id: string; new_task_id: string | null })[];
+    const result = toBulkResult(rows);
+    const copies = rows.filter(row => row.new_task_id);
+
+    if (copies.length > 0) {
+      const { data: attachmentRows, error: attachmentsError } = await supabase
+        .from('task_attachments')
+        .select('*')
+        .in('task_id', Array.from(new Set(copies.map(row => row.task_id))));
+
+      if (attachmentsError) throw attachmentsError;
+
+      const attachments = ((attachmentRows || []) as TaskAttachmentRow[]).map(mapAttachmentFromDB);
+
+      for (const copy of copies) {
+        const sourceAttachments = attachments.filter(attachment => attachment.taskId === copy.task_id);
+        if (sourceAttachments.length === 0) continue;
+
+        const failed = await copyTaskAttachments(sourceAttachments, copy.new_task_id as string);
+        failed.forEach(fileName => {
+          result.errors.push({
+            taskId: copy.task_id,
+            message: `Copied without attachment "${fileName}"`,
+            isWarning: true
+          });
+        });
+      }
+    }
+
+    return result;
+  } catch (error: any) {
+    console.error('Error duplicating tasks:', error);
+    throw new Error(error.message || 'Failed to duplicate tasks');
+  }
+}
+
+/**
+ * Lists the sections the current admin may move or copy tasks into
+ */
+export async function fetchTaskTargetSections(): Promise<TaskTargetSection[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_task_target_sections');
+
+    if (error) throw error;
+
+    return ((data || []) as { id: string; name: string; batch_name: string | null }[]).map(row => ({
+      id: row.id,
+      name: row.name,
+      batchName: row.batch_name || undefined
+    }));
+  } catch (error) {
+    console.error('Error fetching task target sections:', error);
+    throw error;
+  }
+}
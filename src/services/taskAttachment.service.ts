@@ -0,0 +1,256 @@
+import { supabase } from '../lib/supabase';
+import type { TaskAttachment } from '../types/task';
+
+export const TASK_ATTACHMENTS_BUCKET = 'task-attachments';
+
+export interface TaskAttachmentRow {
+  id: string;
+  task_id: string;
+  file_name: string;
+  file_size: number | null;
+  mime_type: string | null;
+  storage_path: string;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export function getAttachmentUrl(storagePath: string): string {
+  const { data: { publicUrl } } = supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .getPublicUrl(storagePath);
+
+  return publicUrl;
+}
+
+export function mapAttachmentFromDB(row: TaskAttachmentRow): TaskAttachment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    fileName: row.file_name,
+    fileSize: row.file_size || 0,
+    mimeType: row.mime_type,
+    storagePath: row.storage_path,
+    uploadedBy: row.uploaded_by,
+    createdAt: row.created_at,
+    url: getAttachmentUrl(row.storage_path)
+  };
+}
+
+// Every file gets its own path in the task's folder
+function buildStoragePath(taskId: string, fileName: string): string {
+  const fileExt = fileName.includes('.') ? `.${fileName.split('.').pop()}` : '';
+  return `tasks/${taskId}/${crypto.randomUUID()}${fileExt}`;
+}
+
+/**
+ * Uploads a file into the task's folder and returns its storage path
+ */
+async function uploadToStorage(taskId: string, file: File): Promise<string> {
+  const storagePath = buildStoragePath(taskId, file.name);
+
+  const { error } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .upload(storagePath, file, {
+      cacheControl: '3600',
+      contentType: file.type || undefined
+    });
+
+  if (error) throw error;
+  return storagePath;
+}
+
+/**
+ * Removes files from storage; failures are logged, not thrown, so callers
+ * can use this for best-effort cleanup
+ */
+export async function removeAttachmentFiles(storagePaths: string[]): Promise<void> {
+  if (storagePaths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(TASK_ATTACHMENTS_BUCKET)
+    .remove(storagePaths);
+
+  if (error) {
+    console.error('Error removing attachment files:', error);
+  }
+}
+
+export async function fetchTaskAttachments(taskId: string): Promise<TaskAttachment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as TaskAttachmentRow[]).map(mapAttachmentFromDB);
+  } catch (error) {
+    console.error('Error fetching task attachments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Uploads a file and records it as an attachment of the task
+ * @param taskId - The task the file belongs to
+ * @param file - The file picked by the user
+ */
+export async function uploadTaskAttachment(taskId: string, file: File): Promise<TaskAttachment> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  let storagePath: string | null = null;
+
+  try {
+    storagePath = await uploadToStorage(taskId, file);
+
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .insert({
+        task_id: taskId,
+        file_name: file.name,
+        file_size: file.size,
+        mime_type: file.type || null,
+        storage_path: storagePath,
+        uploaded_by: user.id
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapAttachmentFromDB(data as TaskAttachmentRow);
+  } catch (error) {
+    console.error('Error uploading task attachment:', error);
+
+    // Don't leave an unreferenced file behind
+    if (storagePath) {
+      await removeAttachmentFiles([storagePath]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Uploads several files, returning the ones that succeeded and the names that failed
+ */
+export async function uploadTaskAttachments(
+  taskId: string,
+  files: File[]
+): Promise<{ attachments: TaskAttachment[]; failed: string[] }> {
+  const results = await Promise.allSettled(
+    files.map(file => uploadTaskAttachment(taskId, file))
+  );
+
+  const attachments: TaskAttachment[] = [];
+  const failed: string[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      attachments.push(result.value);
+    } else {
+      failed.push(files[index].name);
+    }
+  });
+
+  return { attachments, failed };
+}
+
+/**
+ * Copies attachments to another task. Each copy is a separate file, so
+ * deleting either task never removes the other's attachments.
+ * @returns The names of the files that could not be copied
+ */
+export async function copyTaskAttachments(
+  attachments: TaskAttachment[],
+  targetTaskId: string
+): Promise<string[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const results = await Promise.allSettled(attachments.map(async attachment => {
+    const storagePath = buildStoragePath(targetTaskId, attachment.fileName);
+
+    const { error: copyError } = await supabase.storage
+      .from(TASK_ATTACHMENTS_BUCKET)
+      .copy(attachment.storagePath, storagePath);
+
+    if (copyError) throw copyError;
+
+    const { error } = await supabase
+      .from('task_attachments')
+      .insert({
+        task_id: targetTaskId,
+        file_name: attachment.fileName,
+        file_size: attachment.fileSize,
+        mime_type: attachment.mimeType || null,
+        storage_path: storagePath,
+        uploaded_by: user.id
+      });
+
+    if (error) {
+      await removeAttachmentFiles([storagePath]);
+      throw error;
+    }
+  }));
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return [];
+    console.error('Error copying task attachment:', result.reason);
+    return [attachments[index].fileName];
+  });
+}
+
+/**
+ * Swaps the file behind an attachment, keeping the same attachment id
+ */
+export async function replaceTaskAttachment(
+  attachment: TaskAttachment,
+  file: File
+): Promise<TaskAttachment> {
+  let storagePath: string | null = null;
+
+  try {
+    storagePath = await uploadToStorage(attachment.taskId, file);
+
+    const { data, error } = await supabase
+      .from('task_attachments')
+      .update({
+        file_name: file.name,
+        file_size: file.size,
+        mime_type: file.type || null,
+        storage_path: storagePath
+      })
+      .eq('id', attachment.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await removeAttachmentFiles([attachment.storagePath]);
+    return mapAttachmentFromDB(data as TaskAttachmentRow);
+  } catch (error) {
+    console.error('Error replacing task attachment:', error);
+
+    if (storagePath) {
+      await removeAttachmentFiles([storagePath]);
+    }
+    throw error;
+  }
+}
+
+export async function deleteTaskAttachment(attachment: TaskAttachment): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('task_attachments')
+      .delete()
+      .eq('id', attachment.id);
+
+    if (error) throw error;
+
+    await removeAttachmentFiles([attachment.storagePath]);
+  } catch (error) {
+    console.error('Error deleting task attachment:', error);
+    throw error;
+  }
+}
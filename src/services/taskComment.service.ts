@@ -0,0 +1,135 @@
+import { supabase } from '../lib/supabase';
+import { getErrorMessage } from '../utils/errors';
+import type { TaskComment } from '../types/taskComment';
+
+export interface TaskCommentRow {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  user_id: string;
+  author_name: string;
+  author_is_staff: boolean;
+  body: string;
+  is_pinned: boolean;
+  pinned_at: string | null;
+  edited_at: string | null;
+  created_at: string;
+}
+
+export const mapTaskCommentFromDB = (row: TaskCommentRow): TaskComment => ({
+  id: row.id,
+  taskId: row.task_id,
+  parentId: row.parent_id || undefined,
+  userId: row.user_id,
+  authorName: row.author_name,
+  authorIsStaff: row.author_is_staff,
+  body: row.body,
+  isPinned: row.is_pinned,
+  pinnedAt: row.pinned_at || undefined,
+  editedAt: row.edited_at || undefined,
+  createdAt: row.created_at
+});
+
+export async function fetchTaskComments(taskId: string): Promise<TaskComment[]> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return ((data || []) as TaskCommentRow[]).map(mapTaskCommentFromDB);
+  } catch (error) {
+    console.error('Error fetching task comments:', error);
+    throw error;
+  }
+}
+
+/**
+ * Posts a question or comment, or a reply when `parentId` is given
+ */
+export async function addTaskComment(taskId: string, body: string, parentId?: string): Promise<TaskComment> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('task_comments')
+      .insert({
+        task_id: taskId,
+        parent_id: parentId || null,
+        user_id: user.id,
+        body: body.trim()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapTaskCommentFromDB(data as TaskCommentRow);
+  } catch (error) {
+    console.error('Error adding task comment:', error);
+    throw new Error(getErrorMessage(error, 'Failed to post comment'));
+  }
+}
+
+/**
+ * Changes the text of one's own comment; the database marks it edited
+ */
+export async function editTaskComment(id: string, body: string): Promise<TaskComment> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .update({ body: body.trim() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapTaskCommentFromDB(data as TaskCommentRow);
+  } catch (error) {
+    console.error('Error editing task comment:', error);
+    throw new Error(getErrorMessage(error, 'Failed to edit comment'));
+  }
+}
+
+/**
+ * Pins or unpins an answer; only for those who manage the task
+ */
+export async function setTaskCommentPinned(id: string, pinned: boolean): Promise<TaskComment> {
+  try {
+    const { data, error } = await supabase
+      .from('task_comments')
+      .update({ is_pinned: pinned })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapTaskCommentFromDB(data as TaskCommentRow);
+  } catch (error) {
+    console.error('Error pinning task comment:', error);
+    throw new Error(getErrorMessage(error, 'Failed to pin comment'));
+  }
+}
+
+/**
+ * Deletes a comment together with its replies
+ */
+export async function deleteTaskComment(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('task_comments')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting task comment:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabase';
+import type { Task, TaskStatus, TaskProgress, TaskCompletionSummary } from '../types/task';
+
+interface TaskProgressRow {
+  task_id: string;
+  user_id: string;
+  status: TaskStatus;
+  completed_at: string | null;
+  updated_at: string;
+}
+
+interface TaskCompletionRow {
+  task_id: string;
+  completed_count: number | null;
+  in_progress_count: number | null;
+  total_students: number | null;
+}
+
+function mapProgressFromDB(row: TaskProgressRow): TaskProgress {
+  return {
+    taskId: row.task_id,
+    userId: row.user_id,
+    status: row.status,
+    completedAt: row.completed_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Fetches the current user's own progress rows for the given tasks
+ * @param userId - The student whose progress is loaded
+ * @param taskIds - Restrict the lookup to these tasks (all rows if omitted)
+ */
+export async function fetchTaskProgress(userId: string, taskIds?: string[]): Promise<TaskProgress[]> {
+  try {
+    let query = supabase
+      .from('task_progress')
+      .select('task_id, user_id, status, completed_at, updated_at')
+      .eq('user_id', userId);
+
+    if (taskIds) {
+      if (taskIds.length === 0) return [];
+      query = query.in('task_id', taskIds);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return ((data || []) as TaskProgressRow[]).map(mapProgressFromDB);
+  } catch (error) {
+    console.error('Error fetching task progress:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stores a student's own status for a shared task
+ */
+export async function updateTaskProgress(
+  userId: string,
+  taskId: string,
+  status: TaskStatus
+): Promise<TaskProgress> {
+  try {
+    const { data, error } = await supabase
+      .from('task_progress')
+      .upsert(
+        { task_id: taskId, user_id: userId, status },
+        { onConflict: 'task_id,user_id' }
+      )
+      .select('task_id, user_id, status, completed_at, updated_at')
+      .single();
+
+    if (error) throw error;
+    return mapProgressFromDB(data as TaskProgressRow);
+  } catch (error) {
+    console.error('Error updating task progress:', error);
+    throw error;
+  }
+}
+
+/**
+ * Replaces the shared status of admin/section tasks with the user's own progress.
+ * Admin tasks the user has not touched yet start out as 'my-tasks'.
+ */
+export async function applyTaskProgress(userId: string, tasks: Task[]): Promise<Task[]> {
+  const sharedTaskIds = tasks.filter(task => task.isAdminTask).map(task => task.id);
+  if (sharedTaskIds.length === 0) return tasks;
+
+  try {
+    const progress = await fetchTaskProgress(userId, sharedTaskIds);
+    const statusByTask = new Map(progress.map(row => [row.taskId, row.status]));
+
+    return tasks.map(task => {
+      if (!task.isAdminTask) return task;
+      return { ...task, status: statusByTask.get(task.id) || 'my-tasks' };
+    });
+  } catch (error) {
+    // Fall back to the shared status rather than failing the whole task list
+    console.error('Error applying task progress:', error);
+    return tasks;
+  }
+}
+
+/**
+ * Fetches "X of Y students completed" counts for all tasks of a section
+ */
+export async function fetchSectionTaskCompletion(sectionId: string): Promise<TaskCompletionSummary[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_section_task_completion', {
+      section_uuid: sectionId
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as TaskCompletionRow[]).map(row => ({
+      taskId: row.task_id,
+      completedCount: row.completed_count || 0,
+      inProgressCount: row.in_progress_count || 0,
+      totalStudents: row.total_students || 0
+    }));
+  } catch (error) {
+    console.error('Error fetching section task completion:', error);
+    throw error;
+  }
+}
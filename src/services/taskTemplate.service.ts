@@ -0,0 +1,295 @@
+import { supabase } from '../lib/supabase';
+import { getErrorMessage } from '../utils/errors';
+import type {
+  NewTaskTemplate,
+  TaskRecurrenceRule,
+  TaskTemplate,
+  TaskTemplateOccurrence
+} from '../types/taskTemplate';
+
+interface TaskTemplateRow {
+  id: string;
+  section_id: string | null;
+  name: string;
+  category: TaskTemplate['category'];
+  description: string | null;
+  priority: TaskTemplate['priority'] | null;
+  recurrence_type: TaskTemplate['recurrenceType'];
+  weekdays: string[] | null;
+  interval_days: number | null;
+  routine_slot_id: string | null;
+  start_date: string;
+  end_date: string | null;
+  generate_ahead_days: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapTaskTemplateFromDB = (row: TaskTemplateRow): TaskTemplate => ({
+  id: row.id,
+  sectionId: row.section_id || undefined,
+  name: row.name,
+  category: row.category,
+  description: row.description || '',
+  priority: row.priority || undefined,
+  recurrenceType: row.recurrence_type,
+  weekdays: row.weekdays || [],
+  intervalDays: row.interval_days || undefined,
+  routineSlotId: row.routine_slot_id || undefined,
+  startDate: row.start_date,
+  endDate: row.end_date || undefined,
+  generateAheadDays: row.generate_ahead_days,
+  isActive: row.is_active,
+  createdBy: row.created_by || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapTaskTemplateToDB = (template: Partial<NewTaskTemplate>) => {
+  const row: Record<string, unknown> = {};
+
+  if (template.sectionId !== undefined) row.section_id = template.sectionId || null;
+  if (template.name !== undefined) row.name = template.name;
+  if (template.category !== undefined) row.category = template.category;
+  if (template.description !== undefined) row.description = template.description;
+  if (template.priority !== undefined) row.priority = template.priority || null;
+  if (template.recurrenceType !== undefined) row.recurrence_type = template.recurrenceType;
+  if (template.weekdays !== undefined) row.weekdays = template.weekdays;
+  if (template.intervalDays !== undefined) row.interval_days = template.intervalDays || null;
+  if (template.routineSlotId !== undefined) row.routine_slot_id = template.routineSlotId || null;
+  if (template.startDate !== undefined) row.start_date = template.startDate;
+  if (template.endDate !== undefined) row.end_date = template.endDate || null;
+  if (template.generateAheadDays !== undefined) row.generate_ahead_days = template.generateAheadDays;
+  if (template.isActive !== undefined) row.is_active = template.isActive;
+
+  return row;
+};
+
+/**
+ * Lists the recurring task templates the signed-in admin manages
+ * @param sectionId Only templates of this section; all permitted ones if omitted
+ */
+export async function fetchTaskTemplates(sectionId?: string): Promise<TaskTemplate[]> {
+  try {
+    let query = supabase
+      .from('task_templates')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (sectionId) {
+      query = query.eq('section_id', sectionId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []).map(mapTaskTemplateFromDB);
+  } catch (error) {
+    console.error('Error fetching task templates:', error);
+    throw error;
+  }
+}
+
+/**
+ * Of the given routine slots, the ones no longer in an active routine.
+ * Templates tied to them produce no dates until the slot comes back.
+ */
+export async function fetchMissingRoutineSlotIds(slotIds: string[]): Promise<string[]> {
+  if (slotIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('routine_slots')
+      .select('id, routines!inner(is_active)')
+      .in('id', slotIds)
+      .is('deleted_at', null)
+      .is('routines.deleted_at', null)
+      .eq('routines.is_active', true);
+
+    if (error) throw error;
+
+    const live = new Set(((data || []) as { id: string }[]).map(row => row.id));
+    return slotIds.filter(id => !live.has(id));
+  } catch (error) {
+    console.error('Error checking template routine slots:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates a template and right away generates the tasks that fall within
+ * its generate-ahead window
+ */
+export async function createTaskTemplate(template: NewTaskTemplate): Promise<TaskTemplate> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('task_templates')
+      .insert({ ...mapTaskTemplateToDB(template), created_by: user.id })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await generateTemplateTasks(data.id);
+
+    return mapTaskTemplateFromDB(data);
+  } catch (error) {
+    console.error('Error creating task template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to create template'));
+  }
+}
+
+/**
+ * Updates a template. Tasks already generated keep their own values; the
+ * changes apply to occurrences that are generated from now on.
+ */
+export async function updateTaskTemplate(id: string, updates: Partial<NewTaskTemplate>): Promise<TaskTemplate> {
+  try {
+    const { data, error } = await supabase
+      .from('task_templates')
+      .update({ ...mapTaskTemplateToDB(updates), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (data.is_active) {
+      await generateTemplateTasks(id);
+    }
+
+    return mapTaskTemplateFromDB(data);
+  } catch (error) {
+    console.error('Error updating task template:', error);
+    throw new Error(getErrorMessage(error, 'Failed to update template'));
+  }
+}
+
+/**
+ * Deletes a template. Tasks it already created are kept.
+ */
+export async function deleteTaskTemplate(id: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('task_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting task template:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates the tasks that are due to be created
+ * @param templateId One template; every template the admin manages if omitted
+ * @returns The number of tasks created
+ */
+export async function generateTemplateTasks(templateId?: string): Promise<number> {
+  try {
+    const { data, error } = await supabase.rpc('generate_template_tasks', {
+      p_template_id: templateId || null
+    });
+
+    if (error) throw error;
+
+    return (data as number) || 0;
+  } catch (error) {
+    console.error('Error generating template tasks:', error);
+    throw new Error(getErrorMessage(error, 'Failed to generate tasks'));
+  }
+}
+
+/**
+ * The next dates a rule produces from today, for previewing a template
+ * before it is saved
+ */
+export async function previewTemplateDates(rule: TaskRecurrenceRule, limit = 8): Promise<string[]> {
+  try {
+    const { data, error } = await supabase.rpc('preview_task_template', {
+      p_recurrence_type: rule.recurrenceType,
+      p_weekdays: rule.weekdays,
+      p_interval_days: rule.intervalDays || null,
+      p_routine_slot_id: rule.routineSlotId || null,
+      p_start_date: rule.startDate,
+      p_end_date: rule.endDate || null,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+
+    return (data || []) as string[];
+  } catch (error) {
+    console.error('Error previewing template dates:', error);
+    throw error;
+  }
+}
+
+/**
+ * Upcoming dates of a template with what happened to each
+ */
+export async function fetchTemplateOccurrences(templateId: string, limit = 10): Promise<TaskTemplateOccurrence[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_task_template_occurrences', {
+      p_template_id: templateId,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as { occurrence_date: string; task_id: string | null; skipped: boolean; generated: boolean }[])
+      .map(row => ({
+        date: row.occurrence_date,
+        taskId: row.task_id || undefined,
+        skipped: row.skipped,
+        generated: row.generated
+      }));
+  } catch (error) {
+    console.error('Error fetching template occurrences:', error);
+    throw error;
+  }
+}
+
+/**
+ * Takes one date out of the series. Its task, if already created, goes to
+ * the trash.
+ */
+export async function skipTemplateOccurrence(templateId: string, date: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('skip_task_occurrence', {
+      p_template_id: templateId,
+      p_date: date
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error skipping occurrence:', error);
+    throw new Error(getErrorMessage(error, 'Failed to skip occurrence'));
+  }
+}
+
+/**
+ * Puts a skipped date back into the series, restoring its task from the
+ * trash or creating it
+ */
+export async function unskipTemplateOccurrence(templateId: string, date: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('unskip_task_occurrence', {
+      p_template_id: templateId,
+      p_date: date
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error restoring occurrence:', error);
+    throw new Error(getErrorMessage(error, 'Failed to restore occurrence'));
+  }
+}
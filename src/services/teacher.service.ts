@@ -1,4 +1,7 @@
 import { supabase } from '../lib/supabase';
+import { getRoleScope, normalizeRole } from '../utils/permissions';
+import { requirePermission } from './permission.service';
+import { moveToTrash } from './trash.service';
 import type { Teacher, NewTeacher } from '../types/teacher';
 import type { Course } from '../types/course';
 
@@ -138,20 +141,13 @@ export async function checkTeacherNameExists(name: string): Promise<boolean> {
 
 export async function createTeacher(teacher: NewTeacher, courseIds: string[]): Promise<Teacher> {
   try {
-    // First, check if the current user has permission
-    const { data: { user } } = await supabase.auth.getUser();
-    const userRole = user?.user_metadata?.role;
+    const subject = await requirePermission('manageTeachers');
+    const userRole = normalizeRole(subject.role);
     
-    // Allow if user is admin or section_admin
-    if (!userRole || (userRole !== 'admin' && userRole !== 'section_admin')) {
-      console.error('Permission denied: User is not admin or section_admin');
-      throw new Error('Permission denied: Only admins and section admins can create teachers');
-    }
-    
-    // If user is section_admin, ensure they are setting a department
-    if (userRole === 'section_admin' && !teacher.department) {
+    // Scoped admins add teachers to their own section
+    if (getRoleScope(userRole) !== 'global' && !teacher.department) {
       // Get the user's section ID and use it as the department
-      const userSectionId = user?.user_metadata?.sectionId;
+      const userSectionId = subject.sectionId;
       if (userSectionId) {
         console.log('Setting department for section admin teacher to:', userSectionId);
         teacher.department = userSectionId;
@@ -171,7 +167,7 @@ export async function createTeacher(teacher: NewTeacher, courseIds: string[]): P
     console.log(`Creating teacher as ${userRole}:`, {
       teacherName: teacher.name,
       department: teacher.department,
-      userSection: user?.user_metadata?.sectionId
+      userSection: subject.sectionId
     });
     
     // Continue with creating the teacher
@@ -295,151 +291,15 @@ export async function updateTeacher(
   }
 }
 
+/**
+ * Moves a teacher to the trash. Their course assignments are kept so they
+ * come back on restore; purging the teacher removes them.
+ */
 export async function deleteTeacher(id: string): Promise<void> {
   try {
-    console.log(`Starting deletion process for teacher: ${id}`);
-    
-    // Begin a transaction
-    // First, check if teacher exists to provide early feedback
-    const { data: teacherExists, error: teacherExistsError } = await supabase
-      .from('teachers')
-      .select('id, name')
-      .eq('id', id)
-      .maybeSingle();
-      
-    if (teacherExistsError) {
-      console.error('Error checking if teacher exists:', teacherExistsError);
-      throw teacherExistsError;
-    }
-    
-    if (!teacherExists) {
-      console.log(`Teacher with ID ${id} not found, nothing to delete`);
-      return; // Nothing to delete, so exit early
-    }
-    
-    console.log(`Found teacher with ID ${id} (${teacherExists.name}), proceeding with deletion`);
-    
-    // CHECK FOR FOREIGN KEY ISSUE: Check if the teacher is referenced in courses
-    const { data: coursesWithTeacher, error: coursesCheckError } = await supabase
-      .from('courses')
-      .select('id, name, code')
-      .eq('teacher_id', id);
-    
-    if (coursesCheckError) {
-      console.error('Error checking for courses with teacher reference:', coursesCheckError);
-    } else if (coursesWithTeacher && coursesWithTeacher.length > 0) {
-      console.log(`Found ${coursesWithTeacher.length} courses referencing teacher ${id}. Removing references...`);
-      
-      // 1. First, ensure all courses have proper associations in teacher_courses
-      for (const course of coursesWithTeacher) {
-        console.log(`Checking teacher_courses association for course: ${course.id} (${course.code})`);
-        
-        // Check if association already exists
-        const { data: existingAssoc, error: assocCheckError } = await supabase
-          .from('teacher_courses')
-          .select('*')
-          .eq('teacher_id', id)
-          .eq('course_id', course.id)
-          .maybeSingle();
-          
-        if (assocCheckError) {
-          console.error(`Error checking teacher_courses for course ${course.id}:`, assocCheckError);
-        } else if (!existingAssoc) {
-          // Create the association properly in teacher_courses
-          console.log(`Creating proper teacher_courses association for course: ${course.id}`);
-          const { error: createAssocError } = await supabase
-            .from('teacher_courses')
-            .insert({
-              teacher_id: id,
-              course_id: course.id
-            });
-            
-          if (createAssocError) {
-            console.error(`Error creating teacher_courses association for course ${course.id}:`, createAssocError);
-          }
-        } else {
-          console.log(`Teacher-course association already exists for course ${course.id}`);
-        }
-      }
-      
-      // 2. Remove the direct references in courses table
-      console.log(`Removing teacher_id references from ${coursesWithTeacher.length} courses`);
-      const { error: updateCoursesError } = await supabase
-        .from('courses')
-        .update({ teacher_id: null })
-        .eq('teacher_id', id);
-        
-      if (updateCoursesError) {
-        console.error('Error removing teacher_id references from courses:', updateCoursesError);
-        throw new Error(`Failed to remove teacher references from courses: ${updateCoursesError.message}`);
-      }
-      
-      // Verify the update worked
-      const { data: verifyCoursesUpdate, error: verifyError } = await supabase
-        .from('courses')
-        .select('id')
-        .eq('teacher_id', id);
-        
-      if (verifyError) {
-        console.error('Error verifying courses update:', verifyError);
-      } else if (verifyCoursesUpdate && verifyCoursesUpdate.length > 0) {
-        console.error(`Failed to remove all teacher references from courses. ${verifyCoursesUpdate.length} courses still have references.`);
-        throw new Error(`Failed to remove all teacher references from courses. Database constraint might prevent deletion.`);
-      } else {
-        console.log('Successfully removed teacher references from all courses');
-      }
-    } else {
-      console.log(`No courses directly reference this teacher's ID. Proceeding with deletion.`);
-    }
-    
-    // Now proceed with the normal deletion process
-    
-    // 1. Delete all course associations
-    console.log(`Attempting to delete course associations for teacher: ${id}`);
-    const { data: deletedAssociations, error: deleteCoursesError } = await supabase
-      .from('teacher_courses')
-      .delete()
-      .eq('teacher_id', id)
-      .select();
-
-    if (deleteCoursesError) {
-      console.error('Error deleting teacher courses:', deleteCoursesError);
-      throw deleteCoursesError;
-    }
-    
-    console.log(`Successfully deleted ${deletedAssociations?.length || 0} course associations for teacher ${id}`);
-
-    // 2. Then delete the teacher
-    console.log(`Attempting to delete teacher with ID: ${id}`);
-    const { error: deleteTeacherError } = await supabase
-      .from('teachers')
-      .delete()
-      .eq('id', id);
-      
-    if (deleteTeacherError) {
-      console.error('Error deleting teacher:', deleteTeacherError);
-      throw deleteTeacherError;
-    }
-    
-    // Verify deletion was successful by checking if teacher still exists
-    const { data: verifyTeacher, error: verifyError } = await supabase
-      .from('teachers')
-      .select('id')
-      .eq('id', id)
-      .maybeSingle();
-      
-    if (verifyError) {
-      console.error('Error verifying teacher deletion:', verifyError);
-    } else if (verifyTeacher) {
-      console.error(`Teacher with ID ${id} still exists after deletion attempt`);
-      throw new Error('Failed to delete teacher: Record still exists after deletion');
-    } else {
-      console.log(`Teacher with ID ${id} successfully deleted and verified`);
-    }
-    
-    return;
+    await moveToTrash('teachers', id);
   } catch (error) {
-    console.error('Error in teacher deletion process:', error);
+    console.error('Error deleting teacher:', error);
     throw error;
   }
 }
@@ -449,15 +309,8 @@ export async function bulkImportTeachers(teachersData: TeacherBulkImportItem[]):
   let successCount = 0;
 
   try {
-    // First, check if the current user has permission
-    const { data: { user } } = await supabase.auth.getUser();
-    const userRole = user?.user_metadata?.role;
-    
-    // Allow if user is admin or section_admin
-    if (!userRole || (userRole !== 'admin' && userRole !== 'section_admin')) {
-      console.error('Permission denied: User is not admin or section_admin');
-      throw new Error('Permission denied: Only admins and section admins can import teachers');
-    }
+    const subject = await requirePermission('manageTeachers');
+    const userRole = normalizeRole(subject.role);
 
     console.log(`Bulk importing teachers as ${userRole}, teachers count:`, teachersData.length);
     
@@ -474,9 +327,9 @@ export async function bulkImportTeachers(teachersData: TeacherBulkImportItem[]):
           continue;
         }
         
-        // If user is section_admin, ensure they are setting a department
-        if (userRole === 'section_admin' && !teacherItem.department) {
-          const userSectionId = user?.user_metadata?.sectionId;
+        // Scoped admins add teachers to their own section
+        if (getRoleScope(userRole) !== 'global' && !teacherItem.department) {
+          const userSectionId = subject.sectionId;
           if (userSectionId) {
             console.log(`Setting department for section admin teacher to ${userSectionId} for teacher #${i+1} (${teacherItem.teacher_name})`);
             teacherItem.department = userSectionId;
@@ -496,7 +349,7 @@ export async function bulkImportTeachers(teachersData: TeacherBulkImportItem[]):
             name: teacherItem.teacher_name,
             email: teacherItem.email || null,
             phone: teacherItem.phone || 'N/A',
-            department: teacherItem.department || user?.user_metadata?.sectionId,
+            department: teacherItem.department || subject.sectionId,
             office_room: teacherItem.office_room
           })
           .select()
@@ -1,85 +1,125 @@
+import { supabase } from '../lib/supabase';
 import { formatDate } from '../utils/dateUtils';
+import { markdownToPlainText } from '../utils/markdown';
+import { formatDueTime, formatGracePeriod } from '../utils/taskDeadline';
 import type { Task } from '../types';
 import type { Announcement } from '../types/announcement';
+import type { TelegramSettings } from '../types/telegram';
 
-const TELEGRAM_BOT_TOKEN = import.meta.env.VITE_TELEGRAM_BOT_TOKEN;
-const TELEGRAM_CHAT_ID = import.meta.env.VITE_TELEGRAM_CHAT_ID;
-const TELEGRAM_API = TELEGRAM_BOT_TOKEN ? `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}` : '';
 const APP_DOMAIN = 'https://nesttask.vercel.app';
 
+interface TelegramSettingsRow {
+  section_id: string;
+  chat_id: string;
+  message_thread_id: number | null;
+  enabled: boolean;
+  updated_at: string;
+}
+
+const mapTelegramSettingsFromDB = (row: TelegramSettingsRow): TelegramSettings => ({
+  sectionId: row.section_id,
+  chatId: row.chat_id,
+  messageThreadId: row.message_thread_id,
+  enabled: row.enabled,
+  updatedAt: row.updated_at
+});
+
 /**
- * Sends a message to Telegram with optional photo attachment
+ * Sends a message to a section's Telegram chat with optional photo attachment
  * @param {string} text - The message text to send. Supports HTML formatting
  * @param {string} [photo] - Optional URL of an image to send with the message
+ * @param {string | null} [sectionId] - Section whose chat receives the message; global messages go to the default chat
  * @returns {Promise<boolean>} - Returns true if message was sent successfully, false otherwise
+ * @description
+ * The message is delivered by the `telegram-notify` edge function, which holds
+ * the bot token and looks up the section's chat and topic
  * @example
- * // Send text message
- * await sendTelegramMessage("Hello world!");
+ * // Send text message to a section
+ * await sendTelegramMessage("Hello world!", undefined, sectionId);
  * // Send message with photo
- * await sendTelegramMessage("Check this image!", "https://example.com/image.jpg");
+ * await sendTelegramMessage("Check this image!", "https://example.com/image.jpg", sectionId);
  */
-export async function sendTelegramMessage(text: string, photo?: string) {
-  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) {
+export async function sendTelegramMessage(text: string, photo?: string, sectionId?: string | null) {
+  try {
+    const { data, error } = await supabase.functions.invoke('telegram-notify', {
+      body: { text, photo, sectionId: sectionId || null }
+    });
+
+    if (error) throw error;
+    return Boolean(data?.sent);
+  } catch (error) {
+    console.error('Error sending Telegram message:', error);
     return false;
   }
+}
 
+/**
+ * Loads the Telegram chat settings of a section
+ * @param {string} sectionId - The section to load settings for
+ * @returns {Promise<TelegramSettings | null>} - The settings, or null when the section has no chat yet
+ */
+export async function fetchTelegramSettings(sectionId: string): Promise<TelegramSettings | null> {
   try {
-    console.log('Sending message with:', { TELEGRAM_API, TELEGRAM_CHAT_ID });
-    
-    if (photo) {
-      const requestBody = {
-        chat_id: TELEGRAM_CHAT_ID,
-       // message_thread_id: 204,  // Correct topic ID from the URL
-        photo,
-        caption: text,
-        parse_mode: 'HTML',
-      };
-      console.log('Photo message request:', requestBody);
-      
-      const response = await fetch(`${TELEGRAM_API}/sendPhoto`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      const responseData = await response.json();
-      console.log('Telegram API response:', responseData);
-
-      if (!response.ok) {
-        throw new Error(`Failed to send Telegram photo message: ${JSON.stringify(responseData)}`);
-      }
-    } else {
-      const requestBody = {
-        chat_id: TELEGRAM_CHAT_ID,
-      //  message_thread_id: 204,  // Correct topic ID from the URL
-        text,
-        parse_mode: 'HTML',
-        disable_web_page_preview: false,
-      };
-      console.log('Text message request:', requestBody);
-
-      const response = await fetch(`${TELEGRAM_API}/sendMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      const responseData = await response.json();
-      console.log('Telegram API response:', responseData);
-
-      if (!response.ok) {
-        throw new Error(`Failed to send Telegram message: ${JSON.stringify(responseData)}`);
-      }
-    }
-
-    return true;
+    const { data, error } = await supabase
+      .from('section_telegram_settings')
+      .select('*')
+      .eq('section_id', sectionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapTelegramSettingsFromDB(data as TelegramSettingsRow) : null;
   } catch (error) {
-    console.error('Error sending Telegram message:', error);
-    return false;
+    console.error('Error fetching Telegram settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Creates or updates the Telegram chat settings of a section
+ * @param {TelegramSettings} settings - Chat id, optional topic id and whether posting is enabled
+ * @returns {Promise<TelegramSettings>} - The saved settings
+ */
+export async function saveTelegramSettings(settings: TelegramSettings): Promise<TelegramSettings> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  try {
+    const { data, error } = await supabase
+      .from('section_telegram_settings')
+      .upsert({
+        section_id: settings.sectionId,
+        chat_id: settings.chatId.trim(),
+        message_thread_id: settings.messageThreadId || null,
+        enabled: settings.enabled,
+        updated_by: user.id,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'section_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapTelegramSettingsFromDB(data as TelegramSettingsRow);
+  } catch (error) {
+    console.error('Error saving Telegram settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a section's Telegram chat, so nothing is posted for it anymore
+ * @param {string} sectionId - The section to disconnect
+ */
+export async function deleteTelegramSettings(sectionId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('section_telegram_settings')
+      .delete()
+      .eq('section_id', sectionId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error deleting Telegram settings:', error);
+    throw error;
   }
 }
 
@@ -106,45 +146,44 @@ const getCategoryEmoji = (category: string) => {
 };
 
 /**
- * Sends a task notification to Telegram
+ * Converts a Markdown body to plain text that is safe inside an HTML-mode message
+ */
+const toTelegramText = (text: string) =>
+  markdownToPlainText(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+/**
+ * Sends a task notification to the Telegram chat of the task's section
  * @param {Task} task - The task object containing all task details
  * @returns {Promise<boolean>} - Returns true if notification was sent successfully
  * @description
  * Formats and sends a task notification with:
  * - Task name and category
  * - Description
- * - Category and due date
+ * - Category, due date and time, and any grace period
  * - Link to view full details
  */
 export async function sendTaskNotification(task: Task) {
-  /**
-   * Processes description text to handle links and formatting
-   * @param {string} text - The raw description text
-   * @returns {string} - Formatted text with HTML links and preserved line breaks
-   */
-  const processDescription = (text: string) => {
-    // Replace markdown-style links with HTML links
-    const withLinks = text.replace(/\[(.*?)\]\((.*?)\)/g, '<a href="$2">$1</a>');
-    // Preserve line breaks
-    return withLinks.replace(/\n/g, '\n');
-  };
-
   const message = `
 🎯 <b>${task.name}</b>
 
 💬 <b>Description:</b>
-${processDescription(task.description)}
+${toTelegramText(task.description)}
 🏷️ <b>Category:</b> #${task.category}
-📅 <b>Due Date:</b> ${formatDate(new Date(task.dueDate), 'MMMM d, yyyy')}
+📅 <b>Due Date:</b> ${formatDate(new Date(task.dueDate), 'MMMM d, yyyy')}, ${formatDueTime(task)}${
+    task.gracePeriodMinutes ? `\n⏳ <b>Late work accepted for:</b> ${formatGracePeriod(task.gracePeriodMinutes)}` : ''
+  }
 
 
 🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
 
-  return sendTelegramMessage(message);
+  return sendTelegramMessage(message, undefined, task.sectionId);
 }
 
 /**
- * Sends an announcement notification to Telegram
+ * Sends an announcement notification to the Telegram chat of the announcement's section
  * @param {Announcement} announcement - The announcement object containing title and content
  * @returns {Promise<boolean>} - Returns true if announcement was sent successfully
  * @description
@@ -162,21 +201,22 @@ export async function sendAnnouncementNotification(announcement: Announcement) {
 
 🎯 <b>${announcement.title}</b>
 
-${announcement.content}
+${toTelegramText(announcement.content)}
 
 
 🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
 
-  return sendTelegramMessage(message, imageUrl);
+  return sendTelegramMessage(message, imageUrl, announcement.sectionId);
 }
 
 /**
  * Test function to verify Telegram messaging functionality
+ * @param {string} [sectionId] - Section whose chat should receive the test message
  * @returns {Promise<boolean>} - Returns true if test message was sent successfully
- * @description Sends a simple test message to verify bot token, chat ID, and permissions
+ * @description Sends a simple test message to verify the chat ID, topic and bot permissions
  */
-export async function testTelegramMessage() {
-  const result = await sendTelegramMessage('Test message from NestTask');
+export async function testTelegramMessage(sectionId?: string) {
+  const result = await sendTelegramMessage('Test message from NestTask', undefined, sectionId);
   console.log('Test message result:', result);
   return result;
 }
@@ -0,0 +1,114 @@
+import { supabase } from '../lib/supabase';
+import { removeAttachmentFiles } from './taskAttachment.service';
+import { getErrorMessage } from '../utils/errors';
+import type { TrashItem, TrashResource } from '../types/trash';
+
+// How long items stay in the trash; matches the trash-purge function's
+// default TRASH_RETENTION_DAYS
+export const TRASH_RETENTION_DAYS = 30;
+
+interface TrashItemRow {
+  resource: TrashResource;
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  section_id: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+  related_count: number | null;
+}
+
+const mapTrashItemFromDB = (row: TrashItemRow): TrashItem => {
+  const purgeAt = new Date(row.deleted_at);
+  purgeAt.setDate(purgeAt.getDate() + TRASH_RETENTION_DAYS);
+
+  return {
+    resource: row.resource,
+    id: row.id,
+    title: row.title || 'Untitled',
+    subtitle: row.subtitle || undefined,
+    sectionId: row.section_id || undefined,
+    deletedAt: row.deleted_at,
+    deletedBy: row.deleted_by || undefined,
+    deletedByName: row.deleted_by_name || undefined,
+    relatedCount: row.related_count || 0,
+    purgeAt: purgeAt.toISOString()
+  };
+};
+
+/**
+ * Moves a row to the trash. Related rows that a hard delete would remove
+ * (a course's routine slots and study materials) go with it.
+ * @param resource The table the row belongs to
+ * @param id The row's ID
+ */
+export async function moveToTrash(resource: TrashResource, id: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('soft_delete_item', {
+      p_resource: resource,
+      p_id: id
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error moving ${resource} item to trash:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Lists the trash items the signed-in admin may restore, newest first
+ * @param sectionId Only items of this section; all permitted items if omitted
+ */
+export async function fetchTrashItems(sectionId?: string): Promise<TrashItem[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_trash_items', {
+      p_section_id: sectionId || null
+    });
+
+    if (error) throw error;
+
+    return ((data || []) as TrashItemRow[]).map(mapTrashItemFromDB);
+  } catch (error) {
+    console.error('Error fetching trash items:', error);
+    throw error;
+  }
+}
+
+/**
+ * Restores a trash item together with the rows that were trashed with it
+ */
+export async function restoreTrashItem(resource: TrashResource, id: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('restore_trash_item', {
+      p_resource: resource,
+      p_id: id
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error restoring trash item:', error);
+    // Surface the database's reason, e.g. a course code that is taken again
+    throw new Error(getErrorMessage(error, 'Failed to restore item'));
+  }
+}
+
+/**
+ * Deletes a trash item for good, including its uploaded files
+ */
+export async function purgeTrashItem(resource: TrashResource, id: string): Promise<void> {
+  try {
+    const { data, error } = await supabase.rpc('purge_trash_item', {
+      p_resource: resource,
+      p_id: id
+    });
+
+    if (error) throw error;
+
+    await removeAttachmentFiles((data || []) as string[]);
+  } catch (error) {
+    console.error('Error purging trash item:', error);
+    throw new Error(getErrorMessage(error, 'Failed to delete item'));
+  }
+}
@@ -2,6 +2,7 @@ import { supabase } from '../lib/supabase';
 import type { User } from '../types/auth';
 import type { UserStats } from '../types/user';
 import { mapDbUserToUser } from './auth.service';
+import { can, getRoleScope } from '../utils/permissions';
 
 export async function fetchUsers(): Promise<User[]> {
   try {
@@ -33,8 +34,8 @@ export async function fetchUsers(): Promise<User[]> {
       `)
       .order('created_at', { ascending: false });
     
-    // If user is not an admin or super-admin, filter by their section
-    if (currentUserData?.role !== 'admin' && currentUserData?.role !== 'super-admin' && currentUserData?.section_id) {
+    // Admins scoped to a section only see that section
+    if (getRoleScope(currentUserData?.role) !== 'global' && currentUserData?.section_id) {
       console.log('Filtering users by section:', currentUserData.section_id);
       query = query.eq('section_id', currentUserData.section_id);
     }
@@ -114,16 +115,16 @@ export async function deleteUser(userId: string): Promise<void> {
       throw new Error('Failed to get target user information');
     }
 
-    // Helper function to check if user is a section admin
-    const isSectionAdmin = (role: string) => role === 'section-admin' || role === 'section_admin';
-
-    // Use different delete functions based on role
-    if (isSectionAdmin(currentUserData.role)) {
-      // Additional check to ensure users can only delete from their own section
-      if (currentUserData.section_id !== targetUserData?.section_id) {
-        throw new Error('You can only delete users from your own section');
-      }
+    const subject = { role: currentUserData.role, sectionId: currentUserData.section_id };
+    if (!can(subject, 'deleteUsers')) {
+      throw new Error('Unauthorized: Only administrators can delete users');
+    }
+    if (!can(subject, 'deleteUsers', { sectionId: targetUserData?.section_id })) {
+      throw new Error('You can only delete users from your own section');
+    }
 
+    // Use different delete functions based on how far the role reaches
+    if (getRoleScope(subject.role) !== 'global') {
       console.log('Attempting to delete user as section admin:', {
         userId,
         adminSection: currentUserData.section_id,
@@ -139,7 +140,7 @@ export async function deleteUser(userId: string): Promise<void> {
         console.error('Error deleting user as section admin:', error);
         throw new Error(error.message || 'Failed to delete user');
       }
-    } else if (currentUserData.role === 'admin' || currentUserData.role === 'super-admin') {
+    } else {
       // Use regular admin delete function
       const { error } = await supabase
         .from('users')
@@ -150,8 +151,6 @@ export async function deleteUser(userId: string): Promise<void> {
         console.error('Error deleting user as admin:', error);
         throw new Error(error.message || 'Failed to delete user');
       }
-    } else {
-      throw new Error('Unauthorized: Only administrators can delete users');
     }
   } catch (error: any) {
     console.error('Error deleting user:', error);
@@ -173,7 +172,7 @@ export async function promoteUser(userId: string, newRole: 'admin' | 'section-ad
       .eq('id', user.id)
       .single();
 
-    if (currentUserData?.role !== 'admin' && currentUserData?.role !== 'super-admin') {
+    if (!can({ role: currentUserData?.role }, 'assignRoles')) {
       throw new Error('Unauthorized: Only admins can promote users');
     }
 
@@ -207,7 +206,7 @@ export async function demoteUser(userId: string, newRole: 'user'): Promise<void>
       .eq('id', user.id)
       .single();
 
-    if (currentUserData?.role !== 'admin' && currentUserData?.role !== 'super-admin') {
+    if (!can({ role: currentUserData?.role }, 'assignRoles')) {
       throw new Error('Unauthorized: Only admins can demote users');
     }
 
@@ -248,8 +247,8 @@ export async function fetchUserStats(): Promise<UserStats> {
     let query = 'get_user_stats';
     let params = {};
 
-    // If user is not an admin or super-admin, filter by their section
-    if (currentUserData?.role !== 'admin' && currentUserData?.role !== 'super-admin' && currentUserData?.section_id) {
+    // Admins scoped to a section only see that section
+    if (getRoleScope(currentUserData?.role) !== 'global' && currentUserData?.section_id) {
       query = 'get_section_user_stats';
       params = { section_id: currentUserData.section_id };
     }
@@ -1,4 +1,4 @@
-export type AdminTab = 'dashboard' | 'users' | 'tasks' | 'announcements' | 'courses' | 'study-materials' | 'routine' | 'teachers' | 'super-admin';
+export type AdminTab = 'dashboard' | 'users' | 'tasks' | 'announcements' | 'courses' | 'study-materials' | 'routine' | 'teachers' | 'trash' | 'super-admin';
 
 /**
  * Admin User type definition
@@ -37,7 +37,44 @@ export type AdminPermission =
   | 'viewReports' 
   | 'exportData'
   | 'manageAdmins'
-  | 'viewLogs';
+  | 'viewLogs'
+  | 'assignRoles'
+  | 'manageTasks'
+  | 'manageAnnouncements'
+  | 'manageCourses'
+  | 'manageTeachers'
+  | 'manageStudyMaterials'
+  | 'manageRoutines';
+
+/**
+ * How far a role's permissions reach: everywhere, or only within the
+ * user's own department, batch or section
+ */
+export type PermissionScopeLevel = 'global' | 'department' | 'batch' | 'section';
+
+/**
+ * What a permission is checked against. Give the most specific ids known;
+ * an empty scope means "everywhere".
+ */
+export interface PermissionScope {
+  departmentId?: string | null;
+  batchId?: string | null;
+  sectionId?: string | null;
+}
+
+/**
+ * The parts of a user that decide what they may do
+ */
+export interface PermissionSubject {
+  role?: string;
+  departmentId?: string | null;
+  batchId?: string | null;
+  sectionId?: string | null;
+  // Grants on top of the role's own permissions
+  permissions?: string[];
+  // Further sections a section admin is assigned to (`section_admins`)
+  adminSectionIds?: string[];
+}
 
 /**
  * Admin Log Details type
@@ -48,7 +85,9 @@ export interface AdminLogDetails {
   setting?: string;
   oldValue?: string;
   newValue?: string;
-  [key: string]: any;
+  name?: string;
+  message?: string;
+  [key: string]: unknown;
 }
 
 /**
@@ -56,13 +95,48 @@ export interface AdminLogDetails {
  */
 export interface AdminLog {
   id: string;
-  adminId: string;
+  adminId: string | null;
   adminName: string;
   action: string;
   timestamp: string;
-  ipAddress: string;
-  userAgent?: string;
+  ipAddress: string | null;
+  userAgent?: string | null;
   details: AdminLogDetails;
+  resource?: string | null;
+  resourceId?: string | null;
+  /** Row as it was before the change; null for inserts */
+  before?: Record<string, unknown> | null;
+  /** Row as it was after the change; null for deletes */
+  after?: Record<string, unknown> | null;
+  seq?: number;
+  prevHash?: string | null;
+  hash?: string | null;
+}
+
+/**
+ * Server-side filters for the audit log. Dates are inclusive `YYYY-MM-DD`.
+ */
+export interface AdminLogFilters {
+  search?: string;
+  action?: string;
+  resource?: string;
+  adminId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AdminLogPage {
+  logs: AdminLog[];
+  total: number;
+}
+
+/**
+ * Result of recomputing the audit log hash chain
+ */
+export interface AdminLogChainStatus {
+  checked: number;
+  /** First entry whose hash does not match; null when the chain is intact */
+  firstBrokenSeq: number | null;
 }
 
 /**
@@ -1,10 +1,23 @@
+export type AnnouncementScope = 'everyone' | 'department' | 'batch' | 'section';
+
 export interface Announcement {
   id: string;
   title: string;
   content: string;
   createdAt: string;
   createdBy: string;
+  // Only the narrowest audience is set; none of them means everyone
   sectionId?: string;
+  batchId?: string;
+  departmentId?: string;
+  audienceName?: string;
+  isPinned: boolean;
+  publishAt: string;
+  expiresAt?: string | null;
 }
 
-export type NewAnnouncement = Pick<Announcement, 'title' | 'content' | 'sectionId'>;
\ No newline at end of file
+export type NewAnnouncement = Pick<Announcement, 'title' | 'content' | 'sectionId' | 'batchId' | 'departmentId'> & {
+  isPinned?: boolean;
+  publishAt?: string;
+  expiresAt?: string | null;
+};
@@ -0,0 +1,52 @@
+/**
+ * - `late` counts as attended
+ * - `excused` is left out of the percentage altogether
+ */
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused';
+
+/**
+ * The register of one class on one date. Course and time are copied from
+ * the routine slot when the register is taken.
+ */
+export interface AttendanceSession {
+  id: string;
+  sectionId: string;
+  routineId?: string;
+  slotId: string;
+  classDate: string;
+  courseId?: string;
+  courseName: string;
+  courseCode?: string;
+  startTime: string;
+  endTime: string;
+  takenBy?: string;
+  updatedAt: string;
+}
+
+export interface AttendanceRecord {
+  sessionId: string;
+  userId: string;
+  status: AttendanceStatus;
+}
+
+/**
+ * A student's attendance in one course
+ */
+export interface CourseAttendance {
+  courseKey: string;
+  courseName: string;
+  courseCode?: string;
+  attended: number;
+  absent: number;
+  excused: number;
+  // Classes counted towards the percentage, i.e. all but excused ones
+  counted: number;
+  // null until a counted class has been recorded
+  percentage: number | null;
+}
+
+export interface AttendanceSettings {
+  sectionId: string;
+  minPercentage: number;
+  updatedAt?: string;
+}
@@ -1,10 +1,12 @@
+export type UserRole = 'user' | 'admin' | 'super-admin' | 'section-admin';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   phone?: string;
   studentId?: string;
-  role: 'user' | 'admin' | 'super-admin' | 'section-admin';
+  role: UserRole;
   createdAt: string;
   lastActive?: string;
   avatar?: string;
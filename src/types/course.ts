@@ -26,6 +26,19 @@ export interface ClassTime {
 
 export type NewCourse = Omit<Course, 'id' | 'createdAt' | 'createdBy'>;
 
+/**
+ * How a course's hand-entered class times compare with the active routine
+ */
+export interface CourseScheduleReport {
+  course: Course;
+  // Active routine that holds (or would hold) the course's slots
+  routineId?: string;
+  routineTimes: ClassTime[];
+  missingFromRoutine: ClassTime[];
+  missingFromCourse: ClassTime[];
+  inSync: boolean;
+}
+
 export type StudyMaterialCategory = 
   | 'Task'
   | 'Presentation'
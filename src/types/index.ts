@@ -1,3 +1,7 @@
+import type { TaskAttachment } from './task';
+
+export type { TaskAttachment } from './task';
+
 export type TaskCategory = 
   | 'presentation' 
   | 'assignment' 
@@ -22,6 +26,13 @@ export interface Task {
   name: string;
   category: TaskCategory;
   dueDate: string;
+  // Exact deadline (ISO); `dueDate` is its date in `dueTimezone`
+  dueAt?: string;
+  dueTimezone?: string;
+  // Late work is accepted for this long after the deadline
+  gracePeriodMinutes?: number;
+  // Students are expected to turn work in
+  requiresSubmission?: boolean;
   description: string;
   status: 'my-tasks' | 'in-progress' | 'completed';
   createdAt: string;
@@ -31,4 +42,5 @@ export interface Task {
   assignedBy?: string;
   assignedById?: string;
   updatedAt?: string;
+  attachments?: TaskAttachment[];
 }
\ No newline at end of file
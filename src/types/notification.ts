@@ -0,0 +1,64 @@
+export type NotificationType = 'task' | 'announcement' | 'task-updated' | 'deadline' | 'routine-updated' | 'task-comment';
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  timestamp: Date;
+  read: boolean;
+  readAt?: string;
+  sectionId?: string;
+  taskId?: string;
+  announcementId?: string;
+  routineId?: string;
+  isAdminTask: boolean;
+  isAnnouncement: boolean;
+}
+
+export interface NotificationPage {
+  notifications: Notification[];
+  hasMore: boolean;
+}
+
+/**
+ * A reminder lead time, in minutes before a task is due
+ */
+export interface ReminderLeadTime {
+  minutes: number;
+  label: string;
+}
+
+/**
+ * Who a push broadcast goes to; at most one of the ids is used, the most
+ * specific one first. Leaving all empty targets everyone.
+ */
+export interface PushAudience {
+  sectionId?: string | null;
+  batchId?: string | null;
+  departmentId?: string | null;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  data?: Record<string, unknown>;
+  requireInteraction?: boolean;
+  actions?: { action: string; title: string }[];
+}
+
+/**
+ * Outcome of one broadcast as recorded by the push-notification function
+ */
+export interface PushDelivery {
+  id: string;
+  taskId?: string;
+  announcementId?: string;
+  title: string;
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  prunedCount: number;
+  createdAt: string;
+}
@@ -4,6 +4,7 @@ export interface RoutineSlot {
   courseId?: string;
   teacherId?: string;
   courseName?: string;
+  courseCode?: string;
   teacherName?: string;
   dayOfWeek: string;
   startTime: string;
@@ -27,10 +28,107 @@ export interface Routine {
   createdAt: string;
   createdBy?: string;
   slots?: RoutineSlot[];
+  // Date-specific changes, from a week ago onwards
+  overrides?: RoutineOverride[];
   sectionId?: string;
   
   // Offline tracking properties
   _isOffline?: boolean;
   _isOfflineUpdated?: boolean;
   _isOfflineDeleted?: boolean;
-}
\ No newline at end of file
+}
+/**
+ * A slot that is being checked for clashes; it has no ID before it is saved
+ */
+export type RoutineSlotDraft = Pick<RoutineSlot, 'dayOfWeek' | 'startTime' | 'endTime'> &
+  Partial<Pick<RoutineSlot, 'id' | 'teacherId' | 'teacherName' | 'courseName' | 'courseCode' | 'roomNumber' | 'section'>>;
+
+/**
+ * - `teacher`: the teacher has another class at the same time
+ * - `room`: the room is booked for another class at the same time
+ * - `section`: two classes of the same section overlap
+ */
+export type RoutineConflictType = 'teacher' | 'room' | 'section';
+
+export interface RoutineConflict {
+  type: RoutineConflictType;
+  slot: RoutineSlotDraft;
+  conflictingSlot: RoutineSlotDraft;
+  conflictingRoutineId: string;
+  conflictingRoutineName: string;
+  message: string;
+}
+
+/**
+ * A saved version of a routine's slots. A new version is recorded by the
+ * database after every change to the slots.
+ */
+export interface RoutineRevision {
+  id: string;
+  routineId: string;
+  version: number;
+  slots: RoutineSlot[];
+  summary: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+/**
+ * - `moved`: the day, time or room changed
+ * - `changed`: only the course, teacher or section changed
+ */
+export type RoutineSlotChangeType = 'added' | 'removed' | 'moved' | 'changed';
+
+export interface RoutineSlotChange {
+  type: RoutineSlotChangeType;
+  before?: RoutineSlot;
+  after?: RoutineSlot;
+  fields: (keyof RoutineSlot)[];
+}
+
+/**
+ * - `cancel`: the class doesn't happen on that date
+ * - `reschedule`: the class moves to another time, date or room
+ * - `room-change`: the class happens as usual in another room
+ * - `makeup`: a one-off class that isn't part of the weekly routine
+ */
+export type RoutineOverrideKind = 'cancel' | 'reschedule' | 'room-change' | 'makeup';
+
+/**
+ * A change to one date of a routine. Every kind but `makeup` changes the
+ * class of `slotId` on `classDate`.
+ */
+export interface RoutineOverride {
+  id: string;
+  routineId: string;
+  slotId?: string;
+  kind: RoutineOverrideKind;
+  classDate: string;
+  // Where a rescheduled class moves to
+  newDate?: string;
+  startTime?: string;
+  endTime?: string;
+  roomNumber?: string;
+  courseId?: string;
+  courseName?: string;
+  teacherName?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+export type RoutineOverrideInput = Omit<RoutineOverride, 'id' | 'createdAt'>;
+
+/**
+ * - `moved`: a rescheduled class, on the date it was moved away from
+ */
+export type ScheduledClassStatus = 'regular' | 'cancelled' | 'moved' | 'rescheduled' | 'room-changed' | 'makeup';
+
+/**
+ * A class as it happens on one date, with the routine's changes applied.
+ * `dayOfWeek` is the day of `date`, and times and room are the changed ones.
+ */
+export interface ScheduledClass extends RoutineSlot {
+  date: string;
+  status: ScheduledClassStatus;
+  override?: RoutineOverride;
+}
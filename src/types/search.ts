@@ -0,0 +1,30 @@
+export type SearchResultType = 'task' | 'course' | 'material' | 'teacher' | 'announcement';
+
+/**
+ * Filters written inline in the query, e.g. `category:quiz course:CSE221 due:<7d`
+ */
+export interface SearchFilters {
+  types?: SearchResultType[];
+  category?: string;
+  course?: string;
+  // Inclusive yyyy-MM-dd bounds for task due dates
+  dueAfter?: string;
+  dueBefore?: string;
+}
+
+export interface ParsedSearchQuery {
+  text: string;
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  snippet?: string;
+  rank: number;
+  dueDate?: string;
+  category?: string;
+  courseCode?: string;
+}
@@ -0,0 +1,45 @@
+import type { AdminUser } from './admin';
+
+export interface TaskSubmissionFile {
+  id: string;
+  submissionId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string | null;
+  storagePath: string;
+  createdAt: string;
+  url: string;
+}
+
+/**
+ * What one student turned in for a task. `submittedAt` moves with every
+ * change, including adding or removing a file.
+ */
+export interface TaskSubmission {
+  id: string;
+  taskId: string;
+  userId: string;
+  link?: string;
+  note?: string;
+  submittedAt: string;
+  files: TaskSubmissionFile[];
+}
+
+export interface TaskSubmissionInput {
+  link?: string;
+  note?: string;
+  files?: File[];
+}
+
+/**
+ * - `submitted`: turned in by the deadline
+ * - `late`: turned in after the deadline, inside the grace period
+ * - `missing`: nothing turned in
+ */
+export type SubmissionStatus = 'submitted' | 'late' | 'missing';
+
+export interface SubmissionRosterEntry {
+  user: AdminUser;
+  status: SubmissionStatus;
+  submission?: TaskSubmission;
+}
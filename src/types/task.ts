@@ -24,6 +24,13 @@ export interface Task {
   name: string;
   category: TaskCategory;
   dueDate: string;
+  // Exact deadline (ISO); `dueDate` is its date in `dueTimezone`
+  dueAt?: string;
+  dueTimezone?: string;
+  // Late work is accepted for this long after the deadline
+  gracePeriodMinutes?: number;
+  // Students are expected to turn work in
+  requiresSubmission?: boolean;
   description: string;
   status: TaskStatus;
   createdAt: string;
@@ -33,8 +40,75 @@ export interface Task {
   assignedBy?: string;
   assignedById?: string;
   updatedAt?: string;
+  attachments?: TaskAttachment[];
 }
 
-export type NewTask = Omit<Task, 'id' | 'createdAt' | 'isAdminTask'> & {
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'isAdminTask' | 'attachments'> & {
   sectionId?: string;
-};
\ No newline at end of file
+  files?: File[];
+};
+
+/**
+ * What a bulk action changes on every selected task; fields left out stay as they are
+ */
+export interface TaskBulkChanges {
+  category?: TaskCategory;
+  priority?: TaskPriority;
+  // Moves each due date by this many days; negative moves it earlier
+  shiftDays?: number;
+  sectionId?: string;
+}
+
+/**
+ * Outcome of a bulk action. Tasks that could not take part are listed in
+ * `errors`; warnings mean the task went through with a problem.
+ */
+export interface TaskBulkResult {
+  success: number;
+  errors: { taskId: string; message: string; isWarning?: boolean }[];
+}
+
+/**
+ * A section the current admin may move or copy tasks into
+ */
+export interface TaskTargetSection {
+  id: string;
+  name: string;
+  batchName?: string;
+}
+
+/**
+ * A file stored in the `task-attachments` bucket and linked to a task
+ */
+export interface TaskAttachment {
+  id: string;
+  taskId: string;
+  fileName: string;
+  fileSize: number;
+  mimeType?: string | null;
+  storagePath: string;
+  uploadedBy?: string | null;
+  createdAt: string;
+  url: string;
+}
+
+/**
+ * A student's own progress on a shared (admin/section) task
+ */
+export interface TaskProgress {
+  taskId: string;
+  userId: string;
+  status: TaskStatus;
+  completedAt?: string | null;
+  updatedAt?: string;
+}
+
+/**
+ * Section-level completion counts for a single task
+ */
+export interface TaskCompletionSummary {
+  taskId: string;
+  completedCount: number;
+  inProgressCount: number;
+  totalStudents: number;
+}
@@ -0,0 +1,24 @@
+/**
+ * A question or comment on a task. Replies point at the question they
+ * answer; threads are one level deep.
+ */
+export interface TaskComment {
+  id: string;
+  taskId: string;
+  parentId?: string;
+  userId: string;
+  authorName: string;
+  // Posted by someone who manages the task
+  authorIsStaff: boolean;
+  body: string;
+  isPinned: boolean;
+  pinnedAt?: string;
+  // Set when the body was changed after posting
+  editedAt?: string;
+  createdAt: string;
+}
+
+export interface TaskCommentThread {
+  comment: TaskComment;
+  replies: TaskComment[];
+}
@@ -0,0 +1,53 @@
+import type { TaskCategory, TaskPriority } from './task';
+
+/**
+ * How a template repeats:
+ * - `weekly`: on the chosen weekdays
+ * - `interval`: every `intervalDays` days from the start date
+ * - `routine_slot`: on the weekday of a class in the active routine
+ */
+export type TaskRecurrenceType = 'weekly' | 'interval' | 'routine_slot';
+
+export interface TaskTemplate {
+  id: string;
+  sectionId?: string;
+  name: string;
+  category: TaskCategory;
+  description: string;
+  priority?: TaskPriority;
+  recurrenceType: TaskRecurrenceType;
+  // Day names as in routine slots ('Sunday' ... 'Saturday')
+  weekdays: string[];
+  intervalDays?: number;
+  routineSlotId?: string;
+  startDate: string;
+  // Open-ended when missing
+  endDate?: string;
+  // How many days before its due date each task is created
+  generateAheadDays: number;
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewTaskTemplate = Omit<TaskTemplate, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * The part of a template that decides its dates
+ */
+export type TaskRecurrenceRule = Pick<
+  TaskTemplate,
+  'recurrenceType' | 'weekdays' | 'intervalDays' | 'routineSlotId' | 'startDate' | 'endDate'
+>;
+
+/**
+ * One date of a series. Generated occurrences link the task created for
+ * them; editing that task changes only this date.
+ */
+export interface TaskTemplateOccurrence {
+  date: string;
+  taskId?: string;
+  skipped: boolean;
+  generated: boolean;
+}
@@ -0,0 +1,11 @@
+/**
+ * Where a section's tasks and announcements are posted on Telegram
+ */
+export interface TelegramSettings {
+  sectionId: string;
+  chatId: string;
+  // Topic inside a forum group; empty posts to the main chat
+  messageThreadId?: number | null;
+  enabled: boolean;
+  updatedAt?: string;
+}
@@ -0,0 +1,18 @@
+// Tables whose rows go to the trash instead of being deleted
+export type TrashResource = 'tasks' | 'courses' | 'teachers' | 'routines' | 'study_materials' | 'announcements';
+
+export interface TrashItem {
+  resource: TrashResource;
+  id: string;
+  title: string;
+  subtitle?: string;
+  sectionId?: string;
+  deletedAt: string;
+  deletedBy?: string;
+  deletedByName?: string;
+  // Rows that come back with it: routine slots and study materials of a
+  // course, a teacher's course links, a routine's slots, a material's files
+  relatedCount: number;
+  // When the scheduled purge deletes it for good
+  purgeAt: string;
+}
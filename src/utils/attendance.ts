@@ -0,0 +1,169 @@
+import { normalizeRole } from './permissions';
+import { APP_TIMEZONE, toZonedInputValues } from './taskDeadline';
+import type { AdminUser } from '../types/admin';
+import type {
+  AttendanceRecord,
+  AttendanceSession,
+  AttendanceStatus,
+  CourseAttendance
+} from '../types/attendance';
+
+// Used until a section sets its own threshold
+export const DEFAULT_ATTENDANCE_THRESHOLD = 75;
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+  excused: 'Excused'
+};
+
+// One letter per status in the exported matrix
+const STATUS_CODES: Record<AttendanceStatus, string> = {
+  present: 'P',
+  late: 'L',
+  absent: 'A',
+  excused: 'E'
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * The latest date, today included, on which a class held on `dayOfWeek`
+ * took place; dates follow the app's time zone like the server does
+ */
+export function getLastClassDate(dayOfWeek: string, now: Date = new Date()): string {
+  const today = toZonedInputValues(now, APP_TIMEZONE).date;
+  const date = new Date(`${today}T00:00:00Z`);
+  const target = DAY_NAMES.indexOf(dayOfWeek);
+  if (target === -1) return today;
+
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() - target + 7) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date in the app's time zone, as YYYY-MM-DD
+ */
+export function getAttendanceToday(now: Date = new Date()): string {
+  return toZonedInputValues(now, APP_TIMEZONE).date;
+}
+
+/**
+ * Students who appear on a section's register; the class representative
+ * attends too
+ */
+export function getAttendanceRoster(users: AdminUser[]): AdminUser[] {
+  return users
+    .filter(user => ['user', 'section-admin'].includes(normalizeRole(user.role)))
+    .sort((a, b) =>
+      (a.studentId || '').localeCompare(b.studentId || '') || a.username.localeCompare(b.username)
+    );
+}
+
+const getCourseKey = (session: AttendanceSession) =>
+  session.courseId || session.courseCode || session.courseName || 'class';
+
+const getPercentage = (attended: number, counted: number) =>
+  counted > 0 ? Math.round((attended / counted) * 100) : null;
+
+/**
+ * Per-course totals of one student's records, by course name
+ */
+export function summarizeAttendance(
+  entries: { session: AttendanceSession; record: AttendanceRecord }[]
+): CourseAttendance[] {
+  const courses = new Map<string, CourseAttendance>();
+
+  entries.forEach(({ session, record }) => {
+    const key = getCourseKey(session);
+    const course = courses.get(key) || {
+      courseKey: key,
+      courseName: session.courseName || 'Class',
+      courseCode: session.courseCode,
+      attended: 0,
+      absent: 0,
+      excused: 0,
+      counted: 0,
+      percentage: null
+    };
+
+    if (record.status === 'excused') {
+      course.excused++;
+    } else {
+      course.counted++;
+      if (record.status === 'absent') course.absent++;
+      else course.attended++;
+    }
+
+    courses.set(key, course);
+  });
+
+  return Array.from(courses.values())
+    .map(course => ({ ...course, percentage: getPercentage(course.attended, course.counted) }))
+    .sort((a, b) => a.courseName.localeCompare(b.courseName));
+}
+
+/**
+ * A student-by-class matrix for export: one column per course and date
+ * with a P/L/A/E code, then each course's percentage. Students who left
+ * the section keep their row, under their user id.
+ */
+export function buildAttendanceMatrix(
+  sessions: AttendanceSession[],
+  records: AttendanceRecord[],
+  students: AdminUser[]
+): string[][] {
+  const sortedSessions = [...sessions].sort((a, b) =>
+    getCourseKey(a).localeCompare(getCourseKey(b)) ||
+    a.classDate.localeCompare(b.classDate) ||
+    a.startTime.localeCompare(b.startTime)
+  );
+  const courseNames = new Map<string, string>();
+  sortedSessions.forEach(session => {
+    courseNames.set(getCourseKey(session), session.courseCode || session.courseName || 'Class');
+  });
+
+  const statuses = new Map(records.map(record => [`${record.sessionId}:${record.userId}`, record.status]));
+  const rows = [...students];
+  const knownIds = new Set(students.map(student => student.id));
+  new Set(records.map(record => record.userId)).forEach(userId => {
+    if (!knownIds.has(userId)) {
+      rows.push({ id: userId, username: userId, email: '', isActive: false, status: 'disabled' });
+    }
+  });
+
+  const header = [
+    'Student ID',
+    'Name',
+    ...sortedSessions.map(session =>
+      `${courseNames.get(getCourseKey(session))} ${session.classDate} ${session.startTime.slice(0, 5)}`
+    ),
+    ...Array.from(courseNames.values()).map(name => `${name} %`)
+  ];
+
+  return [
+    header,
+    ...rows.map(student => {
+      const totals = new Map<string, { attended: number; counted: number }>();
+      const cells = sortedSessions.map(session => {
+        const status = statuses.get(`${session.id}:${student.id}`);
+        if (status && status !== 'excused') {
+          const total = totals.get(getCourseKey(session)) || { attended: 0, counted: 0 };
+          total.counted++;
+          if (status !== 'absent') total.attended++;
+          totals.set(getCourseKey(session), total);
+        }
+        return status ? STATUS_CODES[status] : '';
+      });
+
+      const percentages = Array.from(courseNames.keys()).map(key => {
+        const total = totals.get(key);
+        const percentage = total ? getPercentage(total.attended, total.counted) : null;
+        return percentage === null ? '' : String(percentage);
+      });
+
+      return [student.studentId || '', student.username, ...cells, ...percentages];
+    })
+  ];
+}
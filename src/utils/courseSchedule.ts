@@ -0,0 +1,99 @@
+import { formatSlotTime, sortSlots } from './routineUtils';
+import type { ClassTime, Course, CourseScheduleReport } from '../types/course';
+import type { Routine, RoutineSlot } from '../types/routine';
+
+/**
+ * A course's class times are derived from the active routine; the
+ * hand-entered `classTimes` are only kept for courses no routine covers.
+ * These helpers turn slots into class times and compare the two.
+ */
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Reads the "8:30 AM - 10:00 AM" style time of a class time as 24-hour
+ * "HH:MM" values. The end is missing when only a start time was entered.
+ */
+export function parseClassTimeRange(time: string): { startTime: string; endTime?: string } | null {
+  const parts = (time || '').split(/\s*(?:-|–|\bto\b)\s*/i).filter(Boolean);
+  if (parts.length === 0 || parts.length > 2) return null;
+
+  const clocks = parts.map(part => {
+    const match = part.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([AaPp][Mm])?$/);
+    if (!match) return null;
+
+    const [, hours, minutes = '00', period] = match;
+    const hours24 = period ? (Number(hours) % 12) + (period.toUpperCase() === 'PM' ? 12 : 0) : Number(hours);
+    return hours24 < 24 ? `${String(hours24).padStart(2, '0')}:${minutes}` : null;
+  });
+
+  if (clocks.some(clock => !clock)) return null;
+
+  return { startTime: clocks[0]!, endTime: clocks[1] || undefined };
+}
+
+export function slotToClassTime(slot: RoutineSlot): ClassTime {
+  return {
+    day: slot.dayOfWeek,
+    time: `${formatSlotTime(slot.startTime)} - ${formatSlotTime(slot.endTime)}`,
+    classroom: slot.roomNumber || undefined
+  };
+}
+
+/**
+ * The slots of a course in the given routines, in class week order
+ */
+export function getCourseSlots(courseId: string, routines: Routine[]): RoutineSlot[] {
+  return sortSlots(routines.flatMap(routine => (routine.slots || []).filter(slot => slot.courseId === courseId)));
+}
+
+/**
+ * Class times of a course as the routines have them
+ */
+export function getClassTimesFromRoutines(courseId: string, routines: Routine[]): ClassTime[] {
+  return getCourseSlots(courseId, routines).map(slotToClassTime);
+}
+
+// Two class times match when day, start (and end, when both have one) and room agree
+function sameClassTime(a: ClassTime, b: ClassTime): boolean {
+  if (normalize(a.day) !== normalize(b.day)) return false;
+  if (normalize(a.classroom) !== normalize(b.classroom)) return false;
+
+  const rangeA = parseClassTimeRange(a.time);
+  const rangeB = parseClassTimeRange(b.time);
+  if (!rangeA || !rangeB) return normalize(a.time) === normalize(b.time);
+
+  return rangeA.startTime === rangeB.startTime &&
+    (!rangeA.endTime || !rangeB.endTime || rangeA.endTime === rangeB.endTime);
+}
+
+/**
+ * Compares each course's hand-entered class times with its slots in the
+ * active routines
+ * @param courses The courses to check
+ * @param routines Routines to compare against; only active ones are used
+ */
+export function reconcileCourseSchedules(courses: Course[], routines: Routine[]): CourseScheduleReport[] {
+  const activeRoutines = routines.filter(routine => routine.isActive);
+
+  return courses.map(course => {
+    const routineTimes = getClassTimesFromRoutines(course.id, activeRoutines);
+    const courseTimes = (course.classTimes || []).filter(classTime => classTime.day);
+
+    // The routine that holds the course, or the only active one in scope
+    const holder = activeRoutines.find(routine => (routine.slots || []).some(slot => slot.courseId === course.id));
+    const routineId = holder?.id || (activeRoutines.length === 1 ? activeRoutines[0].id : undefined);
+
+    const missingFromRoutine = courseTimes.filter(classTime => !routineTimes.some(other => sameClassTime(classTime, other)));
+    const missingFromCourse = routineTimes.filter(classTime => !courseTimes.some(other => sameClassTime(classTime, other)));
+
+    return {
+      course,
+      routineId,
+      routineTimes,
+      missingFromRoutine,
+      missingFromCourse,
+      inSync: missingFromRoutine.length === 0 && missingFromCourse.length === 0
+    };
+  });
+}
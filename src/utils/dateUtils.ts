@@ -1,3 +1,11 @@
+import {
+  formatDueCountdown,
+  formatDueTime,
+  getTaskDeadline,
+  getTaskDueState,
+  type TaskDeadlineFields
+} from './taskDeadline';
+
 export function getDaysInWeek(date: Date): Date[] {
   const start = new Date(date);
   start.setDate(date.getDate() - date.getDay());
@@ -30,14 +38,16 @@ export function formatDate(date: Date | string, format?: string): string {
   return new Intl.DateTimeFormat('en-US', options).format(dateObj);
 }
 
-export function isOverdue(dueDate: string, status?: string): boolean {
+/**
+ * True once a task's deadline has passed, grace period or not. Takes the
+ * task itself so due times and time zones count; a bare date is due at the
+ * end of that day.
+ */
+export function isOverdue(task: TaskDeadlineFields | string, status?: string): boolean {
   if (status === 'completed') return false;
-  
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const taskDate = new Date(dueDate);
-  taskDate.setHours(0, 0, 0, 0);
-  return taskDate < today;
+
+  const state = getTaskDueState(task);
+  return state === 'late' || state === 'overdue';
 }
 
 /**
@@ -54,34 +64,39 @@ export function isSameDay(date1: Date, date2: Date): boolean {
   );
 }
 
-export function formatUpcomingDueDate(dueDate: string | Date): string {
-  const taskDueDate = typeof dueDate === 'string' ? new Date(dueDate) : dueDate;
-  taskDueDate.setHours(0, 0, 0, 0);
+export function formatUpcomingDueDate(task: TaskDeadlineFields | string | Date): string {
+  const due = task instanceof Date
+    ? `${task.getFullYear()}-${String(task.getMonth() + 1).padStart(2, '0')}-${String(task.getDate()).padStart(2, '0')}`
+    : task;
+  const deadline = getTaskDeadline(due);
+  const now = new Date();
 
-  const today = new Date();
+  // Deadlines within a day, and missed ones, get a countdown
+  if (getTaskDueState(due, now) !== 'upcoming') {
+    return formatDueCountdown(due, now);
+  }
+
+  const today = new Date(now);
   today.setHours(0, 0, 0, 0);
+  const dueDay = new Date(deadline);
+  dueDay.setHours(0, 0, 0, 0);
 
   const tomorrow = new Date(today);
   tomorrow.setDate(today.getDate() + 1);
 
-  if (isSameDay(taskDueDate, today)) {
-    return "Due Today";
-  }
-  if (isSameDay(taskDueDate, tomorrow)) {
-    return "Due Tomorrow";
+  if (isSameDay(dueDay, tomorrow)) {
+    return typeof due === 'string' ? 'Due Tomorrow' : `Due Tomorrow, ${formatDueTime(due)}`;
   }
 
-  const timeDiff = taskDueDate.getTime() - today.getTime();
-  const daysDiff = Math.ceil(timeDiff / (1000 * 3600 * 24));
+  const daysDiff = Math.round((dueDay.getTime() - today.getTime()) / (1000 * 3600 * 24));
 
   if (daysDiff > 1 && daysDiff <= 7) {
     return `Due in ${daysDiff} days`;
   }
-  
-  // Default format for dates further out or in the past (though upcoming tasks shouldn't be in the past)
-  return `Due ${taskDueDate.toLocaleDateString(undefined, {
+
+  return `Due ${dueDay.toLocaleDateString(undefined, {
     weekday: 'short',
     month: 'short',
     day: 'numeric',
   })}`;
-}
\ No newline at end of file
+}
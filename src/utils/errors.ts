@@ -0,0 +1,20 @@
+/**
+ * The message of a caught error. Supabase returns its errors as plain
+ * objects with a `message`, so `instanceof Error` alone would miss the
+ * database's reason.
+ * @param error Whatever was caught
+ * @param fallback Used when the error carries no message
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (
+    typeof error === 'object' &&
+    error !== null &&
+    'message' in error &&
+    typeof error.message === 'string' &&
+    error.message
+  ) {
+    return error.message;
+  }
+
+  return fallback;
+}
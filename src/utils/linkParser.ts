@@ -1,5 +1,5 @@
-// Regular expression to match URLs in text
-const URL_REGEX = /(https?:\/\/[^\s<>]+)/g;
+// Regular expression to match URLs in text, without trailing punctuation
+const URL_REGEX = /(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/g;
 
 export function parseLinks(text: string): Array<{ type: 'text' | 'link'; content: string }> {
   if (!text) return [{ type: 'text', content: '' }];
@@ -0,0 +1,118 @@
+import { Marked, type Token, type Tokens } from 'marked';
+import DOMPurify from 'dompurify';
+
+/**
+ * Markdown used in task descriptions and announcements.
+ *
+ * GitHub-flavoured Markdown with single line breaks kept, so text written
+ * before Markdown support still looks the same. Bare URLs become links.
+ */
+const markdown = new Marked({ gfm: true, breaks: true });
+
+const ALLOWED_TAGS = [
+  'p', 'br', 'strong', 'em', 'del', 'a', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td', 'input'
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'type', 'checked', 'disabled', 'align', 'start'];
+
+// Links open in a new tab without giving the page access to the opener
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+  // Task list checkboxes are display-only
+  if (node.tagName === 'INPUT') {
+    if (node.getAttribute('type') !== 'checkbox') {
+      node.remove();
+      return;
+    }
+    node.setAttribute('disabled', '');
+  }
+});
+
+/**
+ * Renders Markdown to HTML that is safe to inject: raw HTML, scripts,
+ * event handlers and `javascript:` URLs are removed
+ */
+export function renderMarkdown(text: string | null | undefined): string {
+  if (!text) return '';
+
+  const html = markdown.parse(text, { async: false }) as string;
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOWED_URI_REGEXP: /^(?:https?:|mailto:|tel:|#|\/)/i
+  });
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+function inlineText(tokens: Token[] | undefined): string {
+  return (tokens || []).map(tokenText).join('');
+}
+
+function tokenText(token: Token): string {
+  switch (token.type) {
+    case 'space':
+    case 'hr':
+      return '';
+    case 'br':
+      return '\n';
+    case 'code':
+      return token.text;
+    case 'codespan':
+      return decodeEntities(token.text);
+    case 'html':
+      return token.text.replace(/<[^>]*>/g, '');
+    case 'link': {
+      const label = inlineText(token.tokens);
+      return label && label !== token.href ? `${label} (${token.href})` : token.href;
+    }
+    case 'image':
+      return token.text;
+    case 'list':
+      return (token as Tokens.List).items
+        .map((item, index) => {
+          const marker = token.ordered ? `${Number(token.start || 1) + index}.` : '•';
+          const checkbox = item.task ? (item.checked ? '[x] ' : '[ ] ') : '';
+          return `${marker} ${checkbox}${blockText(item.tokens, '\n').trim()}`;
+        })
+        .join('\n');
+    case 'table': {
+      const table = token as Tokens.Table;
+      const row = (cells: Tokens.TableCell[]) => cells.map(cell => inlineText(cell.tokens)).join(' | ');
+      return [row(table.header), ...table.rows.map(row)].join('\n');
+    }
+    case 'blockquote':
+      return blockText(token.tokens);
+    default:
+      if ('tokens' in token && token.tokens) return inlineText(token.tokens);
+      return 'text' in token ? decodeEntities(String(token.text)) : '';
+  }
+}
+
+function blockText(tokens: Token[] | undefined, separator = '\n\n'): string {
+  return (tokens || [])
+    .map(tokenText)
+    .filter(text => text.trim().length > 0)
+    .join(separator);
+}
+
+/**
+ * Strips Markdown for places that cannot render it: Telegram messages,
+ * push notification bodies and one-line previews. Links keep their URL
+ * and list items get bullets.
+ */
+export function markdownToPlainText(text: string | null | undefined): string {
+  if (!text) return '';
+  return blockText(markdown.lexer(text)).trim();
+}
@@ -0,0 +1,140 @@
+import type { AdminPermission, AdminTab, PermissionScope, PermissionScopeLevel, PermissionSubject } from '../types/admin';
+import type { UserRole } from '../types/auth';
+
+/**
+ * The one place that decides what each role may do. The same table is
+ * seeded into `role_permissions` and read by `has_permission()`, so the
+ * navigation, the services and RLS agree; change both together.
+ */
+
+interface RoleDefinition {
+  scope: PermissionScopeLevel;
+  permissions: AdminPermission[];
+}
+
+const CONTENT_PERMISSIONS: AdminPermission[] = [
+  'manageTasks',
+  'manageAnnouncements',
+  'manageCourses',
+  'manageTeachers',
+  'manageStudyMaterials',
+  'manageRoutines'
+];
+
+export const ROLE_DEFINITIONS: Record<UserRole, RoleDefinition> = {
+  'super-admin': {
+    scope: 'global',
+    permissions: [
+      'viewUsers', 'createUsers', 'editUsers', 'deleteUsers', 'assignRoles',
+      'viewSettings', 'editSettings', 'viewReports', 'exportData',
+      'manageAdmins', 'viewLogs',
+      ...CONTENT_PERMISSIONS
+    ]
+  },
+  admin: {
+    scope: 'global',
+    permissions: [
+      'viewUsers', 'createUsers', 'editUsers', 'deleteUsers', 'assignRoles',
+      'viewReports', 'exportData',
+      ...CONTENT_PERMISSIONS
+    ]
+  },
+  'section-admin': {
+    scope: 'section',
+    permissions: ['viewUsers', 'deleteUsers', 'viewReports', ...CONTENT_PERMISSIONS]
+  },
+  user: {
+    scope: 'section',
+    permissions: []
+  }
+};
+
+/**
+ * The permission each admin dashboard tab needs; for a list, any one of them
+ */
+export const ADMIN_TAB_PERMISSIONS: Record<AdminTab, AdminPermission | AdminPermission[]> = {
+  dashboard: 'viewReports',
+  users: 'viewUsers',
+  tasks: 'manageTasks',
+  announcements: 'manageAnnouncements',
+  courses: 'manageCourses',
+  'study-materials': 'manageStudyMaterials',
+  routine: 'manageRoutines',
+  teachers: 'manageTeachers',
+  trash: CONTENT_PERMISSIONS,
+  'super-admin': 'manageAdmins'
+};
+
+/**
+ * Maps the role spellings found in user metadata and the users table
+ * ("section_admin", "super_admin", ...) to one name
+ */
+export function normalizeRole(role?: string | null): UserRole {
+  switch (role) {
+    case 'admin':
+      return 'admin';
+    case 'super-admin':
+    case 'super_admin':
+      return 'super-admin';
+    case 'section-admin':
+    case 'section_admin':
+      return 'section-admin';
+    default:
+      return 'user';
+  }
+}
+
+export function getRoleScope(role?: string | null): PermissionScopeLevel {
+  return ROLE_DEFINITIONS[normalizeRole(role)].scope;
+}
+
+export function getPermissions(user: PermissionSubject | null | undefined): AdminPermission[] {
+  if (!user) return [];
+
+  const granted = (user.permissions || []) as AdminPermission[];
+  return Array.from(new Set([...ROLE_DEFINITIONS[normalizeRole(user.role)].permissions, ...granted]));
+}
+
+function coversScope(user: PermissionSubject, scope: PermissionScope): boolean {
+  switch (getRoleScope(user.role)) {
+    case 'global':
+      return true;
+    case 'department':
+      return Boolean(user.departmentId) && scope.departmentId === user.departmentId;
+    case 'batch':
+      return Boolean(user.batchId) && scope.batchId === user.batchId;
+    case 'section': {
+      // Like has_permission(), assigned sections count as well as the user's own
+      const sectionId = scope.sectionId;
+      if (!sectionId) return false;
+      return sectionId === user.sectionId || Boolean(user.adminSectionIds?.includes(sectionId));
+    }
+  }
+}
+
+/**
+ * Whether a user holds a permission
+ * @param user The user; null means signed out
+ * @param permission The permission to check
+ * @param scope What it is checked against. Leave it out to ask whether
+ *   the user holds the permission anywhere (e.g. to show a tab); pass `{}`
+ *   for something that affects everyone.
+ */
+export function can(
+  user: PermissionSubject | null | undefined,
+  permission: AdminPermission,
+  scope?: PermissionScope
+): boolean {
+  if (!user || !getPermissions(user).includes(permission)) return false;
+  return scope === undefined || coversScope(user, scope);
+}
+
+/**
+ * Whether a user may open an admin dashboard tab
+ */
+export function canOpenTab(user: PermissionSubject | null | undefined, tab: AdminTab): boolean {
+  const required = ADMIN_TAB_PERMISSIONS[tab];
+  return Array.isArray(required)
+    ? required.some(permission => can(user, permission))
+    : can(user, required);
+}
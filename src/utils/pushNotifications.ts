@@ -1,6 +1,7 @@
 import { supabase } from '../lib/supabase';
 
-const VAPID_PUBLIC_KEY = 'BIuYLLr8y2QBCcfOE2aTDzKeT4FQ2JLTwEcz_L0VEMWzX3FfzOBjag7mkj2gCRLArcmtsE1aZC7WfRI6blb-yTE';
+// Must match the VAPID_PUBLIC_KEY secret of the push functions
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
 
 // Convert VAPID public key from base64 to Uint8Array
 function urlBase64ToUint8Array(base64String: string) {
@@ -18,6 +19,15 @@ function urlBase64ToUint8Array(base64String: string) {
   return outputArray;
 }
 
+// Whether a subscription was made with the given server key
+function hasServerKey(subscription: PushSubscription, key: Uint8Array) {
+  const current = subscription.options.applicationServerKey;
+  if (!current) return false;
+
+  const bytes = new Uint8Array(current);
+  return bytes.length === key.length && bytes.every((byte, i) => byte === key[i]);
+}
+
 // Request notification permission
 export async function requestNotificationPermission(): Promise<boolean> {
   try {
@@ -42,12 +52,25 @@ export async function subscribeToPushNotifications(userId: string) {
       return null;
     }
 
+    if (!VAPID_PUBLIC_KEY) {
+      console.warn('Push notifications are not configured: VITE_VAPID_PUBLIC_KEY is missing');
+      return null;
+    }
+
     // Wait for service worker registration
     const registration = await navigator.serviceWorker.ready;
     
     // Get existing subscription
     let subscription = await registration.pushManager.getSubscription();
 
+    const applicationServerKey = urlBase64ToUint8Array(VAPID_PUBLIC_KEY);
+
+    // Subscriptions made with a rotated-out key can't receive pushes anymore
+    if (subscription && !hasServerKey(subscription, applicationServerKey)) {
+      await subscription.unsubscribe();
+      subscription = null;
+    }
+
     // If subscription exists, return it
     if (subscription) {
       await saveSubscription(userId, subscription);
@@ -58,7 +81,7 @@ export async function subscribeToPushNotifications(userId: string) {
       // Create new subscription
       subscription = await registration.pushManager.subscribe({
         userVisibleOnly: true,
-        applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+        applicationServerKey
       });
 
       await saveSubscription(userId, subscription);
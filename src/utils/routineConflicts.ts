@@ -0,0 +1,134 @@
+import { timeToMinutes, formatSlotTime } from './routineUtils';
+import type { Routine, RoutineConflict, RoutineConflictType, RoutineSlotDraft } from '../types/routine';
+
+/**
+ * Clash detection for routine slots. A slot is compared with the other
+ * slots of its own routine and with the routines other sections follow
+ * in the same semester:
+ * - the same teacher teaching two classes at once
+ * - the same room booked for two classes at once
+ * - two classes of one section overlapping
+ */
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase().replace(/\s+/g, '');
+
+export function slotsOverlap(a: RoutineSlotDraft, b: RoutineSlotDraft): boolean {
+  if (normalize(a.dayOfWeek) !== normalize(b.dayOfWeek)) return false;
+  return timeToMinutes(a.startTime) < timeToMinutes(b.endTime) &&
+    timeToMinutes(b.startTime) < timeToMinutes(a.endTime);
+}
+
+const sameTeacher = (a: RoutineSlotDraft, b: RoutineSlotDraft) =>
+  a.teacherId && b.teacherId
+    ? a.teacherId === b.teacherId
+    : Boolean(normalize(a.teacherName)) && normalize(a.teacherName) === normalize(b.teacherName);
+
+const sameRoom = (a: RoutineSlotDraft, b: RoutineSlotDraft) =>
+  Boolean(normalize(a.roomNumber)) && normalize(a.roomNumber) === normalize(b.roomNumber);
+
+// Slots without a sub-section (lab group) are attended by the whole section
+const sameSectionGroup = (a: RoutineSlotDraft, b: RoutineSlotDraft) =>
+  !normalize(a.section) || !normalize(b.section) || normalize(a.section) === normalize(b.section);
+
+const describeSlot = (slot: RoutineSlotDraft) =>
+  `${slot.courseCode || slot.courseName || 'another class'} (${slot.dayOfWeek} ${formatSlotTime(slot.startTime)} - ${formatSlotTime(slot.endTime)})`;
+
+/**
+ * Routines that run at the same time as `routine`: those of other sections
+ * in the same semester. When a section has an active routine only that one
+ * counts, so drafts of the same section don't clash with each other.
+ */
+export function getConcurrentRoutines(routine: Pick<Routine, 'id' | 'semester' | 'sectionId'>, routines: Routine[]): Routine[] {
+  const bySection = new Map<string, Routine[]>();
+
+  routines
+    .filter(other => other.id !== routine.id && other.semester === routine.semester)
+    .filter(other => !routine.sectionId || other.sectionId !== routine.sectionId)
+    .forEach(other => {
+      const key = other.sectionId || other.id;
+      bySection.set(key, [...(bySection.get(key) || []), other]);
+    });
+
+  return [...bySection.values()].flatMap(sectionRoutines => {
+    const active = sectionRoutines.filter(other => other.isActive);
+    return active.length > 0 ? active : sectionRoutines;
+  });
+}
+
+function compareSlots(
+  slot: RoutineSlotDraft,
+  other: RoutineSlotDraft,
+  otherRoutine: Pick<Routine, 'id' | 'name'>,
+  isSameRoutine: boolean
+): RoutineConflict[] {
+  if (!slotsOverlap(slot, other)) return [];
+
+  const conflict = (type: RoutineConflictType, message: string): RoutineConflict => ({
+    type,
+    slot,
+    conflictingSlot: other,
+    conflictingRoutineId: otherRoutine.id,
+    conflictingRoutineName: otherRoutine.name,
+    message
+  });
+
+  // An overlap inside the section already covers a shared teacher or room
+  if (isSameRoutine && sameSectionGroup(slot, other)) {
+    return [conflict('section', `Overlaps ${describeSlot(other)} in this routine`)];
+  }
+
+  const where = isSameRoutine ? `section ${other.section}` : otherRoutine.name;
+  const conflicts: RoutineConflict[] = [];
+
+  if (sameTeacher(slot, other)) {
+    conflicts.push(conflict('teacher', `${slot.teacherName || other.teacherName || 'The teacher'} also teaches ${describeSlot(other)} in ${where}`));
+  }
+  if (sameRoom(slot, other)) {
+    conflicts.push(conflict('room', `Room ${slot.roomNumber} is also booked for ${describeSlot(other)} in ${where}`));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Finds the clashes of one slot, e.g. while it is being edited
+ * @param slot - The new or edited slot; its ID excludes the saved version from the check
+ * @param routine - The routine the slot belongs to, with its slots
+ * @param routines - All routines, used for clashes with other sections
+ */
+export function findSlotConflicts(slot: RoutineSlotDraft, routine: Routine, routines: Routine[]): RoutineConflict[] {
+  if (!slot.dayOfWeek || !slot.startTime || !slot.endTime) return [];
+
+  const ownConflicts = (routine.slots || [])
+    .filter(other => !slot.id || other.id !== slot.id)
+    .flatMap(other => compareSlots(slot, other, routine, true));
+
+  const otherConflicts = getConcurrentRoutines(routine, routines).flatMap(other =>
+    (other.slots || []).flatMap(otherSlot => compareSlots(slot, otherSlot, other, false))
+  );
+
+  return [...ownConflicts, ...otherConflicts];
+}
+
+/**
+ * Finds every clash of a routine's slots. A clash between two slots of the
+ * routine itself is reported once.
+ */
+export function findRoutineConflicts(routine: Routine, routines: Routine[]): RoutineConflict[] {
+  const slots = routine.slots || [];
+  const concurrentRoutines = getConcurrentRoutines(routine, routines);
+
+  return slots.flatMap((slot, index) => [
+    ...slots.slice(index + 1).flatMap(other => compareSlots(slot, other, routine, true)),
+    ...concurrentRoutines.flatMap(other =>
+      (other.slots || []).flatMap(otherSlot => compareSlots(slot, otherSlot, other, false))
+    )
+  ]);
+}
+
+/**
+ * One line per clash, for error messages
+ */
+export function summarizeConflicts(conflicts: RoutineConflict[]): string {
+  return conflicts.map(conflict => `${describeSlot(conflict.slot)}: ${conflict.message}`).join('\n');
+}
@@ -0,0 +1,65 @@
+import { sortSlots } from './routineUtils';
+import type { RoutineSlot, RoutineSlotChange, RoutineSlotChangeType } from '../types/routine';
+
+// Fields that decide when and where a class takes place
+const PLACEMENT_FIELDS: (keyof RoutineSlot)[] = ['dayOfWeek', 'startTime', 'endTime', 'roomNumber'];
+const DETAIL_FIELDS: (keyof RoutineSlot)[] = ['courseId', 'teacherId', 'section'];
+
+// "09:00" and "09:00:00" are the same time
+const normalize = (field: keyof RoutineSlot, value: unknown) => {
+  const text = value == null ? '' : String(value).trim();
+  return field === 'startTime' || field === 'endTime' ? text.slice(0, 5) : text;
+};
+
+const CHANGE_ORDER: Record<RoutineSlotChangeType, number> = { added: 0, moved: 1, changed: 2, removed: 3 };
+
+/**
+ * Compares two versions of a routine's slots. Slots are matched by ID, so
+ * an edited slot shows up as moved or changed rather than removed and added.
+ */
+export function diffRoutineSlots(before: RoutineSlot[], after: RoutineSlot[]): RoutineSlotChange[] {
+  const beforeById = new Map(before.map(slot => [slot.id, slot]));
+  const afterIds = new Set(after.map(slot => slot.id));
+  const changes: RoutineSlotChange[] = [];
+
+  sortSlots(after).forEach(slot => {
+    const previous = beforeById.get(slot.id);
+    if (!previous) {
+      changes.push({ type: 'added', after: slot, fields: [] });
+      return;
+    }
+
+    const fields = [...PLACEMENT_FIELDS, ...DETAIL_FIELDS]
+      .filter(field => normalize(field, previous[field]) !== normalize(field, slot[field]));
+    if (fields.length === 0) return;
+
+    changes.push({
+      type: fields.some(field => PLACEMENT_FIELDS.includes(field)) ? 'moved' : 'changed',
+      before: previous,
+      after: slot,
+      fields
+    });
+  });
+
+  sortSlots(before)
+    .filter(slot => !afterIds.has(slot.id))
+    .forEach(slot => changes.push({ type: 'removed', before: slot, fields: [] }));
+
+  return changes.sort((a, b) => CHANGE_ORDER[a.type] - CHANGE_ORDER[b.type]);
+}
+
+/**
+ * Counts changes by type, e.g. "2 added, 1 moved"
+ */
+export function summarizeRoutineChanges(changes: RoutineSlotChange[]): string {
+  const counts = changes.reduce<Partial<Record<RoutineSlotChangeType, number>>>((acc, change) => ({
+    ...acc,
+    [change.type]: (acc[change.type] || 0) + 1
+  }), {});
+
+  const parts = (Object.keys(CHANGE_ORDER) as RoutineSlotChangeType[])
+    .filter(type => counts[type])
+    .map(type => `${counts[type]} ${type}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
@@ -0,0 +1,133 @@
+import { formatSlotTime, getDateDayName, timeToMinutes } from './routineUtils';
+import type { RoutineOverride, RoutineOverrideKind, RoutineSlot, ScheduledClass } from '../types/routine';
+
+export const ROUTINE_OVERRIDE_LABELS: Record<RoutineOverrideKind, string> = {
+  cancel: 'Cancelled',
+  reschedule: 'Rescheduled',
+  'room-change': 'Room change',
+  makeup: 'Make-up class'
+};
+
+/**
+ * A local date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * The first date, today included, that falls on `dayOfWeek`
+ */
+export function getUpcomingDateForDay(dayOfWeek: string, now: Date = new Date()): string {
+  for (let offset = 0; offset < 7; offset++) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const key = toDateKey(date);
+    if (getDateDayName(key) === dayOfWeek) return key;
+  }
+  return toDateKey(now);
+}
+
+/**
+ * Formats a YYYY-MM-DD date for display (e.g. "Sun, 3 Aug")
+ */
+export function formatClassDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  });
+}
+
+const rescheduled = (slot: RoutineSlot, override: RoutineOverride, date: string): ScheduledClass => ({
+  ...slot,
+  dayOfWeek: getDateDayName(date),
+  startTime: override.startTime || slot.startTime,
+  endTime: override.endTime || slot.endTime,
+  roomNumber: override.roomNumber || slot.roomNumber,
+  date,
+  status: 'rescheduled',
+  override
+});
+
+/**
+ * The classes of a date with the routine's changes applied. Cancelled
+ * classes, and classes moved to another date, stay in the list so they
+ * can be shown as such; see `isClassHeld`.
+ */
+export function getClassesOnDate(
+  slots: RoutineSlot[],
+  overrides: RoutineOverride[],
+  date: string
+): ScheduledClass[] {
+  const day = getDateDayName(date);
+  const classes: ScheduledClass[] = [];
+
+  slots.filter(slot => slot.dayOfWeek === day).forEach(slot => {
+    const override = overrides.find(o => o.slotId === slot.id && o.classDate === date);
+
+    if (!override) {
+      classes.push({ ...slot, date, status: 'regular' });
+    } else if (override.kind === 'cancel') {
+      classes.push({ ...slot, date, status: 'cancelled', override });
+    } else if (override.kind === 'room-change') {
+      classes.push({ ...slot, roomNumber: override.roomNumber, date, status: 'room-changed', override });
+    } else if (override.kind === 'reschedule') {
+      classes.push(override.newDate && override.newDate !== date
+        ? { ...slot, date, status: 'moved', override }
+        : rescheduled(slot, override, date));
+    }
+  });
+
+  overrides.forEach(override => {
+    if (override.kind === 'reschedule' && override.newDate === date && override.classDate !== date) {
+      const slot = slots.find(s => s.id === override.slotId);
+      if (slot) classes.push(rescheduled(slot, override, date));
+    } else if (override.kind === 'makeup' && override.classDate === date) {
+      classes.push({
+        id: `makeup-${override.id}`,
+        routineId: override.routineId,
+        courseId: override.courseId,
+        courseName: override.courseName,
+        teacherName: override.teacherName,
+        dayOfWeek: day,
+        startTime: override.startTime || '00:00',
+        endTime: override.endTime || '00:00',
+        roomNumber: override.roomNumber,
+        createdAt: override.createdAt,
+        date,
+        status: 'makeup',
+        override
+      });
+    }
+  });
+
+  return classes.sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+}
+
+/**
+ * Whether a scheduled class actually takes place on its date
+ */
+export function isClassHeld(scheduled: ScheduledClass): boolean {
+  return scheduled.status !== 'cancelled' && scheduled.status !== 'moved';
+}
+
+/**
+ * One line about a change, as students are told about it
+ * @param override The change
+ * @param slot The class it changes; make-up classes have none
+ */
+export function describeRoutineOverride(override: RoutineOverride, slot?: RoutineSlot): string {
+  const course = override.courseName || slot?.courseName || 'Class';
+  const date = formatClassDate(override.classDate);
+  const room = override.roomNumber ? `, room ${override.roomNumber}` : '';
+
+  const message = {
+    cancel: `${course} on ${date} is cancelled`,
+    reschedule: `${course} on ${date} moves to ${formatClassDate(override.newDate || override.classDate)} at ${formatSlotTime(override.startTime || '')}${room}`,
+    'room-change': `${course} on ${date} is in room ${override.roomNumber}`,
+    makeup: `Make-up class of ${course} on ${date} at ${formatSlotTime(override.startTime || '')}${room}`
+  }[override.kind];
+
+  return override.reason ? `${message}: ${override.reason}` : message;
+}
@@ -0,0 +1,104 @@
+import type { RoutineSlot } from '../types/routine';
+
+// Class week order used by the department (Saturday to Friday)
+export const DAYS_OF_WEEK = [
+  'Saturday',
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday'
+] as const;
+
+export type DayOfWeek = typeof DAYS_OF_WEEK[number];
+
+const JS_DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Returns the routine day name for a date (e.g. "Monday")
+ */
+export function getDayName(date: Date = new Date()): string {
+  return JS_DAY_NAMES[date.getDay()];
+}
+
+/**
+ * Returns the routine day name of a YYYY-MM-DD date
+ */
+export function getDateDayName(date: string): string {
+  return JS_DAY_NAMES[new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Converts a slot time ("08:30", "08:30:00" or "8:30 AM") to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [clock, period] = time.trim().split(/\s+/);
+  const [hours, minutes] = clock.split(':').map(Number);
+  const hours24 = period ? ((hours || 0) % 12) + (period.toUpperCase() === 'PM' ? 12 : 0) : hours;
+  return (hours24 || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Formats a slot time for display (e.g. "13:30:00" to "1:30 PM")
+ */
+export function formatSlotTime(time: string): string {
+  try {
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours % 12 || 12;
+    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
+  } catch {
+    return time;
+  }
+}
+
+/**
+ * Sorts slots by day (in class week order) and then by start time
+ */
+export function sortSlots(slots: RoutineSlot[]): RoutineSlot[] {
+  return [...slots].sort((a, b) => {
+    const dayDiff = DAYS_OF_WEEK.indexOf(a.dayOfWeek as DayOfWeek) - DAYS_OF_WEEK.indexOf(b.dayOfWeek as DayOfWeek);
+    if (dayDiff !== 0) return dayDiff;
+    return timeToMinutes(a.startTime) - timeToMinutes(b.startTime);
+  });
+}
+
+/**
+ * Groups slots by day of week, each day sorted by start time
+ */
+export function groupSlotsByDay(slots: RoutineSlot[]): Record<string, RoutineSlot[]> {
+  const grouped: Record<string, RoutineSlot[]> = {};
+  DAYS_OF_WEEK.forEach(day => {
+    grouped[day] = [];
+  });
+
+  sortSlots(slots).forEach(slot => {
+    if (!grouped[slot.dayOfWeek]) {
+      grouped[slot.dayOfWeek] = [];
+    }
+    grouped[slot.dayOfWeek].push(slot);
+  });
+
+  return grouped;
+}
+
+/**
+ * Finds the class running right now and the next class later today
+ */
+export function getCurrentAndNextSlot(
+  slots: RoutineSlot[],
+  now: Date = new Date()
+): { current: RoutineSlot | null; next: RoutineSlot | null } {
+  const today = getDayName(now);
+  const minutesNow = now.getHours() * 60 + now.getMinutes();
+  const todaySlots = sortSlots(slots.filter(slot => slot.dayOfWeek === today));
+
+  const current = todaySlots.find(slot =>
+    timeToMinutes(slot.startTime) <= minutesNow && minutesNow < timeToMinutes(slot.endTime)
+  ) || null;
+
+  const next = todaySlots.find(slot => timeToMinutes(slot.startTime) > minutesNow) || null;
+
+  return { current, next };
+}
@@ -0,0 +1,214 @@
+import type { Task } from '../types';
+import type { Course, StudyMaterial } from '../types/course';
+import type { Teacher } from '../types/teacher';
+import type { Announcement } from '../types/announcement';
+import type { ParsedSearchQuery, SearchResult } from '../types/search';
+
+/**
+ * In-memory search index used while offline. It mirrors `search_all` in
+ * the database: the same fields and weights, prefix matching of every word
+ * and the same filter rules, so results look alike in both modes.
+ */
+
+export interface SearchSources {
+  tasks: Task[];
+  courses: Course[];
+  materials: StudyMaterial[];
+  teachers: Teacher[];
+  announcements: Announcement[];
+}
+
+interface IndexedField {
+  tokens: string[];
+  weight: number;
+}
+
+interface IndexedDocument {
+  result: Omit<SearchResult, 'rank'>;
+  fields: IndexedField[];
+  // Course codes the document belongs to, or text to look for a code in (tasks)
+  courseCodes: string[];
+  courseText?: string;
+  sortKey: string;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+}
+
+// Same weights as Postgres ts_rank for A, B and C
+const WEIGHT_A = 1;
+const WEIGHT_B = 0.4;
+const WEIGHT_C = 0.2;
+const RESULTS_PER_TYPE = 20;
+
+export function tokenize(text: string | null | undefined): string[] {
+  return (text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+const field = (weight: number, ...values: (string | null | undefined)[]): IndexedField => ({
+  tokens: values.flatMap(tokenize),
+  weight
+});
+
+const snippet = (text?: string | null) => (text || '').slice(0, 160);
+
+export function buildSearchIndex(sources: SearchSources): SearchIndex {
+  const courseCodeById = new Map(sources.courses.map(course => [course.id, course.code]));
+
+  const documents: IndexedDocument[] = [
+    ...sources.tasks.map(task => ({
+      result: {
+        type: 'task' as const,
+        id: task.id,
+        title: task.name,
+        subtitle: task.category,
+        snippet: snippet(task.description),
+        dueDate: task.dueDate,
+        category: task.category
+      },
+      fields: [
+        field(WEIGHT_A, task.name),
+        field(WEIGHT_B, task.description),
+        field(WEIGHT_C, task.category)
+      ],
+      courseCodes: [],
+      courseText: `${task.name} ${task.description}`.toUpperCase(),
+      sortKey: task.dueDate
+    })),
+    ...sources.courses.map(course => ({
+      result: {
+        type: 'course' as const,
+        id: course.id,
+        title: course.name,
+        subtitle: course.code,
+        snippet: course.teacher,
+        courseCode: course.code
+      },
+      fields: [
+        field(WEIGHT_A, course.code, course.name),
+        field(WEIGHT_B, course.teacher)
+      ],
+      courseCodes: [course.code.toUpperCase()],
+      sortKey: course.code
+    })),
+    ...sources.materials.map(material => {
+      const courseCode = material.course?.code || courseCodeById.get(material.courseId);
+      return {
+        result: {
+          type: 'material' as const,
+          id: material.id,
+          title: material.title,
+          subtitle: courseCode,
+          snippet: snippet(material.description),
+          category: material.category,
+          courseCode
+        },
+        fields: [
+          field(WEIGHT_A, material.title),
+          field(WEIGHT_B, material.description),
+          field(WEIGHT_C, ...(material.originalFileNames || []))
+        ],
+        courseCodes: courseCode ? [courseCode.toUpperCase()] : [],
+        sortKey: material.createdAt || ''
+      };
+    }),
+    ...sources.teachers.map(teacher => ({
+      result: {
+        type: 'teacher' as const,
+        id: teacher.id,
+        title: teacher.name,
+        subtitle: teacher.department,
+        snippet: teacher.email
+      },
+      fields: [
+        field(WEIGHT_A, teacher.name),
+        field(WEIGHT_B, teacher.department),
+        field(WEIGHT_C, teacher.email, teacher.officeRoom)
+      ],
+      courseCodes: (teacher.courses || []).map(course => course.code.toUpperCase()),
+      sortKey: teacher.name
+    })),
+    ...sources.announcements.map(announcement => ({
+      result: {
+        type: 'announcement' as const,
+        id: announcement.id,
+        title: announcement.title,
+        snippet: snippet(announcement.content)
+      },
+      fields: [
+        field(WEIGHT_A, announcement.title),
+        field(WEIGHT_B, announcement.content)
+      ],
+      courseCodes: [],
+      sortKey: announcement.createdAt || ''
+    }))
+  ];
+
+  return { documents };
+}
+
+/**
+ * Every query word has to prefix-match a token; the score adds up the
+ * weight of the best field each word was found in
+ */
+function scoreDocument(document: IndexedDocument, terms: string[]): number | null {
+  let score = 0;
+
+  for (const term of terms) {
+    const best = document.fields.reduce((max, { tokens, weight }) =>
+      weight > max && tokens.some(token => token.startsWith(term)) ? weight : max
+    , 0);
+
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return score;
+}
+
+function matchesFilters(document: IndexedDocument, { filters }: ParsedSearchQuery): boolean {
+  const { type, dueDate, category } = document.result;
+  const hasDueFilter = Boolean(filters.dueAfter || filters.dueBefore);
+
+  if (filters.types && !filters.types.includes(type)) return false;
+
+  // Due dates only exist on tasks, categories on tasks and materials
+  if (hasDueFilter && type !== 'task') return false;
+  if (filters.category && type !== 'task' && type !== 'material') return false;
+  if (filters.course && type === 'announcement') return false;
+
+  if (filters.category && category?.toLowerCase() !== filters.category) return false;
+
+  if (filters.course) {
+    const matchesCourse = type === 'task'
+      ? document.courseText?.includes(filters.course)
+      : document.courseCodes.some(code => code.startsWith(filters.course!));
+    if (!matchesCourse) return false;
+  }
+
+  if (hasDueFilter) {
+    const due = (dueDate || '').slice(0, 10);
+    if (!due) return false;
+    if (filters.dueAfter && due < filters.dueAfter) return false;
+    if (filters.dueBefore && due > filters.dueBefore) return false;
+  }
+
+  return true;
+}
+
+export function searchIndex(index: SearchIndex, query: ParsedSearchQuery): SearchResult[] {
+  const terms = tokenize(query.text);
+  const perType: Record<string, number> = {};
+
+  return index.documents
+    .filter(document => matchesFilters(document, query))
+    .map(document => ({ document, rank: terms.length ? scoreDocument(document, terms) : 0 }))
+    .filter((entry): entry is { document: IndexedDocument; rank: number } => entry.rank !== null)
+    .sort((a, b) => b.rank - a.rank || a.document.sortKey.localeCompare(b.document.sortKey))
+    .filter(({ document }) => {
+      perType[document.result.type] = (perType[document.result.type] || 0) + 1;
+      return perType[document.result.type] <= RESULTS_PER_TYPE;
+    })
+    .map(({ document, rank }) => ({ ...document.result, rank }));
+}
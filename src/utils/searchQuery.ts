@@ -0,0 +1,92 @@
+import { format, addDays } from 'date-fns';
+import type { ParsedSearchQuery, SearchFilters, SearchResultType } from '../types/search';
+
+const RESULT_TYPE_ALIASES: Record<string, SearchResultType> = {
+  task: 'task',
+  tasks: 'task',
+  course: 'course',
+  courses: 'course',
+  material: 'material',
+  materials: 'material',
+  teacher: 'teacher',
+  teachers: 'teacher',
+  announcement: 'announcement',
+  announcements: 'announcement'
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Turns a `due:` value into date bounds:
+ * `<7d` / `<2w` (due within), `>3d` (due later than), `today`, `overdue`
+ * or a `yyyy-MM-dd` date
+ */
+function parseDueFilter(value: string, now: Date): Pick<SearchFilters, 'dueAfter' | 'dueBefore'> | null {
+  const today = toDateString(now);
+
+  if (value === 'today') return { dueAfter: today, dueBefore: today };
+  if (value === 'overdue') return { dueBefore: toDateString(addDays(now, -1)) };
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return { dueAfter: value, dueBefore: value };
+
+  const match = value.match(/^([<>])(\d+)([dw])$/);
+  if (!match) return null;
+
+  const days = Number(match[2]) * (match[3] === 'w' ? 7 : 1);
+  const boundary = toDateString(addDays(now, days));
+
+  return match[1] === '<'
+    ? { dueAfter: today, dueBefore: boundary }
+    : { dueAfter: boundary };
+}
+
+/**
+ * Splits a search query into free text and `key:value` filters.
+ * Supported keys: `category`, `course`, `due` and `type`. Unknown keys and
+ * unparsable values are kept as search text.
+ * @example
+ * parseSearchQuery('lab report course:CSE221 due:<7d')
+ * // { text: 'lab report', filters: { course: 'CSE221', dueAfter: ..., dueBefore: ... } }
+ */
+export function parseSearchQuery(input: string, now: Date = new Date()): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const words: string[] = [];
+
+  input.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    const separator = token.indexOf(':');
+    const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+    const value = separator > 0 ? token.slice(separator + 1) : '';
+
+    if (key && value) {
+      if (key === 'category' || key === 'cat') {
+        filters.category = value.toLowerCase();
+        return;
+      }
+      if (key === 'course') {
+        filters.course = value.toUpperCase();
+        return;
+      }
+      if (key === 'due') {
+        const due = parseDueFilter(value.toLowerCase(), now);
+        if (due) {
+          Object.assign(filters, due);
+          return;
+        }
+      }
+      if (key === 'type' || key === 'in') {
+        const type = RESULT_TYPE_ALIASES[value.toLowerCase()];
+        if (type) {
+          filters.types = [...(filters.types || []), type];
+          return;
+        }
+      }
+    }
+
+    words.push(token);
+  });
+
+  return { text: words.join(' '), filters };
+}
+
+export function hasSearchCriteria({ text, filters }: ParsedSearchQuery): boolean {
+  return text.length > 0 || Object.keys(filters).length > 0;
+}
@@ -0,0 +1,210 @@
+/**
+ * Helpers shared by the bulk importers for reading CSV/XLSX files and
+ * mapping their columns onto import fields.
+ */
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other header names that should map to this field automatically
+  aliases?: string[];
+}
+
+export interface SheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Field key -> column index in the sheet, null when not mapped
+export type ColumnMapping = Record<string, number | null>;
+
+export const IMPORT_FILE_ACCEPT = [
+  '.json',
+  '.csv',
+  '.xlsx',
+  'application/json',
+  'text/csv',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+].join(',');
+
+export function isJsonFile(file: File): boolean {
+  return file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+}
+
+export function isSpreadsheetFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return name.endsWith('.csv') || name.endsWith('.xlsx');
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields, escaped quotes, line breaks
+ * inside quotes). Comma, semicolon or tab is detected from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Turns an Excel cell into text. Time-only cells (Excel stores them on
+ * 1899-12-30) become "h:mm AM/PM", other dates "yyyy-mm-dd".
+ */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (value instanceof Date) {
+    if (value.getUTCFullYear() < 1901) {
+      const hours = value.getUTCHours();
+      const period = hours >= 12 ? 'PM' : 'AM';
+      return `${hours % 12 || 12}:${pad(value.getUTCMinutes())} ${period}`;
+    }
+    return `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+  }
+
+  return String(value).trim();
+}
+
+/**
+ * Reads the first sheet of an XLSX file or a CSV file. The first non-empty
+ * row is used as the header row.
+ */
+export async function readSpreadsheet(file: File): Promise<SheetData> {
+  let cells: string[][];
+
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    // Loaded on demand; only admins importing spreadsheets need it
+    const { default: readXlsxFile } = await import('read-excel-file');
+    const rows = await readXlsxFile(file);
+    cells = rows.map(row => row.map(formatCell));
+  } else {
+    cells = parseCsv(await file.text()).map(row => row.map(cell => cell.trim()));
+  }
+
+  const nonEmpty = cells.filter(row => row.some(cell => cell !== ''));
+  if (nonEmpty.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const [headers, ...rows] = nonEmpty;
+  return { headers, rows };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Matches sheet headers to fields by key, label or alias, ignoring case,
+ * spaces and punctuation
+ */
+export function guessColumnMapping(headers: string[], fields: ImportField[]): ColumnMapping {
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  return fields.reduce((mapping: ColumnMapping, field) => {
+    const candidates = [field.key, field.label, ...(field.aliases || [])].map(normalizeHeader);
+    const index = normalizedHeaders.findIndex(header => candidates.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+    return mapping;
+  }, {});
+}
+
+export function getMissingRequiredFields(fields: ImportField[], mapping: ColumnMapping): ImportField[] {
+  return fields.filter(field => field.required && (mapping[field.key] ?? null) === null);
+}
+
+/**
+ * Converts sheet rows into objects keyed by field, leaving out unmapped
+ * fields and empty cells
+ */
+export function mapSheetRows(sheet: SheetData, mapping: ColumnMapping): Record<string, string>[] {
+  return sheet.rows.map(row =>
+    Object.entries(mapping).reduce((item: Record<string, string>, [key, index]) => {
+      const value = index === null ? '' : (row[index] || '').trim();
+      if (value) item[key] = value;
+      return item;
+    }, {})
+  );
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (cell: string) => {
+  const value = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Downloads rows as a CSV file; the first row is the header
+ */
+export function downloadCsv(fileName: string, rows: string[][]): void {
+  const lines = rows.map(row => row.map(escapeCsvValue).join(','));
+
+  const blob = new Blob([lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads a CSV template with one column per field and example rows
+ */
+export function downloadImportTemplate(
+  fileName: string,
+  fields: ImportField[],
+  exampleRows: Record<string, string>[]
+): void {
+  downloadCsv(fileName, [
+    fields.map(field => field.key),
+    ...exampleRows.map(row => fields.map(field => row[field.key] || ''))
+  ]);
+}
@@ -0,0 +1,102 @@
+import { zip, type Zippable } from 'fflate';
+import { normalizeRole } from './permissions';
+import { getTaskDeadline, type TaskDeadlineFields } from './taskDeadline';
+import type { AdminUser } from '../types/admin';
+import type { SubmissionRosterEntry, SubmissionStatus, TaskSubmission } from '../types/submission';
+
+/**
+ * Late is measured against the task's current deadline, so moving the
+ * deadline also moves who counts as late
+ */
+export function getSubmissionStatus(task: TaskDeadlineFields, submission?: TaskSubmission): SubmissionStatus {
+  if (!submission) return 'missing';
+  return new Date(submission.submittedAt).getTime() > getTaskDeadline(task).getTime() ? 'late' : 'submitted';
+}
+
+/**
+ * One entry per student of the section, missing ones first, then by name
+ */
+export function buildSubmissionRoster(
+  task: TaskDeadlineFields,
+  users: AdminUser[],
+  submissions: TaskSubmission[]
+): SubmissionRosterEntry[] {
+  const byUser = new Map(submissions.map(submission => [submission.userId, submission]));
+  const order: Record<SubmissionStatus, number> = { missing: 0, late: 1, submitted: 2 };
+
+  return users
+    .filter(user => normalizeRole(user.role) === 'user')
+    .map(user => {
+      const submission = byUser.get(user.id);
+      return { user, submission, status: getSubmissionStatus(task, submission) };
+    })
+    .sort((a, b) =>
+      order[a.status] - order[b.status] || a.user.username.localeCompare(b.user.username)
+    );
+}
+
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'file';
+
+/**
+ * Zips every submitted file, one folder per student named after their
+ * student ID and name. Links and notes go into a `submission.txt` in the
+ * same folder, late submissions get a `LATE` marker in the folder name.
+ * @returns The names of files that could not be fetched
+ */
+export async function downloadSubmissionsZip(fileName: string, roster: SubmissionRosterEntry[]): Promise<string[]> {
+  const files: Zippable = {};
+  const failed: string[] = [];
+  const encoder = new TextEncoder();
+
+  for (const { user, submission, status } of roster) {
+    if (!submission) continue;
+
+    const folder = safeName(
+      [user.studentId, user.username, status === 'late' ? 'LATE' : ''].filter(Boolean).join(' - ')
+    );
+    const usedNames = new Set<string>();
+
+    for (const file of submission.files) {
+      try {
+        const response = await fetch(file.url);
+        if (!response.ok) throw new Error(response.statusText);
+
+        // Two files with the same name would overwrite each other
+        let name = safeName(file.fileName);
+        for (let i = 2; usedNames.has(name); i++) {
+          name = safeName(file.fileName).replace(/(\.[^.]*)?$/, ` (${i})$1`);
+        }
+        usedNames.add(name);
+
+        files[`${folder}/${name}`] = new Uint8Array(await response.arrayBuffer());
+      } catch (error) {
+        console.error('Error fetching submission file:', error);
+        failed.push(`${user.username}: ${file.fileName}`);
+      }
+    }
+
+    const details = [
+      `Submitted: ${new Date(submission.submittedAt).toLocaleString()}${status === 'late' ? ' (late)' : ''}`,
+      submission.link ? `Link: ${submission.link}` : '',
+      submission.note ? `Note:\n${submission.note}` : ''
+    ].filter(Boolean).join('\n');
+    files[`${folder}/submission.txt`] = encoder.encode(`${details}\n`);
+  }
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) => {
+    // Most submissions are already compressed (PDF, DOCX, images)
+    zip(files, { level: 0 }, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+  const blob = new Blob([archive], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return failed;
+}
@@ -0,0 +1,23 @@
+import type { TaskCategory } from '../types/task';
+
+// Categories in the order admin pickers list them
+export const TASK_CATEGORY_OPTIONS: { value: TaskCategory; label: string }[] = [
+  { value: 'assignment', label: 'Assignment' },
+  { value: 'blc', label: 'BLC' },
+  { value: 'documents', label: 'Documents' },
+  { value: 'final-exam', label: 'Final Exam' },
+  { value: 'groups', label: 'Groups' },
+  { value: 'lab-final', label: 'Lab Final' },
+  { value: 'lab-performance', label: 'Lab Performance' },
+  { value: 'lab-report', label: 'Lab Report' },
+  { value: 'midterm', label: 'Midterm' },
+  { value: 'presentation', label: 'Presentation' },
+  { value: 'project', label: 'Project' },
+  { value: 'quiz', label: 'Quiz' },
+  { value: 'task', label: 'Task' },
+  { value: 'others', label: 'Others' }
+];
+
+// Categories where students usually turn work in; new tasks of these
+// categories ask for submissions unless the admin turns it off
+export const SUBMISSION_CATEGORIES: TaskCategory[] = ['assignment', 'lab-report', 'project'];
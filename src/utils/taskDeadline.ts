@@ -0,0 +1,167 @@
+import type { Task } from '../types/task';
+
+// Zone deadlines are set in unless a task names another; the database's
+// task_due_at() uses the same one
+export const APP_TIMEZONE = 'Asia/Dhaka';
+
+// Tasks without a time are due at the end of their day
+export const DEFAULT_DUE_TIME = '23:59';
+
+export const GRACE_PERIOD_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'No grace period' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 180, label: '3 hours' },
+  { value: 720, label: '12 hours' },
+  { value: 1440, label: '1 day' },
+  { value: 2880, label: '2 days' }
+];
+
+// A task is due soon within this long of its deadline
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+export type TaskDeadlineFields = Pick<Task, 'dueDate' | 'dueAt' | 'dueTimezone' | 'gracePeriodMinutes'>;
+
+/**
+ * Where a task stands against its deadline:
+ * - `upcoming`: more than a day left
+ * - `due-soon`: due within a day
+ * - `late`: past the deadline, but late work is still accepted
+ * - `overdue`: past the deadline and any grace period
+ */
+export type TaskDueState = 'upcoming' | 'due-soon' | 'late' | 'overdue';
+
+export const getLocalTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '00';
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+};
+
+// Milliseconds the zone is ahead of UTC at the given moment
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day), Number(p.hour), Number(p.minute), Number(p.second));
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * The moment a wall-clock date and time in a zone happens
+ * @param date yyyy-MM-dd
+ * @param time HH:mm or HH:mm:ss
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone = APP_TIMEZONE): Date {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours = 0, minutes = 0, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Checked twice so a zone that changes its offset that day still lands right
+  let result = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  result = wallClock - getTimeZoneOffset(new Date(result), timeZone);
+  return new Date(result);
+}
+
+/**
+ * Splits a moment into the date and time inputs' values in a zone
+ */
+export function toZonedInputValues(date: Date, timeZone = APP_TIMEZONE): { date: string; time: string } {
+  const p = zonedParts(date, timeZone);
+  return { date: `${p.year}-${p.month}-${p.day}`, time: `${p.hour}:${p.minute}` };
+}
+
+/**
+ * The exact deadline of a task. A bare date is due at the end of that day.
+ */
+export function getTaskDeadline(task: TaskDeadlineFields | string): Date {
+  if (typeof task === 'string') return zonedTimeToUtc(task, '23:59:59');
+  if (task.dueAt) return new Date(task.dueAt);
+  return zonedTimeToUtc(task.dueDate, '23:59:59', task.dueTimezone || APP_TIMEZONE);
+}
+
+/**
+ * False for tasks due at the end of their day, whose time isn't worth showing
+ */
+export function hasDueTime(task: TaskDeadlineFields): boolean {
+  if (!task.dueAt) return false;
+  return toZonedInputValues(new Date(task.dueAt), task.dueTimezone || APP_TIMEZONE).time !== DEFAULT_DUE_TIME;
+}
+
+export function getTaskDueState(task: TaskDeadlineFields | string, now: Date = new Date()): TaskDueState {
+  const deadline = getTaskDeadline(task).getTime();
+  if (Number.isNaN(deadline)) return 'upcoming';
+
+  const remaining = deadline - now.getTime();
+  if (remaining > DUE_SOON_MS) return 'upcoming';
+  if (remaining > 0) return 'due-soon';
+
+  const graceMs = (typeof task === 'string' ? 0 : task.gracePeriodMinutes || 0) * 60 * 1000;
+  return -remaining <= graceMs ? 'late' : 'overdue';
+}
+
+// "45m", "3h", "2h 30m", "4d"
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    const rest = minutes % 60;
+    return hours < 3 && rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+  }
+
+  return `${Math.round(hours / 24)}d`;
+}
+
+/**
+ * "Due in 3h", "Late · closes in 2h" or "Late by 2d"
+ */
+export function formatDueCountdown(task: TaskDeadlineFields | string, now: Date = new Date()): string {
+  const deadline = getTaskDeadline(task).getTime();
+  const state = getTaskDueState(task, now);
+
+  if (state === 'upcoming' || state === 'due-soon') {
+    return `Due in ${formatDuration(deadline - now.getTime())}`;
+  }
+  if (state === 'late' && typeof task !== 'string') {
+    const closesAt = deadline + (task.gracePeriodMinutes || 0) * 60 * 1000;
+    return `Late · closes in ${formatDuration(closesAt - now.getTime())}`;
+  }
+  return `Late by ${formatDuration(now.getTime() - deadline)}`;
+}
+
+/**
+ * The deadline's time of day, e.g. "11:59 AM". The zone is added when it
+ * isn't the viewer's own.
+ */
+export function formatDueTime(task: TaskDeadlineFields): string {
+  const timeZone = task.dueTimezone || APP_TIMEZONE;
+  return new Intl.DateTimeFormat('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: timeZone === getLocalTimeZone() ? undefined : 'short'
+  }).format(getTaskDeadline(task));
+}
+
+export function formatGracePeriod(minutes: number): string {
+  return GRACE_PERIOD_OPTIONS.find(option => option.value === minutes)?.label || formatDuration(minutes * 60000);
+}
@@ -1,15 +1,30 @@
 import type { Task } from '../types';
+import { mapAttachmentFromDB, type TaskAttachmentRow } from '../services/taskAttachment.service';
 
 export function mapTaskFromDB(dbTask: any): Task {
-  return {
+  const task: Task = {
     id: dbTask.id,
     name: dbTask.name,
     category: dbTask.category,
     dueDate: dbTask.due_date,
+    dueAt: dbTask.due_at || undefined,
+    dueTimezone: dbTask.due_timezone || undefined,
+    gracePeriodMinutes: dbTask.grace_minutes || 0,
+    requiresSubmission: !!dbTask.requires_submission,
     description: dbTask.description,
     status: dbTask.status,
     createdAt: dbTask.created_at,
     isAdminTask: dbTask.is_admin_task,
-    sectionId: dbTask.section_id || null
+    sectionId: dbTask.section_id || null,
+    priority: dbTask.priority || undefined
   };
-}
\ No newline at end of file
+
+  // Only present when the query embeds task_attachments
+  if (Array.isArray(dbTask.task_attachments)) {
+    task.attachments = (dbTask.task_attachments as TaskAttachmentRow[])
+      .map(mapAttachmentFromDB)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  return task;
+}
@@ -0,0 +1,85 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Service-role client; bypasses RLS, so callers must check permissions themselves
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * Returns the id of the user whose access token came with the request
+ */
+export async function getRequestUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  return user?.id ?? null;
+}
+
+/**
+ * Whether a request comes from the scheduler: it carries the service role
+ * key as its bearer token, or `CRON_SECRET` in an `x-cron-secret` header.
+ * Scheduled functions do privileged work and must check this first.
+ */
+export function isScheduledRequest(req: Request): boolean {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const cronSecret = Deno.env.get('CRON_SECRET');
+
+  return Boolean(
+    (serviceKey && token && safeEqual(token, serviceKey)) ||
+    (cronSecret && safeEqual(req.headers.get('x-cron-secret') || '', cronSecret))
+  );
+}
+
+// Compares secrets without returning early at the first difference
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export interface PermissionScope {
+  sectionId?: string | null;
+  batchId?: string | null;
+  departmentId?: string | null;
+}
+
+/**
+ * Whether the user who sent the request holds a permission for the given
+ * scope. Asks `has_permission` as that user, so edge functions follow the
+ * same rules as RLS.
+ */
+export async function requestHasPermission(
+  req: Request,
+  permission: string,
+  scope: PermissionScope = {}
+): Promise<boolean> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return false;
+
+  const supabaseAsUser = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } }, auth: { persistSession: false } }
+  );
+
+  const { data, error } = await supabaseAsUser.rpc('has_permission', {
+    p_permission: permission,
+    p_section_id: scope.sectionId || null,
+    p_batch_id: scope.batchId || null,
+    p_department_id: scope.departmentId || null
+  });
+
+  if (error) {
+    console.error('Error checking permission:', error);
+    return false;
+  }
+
+  return data === true;
+}
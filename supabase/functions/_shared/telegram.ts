@@ -0,0 +1,87 @@
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export interface TelegramTarget {
+  chatId: string;
+  threadId: number | null;
+}
+
+const TELEGRAM_BOT_TOKEN = Deno.env.get('TELEGRAM_BOT_TOKEN');
+const TELEGRAM_API = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`;
+
+export const isTelegramConfigured = () => Boolean(TELEGRAM_BOT_TOKEN);
+
+/**
+ * Flattens a Markdown body into plain text for an HTML-mode message.
+ * Mirrors `markdownToPlainText` in the app for the common syntax.
+ */
+export const toTelegramText = (markdown: string) =>
+  markdown
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/^```.*$/gm, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/gm, '• ')
+    .replace(/^(\s*)[-*+]\s+/gm, '$1• ')
+    .replace(/^&gt;\s?/gm, '')
+    .replace(/!?\[([^\]]*)\]\(([^)\s]+)\)/g, (_, label, url) => (label && label !== url ? `${label} (${url})` : url))
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Finds the chat a section posts to. Messages without a section go to the
+ * chat in `TELEGRAM_DEFAULT_CHAT_ID`, when one is set.
+ */
+export async function resolveTelegramTarget(sectionId: string | null): Promise<TelegramTarget | null> {
+  if (!sectionId) {
+    const chatId = Deno.env.get('TELEGRAM_DEFAULT_CHAT_ID');
+    const threadId = Deno.env.get('TELEGRAM_DEFAULT_THREAD_ID');
+    return chatId ? { chatId, threadId: threadId ? Number(threadId) : null } : null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('section_telegram_settings')
+    .select('chat_id, message_thread_id, enabled')
+    .eq('section_id', sectionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || !data.enabled) return null;
+
+  return { chatId: data.chat_id, threadId: data.message_thread_id };
+}
+
+/**
+ * Posts an HTML message, or a photo with the message as caption
+ * @returns The Telegram error description, or null when the message was sent
+ */
+export async function postTelegramMessage(
+  target: TelegramTarget,
+  text: string,
+  photo?: string
+): Promise<string | null> {
+  const requestBody = {
+    chat_id: target.chatId,
+    ...(target.threadId ? { message_thread_id: target.threadId } : {}),
+    parse_mode: 'HTML',
+    ...(photo
+      ? { photo, caption: text }
+      : { text, disable_web_page_preview: false })
+  };
+
+  const response = await fetch(`${TELEGRAM_API}/${photo ? 'sendPhoto' : 'sendMessage'}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(requestBody)
+  });
+
+  if (response.ok) return null;
+
+  const responseData = await response.json();
+  console.error('Telegram API error:', responseData);
+  return responseData.description || 'Telegram rejected the message';
+}
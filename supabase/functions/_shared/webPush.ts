@@ -0,0 +1,23 @@
+import webpush from 'npm:web-push@3.6.7';
+
+// The key pair lives in the function secrets only; a key committed here
+// would let anyone sign pushes to every subscriber
+const VAPID_PUBLIC_KEY = Deno.env.get('VAPID_PUBLIC_KEY');
+const VAPID_PRIVATE_KEY = Deno.env.get('VAPID_PRIVATE_KEY');
+
+if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+  throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set');
+}
+
+webpush.setVapidDetails(
+  'mailto:sheikhshariarnehal@gmail.com',
+  VAPID_PUBLIC_KEY,
+  VAPID_PRIVATE_KEY
+);
+
+// Subscriptions were saved both as JSON strings and as objects
+export function parseSubscription(subscription: unknown) {
+  return typeof subscription === 'string' ? JSON.parse(subscription) : subscription;
+}
+
+export { webpush };
@@ -0,0 +1,87 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, isScheduledRequest } from '../_shared/supabaseAdmin.ts';
+import { isTelegramConfigured, resolveTelegramTarget, postTelegramMessage, toTelegramText } from '../_shared/telegram.ts';
+
+/**
+ * Publishes scheduled announcements once their `publish_at` has passed.
+ *
+ * Meant to run on a schedule (e.g. every 5 minutes via a Supabase cron job).
+ * `publish_scheduled_announcements` writes the inbox rows for the audience
+ * and clears those of expired announcements; this function then posts the
+ * published ones to Telegram, as the app does for announcements sent right
+ * away. Batch and department announcements have no Telegram chat.
+ */
+
+interface PublishedAnnouncement {
+  id: string;
+  title: string;
+  content: string;
+  section_id: string | null;
+  batch_id: string | null;
+  department_id: string | null;
+}
+
+const APP_DOMAIN = 'https://nesttask.vercel.app';
+
+const formatTelegramMessage = (announcement: PublishedAnnouncement) => `
+
+🎯 <b>${announcement.title}</b>
+
+${toTelegramText(announcement.content)}
+
+
+🌐 <b><a href="${APP_DOMAIN}">View full details</a></b>`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Not allowed' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('publish_scheduled_announcements');
+    if (error) throw error;
+
+    const published = (data || []) as PublishedAnnouncement[];
+    let posted = 0;
+
+    if (isTelegramConfigured()) {
+      for (const announcement of published) {
+        if (!announcement.section_id && (announcement.batch_id || announcement.department_id)) continue;
+
+        try {
+          const target = await resolveTelegramTarget(announcement.section_id);
+          if (!target) continue;
+
+          const imageUrl = announcement.content.match(/https?:\/\/[^\s]+\.(jpg|jpeg|png|gif|webp)/i)?.[0];
+          const telegramError = await postTelegramMessage(target, formatTelegramMessage(announcement), imageUrl);
+          if (!telegramError) posted++;
+        } catch (err) {
+          console.error('Error posting scheduled announcement to Telegram:', err);
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, published: published.length, posted }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error publishing scheduled announcements:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to publish scheduled announcements' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
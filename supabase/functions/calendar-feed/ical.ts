@@ -0,0 +1,284 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for the task and routine feed.
+ *
+ * Routine slots are stored as a weekday plus wall-clock times in Dhaka,
+ * so they are written with a TZID and a matching VTIMEZONE instead of
+ * being converted to UTC. Date-specific changes to a routine become
+ * EXDATEs and RECURRENCE-ID instances of the slot's series, and make-up
+ * classes single events.
+ */
+
+export const CALENDAR_TIMEZONE = 'Asia/Dhaka';
+
+export interface CalendarTask {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  due_date: string;
+  due_at?: string | null;
+  due_timezone?: string | null;
+  updated_at?: string | null;
+}
+
+export interface CalendarSlot {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_number: string | null;
+  course_name: string | null;
+  course_code: string | null;
+  teacher_name: string | null;
+}
+
+export interface CalendarOverride {
+  id: string;
+  slot_id: string | null;
+  kind: 'cancel' | 'reschedule' | 'room-change' | 'makeup';
+  class_date: string;
+  new_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  room_number: string | null;
+  course_name: string | null;
+  teacher_name: string | null;
+  reason: string | null;
+}
+
+export interface CalendarRoutine {
+  name: string;
+  semester: string;
+  created_at: string;
+  slots: CalendarSlot[];
+  overrides: CalendarOverride[];
+}
+
+const WEEKDAYS: Record<string, { byDay: string; index: number }> = {
+  sunday: { byDay: 'SU', index: 0 },
+  monday: { byDay: 'MO', index: 1 },
+  tuesday: { byDay: 'TU', index: 2 },
+  wednesday: { byDay: 'WE', index: 3 },
+  thursday: { byDay: 'TH', index: 4 },
+  friday: { byDay: 'FR', index: 5 },
+  saturday: { byDay: 'SA', index: 6 }
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Lines longer than 75 octets are continued on the next line after a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "2025-08-03" to "20250803"
+const formatDateKey = (date: string) => date.slice(0, 10).replace(/-/g, '');
+
+const formatUtcStamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatDateValue = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+// "08:30" or "08:30:00" to "083000"
+const formatTimeValue = (time: string) => {
+  const [hours = '0', minutes = '0'] = time.split(':');
+  return `${pad(Number(hours))}${pad(Number(minutes))}00`;
+};
+
+// Calendar date (as UTC midnight) of a timestamp in Dhaka, which is UTC+6 all year
+const toDhakaDate = (timestamp: string) => {
+  const date = new Date(new Date(timestamp).getTime() + 6 * 60 * 60 * 1000);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// Tasks due at 23:59 in their zone have no real time and stay all-day events
+const isEndOfDay = (dueAt: Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', hour: '2-digit', minute: '2-digit' })
+    .format(dueAt) === '23:59';
+
+function taskEvent(task: CalendarTask, stamp: string): string[] {
+  const dueDate = new Date(`${task.due_date.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(dueDate.getTime())) return [];
+
+  const dueAt = task.due_at ? new Date(task.due_at) : null;
+  const timed = !!dueAt && !Number.isNaN(dueAt.getTime()) &&
+    !isEndOfDay(dueAt, task.due_timezone || CALENDAR_TIMEZONE);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:task-${task.id}@nesttask`,
+    `DTSTAMP:${stamp}`,
+    ...(timed && dueAt
+      ? [`DTSTART:${formatUtcStamp(dueAt)}`, `DTEND:${formatUtcStamp(dueAt)}`]
+      : [
+          `DTSTART;VALUE=DATE:${formatDateValue(dueDate)}`,
+          `DTEND;VALUE=DATE:${formatDateValue(addDays(dueDate, 1))}`
+        ]),
+    `SUMMARY:${escapeText(`Due: ${task.name}`)}`,
+    'TRANSP:TRANSPARENT'
+  ];
+
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  if (task.category) lines.push(`CATEGORIES:${escapeText(task.category)}`);
+  if (task.updated_at) lines.push(`LAST-MODIFIED:${formatUtcStamp(new Date(task.updated_at))}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * A slot repeats weekly from its first weekday on or after the day the
+ * routine was created
+ */
+function slotEvent(slot: CalendarSlot, routine: CalendarRoutine, stamp: string): string[] {
+  const weekday = WEEKDAYS[slot.day_of_week.toLowerCase()];
+  if (!weekday) return [];
+
+  const routineStart = toDhakaDate(routine.created_at);
+  const firstDate = addDays(routineStart, (weekday.index - routineStart.getUTCDay() + 7) % 7);
+  const day = formatDateValue(firstDate);
+
+  const title = slot.course_code && slot.course_name
+    ? `${slot.course_code} - ${slot.course_name}`
+    : slot.course_name || slot.course_code || 'Class';
+  const changes = routine.overrides.filter(override => override.slot_id === slot.id);
+  const instanceStart = (date: string) =>
+    `${formatDateKey(date)}T${formatTimeValue(slot.start_time)}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:slot-${slot.id}@nesttask`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${CALENDAR_TIMEZONE}:${day}T${formatTimeValue(slot.start_time)}`,
+    `DTEND;TZID=${CALENDAR_TIMEZONE}:${day}T${formatTimeValue(slot.end_time)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${weekday.byDay}`,
+    `SUMMARY:${escapeText(title)}`
+  ];
+
+  if (slot.room_number) lines.push(`LOCATION:${escapeText(slot.room_number)}`);
+  if (slot.teacher_name) lines.push(`DESCRIPTION:${escapeText(`Teacher: ${slot.teacher_name}`)}`);
+  lines.push(`CATEGORIES:${escapeText(`${routine.name} (${routine.semester})`)}`);
+  changes
+    .filter(change => change.kind === 'cancel')
+    .forEach(change => lines.push(`EXDATE;TZID=${CALENDAR_TIMEZONE}:${instanceStart(change.class_date)}`));
+  lines.push('END:VEVENT');
+
+  // Moved classes and room changes replace their occurrence of the series
+  changes
+    .filter(change => change.kind === 'reschedule' || change.kind === 'room-change')
+    .forEach(change => {
+      const date = formatDateKey(change.new_date || change.class_date);
+      const room = change.room_number || slot.room_number;
+      const details = [
+        slot.teacher_name && `Teacher: ${slot.teacher_name}`,
+        change.reason
+      ].filter(Boolean).join('\n');
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:slot-${slot.id}@nesttask`,
+        `DTSTAMP:${stamp}`,
+        `RECURRENCE-ID;TZID=${CALENDAR_TIMEZONE}:${instanceStart(change.class_date)}`,
+        `DTSTART;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTimeValue(change.start_time || slot.start_time)}`,
+        `DTEND;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTimeValue(change.end_time || slot.end_time)}`,
+        `SUMMARY:${escapeText(change.kind === 'reschedule' ? `${title} (rescheduled)` : title)}`
+      );
+      if (room) lines.push(`LOCATION:${escapeText(room)}`);
+      if (details) lines.push(`DESCRIPTION:${escapeText(details)}`);
+      lines.push(`CATEGORIES:${escapeText(`${routine.name} (${routine.semester})`)}`, 'END:VEVENT');
+    });
+
+  return lines;
+}
+
+function makeupEvent(change: CalendarOverride, routine: CalendarRoutine, stamp: string): string[] {
+  if (!change.start_time || !change.end_time) return [];
+  const date = formatDateKey(change.class_date);
+  const details = [
+    change.teacher_name && `Teacher: ${change.teacher_name}`,
+    change.reason
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:makeup-${change.id}@nesttask`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTimeValue(change.start_time)}`,
+    `DTEND;TZID=${CALENDAR_TIMEZONE}:${date}T${formatTimeValue(change.end_time)}`,
+    `SUMMARY:${escapeText(`${change.course_name || 'Class'} (make-up)`)}`
+  ];
+
+  if (change.room_number) lines.push(`LOCATION:${escapeText(change.room_number)}`);
+  if (details) lines.push(`DESCRIPTION:${escapeText(details)}`);
+  lines.push(`CATEGORIES:${escapeText(`${routine.name} (${routine.semester})`)}`, 'END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(tasks: CalendarTask[], routine: CalendarRoutine | null, now: Date = new Date()): string {
+  const stamp = formatUtcStamp(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NestTask//Tasks and Routine//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:NestTask',
+    `X-WR-TIMEZONE:${CALENDAR_TIMEZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    'BEGIN:VTIMEZONE',
+    `TZID:${CALENDAR_TIMEZONE}`,
+    'BEGIN:STANDARD',
+    'DTSTART:19700101T000000',
+    'TZOFFSETFROM:+0600',
+    'TZOFFSETTO:+0600',
+    'TZNAME:+06',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+    ...tasks.flatMap(task => taskEvent(task, stamp)),
+    ...(routine ? routine.slots.flatMap(slot => slotEvent(slot, routine, stamp)) : []),
+    ...(routine
+      ? routine.overrides
+          .filter(override => override.kind === 'makeup')
+          .flatMap(override => makeupEvent(override, routine, stamp))
+      : []),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
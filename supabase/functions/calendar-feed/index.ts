@@ -0,0 +1,167 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, getRequestUserId } from '../_shared/supabaseAdmin.ts';
+import { buildCalendar, type CalendarOverride, type CalendarRoutine, type CalendarTask } from './ical.ts';
+
+/**
+ * Serves a user's tasks and their section's active routine as iCalendar.
+ *
+ * - `GET ?token=...` is the subscription URL for Google Calendar, Outlook
+ *   and the like. The token from `calendar_feed_tokens` identifies the user,
+ *   so this function has to be deployed with `--no-verify-jwt`.
+ * - `POST` with the user's access token returns the same file once, for the
+ *   download button in the app.
+ */
+
+const calendarHeaders = (filename: string, disposition: 'inline' | 'attachment') => ({
+  ...corsHeaders,
+  'Content-Type': 'text/calendar; charset=utf-8',
+  'Content-Disposition': `${disposition}; filename="${filename}"`,
+  'Cache-Control': 'private, max-age=300'
+});
+
+const jsonError = (message: string, status: number) =>
+  new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+async function resolveFeedUser(token: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('calendar_feed_tokens')
+    .select('user_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  await supabase
+    .from('calendar_feed_tokens')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('user_id', data.user_id);
+
+  return data.user_id;
+}
+
+// Same rows the tasks RLS policy shows the user: their own and their
+// section's, minus the trash
+async function fetchUserTasks(userId: string, sectionId: string | null): Promise<CalendarTask[]> {
+  const filter = sectionId
+    ? `user_id.eq.${userId},section_id.eq.${sectionId}`
+    : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, name, description, category, due_date, due_at, due_timezone, updated_at')
+    .or(filter)
+    .is('deleted_at', null)
+    .order('due_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as CalendarTask[];
+}
+
+async function fetchActiveRoutine(sectionId: string | null): Promise<CalendarRoutine | null> {
+  if (!sectionId) return null;
+
+  const { data: routine, error } = await supabase
+    .from('routines')
+    .select('id, name, semester, created_at')
+    .or(`section_id.eq.${sectionId},section_id.is.null`)
+    .eq('is_active', true)
+    .is('deleted_at', null)
+    .order('section_id', { ascending: true, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!routine) return null;
+
+  const { data: slots, error: slotsError } = await supabase
+    .from('routine_slots')
+    .select('*')
+    .eq('routine_id', routine.id)
+    .is('deleted_at', null);
+
+  if (slotsError) throw slotsError;
+
+  const { data: overrides, error: overridesError } = await supabase
+    .from('routine_overrides')
+    .select('id, slot_id, kind, class_date, new_date, start_time, end_time, room_number, course_name, teacher_name, reason')
+    .eq('routine_id', routine.id);
+
+  if (overridesError) throw overridesError;
+
+  const courseIds = [...new Set((slots || []).map(slot => slot.course_id).filter(Boolean))];
+  const teacherIds = [...new Set((slots || []).map(slot => slot.teacher_id).filter(Boolean))];
+  const [{ data: courses }, { data: teachers }] = await Promise.all([
+    courseIds.length > 0
+      ? supabase.from('courses').select('id, name, code').in('id', courseIds).is('deleted_at', null)
+      : Promise.resolve({ data: [] as { id: string; name: string; code: string }[] }),
+    teacherIds.length > 0
+      ? supabase.from('teachers').select('id, name').in('id', teacherIds).is('deleted_at', null)
+      : Promise.resolve({ data: [] as { id: string; name: string }[] })
+  ]);
+
+  const courseMap = new Map((courses || []).map(course => [course.id, course]));
+  const teacherMap = new Map((teachers || []).map(teacher => [teacher.id, teacher.name]));
+
+  return {
+    name: routine.name,
+    semester: routine.semester,
+    created_at: routine.created_at,
+    slots: (slots || []).map(slot => ({
+      id: slot.id,
+      day_of_week: slot.day_of_week,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+      room_number: slot.room_number,
+      course_name: slot.course_name || courseMap.get(slot.course_id)?.name || null,
+      course_code: courseMap.get(slot.course_id)?.code || null,
+      teacher_name: slot.teacher_name || teacherMap.get(slot.teacher_id) || null
+    })),
+    overrides: (overrides || []) as CalendarOverride[]
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    const isFeed = req.method === 'GET';
+
+    if (isFeed && !token) {
+      return jsonError('Missing feed token', 400);
+    }
+
+    const userId = isFeed ? await resolveFeedUser(token!) : await getRequestUserId(req);
+    if (!userId) {
+      return isFeed ? jsonError('Unknown feed token', 404) : jsonError('Unauthorized', 401);
+    }
+
+    const { data: user, error: userError } = await supabase
+      .from('users')
+      .select('section_id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (userError) throw userError;
+
+    const sectionId = user?.section_id ?? null;
+    const [tasks, routine] = await Promise.all([
+      fetchUserTasks(userId, sectionId),
+      fetchActiveRoutine(sectionId)
+    ]);
+
+    return new Response(
+      buildCalendar(tasks, routine),
+      { headers: calendarHeaders('nesttask.ics', isFeed ? 'inline' : 'attachment') }
+    );
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    return jsonError('Failed to build calendar', 500);
+  }
+});
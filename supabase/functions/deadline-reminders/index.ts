@@ -0,0 +1,116 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { webpush, parseSubscription } from '../_shared/webPush.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, isScheduledRequest } from '../_shared/supabaseAdmin.ts';
+
+/**
+ * Sends deadline reminders for tasks that are due soon.
+ *
+ * Meant to run on a schedule (e.g. every 5 minutes via a Supabase cron job).
+ * `claim_due_task_reminders` does the selection and de-duplication in the
+ * database and writes the inbox notification; this function only delivers
+ * the push messages for what was claimed.
+ */
+
+interface ClaimedReminder {
+  user_id: string;
+  task_id: string;
+  task_name: string;
+  due_at: string;
+  lead_minutes: number;
+  notification_id: string;
+}
+
+const formatLeadTime = (minutes: number) => {
+  if (minutes >= 1440) {
+    const days = Math.floor(minutes / 1440);
+    return `${days} day${days === 1 ? '' : 's'}`;
+  }
+  if (minutes >= 60) {
+    const hours = Math.floor(minutes / 60);
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${minutes} minutes`;
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Not allowed' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('claim_due_task_reminders');
+    if (error) throw error;
+
+    const reminders = (data || []) as ClaimedReminder[];
+    if (reminders.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, reminders: 0, sent: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const userIds = [...new Set(reminders.map(reminder => reminder.user_id))];
+    const { data: subscriptions, error: subscriptionError } = await supabase
+      .from('push_subscriptions')
+      .select('user_id, subscription')
+      .in('user_id', userIds);
+
+    if (subscriptionError) throw subscriptionError;
+
+    const subscriptionsByUser = new Map<string, unknown[]>();
+    (subscriptions || []).forEach(({ user_id, subscription }) => {
+      const list = subscriptionsByUser.get(user_id) || [];
+      list.push(subscription);
+      subscriptionsByUser.set(user_id, list);
+    });
+
+    let sent = 0;
+    const deliveries = reminders.flatMap(reminder => {
+      const payload = JSON.stringify({
+        title: 'Deadline Reminder',
+        body: `${reminder.task_name} is due within ${formatLeadTime(reminder.lead_minutes)}`,
+        tag: `deadline-${reminder.task_id}`,
+        data: {
+          url: '/',
+          taskId: reminder.task_id,
+          type: 'deadline'
+        },
+        requireInteraction: reminder.lead_minutes <= 60
+      });
+
+      return (subscriptionsByUser.get(reminder.user_id) || []).map(async (subscription) => {
+        try {
+          await webpush.sendNotification(parseSubscription(subscription), payload);
+          sent++;
+        } catch (err) {
+          console.error('Error sending deadline reminder:', err);
+        }
+      });
+    });
+
+    await Promise.allSettled(deliveries);
+
+    return new Response(
+      JSON.stringify({ success: true, reminders: reminders.length, sent }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error processing deadline reminders:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to process deadline reminders' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
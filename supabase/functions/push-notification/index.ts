@@ -1,52 +1,189 @@
 import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
-import webpush from 'npm:web-push@3.6.7';
+import { webpush, parseSubscription } from '../_shared/webPush.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, getRequestUserId, requestHasPermission } from '../_shared/supabaseAdmin.ts';
 
-const VAPID_PUBLIC_KEY = 'BP0OqfYrKQh6jjbGPsCsh-RmZtsJKoDrcGdOLEgBn2ke2qbRR2DoC2cgF2XeRDKWcqFbWKWzJhLfhrxoRuTbxU8';
-const VAPID_PRIVATE_KEY = 'N4XWQgw1uXxhu7H7AK3a84xJFZKVBwR1YqJuWl1qkFw';
+/**
+ * Sends a push notification to every subscribed device of an audience.
+ *
+ * The audience is a section, a batch or a department. When only a `taskId`
+ * is given it is derived from the task: its section, or for tasks without a
+ * section the batch/department of the admin who created it. Subscriptions
+ * the push service reports as gone (404/410) are deleted, and the outcome of
+ * every broadcast is stored in `push_deliveries`.
+ */
 
-webpush.setVapidDetails(
-  'mailto:sheikhshariarnehal@gmail.com',
-  VAPID_PUBLIC_KEY,
-  VAPID_PRIVATE_KEY
-);
+interface PushRequest {
+  taskId?: string;
+  announcementId?: string;
+  sectionId?: string | null;
+  batchId?: string | null;
+  departmentId?: string | null;
+  payload: { title: string; [key: string]: unknown };
+}
+
+interface Audience {
+  sectionId: string | null;
+  batchId: string | null;
+  departmentId: string | null;
+}
+
+const EXPIRED_STATUS_CODES = [404, 410];
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+async function resolveAudience(request: PushRequest): Promise<Audience> {
+  if (request.sectionId || request.batchId || request.departmentId || !request.taskId) {
+    return {
+      sectionId: request.sectionId || null,
+      batchId: request.batchId || null,
+      departmentId: request.departmentId || null
+    };
+  }
+
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('section_id, user_id')
+    .eq('id', request.taskId)
+    .single();
+
+  if (error) throw error;
+
+  if (task.section_id) {
+    return { sectionId: task.section_id, batchId: null, departmentId: null };
+  }
+
+  const { data: creator } = await supabase
+    .from('users')
+    .select('batch_id, department_id')
+    .eq('id', task.user_id)
+    .maybeSingle();
+
+  return {
+    sectionId: null,
+    batchId: creator?.batch_id || null,
+    departmentId: creator?.batch_id ? null : creator?.department_id || null
+  };
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
-    return new Response(null, {
-      headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'POST',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-      },
-    });
+    return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { subscription, payload } = await req.json();
+    const userId = await getRequestUserId(req);
+
+    if (!userId) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const request = await req.json() as PushRequest;
+    if (!request.payload?.title) {
+      return jsonResponse({ error: 'A payload with a title is required' }, 400);
+    }
+
+    const audience = await resolveAudience(request);
+
+    const permission = request.announcementId ? 'manageAnnouncements' : 'manageTasks';
+    if (!(await requestHasPermission(req, permission, audience))) {
+      return jsonResponse({ error: 'Not allowed to notify this audience' }, 403);
+    }
 
-    await webpush.sendNotification(subscription, JSON.stringify(payload));
+    let recipientQuery = supabase
+      .from('users')
+      .select('id')
+      .neq('id', userId);
 
-    return new Response(
-      JSON.stringify({ success: true }), 
-      {
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
+    if (audience.sectionId) {
+      recipientQuery = recipientQuery.eq('section_id', audience.sectionId);
+    } else if (audience.batchId) {
+      recipientQuery = recipientQuery.eq('batch_id', audience.batchId);
+    } else if (audience.departmentId) {
+      recipientQuery = recipientQuery.eq('department_id', audience.departmentId);
+    }
+
+    const { data: recipients, error: recipientError } = await recipientQuery;
+    if (recipientError) throw recipientError;
+
+    const recipientIds = (recipients || []).map(recipient => recipient.id);
+    let subscriptions: { id: string; subscription: unknown }[] = [];
+
+    if (recipientIds.length > 0) {
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('id, subscription')
+        .in('user_id', recipientIds);
+
+      if (error) throw error;
+      subscriptions = data || [];
+    }
+
+    const payload = JSON.stringify(request.payload);
+    const expiredIds: string[] = [];
+    let sent = 0;
+    let failed = 0;
+
+    await Promise.allSettled(subscriptions.map(async ({ id, subscription }) => {
+      try {
+        await webpush.sendNotification(parseSubscription(subscription), payload);
+        sent++;
+      } catch (err) {
+        const statusCode = (err as { statusCode?: number }).statusCode;
+
+        if (statusCode && EXPIRED_STATUS_CODES.includes(statusCode)) {
+          expiredIds.push(id);
+        } else {
+          failed++;
+          console.error('Error sending push notification:', err);
         }
       }
-    );
+    }));
+
+    if (expiredIds.length > 0) {
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .in('id', expiredIds);
+
+      if (error) {
+        console.error('Error pruning expired subscriptions:', error);
+      }
+    }
+
+    const { error: logError } = await supabase
+      .from('push_deliveries')
+      .insert({
+        task_id: request.taskId || null,
+        announcement_id: request.announcementId || null,
+        section_id: audience.sectionId,
+        batch_id: audience.batchId,
+        department_id: audience.departmentId,
+        title: request.payload.title,
+        recipient_count: recipientIds.length,
+        sent_count: sent,
+        failed_count: failed,
+        pruned_count: expiredIds.length,
+        created_by: userId
+      });
+
+    if (logError) {
+      console.error('Error recording push delivery:', logError);
+    }
+
+    return jsonResponse({
+      success: true,
+      recipients: recipientIds.length,
+      sent,
+      failed,
+      pruned: expiredIds.length
+    });
   } catch (error) {
     console.error('Error sending push notification:', error);
-    
-    return new Response(
-      JSON.stringify({ error: 'Failed to send push notification' }), 
-      {
-        status: 500,
-        headers: { 
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*'
-        }
-      }
-    );
+    return jsonResponse({ error: 'Failed to send push notification' }, 500);
   }
-});
\ No newline at end of file
+});
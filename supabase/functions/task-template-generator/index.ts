@@ -0,0 +1,48 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, isScheduledRequest } from '../_shared/supabaseAdmin.ts';
+
+/**
+ * Creates the tasks of recurring task templates ahead of their due dates.
+ *
+ * Meant to run on a schedule (e.g. once a day via a Supabase cron job).
+ * `generate_template_tasks` does the work for every active template; dates
+ * that were already created or skipped are left alone, so running it more
+ * often is harmless. Only the scheduler may call it; see
+ * `isScheduledRequest`.
+ */
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Not allowed' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('generate_template_tasks', {
+      p_template_id: null
+    });
+    if (error) throw error;
+
+    return new Response(
+      JSON.stringify({ success: true, created: data || 0 }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error generating template tasks:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to generate template tasks' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getRequestUserId, requestHasPermission } from '../_shared/supabaseAdmin.ts';
+import { isTelegramConfigured, resolveTelegramTarget, postTelegramMessage } from '../_shared/telegram.ts';
+
+/**
+ * Posts a message to the Telegram chat configured for a section.
+ *
+ * Messages without a section (global tasks and announcements) go to the
+ * chat in `TELEGRAM_DEFAULT_CHAT_ID`, when one is set. The bot token is only
+ * read here so it never ships with the client.
+ */
+
+interface TelegramRequest {
+  sectionId?: string | null;
+  text: string;
+  photo?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const userId = await getRequestUserId(req);
+
+    if (!userId) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { sectionId = null, text, photo } = await req.json() as TelegramRequest;
+    if (!text) {
+      return jsonResponse({ error: 'Message text is required' }, 400);
+    }
+
+    // Tasks and announcements are both posted here
+    const allowed =
+      (await requestHasPermission(req, 'manageTasks', { sectionId })) ||
+      (await requestHasPermission(req, 'manageAnnouncements', { sectionId }));
+
+    if (!allowed) {
+      return jsonResponse({ error: 'Not allowed to post for this section' }, 403);
+    }
+
+    const target = isTelegramConfigured() ? await resolveTelegramTarget(sectionId) : null;
+    if (!target) {
+      return jsonResponse({ success: true, sent: false });
+    }
+
+    const telegramError = await postTelegramMessage(target, text, photo);
+    if (telegramError) {
+      return jsonResponse({ error: telegramError }, 502);
+    }
+
+    return jsonResponse({ success: true, sent: true });
+  } catch (error) {
+    console.error('Error sending Telegram message:', error);
+    return jsonResponse({ error: 'Failed to send Telegram message' }, 500);
+  }
+});
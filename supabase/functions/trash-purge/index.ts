@@ -0,0 +1,76 @@
+import { serve } from 'https://deno.land/std@0.218.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { supabaseAdmin as supabase, isScheduledRequest } from '../_shared/supabaseAdmin.ts';
+
+/**
+ * Deletes content that has been in the trash longer than the retention
+ * period (`TRASH_RETENTION_DAYS`, default 30).
+ *
+ * Meant to run on a schedule (e.g. once a day via a Supabase cron job).
+ * `purge_expired_trash` deletes the rows and returns the storage paths of
+ * their attachments and study material files; this function then removes
+ * those files, which the database cannot do itself. Only the scheduler
+ * may call it; see `isScheduledRequest`.
+ */
+
+interface PurgedItem {
+  resource: string;
+  id: string;
+  storage_paths: string[] | null;
+}
+
+const STORAGE_BUCKET = 'task-attachments';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isScheduledRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Not allowed' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const retentionDays = Number(Deno.env.get('TRASH_RETENTION_DAYS')) || 30;
+
+    const { data, error } = await supabase.rpc('purge_expired_trash', {
+      p_retention: `${retentionDays} days`
+    });
+    if (error) throw error;
+
+    const purged = (data || []) as PurgedItem[];
+    const paths = purged.flatMap(item => item.storage_paths || []);
+
+    let filesRemoved = 0;
+    // The storage API takes at most 1000 paths per call
+    for (let i = 0; i < paths.length; i += 1000) {
+      const { data: removed, error: removeError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove(paths.slice(i, i + 1000));
+
+      if (removeError) {
+        console.error('Error removing purged files:', removeError);
+        continue;
+      }
+      filesRemoved += removed?.length || 0;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, purged: purged.length, filesRemoved }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error purging trash:', error);
+
+    return new Response(
+      JSON.stringify({ error: 'Failed to purge trash' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,116 @@
+/*
+  # Per-student progress for shared tasks
+
+  1. New Tables
+    - `task_progress` stores each student's own status for admin/section tasks,
+      so completing a shared task no longer changes it for the whole section
+
+  2. Functions
+    - `get_section_task_completion` returns "X of Y students completed" counts
+      for every task of a section (section admins and admins only)
+
+  3. Security
+    - Students manage only their own progress rows
+    - Section admins can read progress for tasks in their section
+*/
+
+CREATE TABLE IF NOT EXISTS task_progress (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'my-tasks',
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT valid_task_progress_status CHECK (
+    status IN ('my-tasks', 'in-progress', 'completed')
+  ),
+  CONSTRAINT task_progress_task_user_key UNIQUE (task_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_progress_user ON task_progress(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_progress_task ON task_progress(task_id);
+
+-- Keep updated_at / completed_at in sync with status changes
+CREATE OR REPLACE FUNCTION set_task_progress_timestamps()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS task_progress_timestamps ON task_progress;
+CREATE TRIGGER task_progress_timestamps
+  BEFORE INSERT OR UPDATE ON task_progress
+  FOR EACH ROW
+  EXECUTE FUNCTION set_task_progress_timestamps();
+
+ALTER TABLE task_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own task progress"
+  ON task_progress
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Section admins can view progress for their section tasks"
+  ON task_progress
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_progress.task_id
+      AND (is_section_admin(tasks.section_id) OR is_admin())
+    )
+  );
+
+-- Completion summary for every task in a section
+CREATE OR REPLACE FUNCTION public.get_section_task_completion(section_uuid UUID)
+RETURNS TABLE (
+  task_id UUID,
+  completed_count INTEGER,
+  in_progress_count INTEGER,
+  total_students INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_total INTEGER;
+BEGIN
+  IF NOT (is_section_admin(section_uuid) OR is_admin()) THEN
+    RAISE EXCEPTION 'Not authorized to view section progress';
+  END IF;
+
+  SELECT COUNT(*) INTO v_total
+  FROM public.users
+  WHERE section_id = section_uuid
+  AND role = 'user';
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    COUNT(u.id) FILTER (WHERE p.status = 'completed')::INTEGER,
+    COUNT(u.id) FILTER (WHERE p.status = 'in-progress')::INTEGER,
+    v_total
+  FROM public.tasks t
+  LEFT JOIN public.task_progress p ON p.task_id = t.id
+  LEFT JOIN public.users u ON u.id = p.user_id
+    AND u.section_id = section_uuid
+    AND u.role = 'user'
+  WHERE t.section_id = section_uuid
+  AND t.is_admin_task = true
+  GROUP BY t.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_section_task_completion(UUID) TO authenticated;
@@ -0,0 +1,26 @@
+/*
+  # Scope routines to sections
+
+  1. Changes
+    - Add `section_id` to `routines` so each section has its own timetable
+    - Only one routine can be active per section at a time
+
+  2. Notes
+    - Existing routines keep a NULL section and stay visible to everyone
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'routines' AND column_name = 'section_id'
+  ) THEN
+    ALTER TABLE routines ADD COLUMN section_id UUID REFERENCES sections(id) ON DELETE CASCADE;
+    CREATE INDEX idx_routines_section ON routines(section_id);
+  END IF;
+END $$;
+
+-- A section can only have one active routine
+CREATE UNIQUE INDEX IF NOT EXISTS idx_routines_one_active_per_section
+  ON routines(section_id)
+  WHERE is_active = true AND section_id IS NOT NULL;
@@ -0,0 +1,199 @@
+/*
+  # Persistent notification inbox
+
+  1. New Tables
+    - `notifications` holds one row per user and event, with read/cleared
+      timestamps so the inbox state survives reloads
+      - `type` is one of task, announcement, task-updated, deadline
+
+  2. Changes
+    - `announcements.section_id` so announcements can be scoped to a section
+
+  3. Triggers
+    - New tasks notify their owner, or every student of the section for
+      admin/section tasks
+    - Edits to shared tasks notify the section with a `task-updated` row
+    - New announcements notify their section (or everyone when unscoped)
+
+  4. Security
+    - Users can only read and update their own notifications
+    - Rows are created by the triggers above (and server-side jobs);
+      clients can't call `notify_section_users` directly
+*/
+
+-- Add section_id column to announcements if it doesn't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'announcements' AND column_name = 'section_id'
+    ) THEN
+        ALTER TABLE announcements ADD COLUMN section_id UUID REFERENCES sections(id) ON DELETE CASCADE;
+        CREATE INDEX announcements_section_id_idx ON announcements(section_id);
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  section_id uuid REFERENCES sections(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL DEFAULT '',
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  announcement_id uuid REFERENCES announcements(id) ON DELETE CASCADE,
+  is_admin_task boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  cleared_at timestamptz,
+  CONSTRAINT valid_notification_type CHECK (
+    type IN ('task', 'announcement', 'task-updated', 'deadline')
+  )
+);
+
+-- Inbox listing: newest first, hiding cleared rows
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC)
+  WHERE cleared_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id)
+  WHERE read_at IS NULL AND cleared_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Fan a notification out to every student of a section
+-- (or to every student when the section is NULL)
+CREATE OR REPLACE FUNCTION public.notify_section_users(
+  p_section_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_announcement_id UUID DEFAULT NULL,
+  p_is_admin_task BOOLEAN DEFAULT false,
+  p_exclude_user UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (
+    user_id, section_id, type, title, message,
+    task_id, announcement_id, is_admin_task
+  )
+  SELECT
+    u.id, u.section_id, p_type, p_title, p_message,
+    p_task_id, p_announcement_id, p_is_admin_task
+  FROM public.users u
+  WHERE (p_section_id IS NULL OR u.section_id = p_section_id)
+  AND (p_exclude_user IS NULL OR u.id <> p_exclude_user);
+END;
+$$;
+
+-- Only the triggers below call this
+REVOKE EXECUTE ON FUNCTION public.notify_section_users(uuid, text, text, text, uuid, uuid, boolean, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_admin_task THEN
+      PERFORM public.notify_section_users(
+        NEW.section_id,
+        'task',
+        'New Admin Task',
+        format('Task "%s" has been created', NEW.name),
+        NEW.id,
+        NULL,
+        true,
+        NEW.user_id
+      );
+    ELSE
+      INSERT INTO public.notifications (user_id, section_id, type, title, message, task_id)
+      VALUES (
+        NEW.user_id,
+        NEW.section_id,
+        'task',
+        'New Task',
+        format('Task "%s" has been created', NEW.name),
+        NEW.id
+      );
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.is_admin_task AND (
+    NEW.name IS DISTINCT FROM OLD.name OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.category IS DISTINCT FROM OLD.category
+  ) THEN
+    PERFORM public.notify_section_users(
+      NEW.section_id,
+      'task-updated',
+      'Task Updated',
+      format('Task "%s" has been updated', NEW.name),
+      NEW.id,
+      NULL,
+      true,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tasks_notify_changes ON tasks;
+CREATE TRIGGER tasks_notify_changes
+  AFTER INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_task_changes();
+
+CREATE OR REPLACE FUNCTION public.notify_new_announcement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify_section_users(
+    NEW.section_id,
+    'announcement',
+    NEW.title,
+    NEW.content,
+    NULL,
+    NEW.id,
+    false,
+    NEW.created_by
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS announcements_notify_insert ON announcements;
+CREATE TRIGGER announcements_notify_insert
+  AFTER INSERT ON announcements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_announcement();
+
+-- Stream new inbox rows to clients
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
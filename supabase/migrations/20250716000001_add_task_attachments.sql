@@ -0,0 +1,159 @@
+/*
+  # Structured task attachments
+
+  1. New Tables
+    - `task_attachments` stores one row per uploaded file
+      - `file_name`, `file_size`, `mime_type`
+      - `storage_path` inside the `task-attachments` bucket
+      - `uploaded_by`
+
+  2. Data Migration
+    - Links to files in the `task-attachments` bucket that were embedded in
+      task descriptions as `[name](url)` are copied into `task_attachments`
+      and removed from the description, together with the `**Attachments:**`
+      heading and dead `attachment:` placeholders that never got uploaded
+
+  3. Security
+    - Anyone who can see a task can see its attachments
+    - The task owner, section admins of the task's section and admins can
+      add or remove attachments
+    - Admins and section admins may delete files they did not upload, so
+      files are cleaned up when a task is deleted
+*/
+
+CREATE TABLE IF NOT EXISTS task_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  mime_type text,
+  storage_path text NOT NULL UNIQUE,
+  uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_attachments_task ON task_attachments(task_id);
+
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+
+-- Tasks RLS applies inside the subquery, so visibility follows the task
+CREATE POLICY "Users can view attachments of visible tasks"
+  ON task_attachments
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+    )
+  );
+
+CREATE POLICY "Task managers can add attachments"
+  ON task_attachments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND (
+        tasks.user_id = auth.uid()
+        OR is_section_admin(tasks.section_id)
+        OR is_admin()
+      )
+    )
+  );
+
+CREATE POLICY "Task managers can update attachments"
+  ON task_attachments
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND (
+        tasks.user_id = auth.uid()
+        OR is_section_admin(tasks.section_id)
+        OR is_admin()
+      )
+    )
+  );
+
+CREATE POLICY "Task managers can delete attachments"
+  ON task_attachments
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_attachments.task_id
+      AND (
+        tasks.user_id = auth.uid()
+        OR is_section_admin(tasks.section_id)
+        OR is_admin()
+      )
+    )
+  );
+
+-- Let admins remove files uploaded by someone else
+DROP POLICY IF EXISTS "Admins can delete task attachment files" ON storage.objects;
+CREATE POLICY "Admins can delete task attachment files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'task-attachments'
+  AND (
+    is_admin()
+    OR EXISTS (SELECT 1 FROM public.section_admins WHERE user_id = auth.uid())
+  )
+);
+
+-- Copy embedded bucket links into task_attachments
+INSERT INTO task_attachments (task_id, file_name, file_size, mime_type, storage_path, uploaded_by, created_at)
+SELECT DISTINCT ON (link.storage_path)
+  t.id,
+  link.file_name,
+  COALESCE((o.metadata ->> 'size')::bigint, 0),
+  o.metadata ->> 'mimetype',
+  link.storage_path,
+  t.user_id,
+  t.created_at
+FROM tasks t
+CROSS JOIN LATERAL (
+  SELECT m[1] AS file_name, m[2] AS storage_path
+  FROM regexp_matches(
+    t.description,
+    '\[([^\]]+)\]\(https?://[^)\s]*/storage/v1/object/public/task-attachments/([^)\s]+)\)',
+    'g'
+  ) AS m
+) link
+LEFT JOIN storage.objects o
+  ON o.bucket_id = 'task-attachments'
+  AND o.name = link.storage_path
+ORDER BY link.storage_path, t.created_at
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- Strip the migrated links, dead placeholders and the leftover heading
+UPDATE tasks
+SET description = btrim(
+  regexp_replace(
+    regexp_replace(
+      regexp_replace(
+        description,
+        '(^|\n)[ \t]*-?[ \t]*\[[^\]]+\]\(https?://[^)\s]*/storage/v1/object/public/task-attachments/[^)\s]+\)[ \t]*',
+        '',
+        'g'
+      ),
+      '(^|\n)[ \t]*-?[ \t]*\[[^\]]+\]\(attachment:[^)]*\)[ \t]*|\n?<!-- mobile-uploads -->\n?',
+      '',
+      'g'
+    ),
+    '\n*\*\*Attachments:\*\*[ \t]*(?=\n[ \t]*\n|\n?[ \t]*$)',
+    '',
+    'g'
+  ),
+  E' \n\t'
+)
+WHERE description ~ '/storage/v1/object/public/task-attachments/|\]\(attachment:';
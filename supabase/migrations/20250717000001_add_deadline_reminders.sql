@@ -0,0 +1,165 @@
+/*
+  # Deadline reminders
+
+  1. New Tables
+    - `notification_preferences` keeps each user's reminder lead times
+      (minutes before a task is due, default 24h, 3h and 30min)
+    - `task_reminders` records every reminder that has been claimed, so each
+      lead time fires at most once per task, user and due date
+
+  2. Functions
+    - `claim_due_task_reminders` finds tasks that are due soon and not
+      completed for a user, claims the matching lead times, writes a
+      `deadline` notification and returns what has to be pushed. It is
+      called by the `deadline-reminders` edge function on a schedule.
+
+  3. Security
+    - Users manage only their own preferences
+    - `task_reminders` and the claim function are service-role only
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_lead_minutes integer[] NOT NULL DEFAULT ARRAY[1440, 180, 30],
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT valid_reminder_lead_minutes CHECK (
+    reminder_lead_minutes <@ ARRAY[10080, 2880, 1440, 720, 360, 180, 60, 30, 15]
+  )
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+  ON notification_preferences
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS task_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_minutes integer NOT NULL,
+  due_at timestamptz NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT task_reminders_unique UNIQUE (task_id, user_id, lead_minutes, due_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_reminders_user ON task_reminders(user_id);
+
+-- No policies: only the service role (edge function) reads or writes it
+ALTER TABLE task_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Due dates are stored as dates; a task is due at the end of that day
+-- in the department's time zone
+CREATE OR REPLACE FUNCTION public.task_due_at(p_due_date date)
+RETURNS timestamptz
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (p_due_date + time '23:59:59') AT TIME ZONE 'Asia/Dhaka';
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_due_task_reminders()
+RETURNS TABLE (
+  user_id UUID,
+  task_id UUID,
+  task_name TEXT,
+  due_at TIMESTAMPTZ,
+  lead_minutes INTEGER,
+  notification_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      u.id AS user_id,
+      u.section_id,
+      t.id AS task_id,
+      t.name AS task_name,
+      t.is_admin_task,
+      public.task_due_at(t.due_date::date) AS due_at,
+      lead.minutes AS lead_minutes
+    FROM public.users u
+    LEFT JOIN public.notification_preferences np ON np.user_id = u.id
+    JOIN public.tasks t ON (
+      (t.is_admin_task = false AND t.user_id = u.id)
+      OR (
+        t.is_admin_task = true
+        AND u.role = 'user'
+        AND (t.section_id IS NULL OR t.section_id = u.section_id)
+      )
+    )
+    LEFT JOIN public.task_progress tp ON tp.task_id = t.id AND tp.user_id = u.id
+    CROSS JOIN LATERAL unnest(
+      COALESCE(np.reminder_lead_minutes, ARRAY[1440, 180, 30])
+    ) AS lead(minutes)
+    WHERE public.task_due_at(t.due_date::date) > now()
+    AND public.task_due_at(t.due_date::date) - make_interval(mins => lead.minutes) <= now()
+    -- Personal tasks keep their status on the task, shared ones per student
+    AND (
+      CASE WHEN t.is_admin_task THEN COALESCE(tp.status, 'my-tasks') ELSE t.status END
+    ) <> 'completed'
+  ),
+  claimed AS (
+    -- Claim every lead time that is already due so a late-created task
+    -- doesn't fire its longer reminders on later runs
+    INSERT INTO public.task_reminders (task_id, user_id, lead_minutes, due_at)
+    SELECT c.task_id, c.user_id, c.lead_minutes, c.due_at
+    FROM candidates c
+    ON CONFLICT ON CONSTRAINT task_reminders_unique DO NOTHING
+    RETURNING task_reminders.task_id, task_reminders.user_id, task_reminders.lead_minutes, task_reminders.due_at
+  ),
+  -- Only the closest lead time of a run is actually delivered
+  to_send AS (
+    SELECT DISTINCT ON (cl.task_id, cl.user_id)
+      cl.user_id,
+      cl.task_id,
+      c.task_name,
+      c.section_id,
+      c.is_admin_task,
+      cl.due_at,
+      cl.lead_minutes
+    FROM claimed cl
+    JOIN candidates c
+      ON c.task_id = cl.task_id
+      AND c.user_id = cl.user_id
+      AND c.lead_minutes = cl.lead_minutes
+    ORDER BY cl.task_id, cl.user_id, cl.lead_minutes ASC
+  ),
+  inserted AS (
+    INSERT INTO public.notifications (user_id, section_id, type, title, message, task_id, is_admin_task)
+    SELECT
+      s.user_id,
+      s.section_id,
+      'deadline',
+      'Deadline Reminder',
+      format(
+        'Task "%s" is due within %s',
+        s.task_name,
+        CASE
+          WHEN s.lead_minutes >= 1440 THEN
+            (s.lead_minutes / 1440)::text || CASE WHEN s.lead_minutes / 1440 = 1 THEN ' day' ELSE ' days' END
+          WHEN s.lead_minutes >= 60 THEN
+            (s.lead_minutes / 60)::text || CASE WHEN s.lead_minutes / 60 = 1 THEN ' hour' ELSE ' hours' END
+          ELSE s.lead_minutes::text || ' minutes'
+        END
+      ),
+      s.task_id,
+      s.is_admin_task
+    FROM to_send s
+    RETURNING notifications.id, notifications.user_id, notifications.task_id
+  )
+  SELECT s.user_id, s.task_id, s.task_name, s.due_at, s.lead_minutes, i.id
+  FROM to_send s
+  JOIN inserted i ON i.user_id = s.user_id AND i.task_id = s.task_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_task_reminders() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_task_reminders() TO service_role;
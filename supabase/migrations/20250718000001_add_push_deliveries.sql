@@ -0,0 +1,52 @@
+/*
+  # Push delivery log
+
+  1. New Tables
+    - `push_deliveries` records the result of every push broadcast sent by
+      the `push-notification` edge function
+      - the task or announcement it was about
+      - the audience it targeted (`section_id`, `batch_id` or `department_id`,
+        all empty for a global broadcast)
+      - `sent_count`, `failed_count` and `pruned_count` (expired
+        subscriptions that were removed)
+
+  2. Changes
+    - Index `push_subscriptions.user_id`, which the edge function now uses
+      to look up devices of the targeted users
+
+  3. Security
+    - Admins can read every delivery, section admins the ones for their
+      section
+    - Only the service role (edge function) writes deliveries
+*/
+
+CREATE TABLE IF NOT EXISTS push_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+  announcement_id uuid REFERENCES announcements(id) ON DELETE CASCADE,
+  section_id uuid REFERENCES sections(id) ON DELETE SET NULL,
+  batch_id uuid REFERENCES batches(id) ON DELETE SET NULL,
+  department_id uuid REFERENCES departments(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  recipient_count integer NOT NULL DEFAULT 0,
+  sent_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  pruned_count integer NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_task ON push_deliveries(task_id);
+CREATE INDEX IF NOT EXISTS idx_push_deliveries_announcement ON push_deliveries(announcement_id);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+ALTER TABLE push_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view push deliveries"
+  ON push_deliveries
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin()
+    OR (section_id IS NOT NULL AND is_section_admin(section_id))
+  );
@@ -0,0 +1,53 @@
+/*
+  # Telegram channel per section
+
+  1. New Tables
+    - `section_telegram_settings` holds the Telegram chat every section's
+      tasks and announcements are posted to
+      - `chat_id` of the group or channel (numeric id or `@channelname`)
+      - optional `message_thread_id` for a topic inside a forum group
+      - `enabled` to pause posting without losing the settings
+
+  2. Security
+    - Section admins manage the settings of their own section, admins of
+      every section
+    - The bot token is not stored here; it lives in the `telegram-notify`
+      edge function's environment and never reaches the browser
+*/
+
+CREATE TABLE IF NOT EXISTS section_telegram_settings (
+  section_id uuid PRIMARY KEY REFERENCES sections(id) ON DELETE CASCADE,
+  chat_id text NOT NULL,
+  message_thread_id bigint,
+  enabled boolean NOT NULL DEFAULT true,
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT valid_telegram_chat_id CHECK (chat_id ~ '^(-?[0-9]+|@[A-Za-z0-9_]{5,})$')
+);
+
+ALTER TABLE section_telegram_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Section admins can view their Telegram settings"
+  ON section_telegram_settings
+  FOR SELECT
+  TO authenticated
+  USING (is_section_admin(section_id) OR is_admin());
+
+CREATE POLICY "Section admins can add their Telegram settings"
+  ON section_telegram_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (is_section_admin(section_id) OR is_admin());
+
+CREATE POLICY "Section admins can update their Telegram settings"
+  ON section_telegram_settings
+  FOR UPDATE
+  TO authenticated
+  USING (is_section_admin(section_id) OR is_admin())
+  WITH CHECK (is_section_admin(section_id) OR is_admin());
+
+CREATE POLICY "Section admins can remove their Telegram settings"
+  ON section_telegram_settings
+  FOR DELETE
+  TO authenticated
+  USING (is_section_admin(section_id) OR is_admin());
@@ -0,0 +1,183 @@
+/*
+  # Full-text search
+
+  1. Changes
+    - Adds a generated `search_vector` column with a GIN index to `tasks`,
+      `courses`, `study_materials`, `teachers` and `announcements`
+      - tasks: name (A), description (B), category (C)
+      - courses: code and name (A), teacher (B)
+      - study materials: title (A), description (B), original file names (C)
+      - teachers: name (A), department (B), email and office room (C)
+      - announcements: title (A), content (B)
+
+  2. Functions
+    - `search_all` runs one ranked query across all five tables, with
+      optional filters for result type, category, course code and due
+      date. It runs as the caller, so RLS decides what is visible.
+
+  3. Notes
+    - The `simple` configuration is used because names, course codes and
+      Bangla text should not be stemmed as English
+    - Every search term is matched as a prefix, so results show up while
+      the word is still being typed
+*/
+
+-- array_to_string is only STABLE, generated columns need IMMUTABLE
+CREATE OR REPLACE FUNCTION public.search_text_array(p_values text[])
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT array_to_string(p_values, ' ');
+$$;
+
+ALTER TABLE teachers ADD COLUMN IF NOT EXISTS office_room text;
+
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(category, '')), 'C')
+  ) STORED;
+
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(code, '') || ' ' || coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(teacher, '')), 'B')
+  ) STORED;
+
+ALTER TABLE study_materials ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(public.search_text_array(original_file_names), '')), 'C')
+  ) STORED;
+
+ALTER TABLE teachers ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(department, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(email, '') || ' ' || coalesce(office_room, '')), 'C')
+  ) STORED;
+
+ALTER TABLE announcements ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_courses_search ON courses USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_study_materials_search ON study_materials USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_teachers_search ON teachers USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_announcements_search ON announcements USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.search_all(
+  p_query text,
+  p_types text[] DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_course text DEFAULT NULL,
+  p_due_after date DEFAULT NULL,
+  p_due_before date DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  result_type text,
+  id uuid,
+  title text,
+  subtitle text,
+  snippet text,
+  rank real,
+  due_date date,
+  category text,
+  course_code text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_query tsquery;
+  v_has_task_filters boolean := p_due_after IS NOT NULL OR p_due_before IS NOT NULL;
+BEGIN
+  -- Every word becomes a prefix term: "embed sys" -> 'embed':* & 'sys':*
+  SELECT to_tsquery('simple', string_agg(quote_literal(lexeme) || ':*', ' & '))
+  INTO v_query
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(p_query, '')))) AS lexeme;
+
+  RETURN QUERY
+  (
+    SELECT 'task'::text, t.id, t.name, t.category, left(t.description, 160),
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank(t.search_vector, v_query) END,
+      t.due_date::date, t.category, NULL::text
+    FROM tasks t
+    WHERE (p_types IS NULL OR 'task' = ANY(p_types))
+    AND (v_query IS NULL OR t.search_vector @@ v_query)
+    AND (p_category IS NULL OR lower(t.category) = lower(p_category))
+    AND (p_course IS NULL OR t.name ILIKE '%' || p_course || '%' OR t.description ILIKE '%' || p_course || '%')
+    AND (p_due_after IS NULL OR t.due_date::date >= p_due_after)
+    AND (p_due_before IS NULL OR t.due_date::date <= p_due_before)
+    ORDER BY 6 DESC, t.due_date ASC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'course'::text, c.id, c.name, c.code, c.teacher,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank(c.search_vector, v_query) END,
+      NULL::date, NULL::text, c.code
+    FROM courses c
+    WHERE (p_types IS NULL OR 'course' = ANY(p_types))
+    AND NOT v_has_task_filters AND p_category IS NULL
+    AND (v_query IS NULL OR c.search_vector @@ v_query)
+    AND (p_course IS NULL OR c.code ILIKE p_course || '%')
+    ORDER BY 6 DESC, c.code
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'material'::text, m.id, m.title, c.code, left(m.description, 160),
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank(m.search_vector, v_query) END,
+      NULL::date, m.category, c.code
+    FROM study_materials m
+    LEFT JOIN courses c ON c.id = m.course_id
+    WHERE (p_types IS NULL OR 'material' = ANY(p_types))
+    AND NOT v_has_task_filters
+    AND (v_query IS NULL OR m.search_vector @@ v_query)
+    AND (p_category IS NULL OR lower(m.category) = lower(p_category))
+    AND (p_course IS NULL OR c.code ILIKE p_course || '%')
+    ORDER BY 6 DESC, m.created_at DESC
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'teacher'::text, tr.id, tr.name, tr.department, tr.email,
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank(tr.search_vector, v_query) END,
+      NULL::date, NULL::text, NULL::text
+    FROM teachers tr
+    WHERE (p_types IS NULL OR 'teacher' = ANY(p_types))
+    AND NOT v_has_task_filters AND p_category IS NULL
+    AND (v_query IS NULL OR tr.search_vector @@ v_query)
+    AND (p_course IS NULL OR EXISTS (
+      SELECT 1 FROM teacher_courses tc
+      JOIN courses c ON c.id = tc.course_id
+      WHERE tc.teacher_id = tr.id AND c.code ILIKE p_course || '%'
+    ))
+    ORDER BY 6 DESC, tr.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'announcement'::text, a.id, a.title, NULL::text, left(a.content, 160),
+      CASE WHEN v_query IS NULL THEN 0 ELSE ts_rank(a.search_vector, v_query) END,
+      NULL::date, NULL::text, NULL::text
+    FROM announcements a
+    WHERE (p_types IS NULL OR 'announcement' = ANY(p_types))
+    AND NOT v_has_task_filters AND p_category IS NULL AND p_course IS NULL
+    AND (v_query IS NULL OR a.search_vector @@ v_query)
+    ORDER BY 6 DESC, a.created_at DESC
+    LIMIT p_limit
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_all(text, text[], text, text, date, date, integer) TO authenticated;
@@ -0,0 +1,64 @@
+/*
+  # Calendar feed tokens
+
+  1. New Tables
+    - `calendar_feed_tokens` holds one secret token per user. The token is
+      the only credential of the `calendar-feed` edge function's
+      subscription URL, because calendar apps cannot send a login.
+
+  2. Functions
+    - `issue_calendar_feed_token` creates the caller's token or replaces
+      it with a new one, which stops the old URL from working
+
+  3. Security
+    - Users can read and delete only their own token
+    - Tokens are only written through `issue_calendar_feed_token`, so they
+      always come from the database's random generator
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feed_tokens (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_accessed_at timestamptz
+);
+
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token"
+  ON calendar_feed_tokens
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own calendar feed token"
+  ON calendar_feed_tokens
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.issue_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = now(),
+      last_accessed_at = NULL;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.issue_calendar_feed_token() TO authenticated;
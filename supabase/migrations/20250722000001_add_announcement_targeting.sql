@@ -0,0 +1,215 @@
+/*
+  # Announcement audience, pinning and scheduling
+
+  1. Changes
+    - `announcements` gets `batch_id` and `department_id` next to the
+      existing `section_id`. Only the narrowest scope is set; an
+      announcement without any of them is for everyone.
+    - `is_pinned` keeps an announcement at the top of the student feed
+    - `publish_at` delays an announcement; `expires_at` hides it again
+    - `notified_at` records when the audience's inbox rows were created
+
+  2. Functions
+    - `announcement_targets_user` decides whether a user is in an
+      announcement's audience
+    - `notify_announcement_audience` creates the inbox rows for one
+      announcement. It replaces the section-only insert trigger, which now
+      only fires for announcements that are published right away.
+    - `publish_scheduled_announcements` is called by the
+      `announcement-scheduler` edge function on a schedule. It notifies
+      announcements whose publish time has come and clears inbox rows of
+      expired ones.
+
+  3. Security
+    - Students only read announcements that are published, not expired and
+      addressed to them
+    - Authors, section admins of the target section and admins always see
+      them, including scheduled ones
+    - Section admins can create, pin and delete announcements for their
+      own section
+    - Clients can't call `notify_announcement_audience` or
+      `publish_scheduled_announcements`; only the trigger and the
+      scheduler (as service role) run them
+*/
+
+ALTER TABLE announcements
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES batches(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS department_id uuid REFERENCES departments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS publish_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS notified_at timestamptz;
+
+-- Announcements that existed before scheduling were delivered on insert
+UPDATE announcements
+SET publish_at = coalesce(created_at, now()),
+    notified_at = coalesce(created_at, now())
+WHERE notified_at IS NULL;
+
+ALTER TABLE announcements DROP CONSTRAINT IF EXISTS valid_announcement_expiry;
+ALTER TABLE announcements ADD CONSTRAINT valid_announcement_expiry
+  CHECK (expires_at IS NULL OR expires_at > publish_at);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_batch ON announcements(batch_id);
+CREATE INDEX IF NOT EXISTS idx_announcements_department ON announcements(department_id);
+
+CREATE INDEX IF NOT EXISTS idx_announcements_unpublished
+  ON announcements(publish_at)
+  WHERE notified_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.announcement_targets_user(
+  p_section_id uuid,
+  p_batch_id uuid,
+  p_department_id uuid,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.id = p_user_id
+    AND (p_section_id IS NULL OR u.section_id = p_section_id)
+    AND (p_batch_id IS NULL OR u.batch_id = p_batch_id)
+    AND (p_department_id IS NULL OR u.department_id = p_department_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.announcement_targets_user(uuid, uuid, uuid, uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Allow users to read announcements" ON announcements;
+DROP POLICY IF EXISTS "Users can read announcements addressed to them" ON announcements;
+CREATE POLICY "Users can read announcements addressed to them"
+  ON announcements
+  FOR SELECT
+  TO authenticated
+  USING (
+    is_admin()
+    OR created_by = auth.uid()
+    OR (section_id IS NOT NULL AND is_section_admin(section_id))
+    OR (
+      publish_at <= now()
+      AND (expires_at IS NULL OR expires_at > now())
+      AND announcement_targets_user(section_id, batch_id, department_id, auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Section admins can create section announcements" ON announcements;
+CREATE POLICY "Section admins can create section announcements"
+  ON announcements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    section_id IS NOT NULL
+    AND is_section_admin(section_id)
+    AND created_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Section admins can update section announcements" ON announcements;
+CREATE POLICY "Section admins can update section announcements"
+  ON announcements
+  FOR UPDATE
+  TO authenticated
+  USING (section_id IS NOT NULL AND is_section_admin(section_id))
+  WITH CHECK (section_id IS NOT NULL AND is_section_admin(section_id));
+
+DROP POLICY IF EXISTS "Section admins can delete section announcements" ON announcements;
+CREATE POLICY "Section admins can delete section announcements"
+  ON announcements
+  FOR DELETE
+  TO authenticated
+  USING (section_id IS NOT NULL AND is_section_admin(section_id));
+
+CREATE OR REPLACE FUNCTION public.notify_announcement_audience(p_announcement_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, section_id, type, title, message, announcement_id)
+  SELECT u.id, u.section_id, 'announcement', a.title, a.content, a.id
+  FROM announcements a
+  JOIN users u ON (
+    (a.section_id IS NULL OR u.section_id = a.section_id)
+    AND (a.batch_id IS NULL OR u.batch_id = a.batch_id)
+    AND (a.department_id IS NULL OR u.department_id = a.department_id)
+  )
+  WHERE a.id = p_announcement_id
+  AND u.id <> a.created_by;
+
+  UPDATE announcements
+  SET notified_at = now()
+  WHERE id = p_announcement_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_announcement_audience(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_new_announcement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Scheduled announcements are picked up by publish_scheduled_announcements
+  IF NEW.publish_at <= now() THEN
+    PERFORM public.notify_announcement_audience(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.publish_scheduled_announcements()
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  section_id uuid,
+  batch_id uuid,
+  department_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_announcement RECORD;
+BEGIN
+  FOR v_announcement IN
+    SELECT a.id, a.title, a.content, a.section_id, a.batch_id, a.department_id
+    FROM announcements a
+    WHERE a.notified_at IS NULL
+    AND a.publish_at <= now()
+    AND (a.expires_at IS NULL OR a.expires_at > now())
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.notify_announcement_audience(v_announcement.id);
+
+    id := v_announcement.id;
+    title := v_announcement.title;
+    content := v_announcement.content;
+    section_id := v_announcement.section_id;
+    batch_id := v_announcement.batch_id;
+    department_id := v_announcement.department_id;
+    RETURN NEXT;
+  END LOOP;
+
+  -- Expired announcements leave the inbox as well
+  UPDATE notifications n
+  SET cleared_at = now()
+  FROM announcements a
+  WHERE n.announcement_id = a.id
+  AND a.expires_at <= now()
+  AND n.cleared_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.publish_scheduled_announcements() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.publish_scheduled_announcements() TO service_role;
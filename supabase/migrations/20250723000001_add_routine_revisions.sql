@@ -0,0 +1,368 @@
+/*
+  # Routine revisions
+
+  1. New Tables
+    - `routine_revisions` keeps a snapshot of a routine's slots after every
+      change, numbered per routine (`version`), with a short summary of
+      what changed since the previous version
+
+  2. Triggers
+    - Every statement that inserts, updates or deletes `routine_slots`
+      records one revision per affected routine, so a bulk import is a
+      single version
+    - Changes to the active routine of a section notify its students with
+      a `routine-updated` inbox row. Changes made within 15 minutes of each
+      other are summarized together in one notification.
+    - Activating a routine notifies the students of its section
+
+  3. Functions
+    - `restore_routine_revision` puts a routine's slots back the way they
+      were in a revision and records that as a new version
+
+  4. Changes
+    - `notifications.routine_id` and the `routine-updated` type
+    - `routine_slots.course_name` / `teacher_name`, which the app already
+      writes when the columns exist
+    - Existing routines get their current slots as version 1
+
+  5. Security
+    - Revisions are readable like routines; they are only written by the
+      `routine_slots` triggers. The SECURITY DEFINER functions behind them
+      can't be called directly.
+*/
+
+CREATE TABLE IF NOT EXISTS routine_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id uuid NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  slots jsonb NOT NULL DEFAULT '[]'::jsonb,
+  summary text NOT NULL DEFAULT '',
+  -- First version of the batch of changes students are notified about
+  notify_base_version integer,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (routine_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_routine_revisions_routine
+  ON routine_revisions(routine_id, version DESC);
+
+ALTER TABLE routine_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view routine revisions"
+  ON routine_revisions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE routine_slots
+  ADD COLUMN IF NOT EXISTS course_name text,
+  ADD COLUMN IF NOT EXISTS teacher_name text;
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS routine_id uuid REFERENCES routines(id) ON DELETE CASCADE;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type CHECK (
+  type IN ('task', 'announcement', 'task-updated', 'deadline', 'routine-updated')
+);
+
+-- The slots of a routine with course and teacher names resolved, so a
+-- revision still reads correctly after a course or teacher is renamed
+CREATE OR REPLACE FUNCTION public.routine_slots_snapshot(p_routine_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'course_id', s.course_id,
+    'teacher_id', s.teacher_id,
+    'course_name', coalesce(s.course_name, c.name),
+    'course_code', c.code,
+    'teacher_name', coalesce(s.teacher_name, t.name),
+    'day_of_week', s.day_of_week,
+    'start_time', s.start_time,
+    'end_time', s.end_time,
+    'room_number', s.room_number,
+    'section', s.section,
+    'created_at', s.created_at
+  ) ORDER BY s.day_of_week, s.start_time, s.id), '[]'::jsonb)
+  FROM routine_slots s
+  LEFT JOIN courses c ON c.id = s.course_id
+  LEFT JOIN teachers t ON t.id = s.teacher_id
+  WHERE s.routine_id = p_routine_id;
+$$;
+
+-- e.g. "2 classes added, 1 moved, 1 removed"; slots are matched by ID
+CREATE OR REPLACE FUNCTION public.routine_slots_diff_summary(p_before jsonb, p_after jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH before_slots AS (
+    SELECT e->>'id' AS id, e FROM jsonb_array_elements(coalesce(p_before, '[]'::jsonb)) e
+  ),
+  after_slots AS (
+    SELECT e->>'id' AS id, e FROM jsonb_array_elements(coalesce(p_after, '[]'::jsonb)) e
+  ),
+  counts AS (
+    SELECT
+      count(*) FILTER (WHERE b.id IS NULL) AS added,
+      count(*) FILTER (WHERE a.id IS NULL) AS removed,
+      count(*) FILTER (WHERE a.id IS NOT NULL AND b.id IS NOT NULL AND (
+        b.e->>'day_of_week', b.e->>'start_time', b.e->>'end_time', b.e->>'room_number'
+      ) IS DISTINCT FROM (
+        a.e->>'day_of_week', a.e->>'start_time', a.e->>'end_time', a.e->>'room_number'
+      )) AS moved,
+      count(*) FILTER (WHERE a.id IS NOT NULL AND b.id IS NOT NULL AND (
+        b.e->>'day_of_week', b.e->>'start_time', b.e->>'end_time', b.e->>'room_number'
+      ) IS NOT DISTINCT FROM (
+        a.e->>'day_of_week', a.e->>'start_time', a.e->>'end_time', a.e->>'room_number'
+      ) AND (
+        b.e->>'course_id', b.e->>'teacher_id', b.e->>'section'
+      ) IS DISTINCT FROM (
+        a.e->>'course_id', a.e->>'teacher_id', a.e->>'section'
+      )) AS changed
+    FROM before_slots b
+    FULL JOIN after_slots a ON a.id = b.id
+  )
+  SELECT coalesce(nullif(concat_ws(', ',
+    CASE WHEN added > 0 THEN format('%s class%s added', added, CASE WHEN added = 1 THEN '' ELSE 'es' END) END,
+    CASE WHEN moved > 0 THEN format('%s moved', moved) END,
+    CASE WHEN changed > 0 THEN format('%s changed', changed) END,
+    CASE WHEN removed > 0 THEN format('%s removed', removed) END
+  ), ''), 'No changes')
+  FROM counts;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_routine_revision(p_routine_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_routine routines%ROWTYPE;
+  v_previous routine_revisions%ROWTYPE;
+  v_slots jsonb;
+  v_version integer;
+  v_base_version integer;
+  v_base_slots jsonb;
+BEGIN
+  -- The routine is gone when its slots are deleted by a cascade
+  SELECT * INTO v_routine FROM routines WHERE id = p_routine_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM routine_revisions
+  WHERE routine_id = p_routine_id
+  ORDER BY version DESC
+  LIMIT 1;
+
+  v_slots := public.routine_slots_snapshot(p_routine_id);
+
+  IF v_previous.id IS NOT NULL AND v_previous.slots = v_slots THEN
+    RETURN;
+  END IF;
+
+  v_version := coalesce(v_previous.version, 0) + 1;
+
+  -- Keep adding to the previous batch while the admin is still editing
+  IF v_previous.id IS NOT NULL
+    AND v_previous.notify_base_version IS NOT NULL
+    AND v_previous.created_at > now() - interval '15 minutes' THEN
+    v_base_version := v_previous.notify_base_version;
+  ELSE
+    v_base_version := coalesce(v_previous.version, 0);
+  END IF;
+
+  INSERT INTO routine_revisions (routine_id, version, slots, summary, notify_base_version, created_by)
+  VALUES (
+    p_routine_id,
+    v_version,
+    v_slots,
+    public.routine_slots_diff_summary(coalesce(v_previous.slots, '[]'::jsonb), v_slots),
+    v_base_version,
+    auth.uid()
+  );
+
+  IF NOT v_routine.is_active OR v_routine.section_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT slots INTO v_base_slots
+  FROM routine_revisions
+  WHERE routine_id = p_routine_id AND version = v_base_version;
+
+  -- One unread notification per batch: replace the one sent earlier in it
+  DELETE FROM notifications
+  WHERE routine_id = p_routine_id
+  AND type = 'routine-updated'
+  AND read_at IS NULL
+  AND created_at > now() - interval '15 minutes';
+
+  INSERT INTO notifications (user_id, section_id, type, title, message, routine_id)
+  SELECT
+    u.id,
+    u.section_id,
+    'routine-updated',
+    'Class Routine Updated',
+    format('%s: %s', v_routine.name,
+      public.routine_slots_diff_summary(coalesce(v_base_slots, '[]'::jsonb), v_slots)),
+    p_routine_id
+  FROM users u
+  WHERE u.section_id = v_routine.section_id
+  AND u.id IS DISTINCT FROM auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.routine_slots_record_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_routine_id uuid;
+BEGIN
+  -- restore_routine_revision records its own revision
+  IF current_setting('nesttask.skip_routine_revision', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    FOR v_routine_id IN SELECT DISTINCT routine_id FROM new_slots LOOP
+      PERFORM public.record_routine_revision(v_routine_id);
+    END LOOP;
+  ELSIF TG_OP = 'DELETE' THEN
+    FOR v_routine_id IN SELECT DISTINCT routine_id FROM old_slots LOOP
+      PERFORM public.record_routine_revision(v_routine_id);
+    END LOOP;
+  ELSE
+    FOR v_routine_id IN
+      SELECT routine_id FROM new_slots UNION SELECT routine_id FROM old_slots
+    LOOP
+      PERFORM public.record_routine_revision(v_routine_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Transition tables need one trigger per event
+DROP TRIGGER IF EXISTS routine_slots_revision_insert ON routine_slots;
+CREATE TRIGGER routine_slots_revision_insert
+  AFTER INSERT ON routine_slots
+  REFERENCING NEW TABLE AS new_slots
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.routine_slots_record_revision();
+
+DROP TRIGGER IF EXISTS routine_slots_revision_update ON routine_slots;
+CREATE TRIGGER routine_slots_revision_update
+  AFTER UPDATE ON routine_slots
+  REFERENCING OLD TABLE AS old_slots NEW TABLE AS new_slots
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.routine_slots_record_revision();
+
+DROP TRIGGER IF EXISTS routine_slots_revision_delete ON routine_slots;
+CREATE TRIGGER routine_slots_revision_delete
+  AFTER DELETE ON routine_slots
+  REFERENCING OLD TABLE AS old_slots
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.routine_slots_record_revision();
+
+CREATE OR REPLACE FUNCTION public.notify_routine_activated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_active AND NOT coalesce(OLD.is_active, false) AND NEW.section_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, section_id, type, title, message, routine_id)
+    SELECT
+      u.id,
+      u.section_id,
+      'routine-updated',
+      'New Class Routine',
+      format('%s (%s) is now your class routine', NEW.name, NEW.semester),
+      NEW.id
+    FROM users u
+    WHERE u.section_id = NEW.section_id
+    AND u.id IS DISTINCT FROM auth.uid();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS routines_notify_activated ON routines;
+CREATE TRIGGER routines_notify_activated
+  AFTER UPDATE OF is_active ON routines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_routine_activated();
+
+CREATE OR REPLACE FUNCTION public.restore_routine_revision(p_revision_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_revision routine_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision FROM routine_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- The insert below records the restored version; restoring an empty
+  -- version inserts nothing, so its delete records it instead
+  IF jsonb_array_length(v_revision.slots) > 0 THEN
+    PERFORM set_config('nesttask.skip_routine_revision', 'on', true);
+  END IF;
+
+  -- Runs as the caller, so the routine_slots policies decide who may restore
+  DELETE FROM routine_slots WHERE routine_id = v_revision.routine_id;
+
+  PERFORM set_config('nesttask.skip_routine_revision', 'off', true);
+
+  INSERT INTO routine_slots (
+    id, routine_id, course_id, teacher_id, course_name, teacher_name,
+    day_of_week, start_time, end_time, room_number, section, created_at
+  )
+  SELECT
+    r.id, v_revision.routine_id, c.id, t.id, r.course_name, r.teacher_name,
+    r.day_of_week, r.start_time, r.end_time, r.room_number, r.section,
+    coalesce(r.created_at, now())
+  FROM jsonb_to_recordset(v_revision.slots) AS r(
+    id uuid, course_id uuid, teacher_id uuid, course_name text, teacher_name text,
+    day_of_week text, start_time time, end_time time, room_number text, section text,
+    created_at timestamptz
+  )
+  -- Courses or teachers deleted since then are left empty
+  LEFT JOIN courses c ON c.id = r.course_id
+  LEFT JOIN teachers t ON t.id = r.teacher_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.restore_routine_revision(uuid) TO authenticated;
+
+-- Only the routine_slots triggers record revisions and notify students
+REVOKE EXECUTE ON FUNCTION public.routine_slots_snapshot(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_routine_revision(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Current slots become version 1 of every existing routine
+INSERT INTO routine_revisions (routine_id, version, slots, summary)
+SELECT r.id, 1, public.routine_slots_snapshot(r.id), 'Initial version'
+FROM routines r
+WHERE NOT EXISTS (SELECT 1 FROM routine_revisions rr WHERE rr.routine_id = r.id);
+
+-- Stream new versions to the history view
+ALTER PUBLICATION supabase_realtime ADD TABLE routine_revisions;
@@ -0,0 +1,374 @@
+/*
+  # Role-based permissions
+
+  1. New Tables
+    - `roles` lists the named roles and how far each one reaches:
+      everywhere (`global`) or only within the user's own `department`,
+      `batch` or `section`
+    - `role_permissions` maps each role to its permissions. It mirrors
+      `ROLE_DEFINITIONS` in `src/utils/permissions.ts`; change both together.
+
+  2. Changes
+    - `users.permissions` holds grants on top of a user's role
+
+  3. Functions
+    - `normalize_role` maps the role spellings in use ("section_admin",
+      "super_admin", ...) to one name
+    - `has_permission(permission, section, batch, department)` decides
+      whether the current user holds a permission for a row in the given
+      section / batch / department. Section admins also cover the sections
+      they are assigned to in `section_admins`.
+
+  4. Security
+    - Writes to tasks, announcements, routines and routine slots now go
+      through `has_permission`, so RLS follows the same rules as the app
+    - Only those with `assignRoles` can set `users.role` or
+      `users.permissions` through the API. The same goes for moving a user
+      who holds a role or grants to another section, batch or department,
+      since those decide where the role applies; users can still edit the
+      rest of their own row
+    - `promote_user_to_section_admin` now requires `assignRoles` too
+    - Everyone signed in can read `roles` and `role_permissions`
+*/
+
+CREATE TABLE IF NOT EXISTS roles (
+  role text PRIMARY KEY,
+  scope_level text NOT NULL CHECK (scope_level IN ('global', 'department', 'batch', 'section'))
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL REFERENCES roles(role) ON DELETE CASCADE,
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO roles (role, scope_level) VALUES
+  ('super-admin', 'global'),
+  ('admin', 'global'),
+  ('section-admin', 'section'),
+  ('user', 'section')
+ON CONFLICT (role) DO UPDATE SET scope_level = EXCLUDED.scope_level;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'super-admin', unnest(ARRAY[
+  'viewUsers', 'createUsers', 'editUsers', 'deleteUsers', 'assignRoles',
+  'viewSettings', 'editSettings', 'viewReports', 'exportData',
+  'manageAdmins', 'viewLogs',
+  'manageTasks', 'manageAnnouncements', 'manageCourses', 'manageTeachers',
+  'manageStudyMaterials', 'manageRoutines'
+])
+UNION ALL
+SELECT 'admin', unnest(ARRAY[
+  'viewUsers', 'createUsers', 'editUsers', 'deleteUsers', 'assignRoles',
+  'viewReports', 'exportData',
+  'manageTasks', 'manageAnnouncements', 'manageCourses', 'manageTeachers',
+  'manageStudyMaterials', 'manageRoutines'
+])
+UNION ALL
+SELECT 'section-admin', unnest(ARRAY[
+  'viewUsers', 'deleteUsers', 'viewReports',
+  'manageTasks', 'manageAnnouncements', 'manageCourses', 'manageTeachers',
+  'manageStudyMaterials', 'manageRoutines'
+])
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read roles" ON roles;
+CREATE POLICY "Authenticated users can read roles"
+  ON roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Authenticated users can read role permissions" ON role_permissions;
+CREATE POLICY "Authenticated users can read role permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS permissions text[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION public.normalize_role(p_role text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'admin' THEN 'admin'
+    WHEN 'super-admin' THEN 'super-admin'
+    WHEN 'super_admin' THEN 'super-admin'
+    WHEN 'section-admin' THEN 'section-admin'
+    WHEN 'section_admin' THEN 'section-admin'
+    ELSE 'user'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(
+  p_permission text,
+  p_section_id uuid DEFAULT NULL,
+  p_batch_id uuid DEFAULT NULL,
+  p_department_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_role text;
+  v_scope text;
+  v_batch_id uuid := p_batch_id;
+  v_department_id uuid := p_department_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  -- user_metadata is writable by the user, so only app_metadata may stand in
+  v_role := normalize_role(COALESCE(v_user.role, auth.jwt() -> 'app_metadata' ->> 'role'));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM role_permissions WHERE role = v_role AND permission = p_permission
+  ) AND NOT (p_permission = ANY (COALESCE(v_user.permissions, '{}'))) THEN
+    RETURN false;
+  END IF;
+
+  SELECT scope_level INTO v_scope FROM roles WHERE role = v_role;
+
+  IF v_scope = 'global' THEN
+    RETURN true;
+  END IF;
+
+  -- Fill in the wider levels of the target from the narrowest one given
+  IF p_section_id IS NOT NULL AND v_batch_id IS NULL THEN
+    SELECT batch_id INTO v_batch_id FROM sections WHERE id = p_section_id;
+  END IF;
+  IF v_batch_id IS NOT NULL AND v_department_id IS NULL THEN
+    SELECT department_id INTO v_department_id FROM batches WHERE id = v_batch_id;
+  END IF;
+
+  RETURN CASE v_scope
+    WHEN 'department' THEN v_department_id IS NOT NULL AND v_department_id = v_user.department_id
+    WHEN 'batch' THEN v_batch_id IS NOT NULL AND v_batch_id = v_user.batch_id
+    WHEN 'section' THEN p_section_id IS NOT NULL AND (
+      p_section_id = v_user.section_id
+      OR EXISTS (
+        SELECT 1 FROM section_admins
+        WHERE user_id = auth.uid() AND section_id = p_section_id
+      )
+    )
+    ELSE false
+  END;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_role(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_permission(text, uuid, uuid, uuid) TO authenticated;
+
+-- The users policies let people edit their own row, so a role or a grant
+-- set through the API needs `assignRoles`, and so does moving someone who
+-- holds either: has_permission scopes their role by section, batch and
+-- department. Sign-up, the service role and SECURITY DEFINER functions
+-- (which check the caller themselves) run as other database roles and are
+-- not affected.
+CREATE OR REPLACE FUNCTION public.guard_user_privileges()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF normalize_role(NEW.role) = 'user' AND cardinality(COALESCE(NEW.permissions, '{}')) = 0 THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.role IS NOT DISTINCT FROM OLD.role
+    AND NEW.permissions IS NOT DISTINCT FROM OLD.permissions
+    AND (
+      (normalize_role(OLD.role) = 'user' AND cardinality(COALESCE(OLD.permissions, '{}')) = 0)
+      OR (
+        NEW.section_id IS NOT DISTINCT FROM OLD.section_id
+        AND NEW.batch_id IS NOT DISTINCT FROM OLD.batch_id
+        AND NEW.department_id IS NOT DISTINCT FROM OLD.department_id
+      )
+    ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT has_permission('assignRoles') THEN
+    RAISE EXCEPTION 'Not allowed to change roles, permissions or the scope they apply to'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_guard_privileges ON users;
+CREATE TRIGGER users_guard_privileges
+  BEFORE INSERT OR UPDATE OF role, permissions, section_id, batch_id, department_id ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_user_privileges();
+
+-- Same as in 20250711000001, but only for those who may assign roles; it
+-- had no caller check and bypasses the guard above
+CREATE OR REPLACE FUNCTION public.promote_user_to_section_admin(input_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_role TEXT;
+  v_section_id UUID;
+  v_current_user UUID;
+BEGIN
+  IF NOT has_permission('assignRoles') THEN
+    RAISE EXCEPTION 'Not allowed to promote users'
+      USING ERRCODE = '42501';
+  END IF;
+
+  v_current_user := auth.uid();
+
+  SELECT role, section_id INTO v_user_role, v_section_id
+  FROM public.users
+  WHERE id = input_user_id;
+
+  IF v_user_role IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF v_user_role = 'section_admin' THEN
+    RAISE EXCEPTION 'User is already a section admin';
+  END IF;
+
+  IF v_section_id IS NULL THEN
+    RAISE EXCEPTION 'User does not have a section assigned';
+  END IF;
+
+  UPDATE public.users
+  SET role = 'section_admin'
+  WHERE id = input_user_id;
+
+  DELETE FROM public.section_admins
+  WHERE user_id = input_user_id
+  AND section_id = v_section_id;
+
+  INSERT INTO public.section_admins(user_id, section_id, assigned_by)
+  VALUES (input_user_id, v_section_id, v_current_user);
+
+  INSERT INTO public.user_activities(user_id, activity_type, action, metadata)
+  VALUES (
+    v_current_user,
+    'admin_action',
+    'promote_to_section_admin',
+    jsonb_build_object(
+      'promoted_user_id', input_user_id,
+      'section_id', v_section_id
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_user_to_section_admin(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.promote_user_to_section_admin(UUID) TO authenticated;
+
+-- Tasks: own tasks, or section tasks for those who manage them
+DROP POLICY IF EXISTS "Users can create tasks for themselves or for their section if admin" ON tasks;
+CREATE POLICY "Users can create tasks for themselves or for their section if admin" ON tasks
+FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    OR has_permission('manageTasks', section_id)
+);
+
+DROP POLICY IF EXISTS "Users can update their own tasks or section tasks if admin" ON tasks;
+CREATE POLICY "Users can update their own tasks or section tasks if admin" ON tasks
+FOR UPDATE USING (
+    auth.uid() = user_id
+    OR has_permission('manageTasks', section_id)
+) WITH CHECK (
+    auth.uid() = user_id
+    OR has_permission('manageTasks', section_id)
+);
+
+DROP POLICY IF EXISTS "Users can delete their own tasks or section tasks if admin" ON tasks;
+CREATE POLICY "Users can delete their own tasks or section tasks if admin" ON tasks
+FOR DELETE USING (
+    auth.uid() = user_id
+    OR has_permission('manageTasks', section_id)
+);
+
+-- Announcements
+DROP POLICY IF EXISTS "Section admins can create section announcements" ON announcements;
+CREATE POLICY "Section admins can create section announcements"
+  ON announcements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('manageAnnouncements', section_id, batch_id, department_id)
+    AND created_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Section admins can update section announcements" ON announcements;
+CREATE POLICY "Section admins can update section announcements"
+  ON announcements
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('manageAnnouncements', section_id, batch_id, department_id))
+  WITH CHECK (has_permission('manageAnnouncements', section_id, batch_id, department_id));
+
+DROP POLICY IF EXISTS "Section admins can delete section announcements" ON announcements;
+CREATE POLICY "Section admins can delete section announcements"
+  ON announcements
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('manageAnnouncements', section_id, batch_id, department_id));
+
+-- Routines and their slots
+DROP POLICY IF EXISTS "Enable insert for admin users on routines" ON routines;
+CREATE POLICY "Enable insert for admin users on routines"
+  ON routines FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('manageRoutines', section_id));
+
+DROP POLICY IF EXISTS "Enable update for admin users on routines" ON routines;
+CREATE POLICY "Enable update for admin users on routines"
+  ON routines FOR UPDATE
+  TO authenticated
+  USING (has_permission('manageRoutines', section_id))
+  WITH CHECK (has_permission('manageRoutines', section_id));
+
+DROP POLICY IF EXISTS "Enable delete for admin users on routines" ON routines;
+CREATE POLICY "Enable delete for admin users on routines"
+  ON routines FOR DELETE
+  TO authenticated
+  USING (has_permission('manageRoutines', section_id));
+
+DROP POLICY IF EXISTS "Enable insert for admin users on routine_slots" ON routine_slots;
+CREATE POLICY "Enable insert for admin users on routine_slots"
+  ON routine_slots FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('manageRoutines', (SELECT section_id FROM routines WHERE id = routine_id))
+  );
+
+DROP POLICY IF EXISTS "Enable update for admin users on routine_slots" ON routine_slots;
+CREATE POLICY "Enable update for admin users on routine_slots"
+  ON routine_slots FOR UPDATE
+  TO authenticated
+  USING (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE id = routine_id)))
+  WITH CHECK (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE id = routine_id)));
+
+DROP POLICY IF EXISTS "Enable delete for admin users on routine_slots" ON routine_slots;
+CREATE POLICY "Enable delete for admin users on routine_slots"
+  ON routine_slots FOR DELETE
+  TO authenticated
+  USING (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE id = routine_id)));
@@ -0,0 +1,411 @@
+/*
+  # Server-side audit log
+
+  1. Changes
+    - `admin_logs` gains `before_data` / `after_data` snapshots, a
+      `user_agent`, and `seq` / `prev_hash` / `hash` for the hash chain
+    - `details` becomes jsonb; old free-form text is kept as
+      `{"message": ...}`
+    - `admin_id` may be null for changes made by the system (cron jobs,
+      service role), and no longer references `auth.users`, so deleting an
+      account leaves its entries intact
+
+  2. Triggers
+    - Inserts, updates and deletes on tasks, courses, teachers, routines,
+      routine slots, announcements, study materials and section admins are
+      logged with before/after rows. Students' own personal tasks are not
+      admin actions and are skipped.
+    - Role and permission changes on `users` are logged as
+      `update_user_role`
+    - Every new log row is chained to the previous one:
+      `hash = sha256(prev_hash | seq | admin | action | resource | data | time)`.
+      Editing or removing a row breaks the chain from that point on.
+    - Log rows cannot be updated or deleted
+
+  3. Functions
+    - `write_admin_log` records one entry with the caller's id, name, IP
+      address and user agent (from the request headers). The IP comes
+      from headers the platform's proxies set, not from the client's
+      first `x-forwarded-for` entry.
+    - `log_admin_action` lets admins record actions that are not changes
+      to the audited tables, such as a password reset or deleting an
+      account through the auth API
+    - `verify_admin_log_chain` recomputes every hash and reports the first
+      entry that does not match
+
+  4. Security
+    - Logs are readable with `viewLogs`; clients cannot write them directly
+*/
+
+CREATE TABLE IF NOT EXISTS admin_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id uuid,
+  admin_name text,
+  action text NOT NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  timestamp timestamptz NOT NULL DEFAULT now(),
+  ip_address text,
+  resource text,
+  resource_id text
+);
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'admin_logs'
+      AND column_name = 'details'
+      AND data_type <> 'jsonb'
+  ) THEN
+    ALTER TABLE admin_logs
+      ALTER COLUMN details TYPE jsonb
+      USING CASE
+        WHEN details IS NULL OR details = '' THEN '{}'::jsonb
+        ELSE jsonb_build_object('message', details)
+      END;
+  END IF;
+END $$;
+
+ALTER TABLE admin_logs ALTER COLUMN admin_id DROP NOT NULL;
+
+-- Entries outlive the admins who wrote them. A foreign key would rewrite
+-- or remove them when an account is deleted, breaking the chain.
+DO $$
+DECLARE
+  v_constraint text;
+BEGIN
+  FOR v_constraint IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'public.admin_logs'::regclass AND contype = 'f'
+  LOOP
+    EXECUTE format('ALTER TABLE admin_logs DROP CONSTRAINT %I', v_constraint);
+  END LOOP;
+END $$;
+
+ALTER TABLE admin_logs
+  ADD COLUMN IF NOT EXISTS ip_address text,
+  ADD COLUMN IF NOT EXISTS user_agent text,
+  ADD COLUMN IF NOT EXISTS resource text,
+  ADD COLUMN IF NOT EXISTS resource_id text,
+  ADD COLUMN IF NOT EXISTS before_data jsonb,
+  ADD COLUMN IF NOT EXISTS after_data jsonb,
+  ADD COLUMN IF NOT EXISTS seq bigint,
+  ADD COLUMN IF NOT EXISTS prev_hash text,
+  ADD COLUMN IF NOT EXISTS hash text;
+
+CREATE SEQUENCE IF NOT EXISTS admin_logs_seq OWNED BY admin_logs.seq;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_logs_seq ON admin_logs(seq);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_timestamp ON admin_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_resource ON admin_logs(resource, resource_id);
+CREATE INDEX IF NOT EXISTS idx_admin_logs_admin ON admin_logs(admin_id);
+
+-- The hash of one entry. Times are formatted in UTC so the result does
+-- not depend on the session's time zone.
+CREATE OR REPLACE FUNCTION public.admin_log_hash(l admin_logs)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT encode(sha256(convert_to(concat_ws('|',
+    COALESCE(l.prev_hash, ''),
+    l.seq::text,
+    COALESCE(l.admin_id::text, ''),
+    l.action,
+    COALESCE(l.resource, ''),
+    COALESCE(l.resource_id::text, ''),
+    COALESCE(l.details::text, ''),
+    COALESCE(l.before_data::text, ''),
+    COALESCE(l.after_data::text, ''),
+    to_char(l.timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'UTF8')), 'hex');
+$$;
+
+-- Existing rows start the chain in the order they were written
+DO $$
+DECLARE
+  v_log admin_logs%ROWTYPE;
+  v_prev text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM admin_logs WHERE hash IS NULL) THEN
+    FOR v_log IN
+      SELECT * FROM admin_logs ORDER BY seq NULLS LAST, timestamp, id
+    LOOP
+      IF v_log.hash IS NOT NULL THEN
+        v_prev := v_log.hash;
+        CONTINUE;
+      END IF;
+
+      v_log.seq := nextval('admin_logs_seq');
+      v_log.prev_hash := v_prev;
+      v_log.hash := admin_log_hash(v_log);
+      v_prev := v_log.hash;
+
+      UPDATE admin_logs
+      SET seq = v_log.seq, prev_hash = v_log.prev_hash, hash = v_log.hash
+      WHERE id = v_log.id;
+    END LOOP;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.chain_admin_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- One writer at a time, and the sequence is drawn only after the lock,
+  -- so `seq` order is the order in which entries were chained
+  PERFORM pg_advisory_xact_lock(hashtext('admin_logs_chain'));
+
+  NEW.seq := nextval('admin_logs_seq');
+  SELECT hash INTO NEW.prev_hash FROM admin_logs ORDER BY seq DESC LIMIT 1;
+  NEW.hash := admin_log_hash(NEW);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS chain_admin_log ON admin_logs;
+CREATE TRIGGER chain_admin_log
+  BEFORE INSERT ON admin_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION chain_admin_log();
+
+CREATE OR REPLACE FUNCTION public.prevent_admin_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or removed';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_admin_log_changes ON admin_logs;
+CREATE TRIGGER prevent_admin_log_changes
+  BEFORE UPDATE OR DELETE ON admin_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_admin_log_changes();
+
+CREATE OR REPLACE FUNCTION public.write_admin_log(
+  p_action text,
+  p_resource text DEFAULT NULL,
+  p_resource_id text DEFAULT NULL,
+  p_before jsonb DEFAULT NULL,
+  p_after jsonb DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_headers jsonb := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  -- Clients can send their own x-forwarded-for, so its first entry proves
+  -- nothing. Trust what the platform's proxies set: cf-connecting-ip from
+  -- Cloudflare in front of the API, else x-real-ip, else the last
+  -- x-forwarded-for hop, which the proxy in front of the database added.
+  v_ip text := COALESCE(
+    NULLIF(trim(v_headers ->> 'cf-connecting-ip'), ''),
+    NULLIF(trim(v_headers ->> 'x-real-ip'), ''),
+    NULLIF(trim(regexp_replace(COALESCE(v_headers ->> 'x-forwarded-for', ''), '^.*,', '')), '')
+  );
+  v_name text;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT name INTO v_name FROM users WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO admin_logs (
+    admin_id, admin_name, action, details, timestamp,
+    ip_address, user_agent, resource, resource_id, before_data, after_data
+  ) VALUES (
+    auth.uid(),
+    COALESCE(v_name, auth.jwt() ->> 'email', CASE WHEN auth.uid() IS NULL THEN 'System' ELSE 'Unknown' END),
+    p_action,
+    COALESCE(p_details, '{}'::jsonb),
+    now(),
+    v_ip,
+    v_headers ->> 'user-agent',
+    p_resource,
+    p_resource_id,
+    p_before,
+    p_after
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_admin_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_after, v_before);
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'tasks'
+    AND NOT COALESCE((v_row ->> 'is_admin_task')::boolean, false)
+    AND v_row ->> 'user_id' IS NOT DISTINCT FROM auth.uid()::text
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' THEN
+    IF TG_OP <> 'UPDATE'
+      OR (v_before -> 'role' IS NOT DISTINCT FROM v_after -> 'role'
+        AND v_before -> 'permissions' IS NOT DISTINCT FROM v_after -> 'permissions')
+    THEN
+      RETURN NULL;
+    END IF;
+
+    PERFORM write_admin_log(
+      'update_user_role',
+      'users',
+      v_row ->> 'id',
+      jsonb_build_object('role', v_before -> 'role', 'permissions', v_before -> 'permissions'),
+      jsonb_build_object('role', v_after -> 'role', 'permissions', v_after -> 'permissions'),
+      jsonb_build_object('userId', v_row ->> 'id', 'username', v_row ->> 'name')
+    );
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_admin_log(
+    lower(TG_OP) || '_' || TG_ARGV[0],
+    TG_TABLE_NAME,
+    v_row ->> 'id',
+    v_before,
+    v_after,
+    jsonb_strip_nulls(jsonb_build_object(
+      'sectionId', v_row ->> 'section_id',
+      'name', COALESCE(v_row ->> 'name', v_row ->> 'title', v_row ->> 'code')
+    ))
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_tasks ON tasks;
+CREATE TRIGGER audit_tasks
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('task');
+
+DROP TRIGGER IF EXISTS audit_courses ON courses;
+CREATE TRIGGER audit_courses
+  AFTER INSERT OR UPDATE OR DELETE ON courses
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('course');
+
+DROP TRIGGER IF EXISTS audit_teachers ON teachers;
+CREATE TRIGGER audit_teachers
+  AFTER INSERT OR UPDATE OR DELETE ON teachers
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('teacher');
+
+DROP TRIGGER IF EXISTS audit_routines ON routines;
+CREATE TRIGGER audit_routines
+  AFTER INSERT OR UPDATE OR DELETE ON routines
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('routine');
+
+DROP TRIGGER IF EXISTS audit_routine_slots ON routine_slots;
+CREATE TRIGGER audit_routine_slots
+  AFTER INSERT OR UPDATE OR DELETE ON routine_slots
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('routine_slot');
+
+DROP TRIGGER IF EXISTS audit_announcements ON announcements;
+CREATE TRIGGER audit_announcements
+  AFTER INSERT OR UPDATE OR DELETE ON announcements
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('announcement');
+
+DROP TRIGGER IF EXISTS audit_study_materials ON study_materials;
+CREATE TRIGGER audit_study_materials
+  AFTER INSERT OR UPDATE OR DELETE ON study_materials
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('study_material');
+
+DROP TRIGGER IF EXISTS audit_section_admins ON section_admins;
+CREATE TRIGGER audit_section_admins
+  AFTER INSERT OR UPDATE OR DELETE ON section_admins
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('section_admin');
+
+DROP TRIGGER IF EXISTS audit_user_roles ON users;
+CREATE TRIGGER audit_user_roles
+  AFTER UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('user');
+
+CREATE OR REPLACE FUNCTION public.log_admin_action(
+  p_action text,
+  p_details jsonb DEFAULT '{}'::jsonb,
+  p_resource text DEFAULT NULL,
+  p_resource_id text DEFAULT NULL,
+  p_before jsonb DEFAULT NULL,
+  p_after jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('manageAdmins') THEN
+    RAISE EXCEPTION 'Permission denied: manageAdmins required';
+  END IF;
+
+  PERFORM write_admin_log(p_action, p_resource, p_resource_id, p_before, p_after, p_details);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.verify_admin_log_chain()
+RETURNS TABLE (checked bigint, first_broken_seq bigint)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log admin_logs%ROWTYPE;
+  v_prev text;
+BEGIN
+  IF NOT has_permission('viewLogs') THEN
+    RAISE EXCEPTION 'Permission denied: viewLogs required';
+  END IF;
+
+  checked := 0;
+  first_broken_seq := NULL;
+
+  FOR v_log IN SELECT * FROM admin_logs ORDER BY seq LOOP
+    checked := checked + 1;
+
+    IF v_log.prev_hash IS DISTINCT FROM v_prev OR v_log.hash IS DISTINCT FROM admin_log_hash(v_log) THEN
+      first_broken_seq := v_log.seq;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+
+    v_prev := v_log.hash;
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.write_admin_log(text, text, text, jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_admin_action(text, jsonb, text, text, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_admin_log_chain() TO authenticated;
+
+ALTER TABLE admin_logs ENABLE ROW LEVEL SECURITY;
+
+REVOKE INSERT, UPDATE, DELETE ON admin_logs FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Users with viewLogs can read admin logs" ON admin_logs;
+CREATE POLICY "Users with viewLogs can read admin logs"
+  ON admin_logs
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('viewLogs'));
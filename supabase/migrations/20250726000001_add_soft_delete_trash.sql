@@ -0,0 +1,614 @@
+/*
+  # Soft delete and trash
+
+  1. Changes
+    - `deleted_at` / `deleted_by` on tasks, courses, teachers, routines,
+      routine slots, study materials and announcements. A row with
+      `deleted_at` set is in the trash.
+    - Course codes and the one-active-routine-per-section rule only apply
+      to rows that are not in the trash
+
+  2. Functions
+    - `soft_delete_item(resource, id)` moves a row to the trash. Deleting a
+      course also trashes its routine slots and study materials;
+      deleting an announcement clears it from inboxes.
+    - `restore_trash_item(resource, id)` brings a row back together with
+      everything that was trashed along with it. Teacher/course links
+      (`teacher_courses`) and a routine's slots are never removed, so they
+      come back with their teacher, course or routine.
+    - `get_trash_items(section)` lists what the caller may restore
+    - `purge_trash_item(resource, id)` deletes a trashed row for good and
+      returns the storage paths of its files for the caller to remove
+    - `purge_expired_trash(retention)` does the same for everything trashed
+      longer than the retention period; it is called by the `trash-purge`
+      edge function on a schedule
+
+  3. Security
+    - Trashed rows are hidden from every client query by restrictive
+      SELECT policies; the functions above check `has_permission` for the
+      row's section
+    - Reminders, scheduled announcements and routine revisions ignore
+      trashed rows
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE courses
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE teachers
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE routines
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE routine_slots
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE study_materials
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE announcements
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_courses_deleted_at ON courses(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_teachers_deleted_at ON teachers(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_routines_deleted_at ON routines(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_study_materials_deleted_at ON study_materials(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_announcements_deleted_at ON announcements(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Codes only have to be unique among courses outside the trash, so a new
+-- course can take the code of a trashed one
+ALTER TABLE courses DROP CONSTRAINT IF EXISTS courses_code_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_courses_code_active
+  ON courses(code)
+  WHERE deleted_at IS NULL;
+
+DROP INDEX IF EXISTS idx_routines_one_active_per_section;
+CREATE UNIQUE INDEX idx_routines_one_active_per_section
+  ON routines(section_id)
+  WHERE is_active = true AND section_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Hide trashed rows from clients. Restrictive policies are ANDed with the
+-- existing ones, so nothing else about who can read what changes.
+DROP POLICY IF EXISTS "Hide trashed tasks" ON tasks;
+CREATE POLICY "Hide trashed tasks" ON tasks
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed courses" ON courses;
+CREATE POLICY "Hide trashed courses" ON courses
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed teachers" ON teachers;
+CREATE POLICY "Hide trashed teachers" ON teachers
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed routines" ON routines;
+CREATE POLICY "Hide trashed routines" ON routines
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed routine slots" ON routine_slots;
+CREATE POLICY "Hide trashed routine slots" ON routine_slots
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed study materials" ON study_materials;
+CREATE POLICY "Hide trashed study materials" ON study_materials
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+DROP POLICY IF EXISTS "Hide trashed announcements" ON announcements;
+CREATE POLICY "Hide trashed announcements" ON announcements
+  AS RESTRICTIVE FOR SELECT TO anon, authenticated
+  USING (deleted_at IS NULL);
+
+-- Courses and teachers keep their section in a text column
+CREATE OR REPLACE FUNCTION public.try_uuid(p_value text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN p_value::uuid
+  END;
+$$;
+
+-- Whether the caller manages a row of a trashable table
+CREATE OR REPLACE FUNCTION public.can_manage_trash_row(p_resource text, p_row jsonb)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_resource
+    WHEN 'tasks' THEN has_permission('manageTasks', try_uuid(p_row ->> 'section_id'))
+    WHEN 'courses' THEN has_permission('manageCourses', try_uuid(p_row ->> 'section'))
+    WHEN 'teachers' THEN has_permission('manageTeachers', try_uuid(p_row ->> 'department'))
+    WHEN 'routines' THEN has_permission('manageRoutines', try_uuid(p_row ->> 'section_id'))
+    WHEN 'study_materials' THEN has_permission(
+      'manageStudyMaterials',
+      (SELECT try_uuid(c.section) FROM courses c WHERE c.id = try_uuid(p_row ->> 'course_id'))
+    )
+    WHEN 'announcements' THEN has_permission(
+      'manageAnnouncements',
+      try_uuid(p_row ->> 'section_id'),
+      try_uuid(p_row ->> 'batch_id'),
+      try_uuid(p_row ->> 'department_id')
+    )
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_trash_resource(p_resource text)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  IF p_resource NOT IN ('tasks', 'courses', 'teachers', 'routines', 'study_materials', 'announcements') THEN
+    RAISE EXCEPTION 'Unknown trash resource: %', p_resource;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.soft_delete_item(p_resource text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_now timestamptz := now();
+BEGIN
+  PERFORM check_trash_resource(p_resource);
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 AND t.deleted_at IS NULL', p_resource)
+    INTO v_row
+    USING p_id;
+
+  IF v_row IS NULL THEN
+    RAISE EXCEPTION 'Item not found or already deleted';
+  END IF;
+
+  IF NOT can_manage_trash_row(p_resource, v_row) THEN
+    RAISE EXCEPTION 'Permission denied: you cannot delete this item';
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = $1, deleted_by = auth.uid() WHERE id = $2', p_resource)
+    USING v_now, p_id;
+
+  -- Rows that would have gone with a hard delete share its timestamp, so
+  -- a restore brings back exactly those
+  IF p_resource = 'courses' THEN
+    UPDATE routine_slots
+    SET deleted_at = v_now, deleted_by = auth.uid()
+    WHERE course_id = p_id AND deleted_at IS NULL;
+
+    UPDATE study_materials
+    SET deleted_at = v_now, deleted_by = auth.uid()
+    WHERE course_id = p_id AND deleted_at IS NULL;
+  ELSIF p_resource = 'announcements' THEN
+    UPDATE notifications
+    SET cleared_at = v_now
+    WHERE announcement_id = p_id AND cleared_at IS NULL;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_trash_item(p_resource text, p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_deleted_at timestamptz;
+BEGIN
+  PERFORM check_trash_resource(p_resource);
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 AND t.deleted_at IS NOT NULL', p_resource)
+    INTO v_row
+    USING p_id;
+
+  IF v_row IS NULL THEN
+    RAISE EXCEPTION 'Item is not in the trash';
+  END IF;
+
+  IF NOT can_manage_trash_row(p_resource, v_row) THEN
+    RAISE EXCEPTION 'Permission denied: you cannot restore this item';
+  END IF;
+
+  v_deleted_at := (v_row ->> 'deleted_at')::timestamptz;
+
+  IF p_resource = 'study_materials' AND EXISTS (
+    SELECT 1 FROM courses WHERE id = try_uuid(v_row ->> 'course_id') AND deleted_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Restore the course of this study material first';
+  END IF;
+
+  IF p_resource = 'courses' AND EXISTS (
+    SELECT 1 FROM courses WHERE code = v_row ->> 'code' AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Another course already uses the code %', v_row ->> 'code';
+  END IF;
+
+  EXECUTE format('UPDATE %I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', p_resource)
+    USING p_id;
+
+  IF p_resource = 'courses' THEN
+    UPDATE routine_slots
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE course_id = p_id AND deleted_at = v_deleted_at;
+
+    UPDATE study_materials
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE course_id = p_id AND deleted_at = v_deleted_at;
+  ELSIF p_resource = 'routines' THEN
+    -- Another routine may have been activated in the meantime
+    UPDATE routines r
+    SET is_active = false
+    WHERE r.id = p_id
+    AND r.is_active
+    AND EXISTS (
+      SELECT 1 FROM routines other
+      WHERE other.section_id = r.section_id
+      AND other.id <> r.id
+      AND other.is_active
+      AND other.deleted_at IS NULL
+    );
+  ELSIF p_resource = 'announcements' THEN
+    UPDATE notifications
+    SET cleared_at = NULL
+    WHERE announcement_id = p_id AND cleared_at = v_deleted_at;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_trash_items(p_section_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  resource text,
+  id uuid,
+  title text,
+  subtitle text,
+  section_id uuid,
+  deleted_at timestamptz,
+  deleted_by uuid,
+  deleted_by_name text,
+  related_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH items AS (
+    SELECT 'tasks' AS resource, t.id, t.name AS title, t.category AS subtitle,
+      t.section_id, t.deleted_at, t.deleted_by, to_jsonb(t) AS row_data, 0 AS related_count
+    FROM tasks t
+    WHERE t.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'courses', c.id, c.name, c.code, try_uuid(c.section), c.deleted_at, c.deleted_by, to_jsonb(c),
+      (SELECT count(*)::int FROM routine_slots s WHERE s.course_id = c.id AND s.deleted_at = c.deleted_at)
+      + (SELECT count(*)::int FROM study_materials m WHERE m.course_id = c.id AND m.deleted_at = c.deleted_at)
+    FROM courses c
+    WHERE c.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'teachers', t.id, t.name, t.email, try_uuid(t.department), t.deleted_at, t.deleted_by, to_jsonb(t),
+      (SELECT count(*)::int FROM teacher_courses tc WHERE tc.teacher_id = t.id)
+    FROM teachers t
+    WHERE t.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'routines', r.id, r.name, r.semester, r.section_id, r.deleted_at, r.deleted_by, to_jsonb(r),
+      (SELECT count(*)::int FROM routine_slots s WHERE s.routine_id = r.id AND s.deleted_at IS NULL)
+    FROM routines r
+    WHERE r.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'study_materials', m.id, m.title, c.code, try_uuid(c.section), m.deleted_at, m.deleted_by, to_jsonb(m),
+      COALESCE(array_length(m.file_urls, 1), 0)
+    FROM study_materials m
+    LEFT JOIN courses c ON c.id = m.course_id
+    WHERE m.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'announcements', a.id, a.title, NULL, a.section_id, a.deleted_at, a.deleted_by, to_jsonb(a), 0
+    FROM announcements a
+    WHERE a.deleted_at IS NOT NULL
+  )
+  SELECT i.resource, i.id, i.title, i.subtitle, i.section_id, i.deleted_at, i.deleted_by,
+    u.name, i.related_count
+  FROM items i
+  LEFT JOIN users u ON u.id = i.deleted_by
+  WHERE (p_section_id IS NULL OR i.section_id = p_section_id)
+  AND can_manage_trash_row(i.resource, i.row_data)
+  ORDER BY i.deleted_at DESC;
+$$;
+
+-- Storage paths (in the task-attachments bucket) of files that belong to
+-- a row and its trashed dependants
+CREATE OR REPLACE FUNCTION public.trash_item_storage_paths(p_resource text, p_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(path) FILTER (WHERE path IS NOT NULL AND path <> ''), '{}')
+  FROM (
+    SELECT a.storage_path AS path
+    FROM task_attachments a
+    WHERE p_resource = 'tasks' AND a.task_id = p_id
+    UNION ALL
+    SELECT regexp_replace(url, '^.*/storage/v1/object/public/task-attachments/', '')
+    FROM study_materials m, unnest(m.file_urls) AS url
+    WHERE (p_resource = 'study_materials' AND m.id = p_id)
+    OR (p_resource = 'courses' AND m.course_id = p_id)
+  ) files;
+$$;
+
+CREATE OR REPLACE FUNCTION public.hard_delete_trash_item(p_resource text, p_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_paths text[];
+BEGIN
+  PERFORM check_trash_resource(p_resource);
+
+  v_paths := trash_item_storage_paths(p_resource, p_id);
+  EXECUTE format('DELETE FROM %I WHERE id = $1 AND deleted_at IS NOT NULL', p_resource)
+    USING p_id;
+
+  RETURN v_paths;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_trash_item(p_resource text, p_id uuid)
+RETURNS text[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+BEGIN
+  PERFORM check_trash_resource(p_resource);
+
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE t.id = $1 AND t.deleted_at IS NOT NULL', p_resource)
+    INTO v_row
+    USING p_id;
+
+  IF v_row IS NULL THEN
+    RAISE EXCEPTION 'Item is not in the trash';
+  END IF;
+
+  IF NOT can_manage_trash_row(p_resource, v_row) THEN
+    RAISE EXCEPTION 'Permission denied: you cannot delete this item';
+  END IF;
+
+  RETURN hard_delete_trash_item(p_resource, p_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_trash(p_retention interval DEFAULT interval '30 days')
+RETURNS TABLE (resource text, id uuid, storage_paths text[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_resource text;
+  v_id uuid;
+BEGIN
+  -- Dependants first, so a course's files are collected only once
+  FOREACH v_resource IN ARRAY ARRAY['study_materials', 'tasks', 'announcements', 'routines', 'courses', 'teachers'] LOOP
+    FOR v_id IN EXECUTE format(
+      'SELECT id FROM %I WHERE deleted_at < now() - $1',
+      v_resource
+    ) USING p_retention LOOP
+      resource := v_resource;
+      id := v_id;
+      storage_paths := hard_delete_trash_item(v_resource, v_id);
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hard_delete_trash_item(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_expired_trash(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash(interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.soft_delete_item(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_trash_item(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trash_items(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_trash_item(text, uuid) TO authenticated;
+
+-- Trashed slots are not part of a routine's revisions
+CREATE OR REPLACE FUNCTION public.routine_slots_snapshot(p_routine_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', s.id,
+    'course_id', s.course_id,
+    'teacher_id', s.teacher_id,
+    'course_name', coalesce(s.course_name, c.name),
+    'course_code', c.code,
+    'teacher_name', coalesce(s.teacher_name, t.name),
+    'day_of_week', s.day_of_week,
+    'start_time', s.start_time,
+    'end_time', s.end_time,
+    'room_number', s.room_number,
+    'section', s.section,
+    'created_at', s.created_at
+  ) ORDER BY s.day_of_week, s.start_time, s.id), '[]'::jsonb)
+  FROM routine_slots s
+  LEFT JOIN courses c ON c.id = s.course_id
+  LEFT JOIN teachers t ON t.id = s.teacher_id
+  WHERE s.routine_id = p_routine_id
+  AND s.deleted_at IS NULL;
+$$;
+
+-- No reminders for trashed tasks
+CREATE OR REPLACE FUNCTION public.claim_due_task_reminders()
+RETURNS TABLE (
+  user_id UUID,
+  task_id UUID,
+  task_name TEXT,
+  due_at TIMESTAMPTZ,
+  lead_minutes INTEGER,
+  notification_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      u.id AS user_id,
+      u.section_id,
+      t.id AS task_id,
+      t.name AS task_name,
+      t.is_admin_task,
+      public.task_due_at(t.due_date::date) AS due_at,
+      lead.minutes AS lead_minutes
+    FROM public.users u
+    LEFT JOIN public.notification_preferences np ON np.user_id = u.id
+    JOIN public.tasks t ON (
+      (t.is_admin_task = false AND t.user_id = u.id)
+      OR (
+        t.is_admin_task = true
+        AND u.role = 'user'
+        AND (t.section_id IS NULL OR t.section_id = u.section_id)
+      )
+    )
+    LEFT JOIN public.task_progress tp ON tp.task_id = t.id AND tp.user_id = u.id
+    CROSS JOIN LATERAL unnest(
+      COALESCE(np.reminder_lead_minutes, ARRAY[1440, 180, 30])
+    ) AS lead(minutes)
+    WHERE t.deleted_at IS NULL
+    AND public.task_due_at(t.due_date::date) > now()
+    AND public.task_due_at(t.due_date::date) - make_interval(mins => lead.minutes) <= now()
+    -- Personal tasks keep their status on the task, shared ones per student
+    AND (
+      CASE WHEN t.is_admin_task THEN COALESCE(tp.status, 'my-tasks') ELSE t.status END
+    ) <> 'completed'
+  ),
+  claimed AS (
+    -- Claim every lead time that is already due so a late-created task
+    -- doesn't fire its longer reminders on later runs
+    INSERT INTO public.task_reminders (task_id, user_id, lead_minutes, due_at)
+    SELECT c.task_id, c.user_id, c.lead_minutes, c.due_at
+    FROM candidates c
+    ON CONFLICT ON CONSTRAINT task_reminders_unique DO NOTHING
+    RETURNING task_reminders.task_id, task_reminders.user_id, task_reminders.lead_minutes, task_reminders.due_at
+  ),
+  -- Only the closest lead time of a run is actually delivered
+  to_send AS (
+    SELECT DISTINCT ON (cl.task_id, cl.user_id)
+      cl.user_id,
+      cl.task_id,
+      c.task_name,
+      c.section_id,
+      c.is_admin_task,
+      cl.due_at,
+      cl.lead_minutes
+    FROM claimed cl
+    JOIN candidates c
+      ON c.task_id = cl.task_id
+      AND c.user_id = cl.user_id
+      AND c.lead_minutes = cl.lead_minutes
+    ORDER BY cl.task_id, cl.user_id, cl.lead_minutes ASC
+  ),
+  inserted AS (
+    INSERT INTO public.notifications (user_id, section_id, type, title, message, task_id, is_admin_task)
+    SELECT
+      s.user_id,
+      s.section_id,
+      'deadline',
+      'Deadline Reminder',
+      format(
+        'Task "%s" is due within %s',
+        s.task_name,
+        CASE
+          WHEN s.lead_minutes >= 1440 THEN
+            (s.lead_minutes / 1440)::text || CASE WHEN s.lead_minutes / 1440 = 1 THEN ' day' ELSE ' days' END
+          WHEN s.lead_minutes >= 60 THEN
+            (s.lead_minutes / 60)::text || CASE WHEN s.lead_minutes / 60 = 1 THEN ' hour' ELSE ' hours' END
+          ELSE s.lead_minutes::text || ' minutes'
+        END
+      ),
+      s.task_id,
+      s.is_admin_task
+    FROM to_send s
+    RETURNING notifications.id, notifications.user_id, notifications.task_id
+  )
+  SELECT s.user_id, s.task_id, s.task_name, s.due_at, s.lead_minutes, i.id
+  FROM to_send s
+  JOIN inserted i ON i.user_id = s.user_id AND i.task_id = s.task_id;
+END;
+$$;
+
+-- Trashed announcements are not published when their time comes
+CREATE OR REPLACE FUNCTION public.publish_scheduled_announcements()
+RETURNS TABLE (
+  id uuid,
+  title text,
+  content text,
+  section_id uuid,
+  batch_id uuid,
+  department_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_announcement RECORD;
+BEGIN
+  FOR v_announcement IN
+    SELECT a.id, a.title, a.content, a.section_id, a.batch_id, a.department_id
+    FROM announcements a
+    WHERE a.notified_at IS NULL
+    AND a.deleted_at IS NULL
+    AND a.publish_at <= now()
+    AND (a.expires_at IS NULL OR a.expires_at > now())
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.notify_announcement_audience(v_announcement.id);
+
+    id := v_announcement.id;
+    title := v_announcement.title;
+    content := v_announcement.content;
+    section_id := v_announcement.section_id;
+    batch_id := v_announcement.batch_id;
+    department_id := v_announcement.department_id;
+    RETURN NEXT;
+  END LOOP;
+
+  -- Expired announcements leave the inbox as well
+  UPDATE notifications n
+  SET cleared_at = now()
+  FROM announcements a
+  WHERE n.announcement_id = a.id
+  AND a.expires_at <= now()
+  AND n.cleared_at IS NULL;
+END;
+$$;
@@ -0,0 +1,395 @@
+/*
+  # Bulk task actions
+
+  1. Changes
+    - `tasks.priority` (high, medium or low), so a priority set in the
+      admin task table is kept
+    - `bulk_update_tasks` changes the category, priority, section or due
+      date (shifted by a number of days) of many tasks
+    - `bulk_delete_tasks` moves many tasks to the trash
+    - `duplicate_tasks_to_sections` copies tasks into other sections
+    - `get_task_target_sections` lists the sections the caller may put
+      tasks in
+
+  2. Behaviour
+    - Each call runs in one transaction. Tasks that can't take part
+      (missing, personal, or outside the caller's sections) are skipped
+      and reported in the result; the rest are changed together.
+    - Each call writes one audit entry covering all of its tasks. The
+      row trigger `audit_admin_change()` stays quiet while the
+      transaction-local `app.bulk_audit` setting is on.
+
+  3. Security
+    - Every task and every target section is checked with
+      `has_permission('manageTasks', …)`
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS priority text CHECK (priority IN ('high', 'medium', 'low'));
+
+CREATE OR REPLACE FUNCTION public.audit_admin_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_after, v_before);
+BEGIN
+  -- A bulk action writes its own entry for all rows
+  IF current_setting('app.bulk_audit', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'tasks'
+    AND NOT COALESCE((v_row ->> 'is_admin_task')::boolean, false)
+    AND v_row ->> 'user_id' IS NOT DISTINCT FROM auth.uid()::text
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' THEN
+    IF TG_OP <> 'UPDATE'
+      OR (v_before -> 'role' IS NOT DISTINCT FROM v_after -> 'role'
+        AND v_before -> 'permissions' IS NOT DISTINCT FROM v_after -> 'permissions')
+    THEN
+      RETURN NULL;
+    END IF;
+
+    PERFORM write_admin_log(
+      'update_user_role',
+      'users',
+      v_row ->> 'id',
+      jsonb_build_object('role', v_before -> 'role', 'permissions', v_before -> 'permissions'),
+      jsonb_build_object('role', v_after -> 'role', 'permissions', v_after -> 'permissions'),
+      jsonb_build_object('userId', v_row ->> 'id', 'username', v_row ->> 'name')
+    );
+    RETURN NULL;
+  END IF;
+
+  PERFORM write_admin_log(
+    lower(TG_OP) || '_' || TG_ARGV[0],
+    TG_TABLE_NAME,
+    v_row ->> 'id',
+    v_before,
+    v_after,
+    jsonb_strip_nulls(jsonb_build_object(
+      'sectionId', v_row ->> 'section_id',
+      'name', COALESCE(v_row ->> 'name', v_row ->> 'title', v_row ->> 'code')
+    ))
+  );
+  RETURN NULL;
+END;
+$$;
+
+-- Why a task can't take part in a bulk action, or NULL if it can
+CREATE OR REPLACE FUNCTION public.bulk_task_error(p_task tasks)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_task.id IS NULL OR p_task.deleted_at IS NOT NULL THEN 'Task not found'
+    WHEN NOT COALESCE(p_task.is_admin_task, false) THEN 'Personal tasks cannot be changed in bulk'
+    WHEN NOT has_permission('manageTasks', p_task.section_id) THEN 'Permission denied: task belongs to another section'
+  END;
+$$;
+
+-- Section admins note their section in the description; keep it in step
+-- when a task moves
+CREATE OR REPLACE FUNCTION public.retarget_task_description(
+  p_description text,
+  p_from_section uuid,
+  p_to_section uuid
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_from_section IS NULL OR p_to_section IS NULL THEN p_description
+    ELSE replace(p_description, 'For section: ' || p_from_section, 'For section: ' || p_to_section)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_task_target_section(p_section_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM sections WHERE id = p_section_id) THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  IF NOT has_permission('manageTasks', p_section_id) THEN
+    RAISE EXCEPTION 'Permission denied: you cannot add tasks to this section';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(p_task_ids uuid[], p_changes jsonb)
+RETURNS TABLE (task_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category text := NULLIF(trim(p_changes ->> 'category'), '');
+  v_priority text := NULLIF(p_changes ->> 'priority', '');
+  v_shift_days integer := COALESCE((p_changes ->> 'shiftDays')::integer, 0);
+  v_section_id uuid := try_uuid(p_changes ->> 'sectionId');
+  v_ids uuid[] := '{}';
+  v_id uuid;
+  v_task tasks;
+  v_failed integer := 0;
+  v_before jsonb;
+  v_after jsonb;
+BEGIN
+  IF v_category IS NULL AND v_priority IS NULL AND v_shift_days = 0 AND v_section_id IS NULL THEN
+    RAISE EXCEPTION 'No changes given';
+  END IF;
+
+  IF v_priority IS NOT NULL AND v_priority NOT IN ('high', 'medium', 'low') THEN
+    RAISE EXCEPTION 'Unknown priority: %', v_priority;
+  END IF;
+
+  IF v_section_id IS NOT NULL THEN
+    PERFORM check_task_target_section(v_section_id);
+  END IF;
+
+  FOR v_id IN SELECT DISTINCT unnest(p_task_ids) LOOP
+    v_task := NULL;
+    SELECT * INTO v_task FROM tasks t WHERE t.id = v_id FOR UPDATE;
+
+    task_id := v_id;
+    error := bulk_task_error(v_task);
+
+    IF error IS NULL THEN
+      v_ids := v_ids || v_id;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+
+  IF cardinality(v_ids) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_object_agg(t.id, jsonb_build_object(
+    'category', t.category, 'priority', t.priority, 'due_date', t.due_date, 'section_id', t.section_id
+  ))
+  INTO v_before
+  FROM tasks t
+  WHERE t.id = ANY (v_ids);
+
+  PERFORM set_config('app.bulk_audit', 'on', true);
+
+  UPDATE tasks t
+  SET category = COALESCE(v_category, t.category),
+    priority = COALESCE(v_priority, t.priority),
+    due_date = t.due_date + v_shift_days,
+    section_id = COALESCE(v_section_id, t.section_id),
+    description = retarget_task_description(t.description, t.section_id, v_section_id)
+  WHERE t.id = ANY (v_ids);
+
+  PERFORM set_config('app.bulk_audit', 'off', true);
+
+  SELECT jsonb_object_agg(t.id, jsonb_build_object(
+    'category', t.category, 'priority', t.priority, 'due_date', t.due_date, 'section_id', t.section_id
+  ))
+  INTO v_after
+  FROM tasks t
+  WHERE t.id = ANY (v_ids);
+
+  PERFORM write_admin_log(
+    'bulk_update_tasks',
+    'tasks',
+    NULL,
+    v_before,
+    v_after,
+    jsonb_build_object('count', cardinality(v_ids), 'failed', v_failed, 'changes', p_changes)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(p_task_ids uuid[])
+RETURNS TABLE (task_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ids uuid[] := '{}';
+  v_id uuid;
+  v_task tasks;
+  v_failed integer := 0;
+  v_before jsonb;
+BEGIN
+  FOR v_id IN SELECT DISTINCT unnest(p_task_ids) LOOP
+    v_task := NULL;
+    SELECT * INTO v_task FROM tasks t WHERE t.id = v_id FOR UPDATE;
+
+    task_id := v_id;
+    error := bulk_task_error(v_task);
+
+    IF error IS NULL THEN
+      v_ids := v_ids || v_id;
+    ELSE
+      v_failed := v_failed + 1;
+    END IF;
+
+    RETURN NEXT;
+  END LOOP;
+
+  IF cardinality(v_ids) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT jsonb_object_agg(t.id, jsonb_build_object('name', t.name, 'section_id', t.section_id))
+  INTO v_before
+  FROM tasks t
+  WHERE t.id = ANY (v_ids);
+
+  PERFORM set_config('app.bulk_audit', 'on', true);
+
+  -- One timestamp, like a single soft delete, so each can be restored
+  -- from the trash on its own
+  UPDATE tasks t
+  SET deleted_at = now(), deleted_by = auth.uid()
+  WHERE t.id = ANY (v_ids);
+
+  PERFORM set_config('app.bulk_audit', 'off', true);
+
+  PERFORM write_admin_log(
+    'bulk_delete_tasks',
+    'tasks',
+    NULL,
+    v_before,
+    NULL,
+    jsonb_build_object('count', cardinality(v_ids), 'failed', v_failed)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.duplicate_tasks_to_sections(p_task_ids uuid[], p_section_ids uuid[])
+RETURNS TABLE (task_id uuid, section_id uuid, new_task_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_id uuid;
+  v_section_id uuid;
+  v_task tasks;
+  v_task_error text;
+  v_created jsonb := '{}'::jsonb;
+  v_failed integer := 0;
+BEGIN
+  IF COALESCE(cardinality(p_section_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'No target sections given';
+  END IF;
+
+  FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+    PERFORM check_task_target_section(v_section_id);
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'on', true);
+
+  FOR v_id IN SELECT DISTINCT unnest(p_task_ids) LOOP
+    v_task := NULL;
+    SELECT * INTO v_task FROM tasks t WHERE t.id = v_id;
+    v_task_error := bulk_task_error(v_task);
+
+    FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+      task_id := v_id;
+      section_id := v_section_id;
+      new_task_id := NULL;
+      error := v_task_error;
+
+      IF error IS NULL AND v_task.section_id = v_section_id THEN
+        error := 'Task is already in this section';
+      END IF;
+
+      IF error IS NULL THEN
+        -- Inserting still notifies the section through notify_task_changes()
+        INSERT INTO tasks (
+          name, category, due_date, description, status, user_id, is_admin_task, section_id, priority
+        ) VALUES (
+          v_task.name,
+          v_task.category,
+          v_task.due_date,
+          retarget_task_description(v_task.description, v_task.section_id, v_section_id),
+          v_task.status,
+          auth.uid(),
+          true,
+          v_section_id,
+          v_task.priority
+        )
+        RETURNING id INTO new_task_id;
+
+        v_created := v_created || jsonb_build_object(
+          new_task_id::text,
+          jsonb_build_object('source_id', v_id, 'name', v_task.name, 'section_id', v_section_id)
+        );
+      ELSE
+        v_failed := v_failed + 1;
+      END IF;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'off', true);
+
+  IF v_created = '{}'::jsonb THEN
+    RETURN;
+  END IF;
+
+  PERFORM write_admin_log(
+    'bulk_duplicate_tasks',
+    'tasks',
+    NULL,
+    NULL,
+    v_created,
+    jsonb_build_object(
+      'count', (SELECT count(*) FROM jsonb_object_keys(v_created)),
+      'failed', v_failed,
+      'sectionIds', to_jsonb(p_section_ids)
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_task_target_sections()
+RETURNS TABLE (id uuid, name text, batch_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, s.name, b.name
+  FROM sections s
+  LEFT JOIN batches b ON b.id = s.batch_id
+  WHERE has_permission('manageTasks', s.id)
+  ORDER BY b.name, s.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bulk_task_error(tasks) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_update_tasks(uuid[], jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_delete_tasks(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.duplicate_tasks_to_sections(uuid[], uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_task_target_sections() TO authenticated;
@@ -0,0 +1,373 @@
+/*
+  # Recurring task templates
+
+  1. New Tables
+    - `task_templates`: a task to create again and again, with its
+      recurrence rule:
+      - `weekly`: on the given weekdays
+      - `interval`: every `interval_days` days, counted from `start_date`
+      - `routine_slot`: on the weekday of a slot of the section's active
+        routine, following the slot if it moves. The slot ID has no
+        foreign key, so restoring a routine revision picks the series up
+        again; while the slot is missing the series produces no dates.
+      The series runs from `start_date` to `end_date` (open-ended when
+      null). Tasks are created `generate_ahead_days` before they are due.
+    - `task_template_occurrences`: one row per date that has been handled,
+      linking the task created for it or marking it skipped. A generated
+      task is an ordinary task, so editing it changes only that
+      occurrence; the generator never touches a date twice.
+
+  2. Functions
+    - `task_template_dates`: the dates a rule produces in a range; used by
+      the generator and for previews
+    - `preview_task_template`: the next dates of a rule that isn't saved yet
+    - `get_task_template_occurrences`: handled and upcoming dates of a
+      template
+    - `generate_template_tasks`: creates the tasks that are due to be
+      created. Admins run it for their templates; the
+      `task-template-generator` function runs it for all of them.
+    - `skip_task_occurrence` / `unskip_task_occurrence`: take one date out
+      of the series (trashing its task if it exists) or put it back
+
+  3. Security
+    - Template changes are recorded in the admin log
+    - Templates are managed by whoever holds `manageTasks` for their
+      section; occurrences can only be changed through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS task_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id uuid REFERENCES sections(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  category text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  priority text CHECK (priority IN ('high', 'medium', 'low')),
+  recurrence_type text NOT NULL CHECK (recurrence_type IN ('weekly', 'interval', 'routine_slot')),
+  weekdays text[] NOT NULL DEFAULT '{}',
+  interval_days integer CHECK (interval_days > 0),
+  -- No foreign key: slots are deleted and re-inserted with the same ID when
+  -- a routine revision is restored
+  routine_slot_id uuid,
+  start_date date NOT NULL,
+  end_date date,
+  generate_ahead_days integer NOT NULL DEFAULT 7 CHECK (generate_ahead_days BETWEEN 0 AND 60),
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT task_templates_weekdays CHECK (
+    weekdays <@ ARRAY['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  ),
+  CONSTRAINT task_templates_rule CHECK (
+    (recurrence_type = 'weekly' AND cardinality(weekdays) > 0)
+    OR (recurrence_type = 'interval' AND interval_days IS NOT NULL)
+    OR recurrence_type = 'routine_slot'
+  ),
+  CONSTRAINT task_templates_dates CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_section ON task_templates(section_id);
+
+CREATE TABLE IF NOT EXISTS task_template_occurrences (
+  template_id uuid NOT NULL REFERENCES task_templates(id) ON DELETE CASCADE,
+  occurrence_date date NOT NULL,
+  task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+  skipped boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (template_id, occurrence_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_template_occurrences_task ON task_template_occurrences(task_id);
+
+ALTER TABLE task_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_template_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Task admins can read templates" ON task_templates;
+CREATE POLICY "Task admins can read templates" ON task_templates
+  FOR SELECT TO authenticated
+  USING (has_permission('manageTasks', section_id));
+
+DROP POLICY IF EXISTS "Task admins can create templates" ON task_templates;
+CREATE POLICY "Task admins can create templates" ON task_templates
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('manageTasks', section_id));
+
+DROP POLICY IF EXISTS "Task admins can update templates" ON task_templates;
+CREATE POLICY "Task admins can update templates" ON task_templates
+  FOR UPDATE TO authenticated
+  USING (has_permission('manageTasks', section_id))
+  WITH CHECK (has_permission('manageTasks', section_id));
+
+DROP POLICY IF EXISTS "Task admins can delete templates" ON task_templates;
+CREATE POLICY "Task admins can delete templates" ON task_templates
+  FOR DELETE TO authenticated
+  USING (has_permission('manageTasks', section_id));
+
+DROP POLICY IF EXISTS "Task admins can read template occurrences" ON task_template_occurrences;
+CREATE POLICY "Task admins can read template occurrences" ON task_template_occurrences
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM task_templates t
+    WHERE t.id = template_id AND has_permission('manageTasks', t.section_id)
+  ));
+
+DROP TRIGGER IF EXISTS audit_task_templates ON task_templates;
+CREATE TRIGGER audit_task_templates
+  AFTER INSERT OR UPDATE OR DELETE ON task_templates
+  FOR EACH ROW EXECUTE FUNCTION audit_admin_change('task_template');
+
+-- Today in the timezone the app's due dates are written in
+CREATE OR REPLACE FUNCTION public.app_today()
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (now() AT TIME ZONE 'Asia/Dhaka')::date;
+$$;
+
+CREATE OR REPLACE FUNCTION public.task_template_dates(
+  p_recurrence_type text,
+  p_weekdays text[],
+  p_interval_days integer,
+  p_routine_slot_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_from date,
+  p_until date
+)
+RETURNS SETOF date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH slot_day AS (
+    -- Only slots of an active routine count, so a series tied to last
+    -- semester's routine stops with it
+    SELECT s.day_of_week
+    FROM routine_slots s
+    JOIN routines r ON r.id = s.routine_id
+    WHERE s.id = p_routine_slot_id
+    AND s.deleted_at IS NULL
+    AND r.deleted_at IS NULL
+    AND r.is_active
+  )
+  SELECT d::date
+  FROM generate_series(
+    GREATEST(p_start_date, p_from)::timestamp,
+    LEAST(COALESCE(p_end_date, p_until), p_until)::timestamp,
+    interval '1 day'
+  ) AS d
+  WHERE CASE p_recurrence_type
+    WHEN 'weekly' THEN to_char(d, 'FMDay') = ANY (p_weekdays)
+    WHEN 'interval' THEN (d::date - p_start_date) % p_interval_days = 0
+    WHEN 'routine_slot' THEN to_char(d, 'FMDay') = (SELECT day_of_week FROM slot_day)
+    ELSE false
+  END
+  ORDER BY 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.preview_task_template(
+  p_recurrence_type text,
+  p_weekdays text[],
+  p_interval_days integer,
+  p_routine_slot_id uuid,
+  p_start_date date,
+  p_end_date date,
+  p_limit integer DEFAULT 10
+)
+RETURNS SETOF date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d
+  FROM task_template_dates(
+    p_recurrence_type, p_weekdays, p_interval_days, p_routine_slot_id,
+    p_start_date, p_end_date, app_today(), app_today() + 366
+  ) AS d
+  LIMIT LEAST(p_limit, 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_task_template_occurrences(
+  p_template_id uuid,
+  p_limit integer DEFAULT 10
+)
+RETURNS TABLE (occurrence_date date, task_id uuid, skipped boolean, generated boolean)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_template task_templates;
+BEGIN
+  SELECT * INTO v_template FROM task_templates WHERE id = p_template_id;
+
+  IF v_template.id IS NULL OR NOT has_permission('manageTasks', v_template.section_id) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  -- Handled dates from today on, then the dates still to come
+  RETURN QUERY
+  SELECT d, o.task_id, COALESCE(o.skipped, false), o.template_id IS NOT NULL AND NOT o.skipped
+  FROM (
+    SELECT o.occurrence_date AS d
+    FROM task_template_occurrences o
+    WHERE o.template_id = p_template_id AND o.occurrence_date >= app_today()
+    UNION
+    SELECT task_template_dates(
+      v_template.recurrence_type, v_template.weekdays, v_template.interval_days,
+      v_template.routine_slot_id, v_template.start_date, v_template.end_date,
+      app_today(), app_today() + 366
+    )
+  ) dates
+  LEFT JOIN task_template_occurrences o
+    ON o.template_id = p_template_id AND o.occurrence_date = dates.d
+  ORDER BY d
+  LIMIT LEAST(p_limit, 100);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_template_tasks(p_template_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template task_templates;
+  v_date date;
+  v_task_id uuid;
+  v_created integer := 0;
+BEGIN
+  FOR v_template IN
+    SELECT * FROM task_templates t
+    WHERE t.is_active
+    AND (p_template_id IS NULL OR t.id = p_template_id)
+    -- Scheduled runs have no user and cover every template
+    AND (auth.uid() IS NULL OR has_permission('manageTasks', t.section_id))
+    FOR UPDATE
+  LOOP
+    IF COALESCE(v_template.created_by, auth.uid()) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    FOR v_date IN
+      SELECT d FROM task_template_dates(
+        v_template.recurrence_type, v_template.weekdays, v_template.interval_days,
+        v_template.routine_slot_id, v_template.start_date, v_template.end_date,
+        app_today(), app_today() + v_template.generate_ahead_days
+      ) AS d
+      WHERE NOT EXISTS (
+        SELECT 1 FROM task_template_occurrences o
+        WHERE o.template_id = v_template.id AND o.occurrence_date = d
+      )
+    LOOP
+      INSERT INTO tasks (
+        name, category, due_date, description, status, user_id, is_admin_task, section_id, priority
+      ) VALUES (
+        v_template.name,
+        v_template.category,
+        v_date,
+        v_template.description,
+        'in-progress',
+        COALESCE(v_template.created_by, auth.uid()),
+        true,
+        v_template.section_id,
+        v_template.priority
+      )
+      RETURNING id INTO v_task_id;
+
+      INSERT INTO task_template_occurrences (template_id, occurrence_date, task_id)
+      VALUES (v_template.id, v_date, v_task_id);
+
+      v_created := v_created + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.skip_task_occurrence(p_template_id uuid, p_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_section_id uuid;
+  v_task_id uuid;
+BEGIN
+  SELECT section_id INTO v_section_id FROM task_templates WHERE id = p_template_id;
+
+  IF NOT FOUND OR NOT has_permission('manageTasks', v_section_id) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  INSERT INTO task_template_occurrences (template_id, occurrence_date, skipped)
+  VALUES (p_template_id, p_date, true)
+  ON CONFLICT (template_id, occurrence_date) DO UPDATE SET skipped = true
+  RETURNING task_id INTO v_task_id;
+
+  IF v_task_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM tasks WHERE id = v_task_id AND deleted_at IS NULL
+  ) THEN
+    PERFORM soft_delete_item('tasks', v_task_id);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unskip_task_occurrence(p_template_id uuid, p_date date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_section_id uuid;
+  v_task_id uuid;
+BEGIN
+  SELECT section_id INTO v_section_id FROM task_templates WHERE id = p_template_id;
+
+  IF NOT FOUND OR NOT has_permission('manageTasks', v_section_id) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  SELECT task_id INTO v_task_id
+  FROM task_template_occurrences
+  WHERE template_id = p_template_id AND occurrence_date = p_date AND skipped;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_task_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM tasks WHERE id = v_task_id AND deleted_at IS NOT NULL
+  ) THEN
+    -- Bring back the task that was created for the date
+    UPDATE task_template_occurrences
+    SET skipped = false
+    WHERE template_id = p_template_id AND occurrence_date = p_date;
+
+    PERFORM restore_trash_item('tasks', v_task_id);
+  ELSE
+    -- Never created, or purged since: let the generator create it
+    DELETE FROM task_template_occurrences
+    WHERE template_id = p_template_id AND occurrence_date = p_date;
+
+    PERFORM generate_template_tasks(p_template_id);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.task_template_dates(text, text[], integer, uuid, date, date, date, date) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.generate_template_tasks(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_template_tasks(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.preview_task_template(text, text[], integer, uuid, date, date, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_task_template_occurrences(uuid, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.skip_task_occurrence(uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unskip_task_occurrence(uuid, date) TO authenticated;
@@ -0,0 +1,320 @@
+/*
+  # Due times, time zones and grace periods for tasks
+
+  1. Changes
+    - `tasks.due_at`: the exact deadline. Tasks created before this
+      migration, or without a time, are due at the end of their day.
+    - `tasks.due_timezone`: the zone the deadline was set in; `due_date`
+      is the deadline's date in that zone
+    - `tasks.grace_minutes`: how long after the deadline work is still
+      accepted as a late submission
+
+  2. Behaviour
+    - `due_date` and `due_at` are kept in step: setting `due_at` moves
+      `due_date`, and changing only `due_date` (e.g. a bulk shift or an
+      older client) keeps the time of day
+    - Deadline reminders count down to `due_at`
+    - Duplicated tasks keep their due time and grace period
+    - Changing the due time or grace period notifies the section like any
+      other task update
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS due_at timestamptz,
+  ADD COLUMN IF NOT EXISTS due_timezone text NOT NULL DEFAULT 'Asia/Dhaka',
+  ADD COLUMN IF NOT EXISTS grace_minutes integer NOT NULL DEFAULT 0;
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_grace_minutes_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_grace_minutes_check CHECK (grace_minutes BETWEEN 0 AND 10080);
+
+-- Backfilling is not an admin change
+SELECT set_config('app.bulk_audit', 'on', true);
+
+UPDATE tasks
+SET due_at = task_due_at(due_date::date)
+WHERE due_at IS NULL;
+
+SELECT set_config('app.bulk_audit', 'off', true);
+
+ALTER TABLE tasks ALTER COLUMN due_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_due_at ON tasks(due_at) WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.sync_task_due_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Fails on an unknown zone name
+  PERFORM now() AT TIME ZONE NEW.due_timezone;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.due_at IS NULL THEN
+      NEW.due_at := (NEW.due_date::date + time '23:59:59') AT TIME ZONE NEW.due_timezone;
+    END IF;
+  ELSIF NEW.due_at IS NOT DISTINCT FROM OLD.due_at
+    AND NEW.due_timezone IS NOT DISTINCT FROM OLD.due_timezone
+    AND NEW.due_date IS DISTINCT FROM OLD.due_date
+  THEN
+    NEW.due_at := (NEW.due_date::date + (OLD.due_at AT TIME ZONE OLD.due_timezone)::time)
+      AT TIME ZONE NEW.due_timezone;
+  END IF;
+
+  NEW.due_date := (NEW.due_at AT TIME ZONE NEW.due_timezone)::date;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_task_due_at ON tasks;
+CREATE TRIGGER sync_task_due_at
+  BEFORE INSERT OR UPDATE OF due_date, due_at, due_timezone ON tasks
+  FOR EACH ROW EXECUTE FUNCTION sync_task_due_at();
+
+CREATE OR REPLACE FUNCTION public.notify_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_admin_task THEN
+      PERFORM public.notify_section_users(
+        NEW.section_id,
+        'task',
+        'New Admin Task',
+        format('Task "%s" has been created', NEW.name),
+        NEW.id,
+        NULL,
+        true,
+        NEW.user_id
+      );
+    ELSE
+      INSERT INTO public.notifications (user_id, section_id, type, title, message, task_id)
+      VALUES (
+        NEW.user_id,
+        NEW.section_id,
+        'task',
+        'New Task',
+        format('Task "%s" has been created', NEW.name),
+        NEW.id
+      );
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.is_admin_task AND (
+    NEW.name IS DISTINCT FROM OLD.name OR
+    NEW.description IS DISTINCT FROM OLD.description OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.due_at IS DISTINCT FROM OLD.due_at OR
+    NEW.grace_minutes IS DISTINCT FROM OLD.grace_minutes OR
+    NEW.category IS DISTINCT FROM OLD.category
+  ) THEN
+    PERFORM public.notify_section_users(
+      NEW.section_id,
+      'task-updated',
+      'Task Updated',
+      format('Task "%s" has been updated', NEW.name),
+      NEW.id,
+      NULL,
+      true,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reminders count down to the exact deadline
+CREATE OR REPLACE FUNCTION public.claim_due_task_reminders()
+RETURNS TABLE (
+  user_id UUID,
+  task_id UUID,
+  task_name TEXT,
+  due_at TIMESTAMPTZ,
+  lead_minutes INTEGER,
+  notification_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      u.id AS user_id,
+      u.section_id,
+      t.id AS task_id,
+      t.name AS task_name,
+      t.is_admin_task,
+      t.due_at AS due_at,
+      lead.minutes AS lead_minutes
+    FROM public.users u
+    LEFT JOIN public.notification_preferences np ON np.user_id = u.id
+    JOIN public.tasks t ON (
+      (t.is_admin_task = false AND t.user_id = u.id)
+      OR (
+        t.is_admin_task = true
+        AND u.role = 'user'
+        AND (t.section_id IS NULL OR t.section_id = u.section_id)
+      )
+    )
+    LEFT JOIN public.task_progress tp ON tp.task_id = t.id AND tp.user_id = u.id
+    CROSS JOIN LATERAL unnest(
+      COALESCE(np.reminder_lead_minutes, ARRAY[1440, 180, 30])
+    ) AS lead(minutes)
+    WHERE t.deleted_at IS NULL
+    AND t.due_at > now()
+    AND t.due_at - make_interval(mins => lead.minutes) <= now()
+    -- Personal tasks keep their status on the task, shared ones per student
+    AND (
+      CASE WHEN t.is_admin_task THEN COALESCE(tp.status, 'my-tasks') ELSE t.status END
+    ) <> 'completed'
+  ),
+  claimed AS (
+    -- Claim every lead time that is already due so a late-created task
+    -- doesn't fire its longer reminders on later runs
+    INSERT INTO public.task_reminders (task_id, user_id, lead_minutes, due_at)
+    SELECT c.task_id, c.user_id, c.lead_minutes, c.due_at
+    FROM candidates c
+    ON CONFLICT ON CONSTRAINT task_reminders_unique DO NOTHING
+    RETURNING task_reminders.task_id, task_reminders.user_id, task_reminders.lead_minutes, task_reminders.due_at
+  ),
+  -- Only the closest lead time of a run is actually delivered
+  to_send AS (
+    SELECT DISTINCT ON (cl.task_id, cl.user_id)
+      cl.user_id,
+      cl.task_id,
+      c.task_name,
+      c.section_id,
+      c.is_admin_task,
+      cl.due_at,
+      cl.lead_minutes
+    FROM claimed cl
+    JOIN candidates c
+      ON c.task_id = cl.task_id
+      AND c.user_id = cl.user_id
+      AND c.lead_minutes = cl.lead_minutes
+    ORDER BY cl.task_id, cl.user_id, cl.lead_minutes ASC
+  ),
+  inserted AS (
+    INSERT INTO public.notifications (user_id, section_id, type, title, message, task_id, is_admin_task)
+    SELECT
+      s.user_id,
+      s.section_id,
+      'deadline',
+      'Deadline Reminder',
+      format(
+        'Task "%s" is due within %s',
+        s.task_name,
+        CASE
+          WHEN s.lead_minutes >= 1440 THEN
+            (s.lead_minutes / 1440)::text || CASE WHEN s.lead_minutes / 1440 = 1 THEN ' day' ELSE ' days' END
+          WHEN s.lead_minutes >= 60 THEN
+            (s.lead_minutes / 60)::text || CASE WHEN s.lead_minutes / 60 = 1 THEN ' hour' ELSE ' hours' END
+          ELSE s.lead_minutes::text || ' minutes'
+        END
+      ),
+      s.task_id,
+      s.is_admin_task
+    FROM to_send s
+    RETURNING notifications.id, notifications.user_id, notifications.task_id
+  )
+  SELECT s.user_id, s.task_id, s.task_name, s.due_at, s.lead_minutes, i.id
+  FROM to_send s
+  JOIN inserted i ON i.user_id = s.user_id AND i.task_id = s.task_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.duplicate_tasks_to_sections(p_task_ids uuid[], p_section_ids uuid[])
+RETURNS TABLE (task_id uuid, section_id uuid, new_task_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_id uuid;
+  v_section_id uuid;
+  v_task tasks;
+  v_task_error text;
+  v_created jsonb := '{}'::jsonb;
+  v_failed integer := 0;
+BEGIN
+  IF COALESCE(cardinality(p_section_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'No target sections given';
+  END IF;
+
+  FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+    PERFORM check_task_target_section(v_section_id);
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'on', true);
+
+  FOR v_id IN SELECT DISTINCT unnest(p_task_ids) LOOP
+    v_task := NULL;
+    SELECT * INTO v_task FROM tasks t WHERE t.id = v_id;
+    v_task_error := bulk_task_error(v_task);
+
+    FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+      task_id := v_id;
+      section_id := v_section_id;
+      new_task_id := NULL;
+      error := v_task_error;
+
+      IF error IS NULL AND v_task.section_id = v_section_id THEN
+        error := 'Task is already in this section';
+      END IF;
+
+      IF error IS NULL THEN
+        -- Inserting still notifies the section through notify_task_changes()
+        INSERT INTO tasks (
+          name, category, due_date, due_at, due_timezone, grace_minutes,
+          description, status, user_id, is_admin_task, section_id, priority
+        ) VALUES (
+          v_task.name,
+          v_task.category,
+          v_task.due_date,
+          v_task.due_at,
+          v_task.due_timezone,
+          v_task.grace_minutes,
+          retarget_task_description(v_task.description, v_task.section_id, v_section_id),
+          v_task.status,
+          auth.uid(),
+          true,
+          v_section_id,
+          v_task.priority
+        )
+        RETURNING id INTO new_task_id;
+
+        v_created := v_created || jsonb_build_object(
+          new_task_id::text,
+          jsonb_build_object('source_id', v_id, 'name', v_task.name, 'section_id', v_section_id)
+        );
+      ELSE
+        v_failed := v_failed + 1;
+      END IF;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'off', true);
+
+  IF v_created = '{}'::jsonb THEN
+    RETURN;
+  END IF;
+
+  PERFORM write_admin_log(
+    'bulk_duplicate_tasks',
+    'tasks',
+    NULL,
+    NULL,
+    v_created,
+    jsonb_build_object(
+      'count', (SELECT count(*) FROM jsonb_object_keys(v_created)),
+      'failed', v_failed,
+      'sectionIds', to_jsonb(p_section_ids)
+    )
+  );
+END;
+$$;
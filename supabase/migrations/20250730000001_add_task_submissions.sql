@@ -0,0 +1,396 @@
+/*
+  # Student task submissions
+
+  1. Changes
+    - `tasks.requires_submission`: students are expected to turn work in
+      for the task
+
+  2. New Tables
+    - `task_submissions`: one per student and task, with an optional link
+      and note
+      - `submitted_at` is set by the database on every change; work
+        turned in after `due_at` but inside the grace period counts as late
+    - `task_submission_files`: files of a submission, stored in the
+      `task-attachments` bucket under `submissions/<task>/<user>/`
+
+  3. Security
+    - Students see and change only their own submission, and only while
+      the task accepts work (until `due_at` plus `grace_minutes`)
+    - Those who manage a task's section can read every submission to it
+    - The same goes for the files under `submissions/`, which clients
+      open through signed URLs. The bucket stays public for task
+      attachments, so a file's public URL still works for whoever knows
+      its exact path; paths end in a random ID and can no longer be
+      listed or read through the API.
+    - Students upload only into their own folder and only while the task
+      is open; files there can't be overwritten or moved, and are deleted
+      only while the task is open
+    - Purging a task from the trash removes its submission files too
+
+  4. Changes to existing functions
+    - Tasks duplicated to other sections keep `requires_submission`
+*/
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS requires_submission boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS task_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  link text,
+  note text,
+  submitted_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (task_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS task_submission_files (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  submission_id uuid NOT NULL REFERENCES task_submissions(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_size bigint NOT NULL DEFAULT 0,
+  mime_type text,
+  storage_path text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_submissions_task ON task_submissions(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_submission_files_submission ON task_submission_files(submission_id);
+
+-- Whether a task still takes submissions right now
+CREATE OR REPLACE FUNCTION public.task_accepts_submissions(p_task_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tasks t
+    WHERE t.id = p_task_id
+    AND t.requires_submission
+    AND t.deleted_at IS NULL
+    AND now() <= t.due_at + make_interval(mins => t.grace_minutes)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.task_accepts_submissions(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.stamp_task_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.submitted_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_task_submission ON task_submissions;
+CREATE TRIGGER stamp_task_submission
+  BEFORE INSERT OR UPDATE ON task_submissions
+  FOR EACH ROW EXECUTE FUNCTION stamp_task_submission();
+
+-- Adding or removing a file counts as turning the work in again
+CREATE OR REPLACE FUNCTION public.touch_task_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE task_submissions
+  SET submitted_at = now()
+  WHERE id = COALESCE(NEW.submission_id, OLD.submission_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_task_submission ON task_submission_files;
+CREATE TRIGGER touch_task_submission
+  AFTER INSERT OR DELETE ON task_submission_files
+  FOR EACH ROW EXECUTE FUNCTION touch_task_submission();
+
+ALTER TABLE task_submissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_submission_files ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students and task admins can read submissions" ON task_submissions;
+CREATE POLICY "Students and task admins can read submissions" ON task_submissions
+  FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR has_permission('manageTasks', (SELECT section_id FROM tasks WHERE id = task_id))
+  );
+
+DROP POLICY IF EXISTS "Students can submit while the task is open" ON task_submissions;
+CREATE POLICY "Students can submit while the task is open" ON task_submissions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND task_accepts_submissions(task_id)
+    -- Tasks RLS applies inside the subquery, so only visible tasks qualify
+    AND EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_id)
+  );
+
+DROP POLICY IF EXISTS "Students can change their submission while the task is open" ON task_submissions;
+CREATE POLICY "Students can change their submission while the task is open" ON task_submissions
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid() AND task_accepts_submissions(task_id))
+  WITH CHECK (user_id = auth.uid() AND task_accepts_submissions(task_id));
+
+DROP POLICY IF EXISTS "Students can withdraw their submission while the task is open" ON task_submissions;
+CREATE POLICY "Students can withdraw their submission while the task is open" ON task_submissions
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid() AND task_accepts_submissions(task_id));
+
+DROP POLICY IF EXISTS "Students and task admins can read submission files" ON task_submission_files;
+CREATE POLICY "Students and task admins can read submission files" ON task_submission_files
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM task_submissions s WHERE s.id = submission_id)
+  );
+
+DROP POLICY IF EXISTS "Students can add files while the task is open" ON task_submission_files;
+CREATE POLICY "Students can add files while the task is open" ON task_submission_files
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM task_submissions s
+      WHERE s.id = submission_id
+      AND s.user_id = auth.uid()
+      AND task_accepts_submissions(s.task_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Students can remove files while the task is open" ON task_submission_files;
+CREATE POLICY "Students can remove files while the task is open" ON task_submission_files
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM task_submissions s
+      WHERE s.id = submission_id
+      AND s.user_id = auth.uid()
+      AND task_accepts_submissions(s.task_id)
+    )
+  );
+
+-- The task, and the student, a file under submissions/<task>/<user>/
+-- belongs to; null for any other path
+CREATE OR REPLACE FUNCTION public.submission_object_task_id(p_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_name LIKE 'submissions/%'
+    AND split_part(p_name, '/', 2) ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+    THEN split_part(p_name, '/', 2)::uuid
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submission_object_user_id(p_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_name LIKE 'submissions/%'
+    AND split_part(p_name, '/', 3) ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+    THEN split_part(p_name, '/', 3)::uuid
+  END;
+$$;
+
+-- Whether the caller manages the task a submission file belongs to. Looks
+-- past tasks RLS so files of a trashed task stay with its admins.
+CREATE OR REPLACE FUNCTION public.can_manage_submission_object(p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tasks t
+    WHERE t.id = submission_object_task_id(p_name)
+    AND has_permission('manageTasks', t.section_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submission_object_task_id(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submission_object_user_id(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.can_manage_submission_object(text) TO anon, authenticated;
+
+-- The task-attachments bucket lets anyone read and lets owners update and
+-- delete. Restrictive policies are ANDed with those, so they narrow only
+-- the submissions/ folder and leave task attachments as they are.
+DROP POLICY IF EXISTS "Submission files are private" ON storage.objects;
+CREATE POLICY "Submission files are private"
+ON storage.objects AS RESTRICTIVE FOR SELECT
+TO public
+USING (
+  bucket_id <> 'task-attachments'
+  OR name NOT LIKE 'submissions/%'
+  OR submission_object_user_id(name) = auth.uid()
+  OR can_manage_submission_object(name)
+);
+
+DROP POLICY IF EXISTS "Students upload submission files while the task is open" ON storage.objects;
+CREATE POLICY "Students upload submission files while the task is open"
+ON storage.objects AS RESTRICTIVE FOR INSERT
+TO public
+WITH CHECK (
+  bucket_id <> 'task-attachments'
+  OR name NOT LIKE 'submissions/%'
+  OR (
+    submission_object_user_id(name) = auth.uid()
+    AND task_accepts_submissions(submission_object_task_id(name))
+  )
+);
+
+-- No overwriting (upsert) or moving files into or out of the folder
+DROP POLICY IF EXISTS "Submission files can't be changed" ON storage.objects;
+CREATE POLICY "Submission files can't be changed"
+ON storage.objects AS RESTRICTIVE FOR UPDATE
+TO public
+USING (bucket_id <> 'task-attachments' OR name NOT LIKE 'submissions/%')
+WITH CHECK (bucket_id <> 'task-attachments' OR name NOT LIKE 'submissions/%');
+
+DROP POLICY IF EXISTS "Students remove submission files while the task is open" ON storage.objects;
+CREATE POLICY "Students remove submission files while the task is open"
+ON storage.objects AS RESTRICTIVE FOR DELETE
+TO public
+USING (
+  bucket_id <> 'task-attachments'
+  OR name NOT LIKE 'submissions/%'
+  OR (
+    submission_object_user_id(name) = auth.uid()
+    AND task_accepts_submissions(submission_object_task_id(name))
+  )
+);
+
+-- Same as in 20250726000001, plus the files students turned in
+CREATE OR REPLACE FUNCTION public.trash_item_storage_paths(p_resource text, p_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(path) FILTER (WHERE path IS NOT NULL AND path <> ''), '{}')
+  FROM (
+    SELECT a.storage_path AS path
+    FROM task_attachments a
+    WHERE p_resource = 'tasks' AND a.task_id = p_id
+    UNION ALL
+    SELECT f.storage_path
+    FROM task_submission_files f
+    JOIN task_submissions s ON s.id = f.submission_id
+    WHERE p_resource = 'tasks' AND s.task_id = p_id
+    UNION ALL
+    SELECT regexp_replace(url, '^.*/storage/v1/object/public/task-attachments/', '')
+    FROM study_materials m, unnest(m.file_urls) AS url
+    WHERE (p_resource = 'study_materials' AND m.id = p_id)
+    OR (p_resource = 'courses' AND m.course_id = p_id)
+  ) files;
+$$;
+
+-- Same as in 20250729000001; copies also carry requires_submission
+CREATE OR REPLACE FUNCTION public.duplicate_tasks_to_sections(p_task_ids uuid[], p_section_ids uuid[])
+RETURNS TABLE (task_id uuid, section_id uuid, new_task_id uuid, error text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_id uuid;
+  v_section_id uuid;
+  v_task tasks;
+  v_task_error text;
+  v_created jsonb := '{}'::jsonb;
+  v_failed integer := 0;
+BEGIN
+  IF COALESCE(cardinality(p_section_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'No target sections given';
+  END IF;
+
+  FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+    PERFORM check_task_target_section(v_section_id);
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'on', true);
+
+  FOR v_id IN SELECT DISTINCT unnest(p_task_ids) LOOP
+    v_task := NULL;
+    SELECT * INTO v_task FROM tasks t WHERE t.id = v_id;
+    v_task_error := bulk_task_error(v_task);
+
+    FOR v_section_id IN SELECT DISTINCT unnest(p_section_ids) LOOP
+      task_id := v_id;
+      section_id := v_section_id;
+      new_task_id := NULL;
+      error := v_task_error;
+
+      IF error IS NULL AND v_task.section_id = v_section_id THEN
+        error := 'Task is already in this section';
+      END IF;
+
+      IF error IS NULL THEN
+        -- Inserting still notifies the section through notify_task_changes()
+        INSERT INTO tasks (
+          name, category, due_date, due_at, due_timezone, grace_minutes,
+          requires_submission, description, status, user_id, is_admin_task,
+          section_id, priority
+        ) VALUES (
+          v_task.name,
+          v_task.category,
+          v_task.due_date,
+          v_task.due_at,
+          v_task.due_timezone,
+          v_task.grace_minutes,
+          v_task.requires_submission,
+          retarget_task_description(v_task.description, v_task.section_id, v_section_id),
+          v_task.status,
+          auth.uid(),
+          true,
+          v_section_id,
+          v_task.priority
+        )
+        RETURNING id INTO new_task_id;
+
+        v_created := v_created || jsonb_build_object(
+          new_task_id::text,
+          jsonb_build_object('source_id', v_id, 'name', v_task.name, 'section_id', v_section_id)
+        );
+      ELSE
+        v_failed := v_failed + 1;
+      END IF;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+
+  PERFORM set_config('app.bulk_audit', 'off', true);
+
+  IF v_created = '{}'::jsonb THEN
+    RETURN;
+  END IF;
+
+  PERFORM write_admin_log(
+    'bulk_duplicate_tasks',
+    'tasks',
+    NULL,
+    NULL,
+    v_created,
+    jsonb_build_object(
+      'count', (SELECT count(*) FROM jsonb_object_keys(v_created)),
+      'failed', v_failed,
+      'sectionIds', to_jsonb(p_section_ids)
+    )
+  );
+END;
+$$;
@@ -0,0 +1,199 @@
+/*
+  # Comment and Q&A threads on tasks
+
+  1. New Tables
+    - `task_comments`: questions and comments on a task, with replies one
+      level deep (`parent_id`)
+      - `author_name` and `author_is_staff` are filled in on insert, so
+        threads render without reading other users' profiles
+      - `edited_at` is set whenever the body changes
+      - `is_pinned`: an answer pinned by someone who manages the task
+
+  2. Notifications
+    - New `task-comment` notification type
+    - A reply from task staff notifies the author of the question
+    - A new question notifies whoever created the task
+
+  3. Security
+    - Anyone who can see a task can read and post comments on it
+    - Authors can edit and delete their own comments
+    - Those who manage the task's section can pin and delete any comment
+*/
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES task_comments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_name text NOT NULL DEFAULT '',
+  author_is_staff boolean NOT NULL DEFAULT false,
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 4000),
+  is_pinned boolean NOT NULL DEFAULT false,
+  pinned_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  pinned_at timestamptz,
+  edited_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent ON task_comments(parent_id);
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS valid_notification_type;
+ALTER TABLE notifications ADD CONSTRAINT valid_notification_type CHECK (
+  type IN ('task', 'announcement', 'task-updated', 'deadline', 'routine-updated', 'task-comment')
+);
+
+CREATE OR REPLACE FUNCTION public.prepare_task_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_section_id uuid;
+  v_can_manage boolean;
+BEGIN
+  SELECT section_id INTO v_section_id FROM tasks WHERE id = NEW.task_id;
+  v_can_manage := has_permission('manageTasks', v_section_id);
+
+  IF TG_OP = 'INSERT' THEN
+    -- Replies stay one level deep and on the same task
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM task_comments
+      WHERE id = NEW.parent_id AND task_id = NEW.task_id AND parent_id IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Replies must answer a question on the same task';
+    END IF;
+
+    NEW.author_name := COALESCE((SELECT name FROM users WHERE id = NEW.user_id), '');
+    NEW.author_is_staff := v_can_manage;
+    NEW.is_pinned := false;
+    NEW.pinned_by := NULL;
+    NEW.pinned_at := NULL;
+    NEW.edited_at := NULL;
+    NEW.created_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.task_id <> OLD.task_id OR NEW.user_id <> OLD.user_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_name <> OLD.author_name OR NEW.author_is_staff <> OLD.author_is_staff
+    OR NEW.created_at <> OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the text and pin of a comment can change';
+  END IF;
+
+  IF NEW.body IS DISTINCT FROM OLD.body THEN
+    IF OLD.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the author can edit a comment';
+    END IF;
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  IF NEW.is_pinned IS DISTINCT FROM OLD.is_pinned THEN
+    IF NOT v_can_manage THEN
+      RAISE EXCEPTION 'Only task admins can pin answers';
+    END IF;
+    NEW.pinned_by := CASE WHEN NEW.is_pinned THEN auth.uid() END;
+    NEW.pinned_at := CASE WHEN NEW.is_pinned THEN now() END;
+  ELSE
+    NEW.pinned_by := OLD.pinned_by;
+    NEW.pinned_at := OLD.pinned_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_task_comment ON task_comments;
+CREATE TRIGGER prepare_task_comment
+  BEFORE INSERT OR UPDATE ON task_comments
+  FOR EACH ROW EXECUTE FUNCTION prepare_task_comment();
+
+CREATE OR REPLACE FUNCTION public.notify_task_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_parent task_comments%ROWTYPE;
+  v_excerpt text := left(regexp_replace(btrim(NEW.body), '\s+', ' ', 'g'), 140);
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = NEW.task_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM task_comments WHERE id = NEW.parent_id;
+
+    IF NEW.author_is_staff AND v_parent.user_id <> NEW.user_id THEN
+      INSERT INTO notifications (user_id, section_id, type, title, message, task_id, is_admin_task)
+      VALUES (
+        v_parent.user_id,
+        v_task.section_id,
+        'task-comment',
+        'Your question was answered',
+        format('%s replied on "%s": %s', COALESCE(NULLIF(NEW.author_name, ''), 'An admin'), v_task.name, v_excerpt),
+        v_task.id,
+        v_task.is_admin_task
+      );
+    END IF;
+  ELSIF v_task.user_id IS DISTINCT FROM NEW.user_id AND v_task.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, section_id, type, title, message, task_id, is_admin_task)
+    VALUES (
+      v_task.user_id,
+      v_task.section_id,
+      'task-comment',
+      'New question on a task',
+      format('%s asked on "%s": %s', COALESCE(NULLIF(NEW.author_name, ''), 'A student'), v_task.name, v_excerpt),
+      v_task.id,
+      v_task.is_admin_task
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_task_comment ON task_comments;
+CREATE TRIGGER notify_task_comment
+  AFTER INSERT ON task_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_task_comment();
+
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+
+-- Tasks RLS applies inside the subqueries, so visibility follows the task
+DROP POLICY IF EXISTS "Users can read comments on visible tasks" ON task_comments;
+CREATE POLICY "Users can read comments on visible tasks" ON task_comments
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_id));
+
+DROP POLICY IF EXISTS "Users can comment on visible tasks" ON task_comments;
+CREATE POLICY "Users can comment on visible tasks" ON task_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM tasks WHERE tasks.id = task_id)
+  );
+
+-- prepare_task_comment() decides which columns each of them may change
+DROP POLICY IF EXISTS "Authors and task admins can update comments" ON task_comments;
+CREATE POLICY "Authors and task admins can update comments" ON task_comments
+  FOR UPDATE TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR has_permission('manageTasks', (SELECT section_id FROM tasks WHERE tasks.id = task_id))
+  );
+
+DROP POLICY IF EXISTS "Authors and task admins can delete comments" ON task_comments;
+CREATE POLICY "Authors and task admins can delete comments" ON task_comments
+  FOR DELETE TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR has_permission('manageTasks', (SELECT section_id FROM tasks WHERE tasks.id = task_id))
+  );
+
+-- Stream thread changes to open task views
+ALTER PUBLICATION supabase_realtime ADD TABLE task_comments;
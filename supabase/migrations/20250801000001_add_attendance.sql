@@ -0,0 +1,194 @@
+/*
+  # Class attendance register
+
+  1. New Tables
+    - `attendance_sessions`: one register per routine slot and date
+      - `slot_id` has no foreign key; restoring a routine version deletes
+        and re-inserts its slots under the same ids, which would otherwise
+        take the registers with them
+      - course and time are copied from the slot when the register is
+        taken, so it keeps reading right after the routine changes
+    - `attendance_records`: the status of each student in a register
+      (`present`, `late`, `absent` or `excused`)
+    - `section_attendance_settings`: the percentage below which a
+      section's students are warned
+
+  2. Functions
+    - `save_attendance(slot, date, records)` writes a register and its
+      records in one go; the date has to fall on the slot's day and not be
+      in the future, and only students of the routine's section are kept
+
+  3. Security
+    - Those who manage a section's routines take its attendance and change
+      its threshold
+    - Students read the registers of their section and only their own
+      records
+*/
+
+CREATE TABLE IF NOT EXISTS attendance_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id uuid NOT NULL REFERENCES sections(id) ON DELETE CASCADE,
+  routine_id uuid REFERENCES routines(id) ON DELETE SET NULL,
+  slot_id uuid NOT NULL,
+  class_date date NOT NULL,
+  course_id uuid REFERENCES courses(id) ON DELETE SET NULL,
+  course_name text NOT NULL DEFAULT '',
+  course_code text,
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  taken_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (slot_id, class_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_sessions_section
+  ON attendance_sessions(section_id, class_date);
+
+CREATE TABLE IF NOT EXISTS attendance_records (
+  session_id uuid NOT NULL REFERENCES attendance_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  PRIMARY KEY (session_id, user_id),
+  CONSTRAINT valid_attendance_status CHECK (status IN ('present', 'late', 'absent', 'excused'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_records_user ON attendance_records(user_id);
+
+CREATE TABLE IF NOT EXISTS section_attendance_settings (
+  section_id uuid PRIMARY KEY REFERENCES sections(id) ON DELETE CASCADE,
+  min_percentage integer NOT NULL DEFAULT 75 CHECK (min_percentage BETWEEN 1 AND 100),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.save_attendance(
+  p_slot_id uuid,
+  p_class_date date,
+  p_records jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot routine_slots%ROWTYPE;
+  v_routine routines%ROWTYPE;
+  v_session_id uuid;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_slot FROM routine_slots WHERE id = p_slot_id AND deleted_at IS NULL;
+  IF v_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Class not found';
+  END IF;
+
+  SELECT * INTO v_routine FROM routines WHERE id = v_slot.routine_id AND deleted_at IS NULL;
+  IF v_routine.section_id IS NULL THEN
+    RAISE EXCEPTION 'Attendance is only taken for routines of a section';
+  END IF;
+
+  IF NOT has_permission('manageRoutines', v_routine.section_id) THEN
+    RAISE EXCEPTION 'Not allowed to take attendance for this section';
+  END IF;
+
+  IF to_char(p_class_date, 'FMDay') <> v_slot.day_of_week THEN
+    RAISE EXCEPTION 'This class is held on %, not on %', v_slot.day_of_week, p_class_date;
+  END IF;
+
+  IF p_class_date > app_today() THEN
+    RAISE EXCEPTION 'Attendance can''t be taken for a future class';
+  END IF;
+
+  INSERT INTO attendance_sessions (
+    section_id, routine_id, slot_id, class_date, course_id, course_name, course_code,
+    start_time, end_time, taken_by
+  )
+  SELECT
+    v_routine.section_id, v_routine.id, v_slot.id, p_class_date, v_slot.course_id,
+    COALESCE(c.name, v_slot.course_name, ''), c.code,
+    v_slot.start_time, v_slot.end_time, auth.uid()
+  FROM (SELECT 1) AS one
+  LEFT JOIN courses c ON c.id = v_slot.course_id
+  ON CONFLICT (slot_id, class_date) DO UPDATE
+  SET taken_by = EXCLUDED.taken_by,
+    updated_at = now()
+  RETURNING id INTO v_session_id;
+
+  DELETE FROM attendance_records WHERE session_id = v_session_id;
+
+  INSERT INTO attendance_records (session_id, user_id, status)
+  SELECT v_session_id, r.user_id, r.status
+  FROM jsonb_to_recordset(COALESCE(p_records, '[]'::jsonb)) AS r(user_id uuid, status text)
+  JOIN users u ON u.id = r.user_id AND u.section_id = v_routine.section_id
+  ON CONFLICT (session_id, user_id) DO UPDATE SET status = EXCLUDED.status;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  PERFORM write_admin_log(
+    'take_attendance',
+    'attendance_sessions',
+    v_session_id::text,
+    NULL,
+    NULL,
+    jsonb_build_object(
+      'sectionId', v_routine.section_id,
+      'slotId', v_slot.id,
+      'date', p_class_date,
+      'students', v_count
+    )
+  );
+
+  RETURN v_session_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_attendance(uuid, date, jsonb) TO authenticated;
+
+ALTER TABLE attendance_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attendance_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE section_attendance_settings ENABLE ROW LEVEL SECURITY;
+
+-- Registers are written through save_attendance() only
+DROP POLICY IF EXISTS "Section members can read attendance registers" ON attendance_sessions;
+CREATE POLICY "Section members can read attendance registers" ON attendance_sessions
+  FOR SELECT TO authenticated
+  USING (
+    section_id = (SELECT section_id FROM users WHERE id = auth.uid())
+    OR has_permission('manageRoutines', section_id)
+  );
+
+DROP POLICY IF EXISTS "Routine managers can delete attendance registers" ON attendance_sessions;
+CREATE POLICY "Routine managers can delete attendance registers" ON attendance_sessions
+  FOR DELETE TO authenticated
+  USING (has_permission('manageRoutines', section_id));
+
+DROP POLICY IF EXISTS "Students read their own attendance" ON attendance_records;
+CREATE POLICY "Students read their own attendance" ON attendance_records
+  FOR SELECT TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR has_permission(
+      'manageRoutines',
+      (SELECT section_id FROM attendance_sessions WHERE attendance_sessions.id = session_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Section members can read the attendance threshold" ON section_attendance_settings;
+CREATE POLICY "Section members can read the attendance threshold" ON section_attendance_settings
+  FOR SELECT TO authenticated
+  USING (
+    section_id = (SELECT section_id FROM users WHERE id = auth.uid())
+    OR has_permission('manageRoutines', section_id)
+  );
+
+DROP POLICY IF EXISTS "Routine managers can add the attendance threshold" ON section_attendance_settings;
+CREATE POLICY "Routine managers can add the attendance threshold" ON section_attendance_settings
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('manageRoutines', section_id));
+
+DROP POLICY IF EXISTS "Routine managers can change the attendance threshold" ON section_attendance_settings;
+CREATE POLICY "Routine managers can change the attendance threshold" ON section_attendance_settings
+  FOR UPDATE TO authenticated
+  USING (has_permission('manageRoutines', section_id))
+  WITH CHECK (has_permission('manageRoutines', section_id));
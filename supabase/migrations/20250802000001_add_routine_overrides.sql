@@ -0,0 +1,247 @@
+/*
+  # Date-specific routine changes
+
+  1. New Tables
+    - `routine_overrides`: a change to one date of a routine
+      - `cancel`: the class of `slot_id` on `class_date` doesn't happen
+      - `reschedule`: it moves to `new_date` (same day if empty) from
+        `start_time` to `end_time`, optionally in another room
+      - `room-change`: it happens as usual in `room_number`
+      - `makeup`: a one-off class on `class_date`; no slot, its own course,
+        times and room
+    - As with attendance registers, `slot_id` has no foreign key, so
+      restoring a routine version keeps the changes of its slots
+    - Course and teacher names are copied from the slot, so a change keeps
+      its title when the slot is edited later
+
+  2. Notifications
+    - Adding, editing or removing a change to a class that is still ahead
+      notifies the students of the routine's section (`routine-updated`)
+      while the routine is active
+
+  3. Security
+    - Everyone who can see the routine can see its changes
+    - Those who manage the section's routines add, edit and remove them
+*/
+
+CREATE TABLE IF NOT EXISTS routine_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  routine_id uuid NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  slot_id uuid,
+  kind text NOT NULL,
+  class_date date NOT NULL,
+  new_date date,
+  start_time time,
+  end_time time,
+  room_number text,
+  course_id uuid REFERENCES courses(id) ON DELETE SET NULL,
+  course_name text,
+  teacher_name text,
+  reason text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT valid_routine_override_kind CHECK (kind IN ('cancel', 'reschedule', 'room-change', 'makeup')),
+  CONSTRAINT routine_override_slot CHECK ((kind = 'makeup') = (slot_id IS NULL)),
+  CONSTRAINT routine_override_times CHECK (
+    (kind IN ('reschedule', 'makeup')) = (start_time IS NOT NULL AND end_time IS NOT NULL)
+    AND (start_time IS NULL OR start_time < end_time)
+  ),
+  CONSTRAINT routine_override_room CHECK (kind <> 'room-change' OR nullif(btrim(room_number), '') IS NOT NULL),
+  CONSTRAINT routine_override_new_date CHECK (kind = 'reschedule' OR new_date IS NULL)
+);
+
+-- One change per class and date
+CREATE UNIQUE INDEX IF NOT EXISTS idx_routine_overrides_slot_date
+  ON routine_overrides(slot_id, class_date)
+  WHERE slot_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_routine_overrides_routine
+  ON routine_overrides(routine_id, class_date);
+
+-- e.g. "Sun, 3 Aug"
+CREATE OR REPLACE FUNCTION public.format_class_date(p_date date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(p_date, 'Dy, FMDD Mon');
+$$;
+
+CREATE OR REPLACE FUNCTION public.prepare_routine_override()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot routine_slots%ROWTYPE;
+BEGIN
+  IF NEW.slot_id IS NOT NULL THEN
+    SELECT * INTO v_slot FROM routine_slots
+    WHERE id = NEW.slot_id AND routine_id = NEW.routine_id AND deleted_at IS NULL;
+
+    IF v_slot.id IS NULL THEN
+      RAISE EXCEPTION 'Class not found in this routine';
+    END IF;
+
+    IF to_char(NEW.class_date, 'FMDay') <> v_slot.day_of_week THEN
+      RAISE EXCEPTION 'This class is held on %, not on %', v_slot.day_of_week, NEW.class_date;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.slot_id IS DISTINCT FROM OLD.slot_id THEN
+      NEW.course_id := v_slot.course_id;
+      NEW.course_name := COALESCE(
+        (SELECT name FROM courses WHERE id = v_slot.course_id),
+        v_slot.course_name
+      );
+      NEW.teacher_name := v_slot.teacher_name;
+    END IF;
+  ELSIF NEW.course_id IS NOT NULL AND nullif(btrim(NEW.course_name), '') IS NULL THEN
+    NEW.course_name := (SELECT name FROM courses WHERE id = NEW.course_id);
+  END IF;
+
+  IF NEW.kind = 'makeup' AND nullif(btrim(NEW.course_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A make-up class needs a course';
+  END IF;
+
+  IF NEW.kind = 'reschedule' THEN
+    NEW.new_date := COALESCE(NEW.new_date, NEW.class_date);
+  END IF;
+
+  NEW.room_number := nullif(btrim(NEW.room_number), '');
+  NEW.reason := nullif(btrim(NEW.reason), '');
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+    NEW.created_at := now();
+  ELSE
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+  END IF;
+  NEW.updated_at := now();
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_routine_override ON routine_overrides;
+CREATE TRIGGER prepare_routine_override
+  BEFORE INSERT OR UPDATE ON routine_overrides
+  FOR EACH ROW EXECUTE FUNCTION prepare_routine_override();
+
+-- What students are told about a change, e.g.
+-- "CSE 101 on Sun, 3 Aug is cancelled: Teacher is ill"
+CREATE OR REPLACE FUNCTION public.describe_routine_override(p_override routine_overrides, p_removed boolean)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_course text := COALESCE(nullif(p_override.course_name, ''), 'Class');
+  v_date text := format_class_date(p_override.class_date);
+  v_message text;
+BEGIN
+  IF p_removed THEN
+    RETURN CASE p_override.kind
+      WHEN 'makeup' THEN format('The make-up class of %s on %s is called off', v_course, v_date)
+      ELSE format('%s on %s is back on its regular schedule', v_course, v_date)
+    END;
+  END IF;
+
+  v_message := CASE p_override.kind
+    WHEN 'cancel' THEN format('%s on %s is cancelled', v_course, v_date)
+    WHEN 'reschedule' THEN format(
+      '%s on %s moves to %s at %s%s',
+      v_course, v_date, format_class_date(p_override.new_date),
+      to_char(p_override.start_time, 'FMHH12:MI AM'),
+      COALESCE(', room ' || p_override.room_number, '')
+    )
+    WHEN 'room-change' THEN format('%s on %s is in room %s', v_course, v_date, p_override.room_number)
+    ELSE format(
+      'Make-up class of %s on %s at %s%s',
+      v_course, v_date, to_char(p_override.start_time, 'FMHH12:MI AM'),
+      COALESCE(', room ' || p_override.room_number, '')
+    )
+  END;
+
+  RETURN v_message || COALESCE(': ' || p_override.reason, '');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_routine_override()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_override routine_overrides := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  v_routine routines%ROWTYPE;
+  v_title text;
+BEGIN
+  -- Changes to classes that are over don't concern anyone anymore
+  IF GREATEST(v_override.class_date, COALESCE(v_override.new_date, v_override.class_date)) < app_today() THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_routine FROM routines WHERE id = v_override.routine_id;
+  IF NOT COALESCE(v_routine.is_active, false) OR v_routine.section_id IS NULL OR v_routine.deleted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_title := CASE
+    WHEN TG_OP = 'DELETE' THEN 'Class Change Withdrawn'
+    WHEN v_override.kind = 'cancel' THEN 'Class Cancelled'
+    WHEN v_override.kind = 'reschedule' THEN 'Class Rescheduled'
+    WHEN v_override.kind = 'room-change' THEN 'Room Changed'
+    ELSE 'Make-up Class'
+  END;
+
+  INSERT INTO notifications (user_id, section_id, type, title, message, routine_id)
+  SELECT
+    u.id,
+    u.section_id,
+    'routine-updated',
+    v_title,
+    describe_routine_override(v_override, TG_OP = 'DELETE'),
+    v_routine.id
+  FROM users u
+  WHERE u.section_id = v_routine.section_id
+  AND u.id IS DISTINCT FROM auth.uid();
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_routine_override ON routine_overrides;
+CREATE TRIGGER notify_routine_override
+  AFTER INSERT OR UPDATE OR DELETE ON routine_overrides
+  FOR EACH ROW EXECUTE FUNCTION notify_routine_override();
+
+ALTER TABLE routine_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Routines RLS applies inside the subquery, so visibility follows the routine
+DROP POLICY IF EXISTS "Users can read changes of visible routines" ON routine_overrides;
+CREATE POLICY "Users can read changes of visible routines" ON routine_overrides
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM routines WHERE routines.id = routine_id));
+
+DROP POLICY IF EXISTS "Routine managers can add changes" ON routine_overrides;
+CREATE POLICY "Routine managers can add changes" ON routine_overrides
+  FOR INSERT TO authenticated
+  WITH CHECK (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE routines.id = routine_id)));
+
+DROP POLICY IF EXISTS "Routine managers can edit changes" ON routine_overrides;
+CREATE POLICY "Routine managers can edit changes" ON routine_overrides
+  FOR UPDATE TO authenticated
+  USING (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE routines.id = routine_id)))
+  WITH CHECK (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE routines.id = routine_id)));
+
+DROP POLICY IF EXISTS "Routine managers can remove changes" ON routine_overrides;
+CREATE POLICY "Routine managers can remove changes" ON routine_overrides
+  FOR DELETE TO authenticated
+  USING (has_permission('manageRoutines', (SELECT section_id FROM routines WHERE routines.id = routine_id)));
+
+-- Open routine views reload when a change comes in
+ALTER PUBLICATION supabase_realtime ADD TABLE routine_overrides;
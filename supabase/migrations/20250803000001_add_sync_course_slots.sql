@@ -0,0 +1,139 @@
+/*
+  # Sync a course's routine slots in place
+
+  1. Functions
+    - `sync_course_slots` makes a course's slots in a routine match a list
+      of class times in one transaction
+      - A class time keeps the slot on the same day and start time, or
+        else another slot of the same day; those slots are updated in place
+      - Only class times left over are inserted, and only slots left over
+        are deleted
+
+  2. Notes
+    - Keeping slot IDs keeps the attendance registers, date changes and
+      task templates that refer to them
+    - The sync is recorded as one routine revision: only its last
+      statement records it
+
+  3. Security
+    - SECURITY INVOKER, so the `routine_slots` policies decide who may sync
+*/
+
+CREATE OR REPLACE FUNCTION public.sync_course_slots(
+  p_routine_id uuid,
+  p_course_id uuid,
+  p_slots jsonb
+)
+RETURNS SETOF routine_slots
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_existing routine_slots[];
+  v_kept uuid[] := '{}';
+  v_updates jsonb := '[]'::jsonb;
+  v_inserts jsonb := '[]'::jsonb;
+  v_unmatched jsonb := '[]'::jsonb;
+  v_wanted jsonb;
+  v_match uuid;
+  v_last text;
+BEGIN
+  SELECT coalesce(array_agg(s ORDER BY s.day_of_week, s.start_time, s.id), '{}')
+  INTO v_existing
+  FROM routine_slots s
+  WHERE s.routine_id = p_routine_id
+  AND s.course_id = p_course_id
+  AND s.deleted_at IS NULL;
+
+  -- Same day and start time first
+  FOR v_wanted IN SELECT value FROM jsonb_array_elements(coalesce(p_slots, '[]'::jsonb)) LOOP
+    SELECT s.id INTO v_match
+    FROM unnest(v_existing) s
+    WHERE s.day_of_week = v_wanted->>'day_of_week'
+    AND s.start_time = (v_wanted->>'start_time')::time
+    AND NOT s.id = ANY(v_kept)
+    LIMIT 1;
+
+    IF v_match IS NULL THEN
+      v_unmatched := v_unmatched || jsonb_build_array(v_wanted);
+    ELSE
+      v_kept := v_kept || v_match;
+      v_updates := v_updates || jsonb_build_array(v_wanted || jsonb_build_object('id', v_match));
+    END IF;
+  END LOOP;
+
+  -- Then a slot of the same day that moved to another time
+  FOR v_wanted IN SELECT value FROM jsonb_array_elements(v_unmatched) LOOP
+    SELECT s.id INTO v_match
+    FROM unnest(v_existing) s
+    WHERE s.day_of_week = v_wanted->>'day_of_week'
+    AND NOT s.id = ANY(v_kept)
+    ORDER BY s.start_time
+    LIMIT 1;
+
+    IF v_match IS NULL THEN
+      v_inserts := v_inserts || jsonb_build_array(v_wanted);
+    ELSE
+      v_kept := v_kept || v_match;
+      v_updates := v_updates || jsonb_build_array(v_wanted || jsonb_build_object('id', v_match));
+    END IF;
+  END LOOP;
+
+  -- Only the last statement that runs records the revision
+  v_last := CASE
+    WHEN jsonb_array_length(v_inserts) > 0 THEN 'insert'
+    WHEN jsonb_array_length(v_updates) > 0 THEN 'update'
+    ELSE 'delete'
+  END;
+
+  PERFORM set_config('nesttask.skip_routine_revision', CASE WHEN v_last = 'delete' THEN 'off' ELSE 'on' END, true);
+
+  DELETE FROM routine_slots
+  WHERE routine_id = p_routine_id
+  AND course_id = p_course_id
+  AND deleted_at IS NULL
+  AND NOT id = ANY(v_kept);
+
+  PERFORM set_config('nesttask.skip_routine_revision', CASE WHEN v_last = 'update' THEN 'off' ELSE 'on' END, true);
+
+  UPDATE routine_slots s
+  SET
+    teacher_id = w.teacher_id,
+    course_name = w.course_name,
+    teacher_name = w.teacher_name,
+    day_of_week = w.day_of_week,
+    start_time = w.start_time,
+    end_time = w.end_time,
+    room_number = w.room_number,
+    section = w.section
+  FROM jsonb_to_recordset(v_updates) AS w(
+    id uuid, teacher_id uuid, course_name text, teacher_name text,
+    day_of_week text, start_time time, end_time time, room_number text, section text
+  )
+  WHERE s.id = w.id;
+
+  PERFORM set_config('nesttask.skip_routine_revision', 'off', true);
+
+  INSERT INTO routine_slots (
+    routine_id, course_id, teacher_id, course_name, teacher_name,
+    day_of_week, start_time, end_time, room_number, section
+  )
+  SELECT
+    p_routine_id, p_course_id, w.teacher_id, w.course_name, w.teacher_name,
+    w.day_of_week, w.start_time, w.end_time, w.room_number, w.section
+  FROM jsonb_to_recordset(v_inserts) AS w(
+    teacher_id uuid, course_name text, teacher_name text,
+    day_of_week text, start_time time, end_time time, room_number text, section text
+  );
+
+  RETURN QUERY
+  SELECT * FROM routine_slots
+  WHERE routine_id = p_routine_id
+  AND course_id = p_course_id
+  AND deleted_at IS NULL
+  ORDER BY day_of_week, start_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sync_course_slots(uuid, uuid, jsonb) TO authenticated;